@@ -4,7 +4,7 @@ import i18n from "@dhis2/d2-i18n";
 import { useDataQuery } from "@dhis2/app-runtime";
 import { CircularLoader, NoticeBox } from "@dhis2/ui";
 import { AppAppearanceConfig } from "@packages/shared/schemas";
-import { DatastoreKeys, DatastoreNamespaces } from "@packages/shared/constants";
+import { DatastoreKeys, DraftDatastoreNamespaces } from "@packages/shared/constants";
 import { ModuleContainer } from "@/shared/components/ModuleContainer";
 import { AppearanceConfig } from "@/shared/components/appearance/AppearanceConfig/AppearanceConfig";
 import { MissingAppearanceConfig } from "@/shared/components/appearance/MissingAppearanceConfig";
@@ -12,7 +12,7 @@ import { MissingAppearanceConfig } from "@/shared/components/appearance/MissingA
 const query = {
 	appearanceConfig: {
 		resource: "dataStore",
-		id: `${DatastoreNamespaces.MAIN_CONFIG}/${DatastoreKeys.APPEARANCE}`,
+		id: `${DraftDatastoreNamespaces.MAIN_CONFIG}/${DatastoreKeys.APPEARANCE}`,
 	},
 };
 
@@ -4,6 +4,9 @@ import { useWatch } from "react-hook-form";
 import { DataServiceConfig } from "@packages/shared/schemas";
 import { SourceConfiguration } from "../../../../../shared/components/DataConfiguration/components/SourceConfiguration";
 import { DataItemsConfig } from "../../../../../shared/components/DataConfiguration/components/DataItemsConfig/DataItemsConfig";
+import { OrgUnitMappingConfig } from "../../../../../shared/components/DataConfiguration/components/OrgUnitMappingConfig/OrgUnitMappingConfig";
+import { NotificationsConfig } from "../../../../../shared/components/DataConfiguration/components/NotificationsConfig/NotificationsConfig";
+import { RetryPolicyConfig } from "../../../../../shared/components/DataConfiguration/components/RetryPolicyConfig/RetryPolicyConfig";
 import { Button, IconArrowLeft24 } from "@dhis2/ui";
 import i18n from "@dhis2/d2-i18n";
 
@@ -39,6 +42,9 @@ function RouteComponent() {
 			<div className="flex-1 flex flex-col gap-4">
 				<SourceConfiguration />
 				<DataItemsConfig />
+				<OrgUnitMappingConfig />
+				<NotificationsConfig />
+				<RetryPolicyConfig />
 			</div>
 		</div>
 	);
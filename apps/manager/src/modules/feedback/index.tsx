@@ -0,0 +1,17 @@
+import { createFileRoute } from "@tanstack/react-router";
+import React from "react";
+import { FeedbackPage } from "@/shared/components/FeedbackPage/FeedbackPage";
+import { ModuleContainer } from "@/shared/components/ModuleContainer";
+import i18n from "@dhis2/d2-i18n";
+
+export const Route = createFileRoute("/feedback/")({
+	component: RouteComponent,
+});
+
+function RouteComponent() {
+	return (
+		<ModuleContainer title={i18n.t("Feedback")}>
+			<FeedbackPage />
+		</ModuleContainer>
+	);
+}
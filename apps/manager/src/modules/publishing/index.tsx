@@ -0,0 +1,17 @@
+import { createFileRoute } from "@tanstack/react-router";
+import React from "react";
+import { PublishingPage } from "@/shared/components/PublishingPage/PublishingPage";
+import { ModuleContainer } from "@/shared/components/ModuleContainer";
+import i18n from "@dhis2/d2-i18n";
+
+export const Route = createFileRoute("/publishing/")({
+	component: RouteComponent,
+});
+
+function RouteComponent() {
+	return (
+		<ModuleContainer title={i18n.t("Publishing")}>
+			<PublishingPage />
+		</ModuleContainer>
+	);
+}
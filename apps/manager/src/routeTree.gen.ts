@@ -12,6 +12,9 @@ import { createFileRoute } from '@tanstack/react-router'
 
 import { Route as rootRouteImport } from './modules/__root'
 import { Route as ConfigurationIndexRouteImport } from './modules/configuration/index'
+import { Route as PublishingIndexRouteImport } from './modules/publishing/index'
+import { Route as TranslationsIndexRouteImport } from './modules/translations/index'
+import { Route as FeedbackIndexRouteImport } from './modules/feedback/index'
 import { Route as ModulesProviderRouteImport } from './modules/modules/_provider'
 import { Route as MenuProviderRouteImport } from './modules/menu/_provider'
 import { Route as GeneralProviderRouteImport } from './modules/general/_provider'
@@ -59,6 +62,21 @@ const ConfigurationIndexRoute = ConfigurationIndexRouteImport.update({
   path: '/configuration/',
   getParentRoute: () => rootRouteImport,
 } as any)
+const PublishingIndexRoute = PublishingIndexRouteImport.update({
+  id: '/publishing/',
+  path: '/publishing/',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const TranslationsIndexRoute = TranslationsIndexRouteImport.update({
+  id: '/translations/',
+  path: '/translations/',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const FeedbackIndexRoute = FeedbackIndexRouteImport.update({
+  id: '/feedback/',
+  path: '/feedback/',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const ModulesProviderRoute = ModulesProviderRouteImport.update({
   id: '/modules/_provider',
   path: '/modules',
@@ -216,6 +234,9 @@ export interface FileRoutesByFullPath {
   '/menu': typeof MenuProviderRouteWithChildren
   '/modules': typeof ModulesProviderRouteWithChildren
   '/configuration': typeof ConfigurationIndexRoute
+  '/publishing': typeof PublishingIndexRoute
+  '/translations': typeof TranslationsIndexRoute
+  '/feedback': typeof FeedbackIndexRoute
   '/modules/': typeof ModulesProviderIndexRoute
   '/appearance/': typeof AppearanceProviderIndexLazyRoute
   '/data-service-configuration/': typeof DataServiceConfigurationProviderIndexLazyRoute
@@ -236,6 +257,9 @@ export interface FileRoutesByFullPath {
 export interface FileRoutesByTo {
   '/': typeof IndexLazyRoute
   '/configuration': typeof ConfigurationIndexRoute
+  '/publishing': typeof PublishingIndexRoute
+  '/translations': typeof TranslationsIndexRoute
+  '/feedback': typeof FeedbackIndexRoute
   '/modules': typeof ModulesProviderIndexRoute
   '/appearance': typeof AppearanceProviderIndexLazyRoute
   '/data-service-configuration': typeof DataServiceConfigurationProviderIndexLazyRoute
@@ -261,6 +285,9 @@ export interface FileRoutesById {
   '/menu/_provider': typeof MenuProviderRouteWithChildren
   '/modules/_provider': typeof ModulesProviderRouteWithChildren
   '/configuration/': typeof ConfigurationIndexRoute
+  '/publishing/': typeof PublishingIndexRoute
+  '/translations/': typeof TranslationsIndexRoute
+  '/feedback/': typeof FeedbackIndexRoute
   '/modules/_provider/': typeof ModulesProviderIndexRoute
   '/appearance/_provider/': typeof AppearanceProviderIndexLazyRoute
   '/data-service-configuration/_provider/': typeof DataServiceConfigurationProviderIndexLazyRoute
@@ -288,6 +315,9 @@ export interface FileRouteTypes {
     | '/menu'
     | '/modules'
     | '/configuration'
+    | '/publishing'
+    | '/translations'
+    | '/feedback'
     | '/modules/'
     | '/appearance/'
     | '/data-service-configuration/'
@@ -308,6 +338,9 @@ export interface FileRouteTypes {
   to:
     | '/'
     | '/configuration'
+    | '/publishing'
+    | '/translations'
+    | '/feedback'
     | '/modules'
     | '/appearance'
     | '/data-service-configuration'
@@ -332,6 +365,9 @@ export interface FileRouteTypes {
     | '/menu/_provider'
     | '/modules/_provider'
     | '/configuration/'
+    | '/publishing/'
+    | '/translations/'
+    | '/feedback/'
     | '/modules/_provider/'
     | '/appearance/_provider/'
     | '/data-service-configuration/_provider/'
@@ -358,6 +394,9 @@ export interface RootRouteChildren {
   MenuProviderRoute: typeof MenuProviderRouteWithChildren
   ModulesProviderRoute: typeof ModulesProviderRouteWithChildren
   ConfigurationIndexRoute: typeof ConfigurationIndexRoute
+  PublishingIndexRoute: typeof PublishingIndexRoute
+  TranslationsIndexRoute: typeof TranslationsIndexRoute
+  FeedbackIndexRoute: typeof FeedbackIndexRoute
 }
 
 declare module '@tanstack/react-router' {
@@ -376,6 +415,27 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ConfigurationIndexRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/publishing/': {
+      id: '/publishing/'
+      path: '/publishing'
+      fullPath: '/publishing'
+      preLoaderRoute: typeof PublishingIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/translations/': {
+      id: '/translations/'
+      path: '/translations'
+      fullPath: '/translations'
+      preLoaderRoute: typeof TranslationsIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/feedback/': {
+      id: '/feedback/'
+      path: '/feedback'
+      fullPath: '/feedback'
+      preLoaderRoute: typeof FeedbackIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/modules/_provider': {
       id: '/modules/_provider'
       path: '/modules'
@@ -654,6 +714,9 @@ const rootRouteChildren: RootRouteChildren = {
   MenuProviderRoute: MenuProviderRouteWithChildren,
   ModulesProviderRoute: ModulesProviderRouteWithChildren,
   ConfigurationIndexRoute: ConfigurationIndexRoute,
+  PublishingIndexRoute: PublishingIndexRoute,
+  TranslationsIndexRoute: TranslationsIndexRoute,
+  FeedbackIndexRoute: FeedbackIndexRoute,
 }
 export const routeTree = rootRouteImport
   ._addFileChildren(rootRouteChildren)
@@ -1,7 +1,12 @@
 import { Button, IconArrowDown16 } from "@dhis2/ui";
 import React, { useCallback, useState } from "react";
 import JSZip from "jszip";
-import { DatastoreKeys, DatastoreNamespaces } from "@packages/shared/constants";
+import {
+	DatastoreKeys,
+	DatastoreNamespaces,
+	getDraftNamespace,
+	getStaticItemsDraftNamespace,
+} from "@packages/shared/constants";
 import {
 	AppAppearanceConfig,
 	AppMenuConfig,
@@ -42,7 +47,7 @@ export const ExportSection = ({ setLogs }: ExportSectionProps) => {
 					const data = {};
 					for (const key of Object.values(DatastoreKeys)) {
 						const value = await getValue(
-							namespace,
+							getDraftNamespace(namespace),
 							key,
 							addLog(setLogs),
 						);
@@ -81,13 +86,13 @@ export const ExportSection = ({ setLogs }: ExportSectionProps) => {
 					);
 				} else {
 					const keys = await getKeysInNamespace(
-						namespace,
+						getDraftNamespace(namespace),
 						addLog(setLogs),
 					);
 					const items: any[] = [];
 					for (const key of keys) {
 						const item = await getValue(
-							namespace,
+							getDraftNamespace(namespace),
 							key,
 							addLog(setLogs),
 						);
@@ -120,9 +125,11 @@ export const ExportSection = ({ setLogs }: ExportSectionProps) => {
 									!exportedStaticNamespaces.has((module.config as StaticModuleConfig).namespace)
 								) {
 									const staticNamespace = (module.config as StaticModuleConfig).namespace;
-									const staticKeys = await getKeysInNamespace(staticNamespace, addLog(setLogs));
+									// The draft items are exported under the live namespace, like the other namespaces
+									const staticDraftNamespace = getStaticItemsDraftNamespace(staticNamespace);
+									const staticKeys = await getKeysInNamespace(staticDraftNamespace, addLog(setLogs));
 									const staticItems = await Promise.all(
-										staticKeys.map((sKey) => getValue(staticNamespace, sKey, addLog(setLogs))),
+										staticKeys.map((sKey) => getValue(staticDraftNamespace, sKey, addLog(setLogs))),
 									);
 									zip.file(
 										`${staticNamespace}.json`,
@@ -1,7 +1,13 @@
 import { Button, FileInputField, IconArrowUp16 } from "@dhis2/ui";
 import React, { useCallback, useState } from "react";
 import JSZip from "jszip";
-import { DatastoreKeys, DatastoreNamespaces } from "@packages/shared/constants";
+import {
+	DatastoreKeys,
+	DatastoreNamespaces,
+	getDraftNamespace,
+	getStaticItemsDraftNamespace,
+	getStaticItemsNamespaces,
+} from "@packages/shared/constants";
 import i18n from "@dhis2/d2-i18n";
 import { DocumentDetails, getContentTypeFromExtension, LogEntry, useConfiguration } from "../utils/configurationUtils";
 import { useFile } from "../hooks/file";
@@ -89,6 +95,12 @@ export const ImportSection = ({ setLogs }: ImportSectionProps) => {
 				addLog(setLogs)("documents.json not found in ZIP", "warning");
 			}
 
+			// Items of the static modules are imported into their draft namespaces
+			const modulesFile = loadedZip.files[`${DatastoreNamespaces.MODULES}.json`];
+			const staticItemsNamespaces = modulesFile
+				? getStaticItemsNamespaces(JSON.parse(await modulesFile.async("string")))
+				: [];
+
 			for (const filename in loadedZip.files) {
 				if (
 					filename.endsWith(".json") &&
@@ -111,7 +123,7 @@ export const ImportSection = ({ setLogs }: ImportSectionProps) => {
 								)
 							) {
 								await setValue(
-									namespace,
+									getDraftNamespace(namespace),
 									key,
 									data[key],
 									addLog(setLogs),
@@ -123,10 +135,13 @@ export const ImportSection = ({ setLogs }: ImportSectionProps) => {
 							}
 						}
 					} else if (Array.isArray(data)) {
+						const draftNamespace = staticItemsNamespaces.includes(namespace)
+							? getStaticItemsDraftNamespace(namespace)
+							: getDraftNamespace(namespace);
 						for (const item of data) {
 							if (item?.id) {
 								await setValue(
-									namespace,
+									draftNamespace,
 									item.id,
 									item,
 									addLog(setLogs),
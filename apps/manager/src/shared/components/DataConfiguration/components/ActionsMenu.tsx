@@ -10,6 +10,7 @@ import {
 	IconTerminalWindow16,
 	IconDelete16,
 	IconImportItems24,
+	IconClock16,
 } from "@dhis2/ui";
 import { DataServiceConfig } from "@packages/shared/schemas";
 import { useNavigate } from "@tanstack/react-router";
@@ -20,6 +21,7 @@ import { useBoolean } from "usehooks-ts";
 import { RunConfigForm } from "./RunConfiguration/components/RunConfigForm/RunConfigForm";
 import { RunConfigSummaryModal } from "./RunConfiguration/components/RunConfigSummary/components/RunConfigSummaryModal";
 import { FailedQueueModal } from "./RunConfiguration/components/RunConfigSummary/components/FailedQueueModal";
+import { RunSchedulesModal } from "./RunConfiguration/components/RunSchedules/RunSchedulesModal";
 import { usePollingControl } from "../providers/PollingProvider";
 
 export function ActionsMenu({ config }: { config: DataServiceConfig }) {
@@ -50,6 +52,12 @@ export function ActionsMenu({ config }: { config: DataServiceConfig }) {
 		setFalse: onShowFailedModal,
 	} = useBoolean(true);
 
+	const {
+		value: hideSchedulesModal,
+		setTrue: onCloseSchedulesModal,
+		setFalse: onShowSchedulesModal,
+	} = useBoolean(true);
+
 	const [selectedProcessType, setSelectedProcessType] = useState<string | undefined>(undefined);
 
 	const handleEdit = () => {
@@ -84,6 +92,17 @@ export function ActionsMenu({ config }: { config: DataServiceConfig }) {
 		onCloseSummaryModal();
 	};
 
+	const handleManageSchedules = () => {
+		setIsOpen(false);
+		pausePolling();
+		onShowSchedulesModal();
+	};
+
+	const handleCloseSchedulesModal = () => {
+		resumePolling();
+		onCloseSchedulesModal();
+	};
+
 	const handleOpenFailedModal = (processType: string) => {
 		setSelectedProcessType(processType);
 		pausePolling();
@@ -99,11 +118,22 @@ export function ActionsMenu({ config }: { config: DataServiceConfig }) {
 
 	useEffect(() => {
 		return () => {
-			if (!hideRunModal || !hideSummaryModal || !hideFailedModal) {
+			if (
+				!hideRunModal ||
+				!hideSummaryModal ||
+				!hideFailedModal ||
+				!hideSchedulesModal
+			) {
 				resumePolling();
 			}
 		};
-	}, [hideRunModal, hideSummaryModal, hideFailedModal, resumePolling]);
+	}, [
+		hideRunModal,
+		hideSummaryModal,
+		hideFailedModal,
+		hideSchedulesModal,
+		resumePolling,
+	]);
 
 	const handleDelete = () => {
 		setIsOpen(false);
@@ -149,6 +179,13 @@ export function ActionsMenu({ config }: { config: DataServiceConfig }) {
 					processType={selectedProcessType}
 				/>
 			)}
+			{!hideSchedulesModal && (
+				<RunSchedulesModal
+					hide={hideSchedulesModal}
+					onClose={handleCloseSchedulesModal}
+					config={config}
+				/>
+			)}
 
 			<div ref={buttonRef as any}>
 				<Button
@@ -182,6 +219,11 @@ export function ActionsMenu({ config }: { config: DataServiceConfig }) {
 							icon={<IconTerminalWindow16 />}
 							onClick={handleViewOverview}
 						/>
+						<MenuItem
+							label={i18n.t("Manage schedules")}
+							icon={<IconClock16 />}
+							onClick={handleManageSchedules}
+						/>
 						<Divider />
 						<MenuItem
 							label={i18n.t("Delete connection")}
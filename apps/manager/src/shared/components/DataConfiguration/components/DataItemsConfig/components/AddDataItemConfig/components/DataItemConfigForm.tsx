@@ -25,6 +25,8 @@ import { RHFIDField } from "../../../../../../Fields/IDField";
 import { RHFNumberField } from "../../../../../../Fields/RHFNumberField";
 import { RHFOrgUnitField } from "../../../../../../Fields/RHFOrgUnitField";
 import { MappedDataItemsSelector } from "./MappedDataItemsSelector";
+import { SuppressionFields } from "./SuppressionFields";
+import { FileFields } from "./FileFields";
 import { useParams } from "@tanstack/react-router";
 
 export function DataItemConfigForm({
@@ -43,6 +45,9 @@ export function DataItemConfigForm({
 		defaultValues: data,
 	});
 	const action = data ? i18n.t("Update") : i18n.t("Create");
+	const type = form.watch("type");
+	const isFileSource =
+		type === DataServiceSupportedDataSourcesType.FILE_VALUES;
 
 	const { configId } = useParams({
 		from: "/data-service-configuration/_provider/$configId/_provider",
@@ -95,30 +100,41 @@ export function DataItemConfigForm({
 								};
 							})}
 						/>
-						<RHFOrgUnitField
-							required
-							name="parentOrgUnitId"
-							label={i18n.t("Parent organisation unit")}
-							helpText={i18n.t(
-								"The top level organisation unit on the source to fetch data from",
-							)}
-							singleSelection={true}
-						/>
-						<RHFNumberField
-							required
-							name="orgUnitLevel"
-							label={i18n.t("Organisation unit level")}
-							helpText={i18n.t(
-								"Organisation unit level at the source to pull data from",
-							)}
-						/>
+						{isFileSource ? (
+							<FileFields />
+						) : (
+							<>
+								<RHFOrgUnitField
+									required
+									name="parentOrgUnitId"
+									label={i18n.t("Parent organisation unit")}
+									helpText={i18n.t(
+										"The top level organisation unit on the source to fetch data from",
+									)}
+									singleSelection={true}
+								/>
+								<RHFNumberField
+									required
+									name="orgUnitLevel"
+									label={i18n.t("Organisation unit level")}
+									helpText={i18n.t(
+										"Organisation unit level at the source to pull data from",
+									)}
+								/>
+							</>
+						)}
 						<MappedDataItemsSelector
 							configId={configId}
 							name="dataItems"
 							label={i18n.t("Data items")}
-							required
-							helpText={i18n.t("Select data items from the pre-mapped items created during metadata migration")}
+							required={!isFileSource}
+							helpText={
+								isFileSource
+									? i18n.t("Optionally map data elements of the file to the destination, e.g. to transform their values. Unmapped data elements are uploaded as they are")
+									: i18n.t("Select data items from the pre-mapped items created during metadata migration")
+							}
 						/>
+						<SuppressionFields />
 					</form>
 				</ModalContent>
 				<ModalActions>
@@ -0,0 +1,278 @@
+import React, { useMemo } from "react";
+import {
+	Button,
+	ButtonStrip,
+	Field,
+	IconAdd24,
+	IconDelete16,
+	Modal,
+	ModalActions,
+	ModalContent,
+	ModalTitle,
+	NoticeBox,
+} from "@dhis2/ui";
+import i18n from "@dhis2/d2-i18n";
+import { useDataQuery } from "@dhis2/app-runtime";
+import { FormProvider, useFieldArray, useForm } from "react-hook-form";
+import { RHFSingleSelectField, RHFTextInputField } from "@hisptz/dhis2-ui";
+import {
+	DataServiceDataItemConfig,
+	DataServiceDataItemTransform,
+} from "@packages/shared/schemas";
+import { isEmpty, isNil, omitBy } from "lodash";
+import { RHFNumberField } from "../../../../../../Fields/RHFNumberField";
+
+const categoryOptionCombosQuery = {
+	dataElement: {
+		resource: "dataElements",
+		id: ({ id }: { id: string }) => id,
+		params: {
+			fields: "categoryCombo[categoryOptionCombos[id,displayName]]",
+		},
+	},
+};
+
+type CategoryOptionCombosQueryResponse = {
+	dataElement: {
+		categoryCombo?: {
+			categoryOptionCombos: Array<{ id: string; displayName: string }>;
+		};
+	};
+};
+
+/*
+ * Number fields are set to `null` when cleared, they are removed so that the transform only holds the configured rules
+ * */
+function sanitizeTransform(
+	values: DataServiceDataItemTransform,
+): DataServiceDataItemTransform | undefined {
+	const unitConversion =
+		isNil(values.unitConversion?.factor) &&
+		isNil(values.unitConversion?.offset)
+			? undefined
+			: omitBy(
+					{
+						factor: values.unitConversion?.factor ?? 1,
+						offset: values.unitConversion?.offset,
+					},
+					isNil,
+				);
+	const categoryOptionCombos = values.categoryOptionCombos?.filter(
+		({ id, sourceId }) => !!id && !!sourceId,
+	);
+	const transform = omitBy(
+		{
+			minimumValue: values.minimumValue,
+			scaleFactor: values.scaleFactor,
+			unitConversion,
+			decimals: values.decimals,
+			categoryOptionCombos: isEmpty(categoryOptionCombos)
+				? undefined
+				: categoryOptionCombos,
+		},
+		isNil,
+	) as DataServiceDataItemTransform;
+
+	return isEmpty(transform) ? undefined : transform;
+}
+
+function CategoryOptionComboMappingFields({
+	dataElementId,
+}: {
+	dataElementId: string;
+}) {
+	const { fields, append, remove } = useFieldArray<
+		DataServiceDataItemTransform,
+		"categoryOptionCombos"
+	>({
+		name: "categoryOptionCombos",
+		keyName: "key" as unknown as "id",
+	});
+	const { data, error } = useDataQuery<CategoryOptionCombosQueryResponse>(
+		categoryOptionCombosQuery,
+		{
+			variables: {
+				id: dataElementId,
+			},
+		},
+	);
+
+	const options = useMemo(
+		() =>
+			data?.dataElement?.categoryCombo?.categoryOptionCombos?.map(
+				({ id, displayName }) => ({
+					label: displayName,
+					value: id,
+				}),
+			) ?? [],
+		[data],
+	);
+
+	return (
+		<Field
+			label={i18n.t("Category option combo mapping")}
+			helpText={
+				error
+					? `${i18n.t("Could not get category option combos")}: ${error.message}`
+					: i18n.t(
+							"Values of the source category option combo are uploaded to the selected destination category option combo. Unmapped combos are matched by ID, then by name.",
+						)
+			}
+		>
+			<div className="flex flex-col gap-2">
+				{fields.map((field, index) => (
+					<div className="flex gap-2 items-end" key={field.key}>
+						<div className="flex-1">
+							<RHFTextInputField
+								required
+								name={`categoryOptionCombos.${index}.sourceId`}
+								label={i18n.t(
+									"Source category option combo ID",
+								)}
+							/>
+						</div>
+						<div className="flex-1">
+							<RHFSingleSelectField
+								required
+								name={`categoryOptionCombos.${index}.id`}
+								label={i18n.t(
+									"Destination category option combo",
+								)}
+								options={options}
+							/>
+						</div>
+						<Button
+							small
+							icon={<IconDelete16 />}
+							onClick={() => remove(index)}
+						/>
+					</div>
+				))}
+				<ButtonStrip>
+					<Button
+						small
+						icon={<IconAdd24 />}
+						onClick={() => append({ sourceId: "", id: "" })}
+					>
+						{i18n.t("Add category option combo mapping")}
+					</Button>
+				</ButtonStrip>
+			</div>
+		</Field>
+	);
+}
+
+export function DataItemTransformModal({
+	dataItem,
+	label,
+	onClose,
+	onSave,
+}: {
+	dataItem: DataServiceDataItemConfig;
+	label: string;
+	onClose: () => void;
+	onSave: (transform?: DataServiceDataItemTransform) => void;
+}) {
+	const form = useForm<DataServiceDataItemTransform>({
+		defaultValues: dataItem.transform ?? {},
+	});
+	const isDisaggregated =
+		dataItem.id.includes(".") && dataItem.sourceId.includes(".");
+
+	const onSubmit = (values: DataServiceDataItemTransform) => {
+		onSave(sanitizeTransform(values));
+		onClose();
+	};
+
+	return (
+		<FormProvider {...form}>
+			<Modal position="middle" onClose={onClose}>
+				<ModalTitle>
+					{i18n.t("Transformations of {{label}}", { label })}
+				</ModalTitle>
+				<ModalContent>
+					<form className="flex flex-col gap-4">
+						<RHFNumberField
+							name="minimumValue"
+							label={i18n.t("Minimum value")}
+							helpText={i18n.t(
+								"Values below this are not uploaded, e.g. 5 to suppress small numbers",
+							)}
+						/>
+						<RHFNumberField
+							name="scaleFactor"
+							label={i18n.t("Scale factor")}
+							helpText={i18n.t(
+								"Values are multiplied by this factor, e.g. 0.001 to report in thousands",
+							)}
+						/>
+						<div className="flex gap-2">
+							<div className="flex-1">
+								<RHFNumberField
+									name="unitConversion.factor"
+									label={i18n.t("Unit conversion factor")}
+								/>
+							</div>
+							<div className="flex-1">
+								<RHFNumberField
+									name="unitConversion.offset"
+									label={i18n.t("Unit conversion offset")}
+								/>
+							</div>
+						</div>
+						<span className="text-sm text-gray-500">
+							{i18n.t(
+								"Converted values are value × factor + offset, e.g. a factor of 1.8 and an offset of 32 converts °C to °F",
+							)}
+						</span>
+						<RHFNumberField
+							name="decimals"
+							label={i18n.t("Decimal places")}
+							helpText={i18n.t(
+								"Values are rounded to this number of decimal places",
+							)}
+							min="0"
+							step="1"
+							validations={{
+								min: {
+									value: 0,
+									message: i18n.t(
+										"Decimal places can not be negative",
+									),
+								},
+								validate: (value?: number | null) =>
+									isNil(value) ||
+									Number.isInteger(value) ||
+									i18n.t(
+										"Decimal places must be a whole number",
+									),
+							}}
+						/>
+						{isDisaggregated ? (
+							<NoticeBox>
+								{i18n.t(
+									"This data item is mapped to a single category option combo, category option combos can only be remapped on data items mapped by data element.",
+								)}
+							</NoticeBox>
+						) : (
+							<CategoryOptionComboMappingFields
+								dataElementId={dataItem.id.split(".")[0]}
+							/>
+						)}
+					</form>
+				</ModalContent>
+				<ModalActions>
+					<ButtonStrip>
+						<Button onClick={onClose}>{i18n.t("Cancel")}</Button>
+						<Button
+							primary
+							onClick={(_, e) => form.handleSubmit(onSubmit)(e)}
+						>
+							{i18n.t("Save")}
+						</Button>
+					</ButtonStrip>
+				</ModalActions>
+			</Modal>
+		</FormProvider>
+	);
+}
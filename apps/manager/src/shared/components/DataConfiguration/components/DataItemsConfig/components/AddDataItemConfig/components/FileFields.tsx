@@ -0,0 +1,73 @@
+import { useWatch } from "react-hook-form";
+import {
+	DataServiceDataSourceItemsConfig,
+	DataServiceFileFormat,
+} from "@packages/shared/schemas";
+import React from "react";
+import { RHFSingleSelectField, RHFTextInputField } from "@hisptz/dhis2-ui";
+import i18n from "@dhis2/d2-i18n";
+import { Field } from "@dhis2/ui";
+
+export function FileFields() {
+	const format = useWatch<DataServiceDataSourceItemsConfig, "format">({
+		name: "format",
+	});
+	const columnLabel =
+		format === DataServiceFileFormat.JSON
+			? i18n.t("property")
+			: i18n.t("column");
+
+	return (
+		<>
+			<RHFSingleSelectField
+				required
+				name="format"
+				label={i18n.t("File format")}
+				options={Object.values(DataServiceFileFormat).map((value) => ({
+					label: value,
+					value,
+				}))}
+			/>
+			<Field
+				label={i18n.t("Column mapping")}
+				helpText={i18n.t(
+					"Names of the columns of the CSV file, or properties of the JSON data values, that contain each field of a data value",
+				)}
+			>
+				<div className="flex flex-col gap-2">
+					<RHFTextInputField
+						required
+						name="columnMapping.dataElement"
+						label={`${i18n.t("Data element")} ${columnLabel}`}
+					/>
+					<RHFTextInputField
+						required
+						name="columnMapping.period"
+						label={`${i18n.t("Period")} ${columnLabel}`}
+					/>
+					<RHFTextInputField
+						required
+						name="columnMapping.orgUnit"
+						label={`${i18n.t("Organisation unit")} ${columnLabel}`}
+					/>
+					<RHFTextInputField
+						name="columnMapping.categoryOptionCombo"
+						label={`${i18n.t("Category option combo")} ${columnLabel}`}
+						helpText={i18n.t(
+							"Leave empty to upload values to the default category option combo",
+						)}
+					/>
+					<RHFTextInputField
+						name="columnMapping.attributeOptionCombo"
+						label={`${i18n.t("Attribute option combo")} ${columnLabel}`}
+					/>
+					<RHFTextInputField
+						required
+						name="columnMapping.value"
+						label={`${i18n.t("Value")} ${columnLabel}`}
+					/>
+				</div>
+			</Field>
+		</>
+	);
+}
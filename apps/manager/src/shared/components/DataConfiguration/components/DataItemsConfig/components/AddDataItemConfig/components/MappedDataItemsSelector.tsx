@@ -1,14 +1,20 @@
 import React, { useEffect, useMemo, useState } from "react";
 import { useController, useFormContext } from "react-hook-form";
-import { Field, MultiSelectField, MultiSelectOption, NoticeBox } from "@dhis2/ui";
+import { Button, Field, IconEdit16, MultiSelectField, MultiSelectOption, NoticeBox, Tag } from "@dhis2/ui";
 import { useDataQuery } from "@dhis2/app-runtime";
+import { SimpleTable, SimpleTableColumn } from "@hisptz/dhis2-ui";
 import { DatastoreNamespaces } from "@packages/shared/constants";
-import { DataServiceDataSourceItemsConfig } from "@packages/shared/schemas";
+import {
+    DataServiceDataItemTransform,
+    DataServiceDataSourceItemsConfig,
+} from "@packages/shared/schemas";
 import i18n from "@dhis2/d2-i18n";
+import { DataItemTransformModal } from "./DataItemTransformModal";
 
 interface MappedItem {
     id: string;
     sourceId: string;
+    transform?: DataServiceDataItemTransform;
 }
 
 interface ItemsConfig {
@@ -60,6 +66,52 @@ const METADATA_QUERY = {
     },
 } as const;
 
+const transformColumns: SimpleTableColumn[] = [
+    {
+        label: i18n.t("Data item"),
+        key: "label",
+    },
+    {
+        label: i18n.t("Transformations"),
+        key: "transformations",
+    },
+    {
+        label: i18n.t("Actions"),
+        key: "actions",
+    },
+];
+
+function getTransformLabels(transform?: DataServiceDataItemTransform): string[] {
+    if (!transform) return [];
+
+    const labels: string[] = [];
+    if (transform.minimumValue != null) {
+        labels.push(i18n.t("Drop below {{value}}", { value: transform.minimumValue }));
+    }
+    if (transform.scaleFactor != null) {
+        labels.push(i18n.t("Scale × {{value}}", { value: transform.scaleFactor }));
+    }
+    if (transform.unitConversion) {
+        labels.push(
+            i18n.t("Convert × {{factor}} + {{offset}}", {
+                factor: transform.unitConversion.factor,
+                offset: transform.unitConversion.offset ?? 0,
+            })
+        );
+    }
+    if (transform.decimals != null) {
+        labels.push(i18n.t("Round to {{value}} decimals", { value: transform.decimals }));
+    }
+    if (transform.categoryOptionCombos?.length) {
+        labels.push(
+            i18n.t("{{count}} category option combos remapped", {
+                count: transform.categoryOptionCombos.length,
+            })
+        );
+    }
+    return labels;
+}
+
 interface Props {
     configId: string;
     name: keyof DataServiceDataSourceItemsConfig;
@@ -86,6 +138,13 @@ export function MappedDataItemsSelector({
         rules: { required: required && i18n.t("At least one data item is required") },
     });
 
+    const selectedDataItems = useMemo(
+        () => (Array.isArray(value) ? (value as MappedItem[]) : []),
+        [value]
+    );
+
+    const [transformedItemId, setTransformedItemId] = useState<string>();
+
     const [metadataIds, setMetadataIds] = useState({
         dataElements: "",
         categoryOptionCombos: "",
@@ -177,6 +236,9 @@ export function MappedDataItemsSelector({
         ];
 
         const selectedItems = selected.map((id) => {
+            const existingItem = selectedDataItems.find((i) => i.id === id);
+            if (existingItem) return existingItem;
+
             const item = allItems.find((i) => i.id === id);
             return { id, sourceId: item?.sourceId || id };
         });
@@ -184,11 +246,43 @@ export function MappedDataItemsSelector({
         onChange(selectedItems);
     };
 
+    const onTransformChange = (id: string, transform?: DataServiceDataItemTransform) => {
+        onChange(selectedDataItems.map((item) => (item.id === id ? { ...item, transform } : item)));
+    };
+
     const selectedValues = useMemo(
-        () => (Array.isArray(value) ? value.map((v: MappedItem) => v.id) : []),
-        [value]
+        () => selectedDataItems.map((v) => v.id),
+        [selectedDataItems]
     );
 
+    const transformRows = useMemo(
+        () =>
+            selectedDataItems.map((item) => {
+                const transformLabels = getTransformLabels(item.transform);
+                return {
+                    id: item.id,
+                    label: options.find((opt) => opt.value === item.id)?.label ?? item.id,
+                    transformations: transformLabels.length ? (
+                        <div className="flex flex-wrap gap-1">
+                            {transformLabels.map((transformLabel) => (
+                                <Tag key={transformLabel}>{transformLabel}</Tag>
+                            ))}
+                        </div>
+                    ) : (
+                        i18n.t("None")
+                    ),
+                    actions: (
+                        <Button small icon={<IconEdit16 />} onClick={() => setTransformedItemId(item.id)}>
+                            {i18n.t("Transform")}
+                        </Button>
+                    ),
+                };
+            }),
+        [selectedDataItems, options]
+    );
+
+    const transformedItem = selectedDataItems.find((item) => item.id === transformedItemId);
+
     if (configLoading || metadataLoading) {
         return (
             <Field label={label} required={required} helpText={helpText}>
@@ -228,23 +322,47 @@ export function MappedDataItemsSelector({
     }
 
     return (
-        <Field
-            label={label}
-            required={required}
-            helpText={helpText || i18n.t("Select from mapped data items from metadata migration")}
-            error={!!error}
-            validationText={error?.message}
-        >
-            <MultiSelectField
-                selected={selectedValues}
-                onChange={({ selected }) => handleChange(selected)}
-                filterable
-                placeholder={i18n.t("Search and select data items...")}
+        <>
+            <Field
+                label={label}
+                required={required}
+                helpText={helpText || i18n.t("Select from mapped data items from metadata migration")}
+                error={!!error}
+                validationText={error?.message}
             >
-                {options.map((opt) => (
-                    <MultiSelectOption key={opt.value} label={opt.label} value={opt.value} />
-                ))}
-            </MultiSelectField>
-        </Field>
+                <MultiSelectField
+                    selected={selectedValues}
+                    onChange={({ selected }) => handleChange(selected)}
+                    filterable
+                    placeholder={i18n.t("Search and select data items...")}
+                >
+                    {options.map((opt) => (
+                        <MultiSelectOption key={opt.value} label={opt.label} value={opt.value} />
+                    ))}
+                </MultiSelectField>
+            </Field>
+            {selectedDataItems.length > 0 && (
+                <Field
+                    label={i18n.t("Value transformations")}
+                    helpText={i18n.t(
+                        "Transformations are applied to the values of a data item before they are uploaded to the destination"
+                    )}
+                >
+                    <SimpleTable
+                        columns={transformColumns}
+                        rows={transformRows}
+                        emptyLabel={i18n.t("No data items selected")}
+                    />
+                </Field>
+            )}
+            {transformedItem && (
+                <DataItemTransformModal
+                    dataItem={transformedItem}
+                    label={options.find((opt) => opt.value === transformedItem.id)?.label ?? transformedItem.id}
+                    onClose={() => setTransformedItemId(undefined)}
+                    onSave={(transform) => onTransformChange(transformedItem.id, transform)}
+                />
+            )}
+        </>
     );
 }
\ No newline at end of file
@@ -0,0 +1,120 @@
+import { useFormContext, useWatch } from "react-hook-form";
+import {
+	DataServiceDataSourceItemsConfig,
+	DataServiceSuppressionReplacement,
+} from "@packages/shared/schemas";
+import React, { useEffect } from "react";
+import { RHFSingleSelectField, RHFTextInputField } from "@hisptz/dhis2-ui";
+import i18n from "@dhis2/d2-i18n";
+import { CheckboxField } from "@dhis2/ui";
+import { RHFNumberField } from "../../../../../../Fields/RHFNumberField";
+
+const DEFAULT_THRESHOLD = 5;
+
+export function SuppressionFields() {
+	const { setValue } = useFormContext<DataServiceDataSourceItemsConfig>();
+	const suppression = useWatch<
+		DataServiceDataSourceItemsConfig,
+		"suppression"
+	>({
+		name: "suppression",
+	});
+
+	useEffect(() => {
+		if (
+			suppression?.replacement ===
+				DataServiceSuppressionReplacement.ROUND &&
+			suppression.roundingBase === undefined
+		) {
+			setValue(
+				"suppression.roundingBase",
+				suppression.threshold ?? DEFAULT_THRESHOLD,
+			);
+		}
+	}, [suppression?.replacement]);
+
+	return (
+		<>
+			<CheckboxField
+				label={i18n.t("Suppress small numbers")}
+				helpText={i18n.t(
+					"Replace non zero values below a threshold before they are uploaded, e.g. when publishing on a public portal",
+				)}
+				checked={!!suppression}
+				onChange={({ checked }) => {
+					setValue(
+						"suppression",
+						checked
+							? {
+									threshold: DEFAULT_THRESHOLD,
+									replacement:
+										DataServiceSuppressionReplacement.DROP,
+								}
+							: undefined,
+						{ shouldDirty: true },
+					);
+				}}
+			/>
+			{suppression && (
+				<>
+					<RHFNumberField
+						required
+						name="suppression.threshold"
+						label={i18n.t("Threshold")}
+						helpText={i18n.t(
+							"Non zero values below the threshold are suppressed",
+						)}
+						min="1"
+						step="1"
+					/>
+					<RHFSingleSelectField
+						required
+						name="suppression.replacement"
+						label={i18n.t("Replace suppressed values with")}
+						helpText={i18n.t(
+							"When only one value of a data element is suppressed for an organisation unit and period, the next smallest value is suppressed too",
+						)}
+						options={[
+							{
+								label: i18n.t("Nothing, do not upload them"),
+								value: DataServiceSuppressionReplacement.DROP,
+							},
+							{
+								label: i18n.t("A label, e.g. <5"),
+								value: DataServiceSuppressionReplacement.LABEL,
+							},
+							{
+								label: i18n.t("Values rounded to a base"),
+								value: DataServiceSuppressionReplacement.ROUND,
+							},
+						]}
+					/>
+					{suppression.replacement ===
+						DataServiceSuppressionReplacement.LABEL && (
+						<RHFTextInputField
+							name="suppression.label"
+							label={i18n.t("Label")}
+							placeholder={`<${suppression.threshold ?? DEFAULT_THRESHOLD}`}
+							helpText={i18n.t(
+								"Labels can only be uploaded to data elements with a text value type",
+							)}
+						/>
+					)}
+					{suppression.replacement ===
+						DataServiceSuppressionReplacement.ROUND && (
+						<RHFNumberField
+							required
+							name="suppression.roundingBase"
+							label={i18n.t("Rounding base")}
+							helpText={i18n.t(
+								"Suppressed values are rounded to the nearest multiple of this base",
+							)}
+							min="1"
+							step="1"
+						/>
+					)}
+				</>
+			)}
+		</>
+	);
+}
@@ -1,5 +1,8 @@
 import { useFieldArray } from "react-hook-form";
-import { DataServiceConfig } from "@packages/shared/schemas";
+import {
+	DataServiceConfig,
+	DataServiceSupportedDataSourcesType,
+} from "@packages/shared/schemas";
 import { SimpleTable, SimpleTableColumn } from "@hisptz/dhis2-ui";
 import i18n from "@dhis2/d2-i18n";
 import { startCase } from "lodash";
@@ -8,6 +11,8 @@ import { ButtonStrip, Divider } from "@dhis2/ui";
 import React from "react";
 import { AddDataItemConfig } from "./AddDataItemConfig/AddDataItemConfig";
 import { EditDataItemConfig } from "./AddDataItemConfig/EditDataItemConfig";
+import { UploadDataFile } from "./UploadDataFile/UploadDataFile";
+import { useParams } from "@tanstack/react-router";
 
 const columns: SimpleTableColumn[] = [
 	{
@@ -37,6 +42,9 @@ export function DataItemsList() {
 		name: "itemsConfig",
 		keyName: "fieldId" as unknown as "id",
 	});
+	const { configId } = useParams({
+		from: "/data-service-configuration/_provider/$configId/_provider",
+	});
 
 	const rows = fields.map((item, index) => ({
 		...item,
@@ -49,6 +57,10 @@ export function DataItemsList() {
 					config={item}
 					onUpdate={(data) => update(index, data)}
 				/>
+				{item.type ===
+					DataServiceSupportedDataSourcesType.FILE_VALUES && (
+					<UploadDataFile configId={configId} config={item} />
+				)}
 			</ButtonStrip>
 		),
 	}));
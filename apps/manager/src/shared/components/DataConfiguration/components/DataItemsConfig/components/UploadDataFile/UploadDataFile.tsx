@@ -0,0 +1,235 @@
+import {
+	Button,
+	ButtonStrip,
+	IconUpload16,
+	Modal,
+	ModalActions,
+	ModalContent,
+	ModalTitle,
+	NoticeBox,
+} from "@dhis2/ui";
+import React, { useState } from "react";
+import i18n from "@dhis2/d2-i18n";
+import { FormProvider, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useBoolean } from "usehooks-ts";
+import { FetchError, useAlert, useDataEngine } from "@dhis2/app-runtime";
+import { useQueryClient } from "@tanstack/react-query";
+import { RHFCheckboxField, SimpleTable } from "@hisptz/dhis2-ui";
+import {
+	DataServiceFileFormat,
+	DataServiceFileValuesDataItemsSource,
+} from "@packages/shared/schemas";
+import { RHFFileInputField } from "../../../../../Fields/RHFFileInputField";
+import { uploadDataFile } from "../../../../../../services/dataServiceClient";
+
+const uploadFormSchema = z.object({
+	file: z.instanceof(File, { message: i18n.t("A file is required") }),
+	dryRun: z.boolean().optional(),
+});
+
+type UploadFormValues = z.infer<typeof uploadFormSchema>;
+
+interface FileError {
+	row: number;
+	message: string;
+}
+
+interface InvalidFileDetails {
+	message?: string;
+	errorCount?: number;
+	errors?: FileError[];
+}
+
+const errorColumns = [
+	{
+		label: i18n.t("Row"),
+		key: "row",
+	},
+	{
+		label: i18n.t("Error"),
+		key: "message",
+	},
+];
+
+function UploadDataFileForm({
+	configId,
+	config,
+	onClose,
+}: {
+	configId: string;
+	config: DataServiceFileValuesDataItemsSource;
+	onClose: () => void;
+}) {
+	const engine = useDataEngine();
+	const queryClient = useQueryClient();
+	const { show } = useAlert(
+		({ message }) => message,
+		({ type }) => ({ ...type, duration: 3000 }),
+	);
+	const [invalidFile, setInvalidFile] = useState<InvalidFileDetails>();
+	const form = useForm<UploadFormValues>({
+		resolver: zodResolver(uploadFormSchema),
+		defaultValues: {
+			dryRun: false,
+		},
+	});
+
+	const onSubmit = async ({ file, dryRun }: UploadFormValues) => {
+		setInvalidFile(undefined);
+		try {
+			const result = await uploadDataFile(engine, configId, {
+				dataItemsConfigId: config.id,
+				content: await file.text(),
+				dryRun,
+			});
+			queryClient.invalidateQueries({
+				queryKey: ["runs", configId],
+			});
+			show({
+				message: dryRun
+					? i18n.t(
+							"Dry run started successfully. Check the run history for the validation results.",
+						)
+					: (result.message ?? i18n.t("File data queued for upload")),
+				type: { success: true },
+			});
+			onClose();
+		} catch (error) {
+			const details =
+				error instanceof FetchError
+					? (error.details as InvalidFileDetails | undefined)
+					: undefined;
+			if (details?.errors) {
+				setInvalidFile(details);
+				return;
+			}
+			show({
+				message: `${i18n.t("Failed to upload file")}: ${
+					error instanceof Error ? error.message : String(error)
+				}`,
+				type: { critical: true },
+			});
+		}
+	};
+
+	return (
+		<FormProvider {...form}>
+			<Modal position="middle" onClose={onClose}>
+				<ModalTitle>{`${i18n.t("Upload file")}: ${config.name}`}</ModalTitle>
+				<ModalContent>
+					<form className="flex flex-col gap-2">
+						<NoticeBox>
+							{i18n.t(
+								"The file is read with the column mapping of the saved configuration. Save any changes to the configuration before uploading.",
+							)}
+						</NoticeBox>
+						<RHFFileInputField
+							required
+							accept={
+								config.format === DataServiceFileFormat.CSV
+									? ".csv,text/csv"
+									: ".json,application/json"
+							}
+							buttonLabel={i18n.t("Select a {{format}} file", {
+								format: config.format,
+							})}
+							name="file"
+							label={i18n.t("File")}
+						/>
+						<RHFCheckboxField
+							name="dryRun"
+							label={i18n.t("Dry run")}
+							helpText={i18n.t(
+								"Validate the data against the destination without importing it",
+							)}
+						/>
+						{invalidFile && (
+							<NoticeBox
+								error
+								title={
+									invalidFile.message ??
+									i18n.t("The file is invalid")
+								}
+							>
+								<div className="flex flex-col gap-2">
+									{i18n.t(
+										"Nothing was uploaded. Fix the rows below and upload the file again.",
+									)}
+									{(invalidFile.errorCount ?? 0) >
+										(invalidFile.errors?.length ?? 0) && (
+										<span>
+											{i18n.t(
+												"Showing the first {{count}} of {{total}} errors",
+												{
+													count: invalidFile.errors
+														?.length,
+													total: invalidFile.errorCount,
+												},
+											)}
+										</span>
+									)}
+									<SimpleTable
+										columns={errorColumns}
+										rows={(invalidFile.errors ?? []).map(
+											(error, index) => ({
+												id: `${error.row}-${index}`,
+												...error,
+											}),
+										)}
+									/>
+								</div>
+							</NoticeBox>
+						)}
+					</form>
+				</ModalContent>
+				<ModalActions>
+					<ButtonStrip>
+						<Button onClick={onClose}>{i18n.t("Cancel")}</Button>
+						<Button
+							loading={form.formState.isSubmitting}
+							onClick={(_, e) => {
+								form.handleSubmit(onSubmit)(e);
+							}}
+							primary
+						>
+							{i18n.t("Upload")}
+						</Button>
+					</ButtonStrip>
+				</ModalActions>
+			</Modal>
+		</FormProvider>
+	);
+}
+
+export function UploadDataFile({
+	configId,
+	config,
+}: {
+	configId: string;
+	config: DataServiceFileValuesDataItemsSource;
+}) {
+	const {
+		value: hide,
+		setTrue: onClose,
+		setFalse: onShow,
+	} = useBoolean(true);
+	return (
+		<>
+			{!hide && (
+				<UploadDataFileForm
+					configId={configId}
+					config={config}
+					onClose={onClose}
+				/>
+			)}
+			<Button
+				small
+				onClick={onShow}
+				icon={<IconUpload16 />}
+				title={i18n.t("Upload file")}
+			/>
+		</>
+	);
+}
@@ -0,0 +1,145 @@
+import { useFieldArray } from "react-hook-form";
+import {
+	DataServiceConfig,
+	DataServiceNotificationTarget,
+	DataServiceNotificationTargetType,
+} from "@packages/shared/schemas";
+import { SimpleTable, SimpleTableColumn } from "@hisptz/dhis2-ui";
+import i18n from "@dhis2/d2-i18n";
+import { Button, ButtonStrip, Divider, IconDelete16, Tag } from "@dhis2/ui";
+import React from "react";
+import { RHFNumberField } from "../../../Fields/RHFNumberField";
+import {
+	AddNotificationTarget,
+	EditNotificationTarget,
+} from "./components/NotificationTargetButtons";
+import {
+	notificationEventLabels,
+	notificationTargetTypeLabels,
+} from "./constants";
+
+const columns: SimpleTableColumn[] = [
+	{
+		label: i18n.t("Name"),
+		key: "name",
+	},
+	{
+		label: i18n.t("Type"),
+		key: "type",
+	},
+	{
+		label: i18n.t("Sent to"),
+		key: "destination",
+	},
+	{
+		label: i18n.t("Events"),
+		key: "events",
+	},
+	{
+		label: i18n.t("Status"),
+		key: "status",
+	},
+	{
+		label: i18n.t("Actions"),
+		key: "actions",
+	},
+];
+
+function getDestination(target: DataServiceNotificationTarget) {
+	switch (target.type) {
+		case DataServiceNotificationTargetType.WEBHOOK:
+			return target.url;
+		case DataServiceNotificationTargetType.EMAIL:
+			return target.recipients.join(", ");
+		case DataServiceNotificationTargetType.MESSAGE_CONVERSATION:
+			return i18n.t("{{count}} user groups", {
+				count: target.userGroups.length,
+			});
+	}
+}
+
+export function NotificationsConfig() {
+	const { fields, append, remove, update } = useFieldArray<
+		DataServiceConfig,
+		"notifications.targets"
+	>({
+		name: "notifications.targets",
+		keyName: "fieldId" as unknown as "id",
+	});
+
+	const rows = fields.map((target, index) => ({
+		id: target.id,
+		name: target.name,
+		type: notificationTargetTypeLabels[target.type],
+		destination: getDestination(target),
+		events: target.events
+			.map((event) => notificationEventLabels[event])
+			.join(", "),
+		status:
+			target.enabled === false ? (
+				<Tag>{i18n.t("Disabled")}</Tag>
+			) : (
+				<Tag positive>{i18n.t("Enabled")}</Tag>
+			),
+		actions: (
+			<ButtonStrip>
+				<EditNotificationTarget
+					target={target}
+					onUpdate={(target) => update(index, target)}
+				/>
+				<Button
+					small
+					onClick={() => remove(index)}
+					icon={<IconDelete16 />}
+					title={i18n.t("Remove notification target")}
+				/>
+			</ButtonStrip>
+		),
+	}));
+
+	return (
+		<div className="flex flex-col gap-2 w-full">
+			<div className="flex flex-col gap-1">
+				<span className="text-base font-semibold text-gray-700">
+					{i18n.t("Notifications")}
+				</span>
+				<span className="text-sm text-gray-500">
+					{i18n.t(
+						"Send a summary of runs to webhooks, email addresses or DHIS2 user groups when they complete or fail, and when failed jobs pile up in the failed queue.",
+					)}
+				</span>
+			</div>
+			<ButtonStrip end>
+				<AddNotificationTarget
+					onAdd={(target) => {
+						const index = fields.findIndex(
+							({ id }) => id === target.id,
+						);
+						if (index > -1) {
+							update(index, target);
+						} else {
+							append(target);
+						}
+					}}
+				/>
+			</ButtonStrip>
+			<Divider />
+			<SimpleTable
+				columns={columns}
+				rows={rows}
+				emptyLabel={i18n.t("There are no notification targets")}
+			/>
+			<div className="max-w-md">
+				<RHFNumberField
+					name="notifications.failedQueueThreshold"
+					label={i18n.t("Failed queue threshold")}
+					helpText={i18n.t(
+						"Notify the targets subscribed to the failed queue threshold once the failed queue holds this many jobs. Leave empty to disable",
+					)}
+					min="1"
+					step="1"
+				/>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,59 @@
+import { Button, IconAdd24, IconEdit16 } from "@dhis2/ui";
+import React from "react";
+import i18n from "@dhis2/d2-i18n";
+import { useBoolean } from "usehooks-ts";
+import { DataServiceNotificationTarget } from "@packages/shared/schemas";
+import { NotificationTargetForm } from "./NotificationTargetForm";
+
+export function AddNotificationTarget({
+	onAdd,
+}: {
+	onAdd: (target: DataServiceNotificationTarget) => void;
+}) {
+	const {
+		value: hide,
+		setTrue: onClose,
+		setFalse: onShow,
+	} = useBoolean(true);
+	return (
+		<>
+			{!hide && (
+				<NotificationTargetForm onClose={onClose} onSubmit={onAdd} />
+			)}
+			<Button onClick={onShow} icon={<IconAdd24 />}>
+				{i18n.t("Add notification target")}
+			</Button>
+		</>
+	);
+}
+
+export function EditNotificationTarget({
+	target,
+	onUpdate,
+}: {
+	target: DataServiceNotificationTarget;
+	onUpdate: (target: DataServiceNotificationTarget) => void;
+}) {
+	const {
+		value: hide,
+		setTrue: onClose,
+		setFalse: onShow,
+	} = useBoolean(true);
+	return (
+		<>
+			{!hide && (
+				<NotificationTargetForm
+					data={target}
+					onClose={onClose}
+					onSubmit={onUpdate}
+				/>
+			)}
+			<Button
+				small
+				onClick={onShow}
+				icon={<IconEdit16 />}
+				title={i18n.t("Edit notification target")}
+			/>
+		</>
+	);
+}
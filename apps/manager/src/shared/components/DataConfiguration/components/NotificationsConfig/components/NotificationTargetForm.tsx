@@ -0,0 +1,243 @@
+import {
+	Button,
+	ButtonStrip,
+	InputField,
+	Modal,
+	ModalActions,
+	ModalContent,
+	ModalTitle,
+} from "@dhis2/ui";
+import React, { useMemo, useState } from "react";
+import i18n from "@dhis2/d2-i18n";
+import { FormProvider, useController, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useDataQuery } from "@dhis2/app-runtime";
+import {
+	RHFCheckboxField,
+	RHFSingleSelectField,
+	RHFTextInputField,
+} from "@hisptz/dhis2-ui";
+import {
+	DataServiceNotificationEvent,
+	DataServiceNotificationTarget,
+	DataServiceNotificationTargetType,
+	notificationTargetSchema,
+} from "@packages/shared/schemas";
+import { RHFIDField } from "../../../../Fields/IDField";
+import { RHFMultiSelectField } from "../../../../Fields/RHFMultiSelectField";
+import {
+	notificationEventLabels,
+	notificationTargetTypeLabels,
+} from "../constants";
+
+const userGroupsQuery: any = {
+	userGroups: {
+		resource: "userGroups",
+		params: {
+			fields: "id,displayName",
+			order: "displayName:asc",
+			paging: false,
+		},
+	},
+};
+
+type UserGroupsResponse = {
+	userGroups: {
+		userGroups: {
+			id: string;
+			displayName: string;
+		}[];
+	};
+};
+
+function UserGroupsField() {
+	const { data, loading, error } =
+		useDataQuery<UserGroupsResponse>(userGroupsQuery);
+
+	const options = useMemo(
+		() =>
+			data?.userGroups.userGroups.map(({ id, displayName }) => ({
+				label: displayName,
+				value: id,
+			})) ?? [],
+		[data],
+	);
+
+	return (
+		<RHFMultiSelectField
+			required
+			filterable
+			loading={loading}
+			name="userGroups"
+			label={i18n.t("User groups")}
+			helpText={
+				error
+					? i18n.t("Could not load the user groups: {{error}}", {
+							error: error.message,
+						})
+					: i18n.t("Members of these user groups receive the message")
+			}
+			options={options}
+		/>
+	);
+}
+
+/*
+ * Recipients are typed as a comma separated list, the text is kept as typed while the form holds the parsed addresses
+ * */
+function RecipientsField() {
+	const { field, fieldState } = useController<
+		{ recipients?: string[] },
+		"recipients"
+	>({
+		name: "recipients",
+	});
+	const [value, setValue] = useState<string>((field.value ?? []).join(", "));
+
+	return (
+		<InputField
+			required
+			name={field.name}
+			label={i18n.t("Recipients")}
+			helpText={i18n.t("Email addresses separated by commas")}
+			value={value}
+			onBlur={field.onBlur}
+			onChange={({ value }) => {
+				setValue(value ?? "");
+				field.onChange(
+					(value ?? "")
+						.split(",")
+						.map((recipient) => recipient.trim())
+						.filter(Boolean),
+				);
+			}}
+			error={!!fieldState.error}
+			validationText={
+				// Invalid addresses are reported on the items of the array
+				fieldState.error &&
+				(fieldState.error.message ??
+					i18n.t("Enter valid email addresses"))
+			}
+		/>
+	);
+}
+
+export function NotificationTargetForm({
+	data,
+	onClose,
+	onSubmit,
+}: {
+	data?: DataServiceNotificationTarget;
+	onClose: () => void;
+	onSubmit: (data: DataServiceNotificationTarget) => void;
+}) {
+	const form = useForm<DataServiceNotificationTarget>({
+		resolver: zodResolver(notificationTargetSchema),
+		defaultValues: data ?? {
+			type: DataServiceNotificationTargetType.WEBHOOK,
+			enabled: true,
+			events: [
+				DataServiceNotificationEvent.RUN_FAILED,
+				DataServiceNotificationEvent.FAILED_QUEUE_THRESHOLD,
+			],
+		},
+	});
+	const type = form.watch("type");
+	const action = data ? i18n.t("Update") : i18n.t("Add");
+
+	const onFormSubmit = (data: DataServiceNotificationTarget) => {
+		onSubmit(data);
+		onClose();
+	};
+
+	return (
+		<FormProvider {...form}>
+			<Modal position="middle" onClose={onClose}>
+				<ModalTitle>{`${action} ${i18n.t("notification target")}`}</ModalTitle>
+				<ModalContent>
+					<form className="flex flex-col gap-2">
+						<RHFTextInputField
+							required
+							name="name"
+							label={i18n.t("Name")}
+						/>
+						{!data && (
+							<RHFIDField
+								dependsOn="name"
+								label={i18n.t("ID")}
+								name="id"
+							/>
+						)}
+						<RHFSingleSelectField
+							required
+							disabled={!!data}
+							name="type"
+							label={i18n.t("Type")}
+							options={Object.values(
+								DataServiceNotificationTargetType,
+							).map((value) => ({
+								label: notificationTargetTypeLabels[value],
+								value,
+							}))}
+						/>
+						<RHFMultiSelectField
+							required
+							name="events"
+							label={i18n.t("Events")}
+							options={Object.values(
+								DataServiceNotificationEvent,
+							).map((value) => ({
+								label: notificationEventLabels[value],
+								value,
+							}))}
+						/>
+						<RHFCheckboxField
+							name="enabled"
+							label={i18n.t("Enabled")}
+						/>
+						{type === DataServiceNotificationTargetType.WEBHOOK && (
+							<>
+								<RHFTextInputField
+									required
+									name="url"
+									label={i18n.t("URL")}
+									helpText={i18n.t(
+										"The notification is sent as a JSON POST request",
+									)}
+								/>
+								<RHFTextInputField
+									name="secret"
+									type="password"
+									label={i18n.t("Secret")}
+									helpText={i18n.t(
+										"When set, the request body is signed with HMAC SHA-256 in the X-Data-Service-Signature header",
+									)}
+								/>
+							</>
+						)}
+						{type === DataServiceNotificationTargetType.EMAIL && (
+							<RecipientsField />
+						)}
+						{type ===
+							DataServiceNotificationTargetType.MESSAGE_CONVERSATION && (
+							<UserGroupsField />
+						)}
+					</form>
+				</ModalContent>
+				<ModalActions>
+					<ButtonStrip>
+						<Button onClick={onClose}>{i18n.t("Cancel")}</Button>
+						<Button
+							onClick={(_, e) => {
+								form.handleSubmit(onFormSubmit)(e);
+							}}
+							primary
+						>
+							{action}
+						</Button>
+					</ButtonStrip>
+				</ModalActions>
+			</Modal>
+		</FormProvider>
+	);
+}
@@ -0,0 +1,28 @@
+import i18n from "@dhis2/d2-i18n";
+import {
+	DataServiceNotificationEvent,
+	DataServiceNotificationTargetType,
+} from "@packages/shared/schemas";
+
+export const notificationEventLabels: Record<
+	DataServiceNotificationEvent,
+	string
+> = {
+	[DataServiceNotificationEvent.RUN_COMPLETED]: i18n.t("Run completed"),
+	[DataServiceNotificationEvent.RUN_FAILED]: i18n.t(
+		"Run failed or completed with errors",
+	),
+	[DataServiceNotificationEvent.FAILED_QUEUE_THRESHOLD]: i18n.t(
+		"Failed queue threshold reached",
+	),
+};
+
+export const notificationTargetTypeLabels: Record<
+	DataServiceNotificationTargetType,
+	string
+> = {
+	[DataServiceNotificationTargetType.WEBHOOK]: i18n.t("Webhook"),
+	[DataServiceNotificationTargetType.EMAIL]: i18n.t("Email"),
+	[DataServiceNotificationTargetType.MESSAGE_CONVERSATION]:
+		i18n.t("DHIS2 message"),
+};
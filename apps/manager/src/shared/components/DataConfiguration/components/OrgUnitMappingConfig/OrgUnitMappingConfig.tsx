@@ -0,0 +1,119 @@
+import { useFieldArray } from "react-hook-form";
+import {
+	DataServiceConfig,
+	DataServiceOrgUnitMapping,
+	DataServiceOrgUnitMatchType,
+} from "@packages/shared/schemas";
+import { SimpleTable, SimpleTableColumn } from "@hisptz/dhis2-ui";
+import i18n from "@dhis2/d2-i18n";
+import { Button, ButtonStrip, Divider, IconDelete16 } from "@dhis2/ui";
+import React from "react";
+import { AddOrgUnitMapping } from "./components/AddOrgUnitMapping";
+import { SuggestOrgUnitMappings } from "./components/SuggestOrgUnitMappings";
+import { orgUnitMatchTypeLabels } from "./constants";
+
+const columns: SimpleTableColumn[] = [
+	{
+		label: i18n.t("Source organisation unit"),
+		key: "source",
+	},
+	{
+		label: i18n.t("Destination organisation unit"),
+		key: "destination",
+	},
+	{
+		label: i18n.t("Matched by"),
+		key: "matchType",
+	},
+	{
+		label: i18n.t("Actions"),
+		key: "actions",
+	},
+];
+
+export function OrgUnitMappingConfig() {
+	const { fields, append, remove, replace } = useFieldArray<
+		DataServiceConfig,
+		"orgUnitMappings"
+	>({
+		name: "orgUnitMappings",
+		keyName: "fieldId" as unknown as "id",
+	});
+
+	const onApplySuggestions = (suggestions: DataServiceOrgUnitMapping[]) => {
+		// Mappings added manually take precedence over the suggestions
+		const manualMappings = fields.filter(
+			({ matchType }) => matchType === DataServiceOrgUnitMatchType.MANUAL,
+		);
+		replace([
+			...manualMappings,
+			...suggestions.filter(
+				({ sourceId }) =>
+					!manualMappings.some(
+						(mapping) => mapping.sourceId === sourceId,
+					),
+			),
+		]);
+	};
+
+	const rows = fields.map((mapping, index) => ({
+		id: mapping.sourceId,
+		destination: mapping.id,
+		source: mapping.sourceName
+			? `${mapping.sourceName} (${mapping.sourceId})`
+			: mapping.sourceId,
+		matchType: mapping.matchType
+			? orgUnitMatchTypeLabels[mapping.matchType]
+			: "-",
+		actions: (
+			<Button
+				small
+				onClick={() => remove(index)}
+				icon={<IconDelete16 />}
+				title={i18n.t("Remove mapping")}
+			/>
+		),
+	}));
+
+	return (
+		<div className="flex flex-col gap-2 w-full">
+			<div className="flex flex-col gap-1">
+				<span className="text-base font-semibold text-gray-700">
+					{i18n.t("Organisation unit mapping")}
+				</span>
+				<span className="text-sm text-gray-500">
+					{i18n.t(
+						"Without a mapping, organisation units are assumed to have the same IDs on the source and the destination. With a mapping, values of organisation units that are not mapped are not uploaded and are listed in the run history.",
+					)}
+				</span>
+			</div>
+			<ButtonStrip end>
+				{fields.length > 0 && (
+					<Button onClick={() => replace([])}>
+						{i18n.t("Clear mappings")}
+					</Button>
+				)}
+				<SuggestOrgUnitMappings onApply={onApplySuggestions} />
+				<AddOrgUnitMapping
+					onAdd={(mapping) => {
+						const index = fields.findIndex(
+							({ sourceId }) => sourceId === mapping.sourceId,
+						);
+						if (index > -1) {
+							remove(index);
+						}
+						append(mapping);
+					}}
+				/>
+			</ButtonStrip>
+			<Divider />
+			<SimpleTable
+				columns={columns}
+				rows={rows}
+				emptyLabel={i18n.t(
+					"There are no organisation unit mappings, organisation units are uploaded with their source IDs",
+				)}
+			/>
+		</div>
+	);
+}
@@ -0,0 +1,103 @@
+import {
+	Button,
+	ButtonStrip,
+	IconAdd24,
+	Modal,
+	ModalActions,
+	ModalContent,
+	ModalTitle,
+} from "@dhis2/ui";
+import React from "react";
+import i18n from "@dhis2/d2-i18n";
+import { FormProvider, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useBoolean } from "usehooks-ts";
+import { RHFTextInputField } from "@hisptz/dhis2-ui";
+import {
+	DataServiceOrgUnitMapping,
+	DataServiceOrgUnitMatchType,
+	orgUnitMappingSchema,
+} from "@packages/shared/schemas";
+import { RHFOrgUnitField } from "../../../../Fields/RHFOrgUnitField";
+
+function AddOrgUnitMappingForm({
+	onClose,
+	onAdd,
+}: {
+	onClose: () => void;
+	onAdd: (mapping: DataServiceOrgUnitMapping) => void;
+}) {
+	const form = useForm<DataServiceOrgUnitMapping>({
+		resolver: zodResolver(orgUnitMappingSchema),
+	});
+
+	const onSubmit = (data: DataServiceOrgUnitMapping) => {
+		onAdd({
+			...data,
+			matchType: DataServiceOrgUnitMatchType.MANUAL,
+		});
+		onClose();
+	};
+
+	return (
+		<FormProvider {...form}>
+			<Modal position="middle" onClose={onClose}>
+				<ModalTitle>
+					{i18n.t("Add organisation unit mapping")}
+				</ModalTitle>
+				<ModalContent>
+					<form className="flex flex-col gap-2">
+						<RHFTextInputField
+							required
+							name="sourceId"
+							label={i18n.t("Source organisation unit ID")}
+						/>
+						<RHFTextInputField
+							name="sourceName"
+							label={i18n.t("Source organisation unit name")}
+						/>
+						<RHFOrgUnitField
+							required
+							name="id"
+							label={i18n.t("Destination organisation unit")}
+							singleSelection={true}
+						/>
+					</form>
+				</ModalContent>
+				<ModalActions>
+					<ButtonStrip>
+						<Button onClick={onClose}>{i18n.t("Cancel")}</Button>
+						<Button
+							onClick={(_, e) => {
+								form.handleSubmit(onSubmit)(e);
+							}}
+							primary
+						>
+							{i18n.t("Add")}
+						</Button>
+					</ButtonStrip>
+				</ModalActions>
+			</Modal>
+		</FormProvider>
+	);
+}
+
+export function AddOrgUnitMapping({
+	onAdd,
+}: {
+	onAdd: (mapping: DataServiceOrgUnitMapping) => void;
+}) {
+	const {
+		value: hide,
+		setTrue: onClose,
+		setFalse: onShow,
+	} = useBoolean(true);
+	return (
+		<>
+			{!hide && <AddOrgUnitMappingForm onClose={onClose} onAdd={onAdd} />}
+			<Button onClick={onShow} icon={<IconAdd24 />}>
+				{i18n.t("Add mapping")}
+			</Button>
+		</>
+	);
+}
@@ -0,0 +1,211 @@
+import {
+	Button,
+	ButtonStrip,
+	Modal,
+	ModalActions,
+	ModalContent,
+	ModalTitle,
+	NoticeBox,
+} from "@dhis2/ui";
+import React, { useState } from "react";
+import i18n from "@dhis2/d2-i18n";
+import { FormProvider, useForm } from "react-hook-form";
+import { useBoolean } from "usehooks-ts";
+import { useDataEngine } from "@dhis2/app-runtime";
+import { useParams } from "@tanstack/react-router";
+import { SimpleTable } from "@hisptz/dhis2-ui";
+import { countBy } from "lodash";
+import {
+	DataServiceOrgUnitMapping,
+	DataServiceOrgUnitMatchType,
+} from "@packages/shared/schemas";
+import { RHFNumberField } from "../../../../Fields/RHFNumberField";
+import { suggestOrgUnitMappings } from "../../../../../services/dataServiceClient";
+import { orgUnitMatchTypeLabels } from "../constants";
+
+interface UnmatchedOrgUnit {
+	id: string;
+	name: string;
+	code?: string;
+	level: number;
+}
+
+interface Suggestions {
+	mappings: DataServiceOrgUnitMapping[];
+	unmatched: UnmatchedOrgUnit[];
+}
+
+function SuggestOrgUnitMappingsForm({
+	onClose,
+	onApply,
+}: {
+	onClose: () => void;
+	onApply: (mappings: DataServiceOrgUnitMapping[]) => void;
+}) {
+	const engine = useDataEngine();
+	const { configId } = useParams({
+		from: "/data-service-configuration/_provider/$configId/_provider",
+	});
+	const [suggestions, setSuggestions] = useState<Suggestions>();
+	const [error, setError] = useState<string>();
+	const form = useForm<{ level?: number | null }>();
+
+	const onSuggest = async ({ level }: { level?: number | null }) => {
+		setError(undefined);
+		setSuggestions(undefined);
+		try {
+			const response = (await suggestOrgUnitMappings(
+				engine,
+				configId,
+				level ?? undefined,
+			)) as any;
+			if (!response.success) {
+				throw new Error(response.error || "Failed to suggest mappings");
+			}
+			setSuggestions({
+				mappings: response.mappings ?? [],
+				unmatched: response.unmatched ?? [],
+			});
+		} catch (e) {
+			setError(e instanceof Error ? e.message : String(e));
+		}
+	};
+
+	const matchCounts = countBy(
+		suggestions?.mappings ?? [],
+		({ matchType }) => matchType,
+	);
+
+	return (
+		<FormProvider {...form}>
+			<Modal position="middle" onClose={onClose}>
+				<ModalTitle>
+					{i18n.t("Suggest organisation unit mappings")}
+				</ModalTitle>
+				<ModalContent>
+					<form className="flex flex-col gap-2">
+						<span>
+							{i18n.t(
+								"Organisation units of the source are matched to the destination by ID, then by code, then by name and level. Mappings added manually are kept.",
+							)}
+						</span>
+						<RHFNumberField
+							name="level"
+							label={i18n.t("Organisation unit level")}
+							helpText={i18n.t(
+								"Only match organisation units of this level, e.g. the level data is migrated from. Leave empty to match the whole hierarchy",
+							)}
+							min="1"
+							step="1"
+						/>
+						{error && (
+							<NoticeBox
+								error
+								title={i18n.t("Could not suggest mappings")}
+							>
+								{error}
+							</NoticeBox>
+						)}
+						{suggestions && (
+							<div className="flex flex-col gap-2">
+								<NoticeBox
+									title={i18n.t(
+										"{{count}} organisation units matched",
+										{
+											count: suggestions.mappings.length,
+										},
+									)}
+								>
+									{[
+										DataServiceOrgUnitMatchType.ID,
+										DataServiceOrgUnitMatchType.CODE,
+										DataServiceOrgUnitMatchType.NAME,
+									]
+										.map(
+											(matchType) =>
+												`${orgUnitMatchTypeLabels[matchType]}: ${matchCounts[matchType] ?? 0}`,
+										)
+										.join(", ")}
+								</NoticeBox>
+								<strong>
+									{i18n.t(
+										"{{count}} organisation units without a match",
+										{
+											count: suggestions.unmatched.length,
+										},
+									)}
+								</strong>
+								<SimpleTable
+									columns={[
+										{ label: i18n.t("ID"), key: "id" },
+										{ label: i18n.t("Name"), key: "name" },
+										{ label: i18n.t("Code"), key: "code" },
+										{
+											label: i18n.t("Level"),
+											key: "level",
+										},
+									]}
+									rows={suggestions.unmatched.map(
+										(orgUnit) => ({
+											...orgUnit,
+											code: orgUnit.code ?? "-",
+										}),
+									)}
+									emptyLabel={i18n.t(
+										"All organisation units have a match",
+									)}
+								/>
+							</div>
+						)}
+					</form>
+				</ModalContent>
+				<ModalActions>
+					<ButtonStrip>
+						<Button onClick={onClose}>{i18n.t("Cancel")}</Button>
+						<Button
+							loading={form.formState.isSubmitting}
+							onClick={(_, e) => {
+								form.handleSubmit(onSuggest)(e);
+							}}
+						>
+							{i18n.t("Compare hierarchies")}
+						</Button>
+						<Button
+							primary
+							disabled={!suggestions}
+							onClick={() => {
+								onApply(suggestions!.mappings);
+								onClose();
+							}}
+						>
+							{i18n.t("Apply suggestions")}
+						</Button>
+					</ButtonStrip>
+				</ModalActions>
+			</Modal>
+		</FormProvider>
+	);
+}
+
+export function SuggestOrgUnitMappings({
+	onApply,
+}: {
+	onApply: (mappings: DataServiceOrgUnitMapping[]) => void;
+}) {
+	const {
+		value: hide,
+		setTrue: onClose,
+		setFalse: onShow,
+	} = useBoolean(true);
+	return (
+		<>
+			{!hide && (
+				<SuggestOrgUnitMappingsForm
+					onClose={onClose}
+					onApply={onApply}
+				/>
+			)}
+			<Button onClick={onShow}>{i18n.t("Suggest mappings")}</Button>
+		</>
+	);
+}
@@ -0,0 +1,12 @@
+import { DataServiceOrgUnitMatchType } from "@packages/shared/schemas";
+import i18n from "@dhis2/d2-i18n";
+
+export const orgUnitMatchTypeLabels: Record<
+	DataServiceOrgUnitMatchType,
+	string
+> = {
+	[DataServiceOrgUnitMatchType.ID]: i18n.t("ID"),
+	[DataServiceOrgUnitMatchType.CODE]: i18n.t("Code"),
+	[DataServiceOrgUnitMatchType.NAME]: i18n.t("Name and level"),
+	[DataServiceOrgUnitMatchType.MANUAL]: i18n.t("Manual"),
+};
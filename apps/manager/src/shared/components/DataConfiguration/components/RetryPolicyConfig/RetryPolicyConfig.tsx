@@ -0,0 +1,99 @@
+import { MultiSelectField, MultiSelectOption } from "@dhis2/ui";
+import i18n from "@dhis2/d2-i18n";
+import React from "react";
+import { useController } from "react-hook-form";
+import { RHFNumberField } from "../../../Fields/RHFNumberField";
+
+const statusCodes = [
+	400, 401, 403, 404, 408, 409, 413, 422, 429, 500, 502, 503, 504,
+];
+
+function StatusCodesField({
+	name,
+	label,
+	helpText,
+}: {
+	name: string;
+	label: string;
+	helpText: string;
+}) {
+	const { field } = useController({ name });
+
+	return (
+		<MultiSelectField
+			label={label}
+			helpText={helpText}
+			clearable
+			selected={(field.value ?? []).map(String)}
+			onChange={({ selected }) =>
+				field.onChange(
+					selected.length > 0 ? selected.map(Number) : undefined,
+				)
+			}
+		>
+			{statusCodes.map((statusCode) => (
+				<MultiSelectOption
+					key={statusCode}
+					label={statusCode.toString()}
+					value={statusCode.toString()}
+				/>
+			))}
+		</MultiSelectField>
+	);
+}
+
+export function RetryPolicyConfig() {
+	return (
+		<div className="flex flex-col gap-2 w-full">
+			<div className="flex flex-col gap-1">
+				<span className="text-base font-semibold text-gray-700">
+					{i18n.t("Retries")}
+				</span>
+				<span className="text-sm text-gray-500">
+					{i18n.t(
+						"Failed jobs are retried after a delay that doubles after every attempt, and are moved to the failed queue after their last attempt. Leave the fields empty to use the defaults.",
+					)}
+				</span>
+			</div>
+			<div className="grid grid-cols-3 gap-4">
+				<RHFNumberField
+					name="retryPolicy.maxAttempts"
+					label={i18n.t("Maximum attempts")}
+					helpText={i18n.t("Including the first one, 3 by default")}
+					min="1"
+					step="1"
+				/>
+				<RHFNumberField
+					name="retryPolicy.backoffBaseSeconds"
+					label={i18n.t("First retry delay (seconds)")}
+					helpText={i18n.t("10 seconds by default")}
+					min="0"
+					step="1"
+				/>
+				<RHFNumberField
+					name="retryPolicy.backoffCapSeconds"
+					label={i18n.t("Maximum retry delay (seconds)")}
+					helpText={i18n.t("300 seconds by default")}
+					min="0"
+					step="1"
+				/>
+			</div>
+			<div className="grid grid-cols-2 gap-4">
+				<StatusCodesField
+					name="retryPolicy.retryableStatusCodes"
+					label={i18n.t("Retried status codes")}
+					helpText={i18n.t(
+						"Failures without a response are retried too, other status codes are not. 408, 429, 500, 502, 503 and 504 by default",
+					)}
+				/>
+				<StatusCodesField
+					name="retryPolicy.permanentStatusCodes"
+					label={i18n.t("Permanent status codes")}
+					helpText={i18n.t(
+						"Jobs failing with these status codes go to the failed queue without being retried. 400, 401, 403, 404, 409 and 422 by default",
+					)}
+				/>
+			</div>
+		</div>
+	);
+}
@@ -1,5 +1,8 @@
 import {
 	DataServiceConfig,
+	DataServiceDataSourceItemsConfig,
+	DataServiceFileValuesDataItemsSource,
+	DataServiceSupportedDataSourcesType,
 	dataServiceRuntimeConfig,
 } from "@packages/shared/schemas";
 import { FormProvider, useForm, useWatch } from "react-hook-form";
@@ -54,6 +57,7 @@ const runConfigSchema = z.object({
 		periods: z.array(z.string()).optional(),
 	}),
 	dataItemsConfigIds: z.array(z.string()).min(1, i18n.t("")),
+	dryRun: z.boolean().optional(),
 });
 
 export type RunConfigFormValues = z.infer<typeof runConfigSchema>;
@@ -93,6 +97,7 @@ export function RunConfigForm({
 				periods: [],
 			},
 			dataItemsConfigIds: [],
+			dryRun: false,
 		},
 	});
 
@@ -108,6 +113,10 @@ export function RunConfigForm({
 		control: form.control,
 		name: "metadataTypes",
 	});
+	const dryRun = useWatch({
+		control: form.control,
+		name: "dryRun",
+	});
 
 	const onSubmit = async (data: RunConfigFormValues) => {
 		try {
@@ -118,6 +127,7 @@ export function RunConfigForm({
 					selectedVisualizations: data.selectedVisualizations || [],
 					selectedMaps: data.selectedMaps || [],
 					selectedDashboards: data.selectedDashboards || [],
+					dryRun: data.dryRun,
 				};
 				result = await downloadMetadata(
 					engine,
@@ -130,6 +140,7 @@ export function RunConfigForm({
 					dataItemsConfigIds: data.dataItemsConfigIds,
 					runtimeConfig: data.runtimeConfig,
 					isDelete: true,
+					dryRun: data.dryRun,
 				};
 
 				result = await downloadData(
@@ -157,8 +168,16 @@ export function RunConfigForm({
 				}
 
 				// Get selected config items details
-				const selectedConfigs = config.itemsConfig.filter((item) =>
-					data.dataItemsConfigIds.includes(item.id),
+				const selectedConfigs = config.itemsConfig.filter(
+					(
+						item,
+					): item is Exclude<
+						DataServiceDataSourceItemsConfig,
+						DataServiceFileValuesDataItemsSource
+					> =>
+						item.type !==
+							DataServiceSupportedDataSourcesType.FILE_VALUES &&
+						data.dataItemsConfigIds.includes(item.id),
 				);
 
 				// Extract all data elements and org units from selected configs
@@ -194,6 +213,7 @@ export function RunConfigForm({
 				const dataRequest = {
 					dataItemsConfigIds: data.dataItemsConfigIds,
 					runtimeConfig: data.runtimeConfig,
+					dryRun: data.dryRun,
 				};
 
 				result = await downloadData(
@@ -214,7 +234,11 @@ export function RunConfigForm({
 
 			let successMessage =
 				result.message || i18n.t("Service started successfully");
-			if (data.service === "data-deletion") {
+			if (data.dryRun) {
+				successMessage = i18n.t(
+					"Dry run started successfully. Check the run history for the validation results.",
+				);
+			} else if (data.service === "data-deletion") {
 				successMessage = i18n.t(
 					"Data deletion process started successfully. Check the queue for progress.",
 				);
@@ -270,7 +294,7 @@ export function RunConfigForm({
 								)}
 							</NoticeBox>
 						)}
-						{selectedService === "data-deletion" && (
+						{selectedService === "data-deletion" && !dryRun && (
 							<NoticeBox
 								error
 								title={i18n.t("Destructive Operation")}
@@ -411,10 +435,30 @@ export function RunConfigForm({
 											}
 											label={i18n.t("Paginate by data")}
 										/>
+										{selectedService ===
+											"data-migration" && (
+											<RHFCheckboxField
+												name={
+													"runtimeConfig.incremental"
+												}
+												label={i18n.t(
+													"Only migrate values updated since the last successful run",
+												)}
+											/>
+										)}
 									</>
 								)}
 							</>
 						)}
+						{selectedService !== "data-validation" && (
+							<RHFCheckboxField
+								name="dryRun"
+								label={i18n.t("Dry run")}
+								helpText={i18n.t(
+									"Validate the run against the destination without changing its data or metadata",
+								)}
+							/>
+						)}
 					</form>
 				</ModalContent>
 				<ModalActions>
@@ -426,12 +470,14 @@ export function RunConfigForm({
 							primary
 						>
 							{form.formState.isSubmitting
-								? selectedService === "data-deletion"
+								? selectedService === "data-deletion" && !dryRun
 									? i18n.t("Deleting data...")
 									: i18n.t("Requesting run...")
-								: selectedService === "data-deletion"
-									? i18n.t("Delete Data")
-									: i18n.t("Run")}
+								: dryRun
+									? i18n.t("Dry run")
+									: selectedService === "data-deletion"
+										? i18n.t("Delete Data")
+										: i18n.t("Run")}
 						</Button>
 					</ButtonStrip>
 				</ModalActions>
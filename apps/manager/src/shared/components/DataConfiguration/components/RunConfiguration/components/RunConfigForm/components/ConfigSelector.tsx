@@ -3,7 +3,10 @@ import { Button, ButtonStrip, Field } from "@dhis2/ui";
 import i18n from "@dhis2/d2-i18n";
 import { useController } from "react-hook-form";
 import { RunConfigFormValues } from "../RunConfigForm";
-import { DataServiceConfig } from "@packages/shared/schemas";
+import {
+	DataServiceConfig,
+	DataServiceSupportedDataSourcesType,
+} from "@packages/shared/schemas";
 import { RHFMultiSelectField } from "../../../../../../Fields/RHFMultiSelectField";
 
 export function ConfigSelector({ config }: { config: DataServiceConfig }) {
@@ -12,14 +15,18 @@ export function ConfigSelector({ config }: { config: DataServiceConfig }) {
 	});
 
 	const options = useMemo(() => {
-		return config.itemsConfig.map(
-			({ id, name, dataItems, type, periodTypeId }) => {
+		// Files are uploaded from the data items configuration instead
+		return config.itemsConfig
+			.filter(
+				({ type }) =>
+					type !== DataServiceSupportedDataSourcesType.FILE_VALUES,
+			)
+			.map(({ id, name, dataItems, type, periodTypeId }) => {
 				return {
 					label: `${name} (items: ${dataItems.length} period type: ${periodTypeId})`,
 					value: id,
 				};
-			},
-		);
+			});
 	}, [config]);
 
 	return (
@@ -15,6 +15,10 @@ import i18n from "@dhis2/d2-i18n";
 import { useController } from "react-hook-form";
 import { RunConfigFormValues } from "../RunConfigForm";
 import { RHFMultiSelectField } from "../../../../../../Fields/RHFMultiSelectField";
+import { DataServiceRelativePeriod } from "@packages/shared/schemas";
+import { startCase } from "lodash";
+
+const RELATIVE_PERIOD_TYPE = "RELATIVE";
 
 export function PeriodSelector({ minPeriodType }: { minPeriodType: string }) {
 	const [year, setYear] = useState<number>(new Date().getFullYear());
@@ -34,6 +38,12 @@ export function PeriodSelector({ minPeriodType }: { minPeriodType: string }) {
 
 	const periods = useMemo(() => {
 		if (!periodType) return [];
+		if (periodType === RELATIVE_PERIOD_TYPE) {
+			return Object.values(DataServiceRelativePeriod).map((id) => ({
+				id,
+				name: startCase(id.toLowerCase()),
+			}));
+		}
 		return PeriodUtility.fromObject({
 			year,
 			category: PeriodTypeCategory.FIXED,
@@ -57,7 +67,18 @@ export function PeriodSelector({ minPeriodType }: { minPeriodType: string }) {
 				selected={periodType}
 				label="Period Type"
 				onChange={({ selected }) => setPeriodType(selected)}
+				helpText={
+					periodType === RELATIVE_PERIOD_TYPE
+						? i18n.t(
+								"Relative periods are resolved to the period type of each configuration item when the migration starts",
+							)
+						: undefined
+				}
 			>
+				<SingleSelectOption
+					label={i18n.t("Relative periods")}
+					value={RELATIVE_PERIOD_TYPE}
+				/>
 				{periodTypes.map((type) => (
 					<SingleSelectOption
 						key={type.id}
@@ -102,6 +123,7 @@ export function PeriodSelector({ minPeriodType }: { minPeriodType: string }) {
 				</div>
 				<SingleSelectField
 					required
+					disabled={periodType === RELATIVE_PERIOD_TYPE}
 					selected={year.toString()}
 					label="Year"
 					onChange={({ selected }) => setYear(+selected)}
@@ -225,6 +225,7 @@ export function FailedQueueModal({
                                                 <DataTableColumnHeader>{i18n.t('Process Type')}</DataTableColumnHeader>
                                                 <DataTableColumnHeader>{i18n.t('Failed Endpoint')}</DataTableColumnHeader>
                                                 <DataTableColumnHeader>{i18n.t('Failed At')}</DataTableColumnHeader>
+                                                <DataTableColumnHeader>{i18n.t('Attempts')}</DataTableColumnHeader>
                                                 <DataTableColumnHeader>{i18n.t('Actions')}</DataTableColumnHeader>
                                                 <DataTableColumnHeader>{i18n.t('Details')}</DataTableColumnHeader>
                                             </DataTableRow>
@@ -260,6 +261,11 @@ export function FailedQueueModal({
                                                                     {new Date(msg.deathTimestamp).toLocaleString()}
                                                                 </div>
                                                             </DataTableCell>
+                                                            <DataTableCell>
+                                                                <div className="text-xs">
+                                                                    {msg.attempts?.length || '—'}
+                                                                </div>
+                                                            </DataTableCell>
                                                             <DataTableCell>
                                                                 <ButtonStrip>
                                                                     <Button
@@ -313,6 +319,30 @@ export function FailedQueueModal({
                                                                                     </div>
                                                                                 </div>
 
+                                                                                {/* Attempt History */}
+                                                                                {selectedMessage.attempts?.length > 0 && (
+                                                                                    <div style={{ marginBottom: '16px' }}>
+                                                                                        <strong>{i18n.t('Attempts')}:</strong>
+                                                                                        <ol style={{
+                                                                                            marginTop: '4px',
+                                                                                            paddingLeft: '20px',
+                                                                                            fontSize: '12px'
+                                                                                        }}>
+                                                                                            {selectedMessage.attempts.map((attempt: any) => (
+                                                                                                <li key={`${attempt.attempt}-${attempt.timestamp}`}>
+                                                                                                    {new Date(attempt.timestamp).toLocaleString()}
+                                                                                                    {attempt.status ? ` (HTTP ${attempt.status})` : ''}: {attempt.error}
+                                                                                                    {attempt.delay !== undefined && (
+                                                                                                        <span style={{ color: 'var(--colors-grey600)' }}>
+                                                                                                            {' '}{i18n.t('retried after {{delay}}s', { delay: attempt.delay })}
+                                                                                                        </span>
+                                                                                                    )}
+                                                                                                </li>
+                                                                                            ))}
+                                                                                        </ol>
+                                                                                    </div>
+                                                                                )}
+
 
                                                                             </div>
 
@@ -11,6 +11,7 @@ import i18n from "@dhis2/d2-i18n";
 import { useProcessMonitoring } from "../hooks/process-monitoring";
 import { FailedQueueModal } from "./FailedQueueModal";
 import { ProcessSection } from "./ProcessSection";
+import { RunHistory } from "./RunHistory";
 
 export function RunConfigSummaryDetails({
     config,
@@ -21,7 +22,7 @@ export function RunConfigSummaryDetails({
     onCloseParent?: () => void;
     onOpenFailedModal?: (processType: string) => void;
 }) {
-    const [activeTab, setActiveTab] = useState<"metadata" | "data" | "deletion">("metadata");
+    const [activeTab, setActiveTab] = useState<"metadata" | "data" | "deletion" | "history">("metadata");
     const [showFailedModal, setShowFailedModal] = useState(false);
     const [selectedProcessType, setSelectedProcessType] = useState<string | undefined>(undefined);
 
@@ -77,11 +78,12 @@ export function RunConfigSummaryDetails({
             <div className="bg-white">
                 <SegmentedControl
                     selected={activeTab}
-                    onChange={({ value }) => setActiveTab(value as "metadata" | "data" | "deletion")}
+                    onChange={({ value }) => setActiveTab(value as "metadata" | "data" | "deletion" | "history")}
                     options={[
                         { label: i18n.t("Metadata Migration"), value: "metadata" },
                         { label: i18n.t("Data Migration"), value: "data" },
                         { label: i18n.t("Data Deletion"), value: "deletion" },
+                        { label: i18n.t("History"), value: "history" },
                     ]}
                 />
             </div>
@@ -141,6 +143,10 @@ export function RunConfigSummaryDetails({
                 </div>
             )}
 
+            {activeTab === "history" && (
+                <RunHistory config={config} />
+            )}
+
             {!onOpenFailedModal && (
                 <FailedQueueModal
                     configId={config.id}
@@ -0,0 +1,529 @@
+import React, { useState } from "react";
+import {
+	Button,
+	ButtonStrip,
+	CircularLoader,
+	Modal,
+	ModalActions,
+	ModalContent,
+	ModalTitle,
+	NoticeBox,
+	Pagination,
+	Tag,
+} from "@dhis2/ui";
+import i18n from "@dhis2/d2-i18n";
+import { SimpleTable, SimpleTableColumn } from "@hisptz/dhis2-ui";
+import {
+	DataServiceConfig,
+	DataServiceImportSummary,
+	DataServiceRun,
+	DataServiceRunHistoryStatus,
+	DataServiceRunStage,
+	DataServiceSuppression,
+} from "@packages/shared/schemas";
+import { useRunDetails, useRunHistory, useRunLogs } from "../hooks/run-history";
+
+const columns: SimpleTableColumn[] = [
+	{
+		label: i18n.t("Started"),
+		key: "startedAt",
+	},
+	{
+		label: i18n.t("Type"),
+		key: "type",
+	},
+	{
+		label: i18n.t("Status"),
+		key: "status",
+	},
+	{
+		label: i18n.t("Periods"),
+		key: "periods",
+	},
+	{
+		label: i18n.t("Jobs"),
+		key: "jobs",
+	},
+	{
+		label: i18n.t("Imported / Updated / Ignored / Deleted"),
+		key: "counts",
+	},
+	{
+		label: i18n.t("Errors"),
+		key: "errors",
+	},
+	{
+		label: i18n.t("Suppressed"),
+		key: "suppressions",
+	},
+	{
+		label: i18n.t("Duration"),
+		key: "duration",
+	},
+	{
+		label: i18n.t("Actions"),
+		key: "actions",
+	},
+];
+
+const stageLabels: Record<string, string> = {
+	metadataDownload: i18n.t("Metadata download"),
+	metadataUpload: i18n.t("Metadata upload"),
+	dataDownload: i18n.t("Download"),
+	dataUpload: i18n.t("Upload"),
+	dataDeletion: i18n.t("Deletion"),
+};
+
+const suppressionTypeLabels: Record<DataServiceSuppression["type"], string> = {
+	PRIMARY: i18n.t("Below threshold"),
+	COMPLEMENTARY: i18n.t("Complementary"),
+};
+
+const runTypeLabels: Record<DataServiceRun["type"], string> = {
+	download: i18n.t("Data migration"),
+	delete: i18n.t("Data deletion"),
+	metadata: i18n.t("Metadata migration"),
+	file: i18n.t("File upload"),
+};
+
+function RunStatusTag({ status }: { status: DataServiceRunHistoryStatus }) {
+	switch (status) {
+		case DataServiceRunHistoryStatus.COMPLETED:
+			return <Tag positive>{i18n.t("Completed")}</Tag>;
+		case DataServiceRunHistoryStatus.COMPLETED_WITH_ERRORS:
+			return <Tag neutral>{i18n.t("Completed with errors")}</Tag>;
+		case DataServiceRunHistoryStatus.FAILED:
+			return <Tag negative>{i18n.t("Failed")}</Tag>;
+		case DataServiceRunHistoryStatus.RUNNING:
+			return <Tag>{i18n.t("Running")}</Tag>;
+		default:
+			return <Tag>{i18n.t("Queued")}</Tag>;
+	}
+}
+
+function formatDuration(run: DataServiceRun) {
+	if (!run.finishedAt) {
+		return "-";
+	}
+	const seconds = Math.round(
+		(new Date(run.finishedAt).getTime() -
+			new Date(run.startedAt).getTime()) /
+			1000,
+	);
+	if (seconds < 60) {
+		return i18n.t("{{seconds}}s", { seconds });
+	}
+	return i18n.t("{{minutes}}m {{seconds}}s", {
+		minutes: Math.floor(seconds / 60),
+		seconds: seconds % 60,
+	});
+}
+
+function sumStages(stages: DataServiceRunStage[]) {
+	return stages.reduce(
+		(totals, stage) => ({
+			imported: totals.imported + stage.imported,
+			updated: totals.updated + stage.updated,
+			ignored: totals.ignored + stage.ignored,
+			deleted: totals.deleted + stage.deleted,
+		}),
+		{ imported: 0, updated: 0, ignored: 0, deleted: 0 },
+	);
+}
+
+function ImportConflicts({
+	importSummary,
+}: {
+	importSummary: DataServiceImportSummary;
+}) {
+	if (importSummary.totalConflicts === 0) {
+		return <>0</>;
+	}
+	return (
+		<div className="flex flex-col gap-1">
+			{importSummary.conflicts.map((conflict, index) => (
+				<span key={index}>
+					{conflict.object && <strong>{conflict.object}: </strong>}
+					{conflict.value}
+				</span>
+			))}
+			{importSummary.totalConflicts > importSummary.conflicts.length && (
+				<i>
+					{i18n.t("and {{count}} more", {
+						count:
+							importSummary.totalConflicts -
+							importSummary.conflicts.length,
+					})}
+				</i>
+			)}
+		</div>
+	);
+}
+
+function RunLogs({ configId, runId }: { configId: string; runId: string }) {
+	const { logs, isLoading, isError, error } = useRunLogs(configId, runId);
+
+	return (
+		<div className="flex flex-col gap-1">
+			<strong>{i18n.t("Logs")}</strong>
+			{isLoading && <CircularLoader extrasmall />}
+			{isError && (
+				<NoticeBox error title={i18n.t("Could not load logs")}>
+					{(error as Error)?.message}
+				</NoticeBox>
+			)}
+			{!isLoading && !isError && (
+				<div className="max-h-[300px] overflow-auto w-full border-2 border-gray-200 rounded-md p-2 bg-gray-50 text-sm">
+					{logs.length === 0 && (
+						<span>{i18n.t("No recent logs were found")}</span>
+					)}
+					{logs.map((entry, index) => (
+						<div key={`${entry.timestamp}-${index}`}>
+							<code>
+								{`${new Date(entry.timestamp).toLocaleString()} [${entry.level.toUpperCase()}]${entry.queueType ? ` [${entry.queueType}]` : ""} ${entry.message}`}
+							</code>
+						</div>
+					))}
+				</div>
+			)}
+		</div>
+	);
+}
+
+function RunDetailsModal({
+	configId,
+	runId,
+	onClose,
+}: {
+	configId: string;
+	runId: string;
+	onClose: () => void;
+}) {
+	const { run, isLoading, isError, error } = useRunDetails(configId, runId);
+
+	return (
+		<Modal large position="middle" onClose={onClose}>
+			<ModalTitle>{i18n.t("Run details")}</ModalTitle>
+			<ModalContent>
+				{isLoading && (
+					<div className="flex justify-center p-4">
+						<CircularLoader small />
+					</div>
+				)}
+				{isError && (
+					<NoticeBox error title={i18n.t("Could not load run")}>
+						{(error as Error)?.message}
+					</NoticeBox>
+				)}
+				{run && (
+					<div className="flex flex-col gap-4">
+						{run.dryRun && (
+							<NoticeBox title={i18n.t("Dry run")}>
+								{i18n.t(
+									"This run only validated the uploads against the destination. The counts below are what would have been imported, no data or metadata was changed.",
+								)}
+							</NoticeBox>
+						)}
+						<div className="flex flex-col gap-1">
+							{Object.entries(run.periods).map(
+								([dataItemsConfigId, periods]) => (
+									<div key={dataItemsConfigId}>
+										<strong>{dataItemsConfigId}</strong>:{" "}
+										{periods.join(", ")}
+									</div>
+								),
+							)}
+						</div>
+						<SimpleTable
+							columns={[
+								{ label: i18n.t("Stage"), key: "stage" },
+								{ label: i18n.t("Queued"), key: "queued" },
+								{
+									label: i18n.t("Processed"),
+									key: "processed",
+								},
+								{ label: i18n.t("Failed"), key: "failed" },
+								{ label: i18n.t("Imported"), key: "imported" },
+								{ label: i18n.t("Updated"), key: "updated" },
+								{ label: i18n.t("Ignored"), key: "ignored" },
+								{ label: i18n.t("Deleted"), key: "deleted" },
+							]}
+							rows={run.stages.map((stage) => ({
+								id: stage.stage,
+								...stage,
+								stage: stageLabels[stage.stage] ?? stage.stage,
+							}))}
+							emptyLabel={i18n.t("No jobs were queued")}
+						/>
+						<SimpleTable
+							columns={[
+								{ label: i18n.t("Time"), key: "timestamp" },
+								{ label: i18n.t("Stage"), key: "stage" },
+								{ label: i18n.t("Error"), key: "message" },
+							]}
+							rows={(run.errors ?? []).map((runError, index) => ({
+								id: `${index}`,
+								timestamp: new Date(
+									runError.timestamp,
+								).toLocaleString(),
+								stage:
+									stageLabels[runError.stage] ??
+									runError.stage,
+								message: runError.message,
+							}))}
+							emptyLabel={i18n.t("No errors were recorded")}
+						/>
+						<SimpleTable
+							columns={[
+								{ label: i18n.t("Stage"), key: "stage" },
+								{ label: i18n.t("Upload"), key: "reference" },
+								{ label: i18n.t("Status"), key: "status" },
+								{
+									label: i18n.t(
+										"Imported / Updated / Ignored / Deleted",
+									),
+									key: "counts",
+								},
+								{
+									label: i18n.t("Conflicts"),
+									key: "conflicts",
+								},
+							]}
+							rows={(run.importSummaries ?? []).map(
+								(importSummary, index) => ({
+									id: `${index}`,
+									stage:
+										stageLabels[importSummary.stage] ??
+										importSummary.stage,
+									reference: importSummary.reference ?? "-",
+									status: importSummary.status,
+									counts: `${importSummary.imported} / ${importSummary.updated} / ${importSummary.ignored} / ${importSummary.deleted}`,
+									conflicts: (
+										<ImportConflicts
+											importSummary={importSummary}
+										/>
+									),
+								}),
+							)}
+							emptyLabel={i18n.t(
+								"No import summaries were recorded",
+							)}
+						/>
+						{run.suppressionCount > 0 && (
+							<div className="flex flex-col gap-1">
+								<strong>
+									{i18n.t(
+										"{{count}} values were suppressed",
+										{
+											count: run.suppressionCount,
+										},
+									)}
+								</strong>
+								<SimpleTable
+									columns={[
+										{
+											label: i18n.t("Configuration"),
+											key: "dataItemsConfigId",
+										},
+										{
+											label: i18n.t("Data element"),
+											key: "dataElement",
+										},
+										{
+											label: i18n.t(
+												"Category option combo",
+											),
+											key: "categoryOptionCombo",
+										},
+										{
+											label: i18n.t("Organisation unit"),
+											key: "orgUnit",
+										},
+										{
+											label: i18n.t("Period"),
+											key: "period",
+										},
+										{
+											label: i18n.t("Reason"),
+											key: "type",
+										},
+										{
+											label: i18n.t("Uploaded value"),
+											key: "replacement",
+										},
+									]}
+									rows={(run.suppressions ?? []).map(
+										(suppression, index) => ({
+											id: `${index}`,
+											...suppression,
+											categoryOptionCombo:
+												suppression.categoryOptionCombo ??
+												"-",
+											type: suppressionTypeLabels[
+												suppression.type
+											],
+											replacement:
+												suppression.replacement ??
+												i18n.t("Not uploaded"),
+										}),
+									)}
+									emptyLabel={i18n.t(
+										"No values were suppressed",
+									)}
+								/>
+							</div>
+						)}
+						{run.unmappedOrgUnitCount > 0 && (
+							<div className="flex flex-col gap-1">
+								<NoticeBox
+									warning
+									title={i18n.t(
+										"{{count}} organisation units are not mapped",
+										{
+											count: run.unmappedOrgUnitCount,
+										},
+									)}
+								>
+									{i18n.t(
+										"Their values were not uploaded. Map them to organisation units of the destination in the organisation unit mapping of the configuration.",
+									)}
+								</NoticeBox>
+								<SimpleTable
+									columns={[
+										{
+											label: i18n.t("Configuration"),
+											key: "dataItemsConfigId",
+										},
+										{
+											label: i18n.t(
+												"Source organisation unit",
+											),
+											key: "orgUnit",
+										},
+										{
+											label: i18n.t("Values"),
+											key: "valueCount",
+										},
+									]}
+									rows={(run.unmappedOrgUnits ?? []).map(
+										(unmappedOrgUnit, index) => ({
+											id: `${index}`,
+											...unmappedOrgUnit,
+										}),
+									)}
+									emptyLabel={i18n.t(
+										"All organisation units are mapped",
+									)}
+								/>
+							</div>
+						)}
+						<RunLogs configId={configId} runId={run.id} />
+					</div>
+				)}
+			</ModalContent>
+			<ModalActions>
+				<ButtonStrip>
+					<Button onClick={onClose}>{i18n.t("Close")}</Button>
+				</ButtonStrip>
+			</ModalActions>
+		</Modal>
+	);
+}
+
+export function RunHistory({ config }: { config: DataServiceConfig }) {
+	const [page, setPage] = useState(1);
+	const [pageSize, setPageSize] = useState(10);
+	const [selectedRunId, setSelectedRunId] = useState<string>();
+	const { runs, pagination, isLoading, isError, error } = useRunHistory(
+		config.id,
+		{ limit: pageSize, offset: (page - 1) * pageSize },
+	);
+
+	if (isError) {
+		return (
+			<NoticeBox error title={i18n.t("Could not load run history")}>
+				{(error as Error)?.message}
+			</NoticeBox>
+		);
+	}
+
+	if (isLoading) {
+		return (
+			<div className="flex justify-center p-4">
+				<CircularLoader />
+			</div>
+		);
+	}
+
+	const rows = runs.map((run) => {
+		const totals = sumStages(run.stages);
+		return {
+			id: run.id,
+			startedAt: new Date(run.startedAt).toLocaleString(),
+			type: runTypeLabels[run.type] ?? run.type,
+			status: (
+				<div className="flex gap-1">
+					<RunStatusTag status={run.status} />
+					{run.dryRun && <Tag neutral>{i18n.t("Dry run")}</Tag>}
+				</div>
+			),
+			periods: run.requestedPeriods.join(", ") || "-",
+			jobs: (
+				<div className="flex flex-col">
+					{run.stages.map((stage) => (
+						<span key={stage.stage}>
+							{stageLabels[stage.stage] ?? stage.stage}:{" "}
+							{stage.processed}/{stage.queued}
+						</span>
+					))}
+				</div>
+			),
+			counts: `${totals.imported} / ${totals.updated} / ${totals.ignored} / ${totals.deleted}`,
+			errors:
+				run.errorCount > 0 ? (
+					<Tag negative>{run.errorCount}</Tag>
+				) : (
+					run.errorCount
+				),
+			suppressions: run.suppressionCount,
+			duration: formatDuration(run),
+			actions: (
+				<Button small onClick={() => setSelectedRunId(run.id)}>
+					{i18n.t("Details")}
+				</Button>
+			),
+		};
+	});
+
+	return (
+		<div className="flex flex-col gap-2">
+			<SimpleTable
+				columns={columns}
+				rows={rows}
+				emptyLabel={i18n.t(
+					"There are no runs recorded for this configuration",
+				)}
+			/>
+			{pagination && pagination.total > 0 && (
+				<Pagination
+					page={page}
+					pageSize={pageSize}
+					total={pagination.total}
+					pageCount={Math.ceil(pagination.total / pageSize)}
+					onPageChange={setPage}
+					onPageSizeChange={(newPageSize) => {
+						setPageSize(newPageSize);
+						setPage(1);
+					}}
+				/>
+			)}
+			{selectedRunId && (
+				<RunDetailsModal
+					configId={config.id}
+					runId={selectedRunId}
+					onClose={() => setSelectedRunId(undefined)}
+				/>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,104 @@
+import { useQuery } from "@tanstack/react-query";
+import { useDataEngine } from "@dhis2/app-runtime";
+import { DataServiceLogEntry, DataServiceRun } from "@packages/shared/schemas";
+import {
+	getLogs,
+	getRun,
+	getRuns,
+} from "../../../../../../../services/dataServiceClient";
+
+interface RunHistoryData {
+	runs: DataServiceRun[];
+	pagination: {
+		limit: number;
+		offset: number;
+		total: number;
+		hasNextPage: boolean;
+	};
+}
+
+export function useRunHistory(
+	configId: string,
+	{ limit = 10, offset = 0 }: { limit?: number; offset?: number } = {},
+) {
+	const engine = useDataEngine();
+
+	const query = useQuery({
+		queryKey: ["runs", configId, limit, offset],
+		queryFn: async (): Promise<RunHistoryData> => {
+			const response = (await getRuns(engine, configId, {
+				limit,
+				offset,
+			})) as any;
+			if (!response.success) {
+				throw new Error(
+					response.error || "Failed to fetch run history",
+				);
+			}
+			return {
+				runs: response.runs ?? [],
+				pagination: response.pagination,
+			};
+		},
+		enabled: !!configId,
+		refetchInterval: 10000,
+	});
+
+	return {
+		runs: query.data?.runs ?? [],
+		pagination: query.data?.pagination,
+		isLoading: query.isLoading,
+		isError: query.isError,
+		error: query.error,
+		refetch: query.refetch,
+	};
+}
+
+export function useRunDetails(configId: string, runId?: string) {
+	const engine = useDataEngine();
+
+	const query = useQuery({
+		queryKey: ["runs", configId, "details", runId],
+		queryFn: async (): Promise<DataServiceRun> => {
+			const response = (await getRun(engine, configId, runId!)) as any;
+			if (!response.success) {
+				throw new Error(response.error || "Failed to fetch run");
+			}
+			return response.run;
+		},
+		enabled: !!configId && !!runId,
+	});
+
+	return {
+		run: query.data,
+		isLoading: query.isLoading,
+		isError: query.isError,
+		error: query.error,
+	};
+}
+
+export function useRunLogs(configId: string, runId?: string) {
+	const engine = useDataEngine();
+
+	const query = useQuery({
+		queryKey: ["runs", configId, "logs", runId],
+		queryFn: async (): Promise<DataServiceLogEntry[]> => {
+			const response = (await getLogs(engine, configId, {
+				runId,
+			})) as any;
+			if (!response.success) {
+				throw new Error(response.error || "Failed to fetch run logs");
+			}
+			return response.logs ?? [];
+		},
+		enabled: !!configId && !!runId,
+		refetchInterval: 10000,
+	});
+
+	return {
+		logs: query.data ?? [],
+		isLoading: query.isLoading,
+		isError: query.isError,
+		error: query.error,
+	};
+}
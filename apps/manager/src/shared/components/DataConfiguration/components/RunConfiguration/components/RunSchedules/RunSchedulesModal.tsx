@@ -0,0 +1,183 @@
+import {
+	Button,
+	ButtonStrip,
+	Divider,
+	IconAdd24,
+	IconDelete16,
+	IconEdit16,
+	Modal,
+	ModalActions,
+	ModalContent,
+	ModalTitle,
+	Tag,
+} from "@dhis2/ui";
+import i18n from "@dhis2/d2-i18n";
+import {
+	DataServiceConfig,
+	DataServiceSchedule,
+} from "@packages/shared/schemas";
+import { SimpleTable, SimpleTableColumn } from "@hisptz/dhis2-ui";
+import React, { useState } from "react";
+import { useScheduleStatus, useSaveSchedules } from "./hooks/schedules";
+import { ScheduleForm } from "./components/ScheduleForm";
+
+const columns: SimpleTableColumn[] = [
+	{
+		label: i18n.t("Name"),
+		key: "name",
+	},
+	{
+		label: i18n.t("Cron"),
+		key: "cron",
+	},
+	{
+		label: i18n.t("Status"),
+		key: "enabled",
+	},
+	{
+		label: i18n.t("Next run"),
+		key: "nextRun",
+	},
+	{
+		label: i18n.t("Last run"),
+		key: "lastRun",
+	},
+	{
+		label: i18n.t("Actions"),
+		key: "actions",
+	},
+];
+
+function formatDate(date?: string | null) {
+	return date ? new Date(date).toLocaleString() : "-";
+}
+
+export function RunSchedulesModal({
+	hide,
+	onClose,
+	config,
+}: {
+	hide: boolean;
+	onClose: () => void;
+	config: DataServiceConfig;
+}) {
+	const [schedules, setSchedules] = useState<DataServiceSchedule[]>(
+		config.schedules ?? [],
+	);
+	const [editing, setEditing] = useState<DataServiceSchedule | null>();
+	const { schedules: scheduleStatus } = useScheduleStatus(config.id);
+	const { saveSchedules, isSaving } = useSaveSchedules(config);
+
+	const onSave = async (updatedSchedules: DataServiceSchedule[]) => {
+		await saveSchedules(updatedSchedules);
+		setSchedules(updatedSchedules);
+	};
+
+	const onSubmit = async (schedule: DataServiceSchedule) => {
+		const exists = schedules.some(({ id }) => id === schedule.id);
+		await onSave(
+			exists
+				? schedules.map((item) =>
+						item.id === schedule.id ? schedule : item,
+					)
+				: [...schedules, schedule],
+		);
+	};
+
+	const rows = schedules.map((schedule) => {
+		const status = scheduleStatus.find(({ id }) => id === schedule.id);
+		return {
+			id: schedule.id,
+			name: schedule.name,
+			cron: <code>{schedule.cron}</code>,
+			enabled: schedule.enabled ? (
+				<Tag positive>{i18n.t("Enabled")}</Tag>
+			) : (
+				<Tag neutral>{i18n.t("Disabled")}</Tag>
+			),
+			nextRun: formatDate(status?.nextRun),
+			lastRun: (
+				<div className="flex items-center gap-2">
+					<span>{formatDate(status?.lastRun)}</span>
+					{status?.lastRunStatus && (
+						<Tag
+							positive={status.lastRunStatus === "SUCCESS"}
+							negative={status.lastRunStatus === "FAILED"}
+						>
+							{status.lastRunError ??
+								status.lastRunPeriods.join(", ")}
+						</Tag>
+					)}
+				</div>
+			),
+			actions: (
+				<ButtonStrip>
+					<Button
+						small
+						icon={<IconEdit16 />}
+						onClick={() => setEditing(schedule)}
+					/>
+					<Button
+						small
+						destructive
+						loading={isSaving}
+						icon={<IconDelete16 />}
+						onClick={() =>
+							onSave(
+								schedules.filter(
+									({ id }) => id !== schedule.id,
+								),
+							)
+						}
+					/>
+				</ButtonStrip>
+			),
+		};
+	});
+
+	return (
+		<>
+			{editing !== undefined && (
+				<ScheduleForm
+					hide={false}
+					config={config}
+					data={editing ?? undefined}
+					onClose={() => setEditing(undefined)}
+					onSubmit={onSubmit}
+				/>
+			)}
+			<Modal large hide={hide} onClose={onClose} position="middle">
+				<ModalTitle>
+					{i18n.t("Schedules for {{name}}", {
+						name: config.source.name,
+					})}
+				</ModalTitle>
+				<ModalContent>
+					<div className="flex flex-col gap-2 w-full">
+						<ButtonStrip end>
+							<Button
+								icon={<IconAdd24 />}
+								onClick={() => setEditing(null)}
+							>
+								{i18n.t("Add schedule")}
+							</Button>
+						</ButtonStrip>
+						<Divider />
+						<SimpleTable
+							columns={columns}
+							rows={rows}
+							emptyLabel={i18n.t(
+								"There are no schedules for this configuration",
+							)}
+						/>
+					</div>
+				</ModalContent>
+				<ModalActions>
+					<ButtonStrip>
+						<Button onClick={onClose}>{i18n.t("Dismiss")}</Button>
+					</ButtonStrip>
+				</ModalActions>
+			</Modal>
+		</>
+	);
+}
@@ -0,0 +1,179 @@
+import {
+	DataServiceConfig,
+	DataServiceSchedule,
+	DataServiceSupportedDataSourcesType,
+	dataServiceScheduleSchema,
+} from "@packages/shared/schemas";
+import {
+	Button,
+	ButtonStrip,
+	Modal,
+	ModalActions,
+	ModalContent,
+	ModalTitle,
+} from "@dhis2/ui";
+import React, { useMemo } from "react";
+import i18n from "@dhis2/d2-i18n";
+import {
+	RHFCheckboxField,
+	RHFSingleSelectField,
+	RHFTextInputField,
+} from "@hisptz/dhis2-ui";
+import { FormProvider, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { PeriodTypeCategory, PeriodUtility } from "@hisptz/dhis2-utils";
+import { RHFIDField } from "../../../../../../Fields/IDField";
+import { RHFNumberField } from "../../../../../../Fields/RHFNumberField";
+import { RHFMultiSelectField } from "../../../../../../Fields/RHFMultiSelectField";
+
+export function ScheduleForm({
+	config,
+	data,
+	hide,
+	onClose,
+	onSubmit,
+}: {
+	config: DataServiceConfig;
+	data?: DataServiceSchedule;
+	hide: boolean;
+	onClose: () => void;
+	onSubmit: (data: DataServiceSchedule) => Promise<void>;
+}) {
+	const form = useForm<DataServiceSchedule>({
+		resolver: zodResolver(dataServiceScheduleSchema),
+		defaultValues: data ?? {
+			enabled: true,
+			dataItemsConfigIds: [],
+			periods: {
+				count: 1,
+				includeCurrent: false,
+			},
+			runtimeConfig: {
+				pageSize: 10,
+				paginateByData: false,
+				timeout: 1000 * 60 * 5,
+			},
+		},
+	});
+	const action = data ? i18n.t("Update") : i18n.t("Create");
+
+	const configOptions = useMemo(
+		() =>
+			config.itemsConfig
+				.filter(
+					({ type }) =>
+						type !==
+						DataServiceSupportedDataSourcesType.FILE_VALUES,
+				)
+				.map(({ id, name, periodTypeId }) => ({
+					label: `${name} (${periodTypeId})`,
+					value: id,
+				})),
+		[config],
+	);
+
+	const periodTypeOptions = useMemo(
+		() =>
+			PeriodUtility.fromObject({
+				year: new Date().getFullYear(),
+				category: PeriodTypeCategory.FIXED,
+			}).periodTypes.map((periodType) => ({
+				label: periodType.config.name,
+				value: periodType.id,
+			})),
+		[],
+	);
+
+	const onFormSubmit = async (data: DataServiceSchedule) => {
+		await onSubmit(data);
+		onClose();
+	};
+
+	return (
+		<FormProvider {...form}>
+			<Modal position="middle" onClose={onClose} hide={hide}>
+				<ModalTitle>{`${action} ${i18n.t("schedule")}`}</ModalTitle>
+				<ModalContent>
+					<form className="flex flex-col gap-2">
+						<RHFTextInputField
+							required
+							name="name"
+							label={i18n.t("Name")}
+						/>
+						{!data && (
+							<RHFIDField
+								dependsOn="name"
+								label={i18n.t("ID")}
+								name="id"
+							/>
+						)}
+						<RHFTextInputField
+							required
+							name="cron"
+							label={i18n.t("Cron expression")}
+							helpText={i18n.t(
+								"For example, 0 2 * * * runs every day at 02:00 server time",
+							)}
+						/>
+						<RHFCheckboxField
+							name="enabled"
+							label={i18n.t("Enabled")}
+						/>
+						<RHFMultiSelectField
+							required
+							name="dataItemsConfigIds"
+							label={i18n.t("Configuration items")}
+							options={configOptions}
+						/>
+						<RHFSingleSelectField
+							required
+							name="periods.periodType"
+							label={i18n.t("Period type")}
+							options={periodTypeOptions}
+						/>
+						<RHFNumberField
+							required
+							name="periods.count"
+							label={i18n.t("Number of periods")}
+							helpText={i18n.t(
+								"How many of the most recent periods to migrate on each run",
+							)}
+						/>
+						<RHFCheckboxField
+							name="periods.includeCurrent"
+							label={i18n.t("Include the current period")}
+						/>
+						<RHFNumberField
+							name="runtimeConfig.pageSize"
+							label={i18n.t("Page size")}
+						/>
+						<RHFCheckboxField
+							name="runtimeConfig.paginateByData"
+							label={i18n.t("Paginate by data")}
+						/>
+						<RHFCheckboxField
+							name="runtimeConfig.incremental"
+							label={i18n.t(
+								"Only migrate values updated since the last successful run",
+							)}
+						/>
+					</form>
+				</ModalContent>
+				<ModalActions>
+					<ButtonStrip>
+						<Button onClick={onClose}>{i18n.t("Cancel")}</Button>
+						<Button
+							loading={form.formState.isSubmitting}
+							onClick={(_, e) => {
+								form.handleSubmit(onFormSubmit)(e);
+							}}
+							primary
+						>
+							{action}
+						</Button>
+					</ButtonStrip>
+				</ModalActions>
+			</Modal>
+		</FormProvider>
+	);
+}
@@ -0,0 +1,111 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAlert, useDataEngine } from "@dhis2/app-runtime";
+import i18n from "@dhis2/d2-i18n";
+import {
+	DataServiceConfig,
+	DataServiceSchedule,
+	DataServiceScheduleStatus,
+} from "@packages/shared/schemas";
+import { DatastoreNamespaces } from "@packages/shared/constants";
+import {
+	getSchedules,
+	reloadSchedules,
+} from "../../../../../../../services/dataServiceClient";
+import { useRefreshDataSources } from "../../../../../providers/DataSourcesProvider";
+
+const updateDataSourceMutation: any = {
+	type: "update" as const,
+	resource: `dataStore/${DatastoreNamespaces.DATA_SERVICE_CONFIG}`,
+	id: ({ id }: { id: string }) => id,
+	data: ({ data }: { data: DataServiceConfig }) => data,
+};
+
+export function useScheduleStatus(configId: string) {
+	const engine = useDataEngine();
+
+	const query = useQuery({
+		queryKey: ["schedules", configId],
+		queryFn: async (): Promise<DataServiceScheduleStatus[]> => {
+			const response = (await getSchedules(engine, configId)) as any;
+			if (!response.success) {
+				throw new Error(
+					response.error || "Failed to fetch schedule status",
+				);
+			}
+			return response.schedules ?? [];
+		},
+		enabled: !!configId,
+		refetchInterval: 30000,
+	});
+
+	return {
+		schedules: query.data ?? [],
+		isLoading: query.isLoading,
+		isError: query.isError,
+		error: query.error,
+		refetch: query.refetch,
+	};
+}
+
+export function useSaveSchedules(config: DataServiceConfig) {
+	const engine = useDataEngine();
+	const queryClient = useQueryClient();
+	const refreshList = useRefreshDataSources();
+	const { show } = useAlert(
+		({ message }) => message,
+		({ type }) => ({ ...type, duration: 3000 }),
+	);
+
+	const mutation = useMutation({
+		mutationFn: async (schedules: DataServiceSchedule[]) => {
+			const { config: currentConfig } = (await engine.query({
+				config: {
+					resource: `dataStore/${DatastoreNamespaces.DATA_SERVICE_CONFIG}`,
+					id: config.id,
+				},
+			})) as { config: DataServiceConfig };
+
+			await engine.mutate(updateDataSourceMutation, {
+				variables: {
+					id: config.id,
+					data: {
+						...currentConfig,
+						schedules,
+					},
+				},
+			});
+
+			try {
+				await reloadSchedules(engine, config.id);
+			} catch (error) {
+				show({
+					message: i18n.t(
+						"Schedules saved, but the data service could not reload them. They will be picked up on the next sync.",
+					),
+					type: { warning: true },
+				});
+			}
+		},
+		onSuccess: () => {
+			show({
+				message: i18n.t("Schedules updated successfully"),
+				type: { success: true },
+			});
+			queryClient.invalidateQueries({
+				queryKey: ["schedules", config.id],
+			});
+			refreshList();
+		},
+		onError: (error: Error) => {
+			show({
+				message: `${i18n.t("Could not save schedules")}: ${error.message}`,
+				type: { critical: true },
+			});
+		},
+	});
+
+	return {
+		saveSchedules: mutation.mutateAsync,
+		isSaving: mutation.isPending,
+	};
+}
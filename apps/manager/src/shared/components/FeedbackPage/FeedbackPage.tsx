@@ -0,0 +1,183 @@
+import React, { useMemo, useState } from "react";
+import {
+	Button,
+	ButtonStrip,
+	Checkbox,
+	CircularLoader,
+	IconDownload16,
+	NoticeBox,
+	SingleSelectField,
+	SingleSelectOption,
+	Tag,
+} from "@dhis2/ui";
+import { SimpleTable, SimpleTableColumn } from "@hisptz/dhis2-ui";
+import i18n from "@dhis2/d2-i18n";
+import { truncate, uniq } from "lodash";
+import { utils, writeFile } from "xlsx";
+import { FeedbackSubmission } from "@packages/shared/schemas";
+import { useFeedbackSubmissions } from "./hooks/data";
+import { ViewFeedback } from "./components/ViewFeedback";
+import { DeleteFeedback } from "./components/DeleteFeedback";
+
+const columns: SimpleTableColumn[] = [
+	{
+		label: i18n.t("Received"),
+		key: "submittedAt",
+	},
+	{
+		label: i18n.t("From"),
+		key: "from",
+	},
+	{
+		label: i18n.t("Message"),
+		key: "message",
+	},
+	{
+		label: i18n.t("Tags"),
+		key: "tags",
+	},
+	{
+		label: i18n.t("Actions"),
+		key: "actions",
+	},
+];
+
+function exportFeedback(submissions: FeedbackSubmission[]) {
+	const sheet = utils.json_to_sheet(
+		submissions.map((submission) => ({
+			[i18n.t("Received")]: submission.submittedAt,
+			[i18n.t("Name")]: submission.name ?? "",
+			[i18n.t("Email")]: submission.email,
+			[i18n.t("Message")]: submission.message ?? "",
+			[i18n.t("Tags")]: submission.tags.join(", "),
+			[i18n.t("Read")]: submission.read ? i18n.t("Yes") : i18n.t("No"),
+			[i18n.t("Email forwarding")]: submission.delivery.status,
+		})),
+	);
+	const workbook = utils.book_new();
+	utils.book_append_sheet(workbook, sheet, "Feedback");
+	writeFile(
+		workbook,
+		`flexiportal_feedback_${new Date().toISOString().split("T")[0]}.csv`,
+		{ bookType: "csv" },
+	);
+}
+
+export function FeedbackPage() {
+	const { submissions, isLoading, error, refetch } = useFeedbackSubmissions();
+	const [unreadOnly, setUnreadOnly] = useState(false);
+	const [tag, setTag] = useState<string | undefined>();
+
+	const tags = useMemo(
+		() => uniq(submissions.flatMap(({ tags }) => tags)).sort(),
+		[submissions],
+	);
+
+	const filteredSubmissions = useMemo(
+		() =>
+			submissions.filter(
+				(submission) =>
+					(!unreadOnly || !submission.read) &&
+					(!tag || submission.tags.includes(tag)),
+			),
+		[submissions, unreadOnly, tag],
+	);
+
+	if (isLoading) {
+		return (
+			<div className="h-full w-full flex justify-center items-center">
+				<CircularLoader small />
+			</div>
+		);
+	}
+
+	if (error) {
+		return (
+			<NoticeBox error title={i18n.t("Could not load the feedback")}>
+				{error.message}
+			</NoticeBox>
+		);
+	}
+
+	const rows = filteredSubmissions.map((submission) => ({
+		id: submission.id,
+		submittedAt: (
+			<span className={submission.read ? "" : "font-bold"}>
+				{new Date(submission.submittedAt).toLocaleString()}
+			</span>
+		),
+		from: (
+			<span className={submission.read ? "" : "font-bold"}>
+				{submission.name
+					? `${submission.name} <${submission.email}>`
+					: submission.email}
+			</span>
+		),
+		message: truncate(submission.message ?? "", { length: 80 }),
+		tags: (
+			<div className="flex gap-1 flex-wrap">
+				{submission.tags.map((tag) => (
+					<Tag key={tag}>{tag}</Tag>
+				))}
+			</div>
+		),
+		actions: (
+			<ButtonStrip>
+				<ViewFeedback submission={submission} />
+				<DeleteFeedback submission={submission} />
+			</ButtonStrip>
+		),
+	}));
+
+	return (
+		<div className="p-4 flex flex-col gap-4">
+			<span className="text-sm text-gray-500">
+				{i18n.t(
+					"Feedback sent from the feedback forms of the portal. Unread feedback is shown in bold.",
+				)}
+			</span>
+			<div className="flex gap-4 items-end justify-between">
+				<div className="flex gap-4 items-end">
+					<div className="w-[240px]">
+						<SingleSelectField
+							clearable
+							label={i18n.t("Tag")}
+							selected={tag}
+							onChange={({ selected }) => setTag(selected)}
+						>
+							{tags.map((tag) => (
+								<SingleSelectOption
+									key={tag}
+									label={tag}
+									value={tag}
+								/>
+							))}
+						</SingleSelectField>
+					</div>
+					<Checkbox
+						label={i18n.t("Unread only")}
+						checked={unreadOnly}
+						onChange={({ checked }) => setUnreadOnly(checked)}
+					/>
+				</div>
+				<ButtonStrip end>
+					<Button onClick={() => refetch()}>
+						{i18n.t("Refresh")}
+					</Button>
+					<Button
+						icon={<IconDownload16 />}
+						disabled={filteredSubmissions.length === 0}
+						onClick={() => exportFeedback(filteredSubmissions)}
+					>
+						{i18n.t("Export to CSV")}
+					</Button>
+				</ButtonStrip>
+			</div>
+			<SimpleTable
+				columns={columns}
+				rows={rows}
+				emptyLabel={i18n.t("No feedback has been received")}
+			/>
+		</div>
+	);
+}
@@ -0,0 +1,58 @@
+import React from "react";
+import {
+	Button,
+	ButtonStrip,
+	Modal,
+	ModalActions,
+	ModalContent,
+	ModalTitle,
+} from "@dhis2/ui";
+import i18n from "@dhis2/d2-i18n";
+import { useBoolean } from "usehooks-ts";
+import { FeedbackSubmission } from "@packages/shared/schemas";
+import { useDeleteFeedback } from "../hooks/data";
+
+export function DeleteFeedback({
+	submission,
+}: {
+	submission: FeedbackSubmission;
+}) {
+	const { value: hide, setTrue: onHide, setFalse: onOpen } = useBoolean(true);
+	const { remove, isDeleting } = useDeleteFeedback();
+
+	const onConfirm = async () => {
+		await remove(submission);
+		onHide();
+	};
+
+	return (
+		<>
+			{!hide && (
+				<Modal position="middle" small onClose={onHide}>
+					<ModalTitle>{i18n.t("Delete feedback")}</ModalTitle>
+					<ModalContent>
+						{i18n.t(
+							"Are you sure you want to delete the feedback from {{email}}? This can not be undone.",
+							{ email: submission.email },
+						)}
+					</ModalContent>
+					<ModalActions>
+						<ButtonStrip>
+							<Button onClick={onHide}>{i18n.t("Cancel")}</Button>
+							<Button
+								destructive
+								loading={isDeleting}
+								onClick={onConfirm}
+							>
+								{i18n.t("Delete")}
+							</Button>
+						</ButtonStrip>
+					</ModalActions>
+				</Modal>
+			)}
+			<Button small destructive onClick={onOpen}>
+				{i18n.t("Delete")}
+			</Button>
+		</>
+	);
+}
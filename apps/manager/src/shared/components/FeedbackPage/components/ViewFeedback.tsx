@@ -0,0 +1,133 @@
+import React, { useEffect, useState } from "react";
+import {
+	Button,
+	ButtonStrip,
+	InputField,
+	Modal,
+	ModalActions,
+	ModalContent,
+	ModalTitle,
+	Tag,
+} from "@dhis2/ui";
+import i18n from "@dhis2/d2-i18n";
+import { useBoolean } from "usehooks-ts";
+import { uniq } from "lodash";
+import {
+	FeedbackDeliveryStatus,
+	FeedbackSubmission,
+} from "@packages/shared/schemas";
+import { useUpdateFeedback } from "../hooks/data";
+
+function FeedbackDetail({
+	label,
+	children,
+}: {
+	label: string;
+	children: React.ReactNode;
+}) {
+	return (
+		<div className="flex flex-col gap-1">
+			<span className="text-sm font-semibold text-gray-700">{label}</span>
+			<div className="text-sm">{children}</div>
+		</div>
+	);
+}
+
+function ViewFeedbackModal({
+	submission,
+	onClose,
+}: {
+	submission: FeedbackSubmission;
+	onClose: () => void;
+}) {
+	const { update, isUpdating } = useUpdateFeedback();
+	const [tags, setTags] = useState<string>(submission.tags.join(", "));
+
+	useEffect(() => {
+		if (!submission.read) {
+			update({ ...submission, read: true });
+		}
+	}, []);
+
+	const onSave = async () => {
+		await update({
+			...submission,
+			read: true,
+			tags: uniq(
+				tags
+					.split(",")
+					.map((tag) => tag.trim())
+					.filter(Boolean),
+			),
+		});
+		onClose();
+	};
+
+	return (
+		<Modal position="middle" onClose={onClose}>
+			<ModalTitle>{i18n.t("Feedback")}</ModalTitle>
+			<ModalContent>
+				<div className="flex flex-col gap-4">
+					<FeedbackDetail label={i18n.t("Received")}>
+						{new Date(submission.submittedAt).toLocaleString()}
+					</FeedbackDetail>
+					<FeedbackDetail label={i18n.t("From")}>
+						{submission.name
+							? `${submission.name} <${submission.email}>`
+							: submission.email}
+					</FeedbackDetail>
+					<FeedbackDetail label={i18n.t("Message")}>
+						<p className="whitespace-pre-wrap">
+							{submission.message || "-"}
+						</p>
+					</FeedbackDetail>
+					<FeedbackDetail label={i18n.t("Email forwarding")}>
+						{submission.delivery.status ===
+						FeedbackDeliveryStatus.SENT ? (
+							<Tag positive>{i18n.t("Sent")}</Tag>
+						) : (
+							<div className="flex flex-col gap-1 items-start">
+								<Tag negative>{i18n.t("Failed")}</Tag>
+								{submission.delivery.error}
+							</div>
+						)}
+					</FeedbackDetail>
+					<InputField
+						name="tags"
+						label={i18n.t("Tags")}
+						helpText={i18n.t("Tags separated by commas")}
+						value={tags}
+						onChange={({ value }) => setTags(value ?? "")}
+					/>
+				</div>
+			</ModalContent>
+			<ModalActions>
+				<ButtonStrip>
+					<Button onClick={onClose}>{i18n.t("Close")}</Button>
+					<Button primary loading={isUpdating} onClick={onSave}>
+						{i18n.t("Save")}
+					</Button>
+				</ButtonStrip>
+			</ModalActions>
+		</Modal>
+	);
+}
+
+export function ViewFeedback({
+	submission,
+}: {
+	submission: FeedbackSubmission;
+}) {
+	const { value: hide, setTrue: onHide, setFalse: onOpen } = useBoolean(true);
+
+	return (
+		<>
+			{!hide && (
+				<ViewFeedbackModal submission={submission} onClose={onHide} />
+			)}
+			<Button small onClick={onOpen}>
+				{i18n.t("View")}
+			</Button>
+		</>
+	);
+}
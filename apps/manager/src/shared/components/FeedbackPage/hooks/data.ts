@@ -0,0 +1,129 @@
+import { useAlert, useDataEngine } from "@dhis2/app-runtime";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import i18n from "@dhis2/d2-i18n";
+import { orderBy } from "lodash";
+import { FEEDBACK_NAMESPACE } from "@packages/shared/constants";
+import { FeedbackSubmission } from "@packages/shared/schemas";
+
+const FEEDBACK_QUERY_KEY = ["feedback"];
+
+type FeedbackResponse = {
+	feedback: {
+		entries: {
+			key: string;
+			value: FeedbackSubmission;
+		}[];
+	};
+};
+
+export function useFeedbackSubmissions() {
+	const engine = useDataEngine();
+
+	const query = useQuery({
+		queryKey: FEEDBACK_QUERY_KEY,
+		queryFn: async () => {
+			try {
+				const { feedback } = (await engine.query({
+					feedback: {
+						resource: `dataStore/${FEEDBACK_NAMESPACE}`,
+						params: {
+							fields: ".",
+							paging: false,
+						},
+					},
+				})) as FeedbackResponse;
+				return orderBy(
+					feedback.entries.map(({ value }) => value),
+					["submittedAt"],
+					["desc"],
+				);
+			} catch (e) {
+				if (
+					(e as { details?: { httpStatusCode?: number } })?.details
+						?.httpStatusCode === 404
+				) {
+					//No feedback has been submitted yet
+					return [];
+				}
+				throw e;
+			}
+		},
+	});
+
+	return {
+		submissions: query.data ?? [],
+		isLoading: query.isLoading,
+		error: query.error as Error | null,
+		refetch: query.refetch,
+	};
+}
+
+export function useUpdateFeedback() {
+	const engine = useDataEngine();
+	const queryClient = useQueryClient();
+	const { show } = useAlert(
+		({ message }) => message,
+		({ type }) => ({ ...type, duration: 3000 }),
+	);
+
+	const mutation = useMutation({
+		mutationFn: async (submission: FeedbackSubmission) => {
+			await engine.mutate({
+				type: "update",
+				resource: `dataStore/${FEEDBACK_NAMESPACE}/${submission.id}`,
+				data: submission,
+			});
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: FEEDBACK_QUERY_KEY });
+		},
+		onError: (error: Error) => {
+			show({
+				message: `${i18n.t("Could not update the feedback")}: ${error.message}`,
+				type: { critical: true },
+			});
+		},
+	});
+
+	return {
+		update: mutation.mutateAsync,
+		isUpdating: mutation.isPending,
+	};
+}
+
+export function useDeleteFeedback() {
+	const engine = useDataEngine();
+	const queryClient = useQueryClient();
+	const { show } = useAlert(
+		({ message }) => message,
+		({ type }) => ({ ...type, duration: 3000 }),
+	);
+
+	const mutation = useMutation({
+		mutationFn: async (submission: FeedbackSubmission) => {
+			await engine.mutate({
+				type: "delete",
+				resource: `dataStore/${FEEDBACK_NAMESPACE}`,
+				id: submission.id,
+			});
+		},
+		onSuccess: () => {
+			show({
+				message: i18n.t("Feedback deleted successfully"),
+				type: { success: true },
+			});
+			queryClient.invalidateQueries({ queryKey: FEEDBACK_QUERY_KEY });
+		},
+		onError: (error: Error) => {
+			show({
+				message: `${i18n.t("Could not delete the feedback")}: ${error.message}`,
+				type: { critical: true },
+			});
+		},
+	});
+
+	return {
+		remove: mutation.mutateAsync,
+		isDeleting: mutation.isPending,
+	};
+}
@@ -4,7 +4,7 @@ import {
 	useDataMutation,
 	useDataQuery,
 } from "@dhis2/app-runtime";
-import { DatastoreKeys, DatastoreNamespaces } from "@packages/shared/constants";
+import { DatastoreKeys, DraftDatastoreNamespaces } from "@packages/shared/constants";
 import {
 	AppIconFile,
 	MetadataConfig,
@@ -19,7 +19,7 @@ import { useManageDocument } from "../../../hooks/document";
 
 const query = {
 	metadata: {
-		resource: `dataStore/${DatastoreNamespaces.MAIN_CONFIG}/${DatastoreKeys.METADATA}`,
+		resource: `dataStore/${DraftDatastoreNamespaces.MAIN_CONFIG}/${DatastoreKeys.METADATA}`,
 		params: {
 			fields: ".",
 		},
@@ -94,7 +94,7 @@ export function useMetadataQuery() {
 const dataMutation = {
 	type: "update" as const,
 	id: DatastoreKeys.METADATA,
-	resource: `dataStore/${DatastoreNamespaces.MAIN_CONFIG}`,
+	resource: `dataStore/${DraftDatastoreNamespaces.MAIN_CONFIG}`,
 	data: ({ data }: { data: MetadataConfig }) => data,
 };
 
@@ -12,7 +12,13 @@ import {
 import i18n from '@dhis2/d2-i18n';
 import React, { useCallback, useState } from 'react';
 import JSZip from 'jszip';
-import { DatastoreNamespaces, DatastoreKeys } from '@packages/shared/constants';
+import {
+    DatastoreNamespaces,
+    DatastoreKeys,
+    getDraftNamespace,
+    getStaticItemsDraftNamespace,
+    getStaticItemsNamespaces,
+} from '@packages/shared/constants';
 import { DocumentDetails, getContentTypeFromExtension, useConfiguration } from './ConfigurationPage/utils/configurationUtils';
 import TemplateCard from './TemplateCard';
 import { CreateStatus } from '../hooks/config';
@@ -142,6 +148,11 @@ export function ImportConfiguration({ setImportLoading, onStatusChange, onProgre
                 });
                 onStatusChange(statuses);
             }
+            // Items of the static modules are imported into their draft namespaces
+            const modulesFile = loadedZip.files[`${DatastoreNamespaces.MODULES}.json`];
+            const staticItemsNamespaces = modulesFile
+                ? getStaticItemsNamespaces(JSON.parse(await modulesFile.async('string')))
+                : [];
             for (const filename in loadedZip.files) {
                 if (filename.endsWith('.json') && !loadedZip.files[filename].dir) {
                     const namespace = filename.replace('.json', '');
@@ -150,7 +161,7 @@ export function ImportConfiguration({ setImportLoading, onStatusChange, onProgre
                     if (namespace === DatastoreNamespaces.MAIN_CONFIG && typeof data === 'object' && !Array.isArray(data)) {
                         for (const key in data) {
                             if (Object.values(DatastoreKeys).includes(key as DatastoreKeys)) {
-                                await setValue(namespace, key, data[key]);
+                                await setValue(getDraftNamespace(namespace), key, data[key]);
                             }
                         }
                         statuses.push({
@@ -159,9 +170,12 @@ export function ImportConfiguration({ setImportLoading, onStatusChange, onProgre
                             message: i18n.t(`Successfully imported  ${namespace}`),
                         });
                     } else if (Array.isArray(data)) {
+                        const draftNamespace = staticItemsNamespaces.includes(namespace)
+                            ? getStaticItemsDraftNamespace(namespace)
+                            : getDraftNamespace(namespace);
                         for (const item of data) {
                             if (item?.id) {
-                                await setValue(namespace, item.id, item);
+                                await setValue(draftNamespace, item.id, item);
                             }
                         }
                         statuses.push({
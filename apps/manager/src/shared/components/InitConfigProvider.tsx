@@ -1,12 +1,12 @@
 import React, { useEffect } from "react";
 import { useDataMutation, useDataQuery } from "@dhis2/app-runtime";
 import { FullLoader } from "./FullLoader";
-import { DatastoreNamespaces } from "@packages/shared/constants";
+import { DraftDatastoreNamespaces } from "@packages/shared/constants";
 
 function getMutation(key: string): any {
 	return {
 		type: "create",
-		resource: `dataStore/${DatastoreNamespaces.MAIN_CONFIG}/${key}`,
+		resource: `dataStore/${DraftDatastoreNamespaces.MAIN_CONFIG}/${key}`,
 		data: ({ data }: { data: Record<string, any> }) => data,
 	};
 }
@@ -15,7 +15,7 @@ function getQuery(key: string) {
 	return {
 		config: {
 			resource: "dataStore",
-			id: `${DatastoreNamespaces.MAIN_CONFIG}/${key}`,
+			id: `${DraftDatastoreNamespaces.MAIN_CONFIG}/${key}`,
 		},
 	};
 }
@@ -4,12 +4,12 @@ import React, { useEffect } from "react";
 import { useFormContext, useWatch } from "react-hook-form";
 import { AppModule, ModuleMenuItem } from "@packages/shared/schemas";
 import { useGetDatastoreEntries } from "../../../../hooks/datastore";
-import { DatastoreNamespaces } from "@packages/shared/constants";
+import { DraftDatastoreNamespaces } from "@packages/shared/constants";
 
 export function MenuDataInput() {
 	const { setValue } = useFormContext<ModuleMenuItem>();
 	const { data } = useGetDatastoreEntries<AppModule>({
-		namespace: DatastoreNamespaces.MODULES,
+		namespace: DraftDatastoreNamespaces.MODULES,
 		fields: ["id", "label", "type"],
 	});
 	const moduleId = useWatch<ModuleMenuItem, "moduleId">({
@@ -1,5 +1,5 @@
 import { useGetDatastoreEntries } from "../../../../hooks/datastore";
-import { DatastoreNamespaces } from "@packages/shared/constants";
+import { DraftDatastoreNamespaces } from "@packages/shared/constants";
 import React, { useMemo } from "react";
 import { AppModule } from "@packages/shared/schemas";
 import { capitalize, startCase } from "lodash";
@@ -9,7 +9,7 @@ import { MenuDataInput } from "./MenuDataInput";
 
 export function ModuleSelector({ subMenu }: { subMenu?: boolean }) {
 	const { data, loading } = useGetDatastoreEntries<AppModule>({
-		namespace: DatastoreNamespaces.MODULES,
+		namespace: DraftDatastoreNamespaces.MODULES,
 		fields: ["id", "label", "type"],
 	});
 
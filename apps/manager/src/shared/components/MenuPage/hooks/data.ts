@@ -1,5 +1,5 @@
 import { useAlert, useDataMutation, useDataQuery } from "@dhis2/app-runtime";
-import { DatastoreKeys, DatastoreNamespaces } from "@packages/shared/constants";
+import { DatastoreKeys, DraftDatastoreNamespaces } from "@packages/shared/constants";
 import { AppMenuConfig } from "@packages/shared/schemas";
 import i18n from "@dhis2/d2-i18n";
 import { useFormContext } from "react-hook-form";
@@ -7,7 +7,7 @@ import { useRefreshMenuConfig } from "../providers/MenuProvider";
 
 const query = {
 	menu: {
-		resource: `dataStore/${DatastoreNamespaces.MAIN_CONFIG}/${DatastoreKeys.MENU}`,
+		resource: `dataStore/${DraftDatastoreNamespaces.MAIN_CONFIG}/${DatastoreKeys.MENU}`,
 		params: {
 			fields: ".",
 		},
@@ -30,7 +30,7 @@ export function useMenuQuery() {
 const mutation = {
 	type: "update" as const,
 	id: DatastoreKeys.MENU,
-	resource: `dataStore/${DatastoreNamespaces.MAIN_CONFIG}`,
+	resource: `dataStore/${DraftDatastoreNamespaces.MAIN_CONFIG}`,
 	data: ({ data }: { data: AppMenuConfig }) => data,
 };
 
@@ -1,13 +1,13 @@
 import React, { createContext, useContext } from "react";
 import { useDataQuery } from "@dhis2/app-runtime";
 import { FullLoader } from "./FullLoader";
-import { DatastoreKeys, DatastoreNamespaces } from "@packages/shared/constants";
+import { DatastoreKeys, DraftDatastoreNamespaces } from "@packages/shared/constants";
 import ErrorPage from "./ErrorPage/ErrorPage";
 import { MetadataConfig } from "@packages/shared/schemas";
 
 const query = {
 	config: {
-		resource: `dataStore/${DatastoreNamespaces.MAIN_CONFIG}`,
+		resource: `dataStore/${DraftDatastoreNamespaces.MAIN_CONFIG}`,
 		id: DatastoreKeys.METADATA,
 	},
 };
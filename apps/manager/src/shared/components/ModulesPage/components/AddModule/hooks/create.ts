@@ -1,11 +1,11 @@
 import { useDataEngine } from "@dhis2/app-runtime";
 import { useCallback } from "react";
 import { BaseModule } from "@packages/shared/schemas";
-import { DatastoreNamespaces } from "@packages/shared/constants";
+import { DraftDatastoreNamespaces } from "@packages/shared/constants";
 
 const getMutation = (id: string) => ({
 	type: "create" as const,
-	resource: `dataStore/${DatastoreNamespaces.MODULES}/${id}`,
+	resource: `dataStore/${DraftDatastoreNamespaces.MODULES}/${id}`,
 	data: ({ data }: { data: BaseModule }) => data,
 });
 
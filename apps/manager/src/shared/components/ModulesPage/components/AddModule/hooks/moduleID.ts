@@ -1,5 +1,5 @@
 import { useDataEngine } from "@dhis2/app-runtime";
-import { DatastoreNamespaces } from "@packages/shared/constants";
+import { DraftDatastoreNamespaces } from "@packages/shared/constants";
 
 export function useValidateModuleId() {
     const engine = useDataEngine();
@@ -8,7 +8,7 @@ export function useValidateModuleId() {
       try {
         const response = await engine.query({
           module: {
-            resource: `dataStore/${DatastoreNamespaces.MODULES}/${id}`,
+            resource: `dataStore/${DraftDatastoreNamespaces.MODULES}/${id}`,
           },
         });
         return !!response.module; 
@@ -10,7 +10,10 @@ import {
 import i18n from "@dhis2/d2-i18n";
 import { FetchError, useAlert, useDataMutation } from "@dhis2/app-runtime";
 import { useNavigate } from "@tanstack/react-router";
-import { DatastoreNamespaces } from "@packages/shared/constants";
+import {
+	DraftDatastoreNamespaces,
+	getStaticItemsDraftNamespace,
+} from "@packages/shared/constants";
 import { useModule } from "../providers/ModuleProvider";
 import { useRefreshModules } from "../providers/ModulesProvider";
 import {
@@ -21,13 +24,16 @@ import {
 
 const deleteMutation: any = {
 	type: "delete",
-	resource: `dataStore/${DatastoreNamespaces.MODULES}`,
+	resource: `dataStore/${DraftDatastoreNamespaces.MODULES}`,
 	id: ({ id }: { id: string }) => id,
 };
 
+/*
+ * Only the draft items are deleted, publishing empties the live namespace of a removed module
+ * */
 const deleteNamespaceMutation: any = (namespace: string) => ({
 	type: "delete",
-	resource: `dataStore/${namespace}`,
+	resource: `dataStore/${getStaticItemsDraftNamespace(namespace)}`,
 });
 
 export function DeleteModule() {
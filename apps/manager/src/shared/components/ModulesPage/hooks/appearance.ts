@@ -1,10 +1,10 @@
 import { useDataQuery } from "@dhis2/app-runtime";
-import { DatastoreKeys, DatastoreNamespaces } from "@packages/shared/constants";
+import { DatastoreKeys, DraftDatastoreNamespaces } from "@packages/shared/constants";
 import { AppAppearanceConfig } from "@packages/shared/schemas";
 
 const query = {
     appearance: {
-        resource: `dataStore/${DatastoreNamespaces.MAIN_CONFIG}`,
+        resource: `dataStore/${DraftDatastoreNamespaces.MAIN_CONFIG}`,
         id: ({ id }: { id: string }) => id,
         params: {
             fields: ".",
@@ -1,12 +1,12 @@
 import { useDataQuery } from "@dhis2/app-runtime";
 import { Pagination } from "@hisptz/dhis2-utils";
 import { sortBy } from "lodash";
-import { DatastoreNamespaces } from "@packages/shared/constants";
+import { DraftDatastoreNamespaces } from "@packages/shared/constants";
 import { AppModule } from "@packages/shared/schemas";
 
 const query = {
     modules: {
-        resource: `dataStore/${DatastoreNamespaces.MODULES}`,
+        resource: `dataStore/${DraftDatastoreNamespaces.MODULES}`,
         params: {
             fields: ".",
         },
@@ -37,7 +37,7 @@ export function useModuleList() {
 
 const singleQuery = {
     module: {
-        resource: `dataStore/${DatastoreNamespaces.MODULES}`,
+        resource: `dataStore/${DraftDatastoreNamespaces.MODULES}`,
         id: ({ id }: { id: string }) => id,
         params: {
             fields: ".",
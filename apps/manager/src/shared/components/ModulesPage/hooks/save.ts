@@ -1,13 +1,13 @@
 import { useParams } from "@tanstack/react-router";
 import { useAlert, useDataMutation } from "@dhis2/app-runtime";
 import i18n from "@dhis2/d2-i18n";
-import { DatastoreNamespaces } from "@packages/shared/constants";
+import { DraftDatastoreNamespaces } from "@packages/shared/constants";
 import { AppModule } from "@packages/shared/schemas";
 import { useRefreshModule } from "../providers/ModuleProvider";
 
 const mutation: any = {
 	type: "update",
-	resource: `dataStore/${DatastoreNamespaces.MODULES}`,
+	resource: `dataStore/${DraftDatastoreNamespaces.MODULES}`,
 	id: ({ id }: { id: string }) => id,
 	data: ({ data }: { data: AppModule }) => data,
 };
@@ -0,0 +1,164 @@
+import React from "react";
+import {
+	Button,
+	ButtonStrip,
+	CircularLoader,
+	Divider,
+	NoticeBox,
+	Tag,
+} from "@dhis2/ui";
+import { SimpleTable, SimpleTableColumn } from "@hisptz/dhis2-ui";
+import { uniq } from "lodash";
+import i18n from "@dhis2/d2-i18n";
+import { DatastoreNamespaces } from "@packages/shared/constants";
+import { usePublishStatus } from "../../hooks/publish";
+import { PublishConfiguration } from "./components/PublishConfiguration";
+import { RollbackSnapshot } from "./components/RollbackSnapshot";
+import { PurgePortalCache } from "./components/PurgePortalCache";
+
+const namespaceLabels: Record<string, string> = {
+	[DatastoreNamespaces.MAIN_CONFIG]: i18n.t("General, appearance and menu"),
+	[DatastoreNamespaces.MODULES]: i18n.t("Modules"),
+};
+
+const columns: SimpleTableColumn[] = [
+	{
+		label: i18n.t("Version"),
+		key: "version",
+	},
+	{
+		label: i18n.t("Published at"),
+		key: "publishedAt",
+	},
+	{
+		label: i18n.t("Published by"),
+		key: "publishedBy",
+	},
+	{
+		label: i18n.t("Description"),
+		key: "description",
+	},
+	{
+		label: i18n.t("Actions"),
+		key: "actions",
+	},
+];
+
+export function PublishingPage() {
+	const {
+		snapshots,
+		hasUnpublishedChanges,
+		changedNamespaces,
+		isPartlyPublished,
+		isLoading,
+		error,
+		refetch,
+	} = usePublishStatus();
+
+	if (isLoading) {
+		return (
+			<div className="h-full w-full flex justify-center items-center">
+				<CircularLoader small />
+			</div>
+		);
+	}
+
+	if (error) {
+		return (
+			<NoticeBox
+				error
+				title={i18n.t("Could not load the version history")}
+			>
+				{error.message}
+			</NoticeBox>
+		);
+	}
+
+	const rows = snapshots.map((snapshot, index) => ({
+		id: snapshot.version.toString(),
+		version:
+			index === 0 ? (
+				<div className="flex gap-2 items-center">
+					{snapshot.version}
+					{snapshot.partial ? (
+						<Tag negative>{i18n.t("Partly published")}</Tag>
+					) : (
+						<Tag positive>{i18n.t("Live")}</Tag>
+					)}
+				</div>
+			) : (
+				snapshot.version
+			),
+		publishedAt: new Date(snapshot.publishedAt).toLocaleString(),
+		publishedBy: snapshot.publishedBy ?? "-",
+		description: snapshot.description ?? "-",
+		actions: index === 0 ? null : <RollbackSnapshot snapshot={snapshot} />,
+	}));
+
+	return (
+		<div className="p-4 flex flex-col gap-4">
+			<span className="text-sm text-gray-500">
+				{i18n.t(
+					"Changes made in the manager are saved to a draft. The portal preview shows the draft, the live portal only shows published versions.",
+				)}
+			</span>
+			{isPartlyPublished ? (
+				<NoticeBox error title={i18n.t("Partly published")}>
+					{i18n.t(
+						"Version {{version}} was only partly published, the live portal may show a mix of versions. Publish again or roll back to an earlier version.",
+						{ version: snapshots[0]?.version },
+					)}
+				</NoticeBox>
+			) : snapshots.length === 0 ? (
+				<NoticeBox warning title={i18n.t("Not published yet")}>
+					{i18n.t(
+						"The configuration has never been published from the manager. Publish it to make the draft the live configuration.",
+					)}
+				</NoticeBox>
+			) : hasUnpublishedChanges ? (
+				<NoticeBox warning title={i18n.t("Unpublished changes")}>
+					{i18n.t(
+						"The draft has changes that are not live yet: {{sections}}",
+						{
+							sections: uniq(
+								changedNamespaces.map(
+									(namespace) =>
+										namespaceLabels[namespace] ??
+										i18n.t("Static module items"),
+								),
+							).join(", "),
+						},
+					)}
+				</NoticeBox>
+			) : (
+				<NoticeBox valid title={i18n.t("Up to date")}>
+					{i18n.t("The live portal shows the current draft")}
+				</NoticeBox>
+			)}
+			<ButtonStrip end>
+				<Button onClick={() => refetch()}>{i18n.t("Refresh")}</Button>
+				<PublishConfiguration
+					disabled={
+						snapshots.length > 0 &&
+						!hasUnpublishedChanges &&
+						!isPartlyPublished
+					}
+				/>
+			</ButtonStrip>
+			<Divider />
+			<span className="text-base font-semibold text-gray-700">
+				{i18n.t("Cached data")}
+			</span>
+			<PurgePortalCache />
+			<Divider />
+			<span className="text-base font-semibold text-gray-700">
+				{i18n.t("Version history")}
+			</span>
+			<SimpleTable
+				columns={columns}
+				rows={rows}
+				emptyLabel={i18n.t("No version has been published yet")}
+			/>
+		</div>
+	);
+}
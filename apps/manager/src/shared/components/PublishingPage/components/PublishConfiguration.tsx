@@ -0,0 +1,75 @@
+import {
+	Button,
+	ButtonStrip,
+	InputField,
+	Modal,
+	ModalActions,
+	ModalContent,
+	ModalTitle,
+} from "@dhis2/ui";
+import React, { useState } from "react";
+import i18n from "@dhis2/d2-i18n";
+import { useBoolean } from "usehooks-ts";
+import { usePublish } from "../../../hooks/publish";
+
+function PublishConfigurationForm({ onClose }: { onClose: () => void }) {
+	const [description, setDescription] = useState<string>("");
+	const { publish, isPublishing } = usePublish();
+
+	const onPublish = async () => {
+		try {
+			await publish({ description: description.trim() || undefined });
+			onClose();
+		} catch (e) {
+			// The error is shown by the publish hook
+		}
+	};
+
+	return (
+		<Modal position="middle" onClose={onClose}>
+			<ModalTitle>{i18n.t("Publish configuration")}</ModalTitle>
+			<ModalContent>
+				<div className="flex flex-col gap-2">
+					<span>
+						{i18n.t(
+							"The draft configuration will replace the configuration of the live portal. A snapshot of it is kept so that you can roll back to it later.",
+						)}
+					</span>
+					<InputField
+						name="description"
+						label={i18n.t("Description")}
+						helpText={i18n.t(
+							"What changed in this version, shown in the version history",
+						)}
+						value={description}
+						onChange={({ value }) => setDescription(value ?? "")}
+					/>
+				</div>
+			</ModalContent>
+			<ModalActions>
+				<ButtonStrip>
+					<Button onClick={onClose}>{i18n.t("Cancel")}</Button>
+					<Button primary loading={isPublishing} onClick={onPublish}>
+						{i18n.t("Publish")}
+					</Button>
+				</ButtonStrip>
+			</ModalActions>
+		</Modal>
+	);
+}
+
+export function PublishConfiguration({ disabled }: { disabled?: boolean }) {
+	const {
+		value: hide,
+		setTrue: onClose,
+		setFalse: onShow,
+	} = useBoolean(true);
+	return (
+		<>
+			{!hide && <PublishConfigurationForm onClose={onClose} />}
+			<Button primary disabled={disabled} onClick={onShow}>
+				{i18n.t("Publish")}
+			</Button>
+		</>
+	);
+}
@@ -0,0 +1,52 @@
+import { Button } from "@dhis2/ui";
+import React from "react";
+import i18n from "@dhis2/d2-i18n";
+import { PortalCachePurgeSource } from "@packages/shared/schemas";
+import { useLastCachePurge, usePurgeCache } from "../hooks/cache";
+
+export function PurgePortalCache() {
+	const { lastPurge } = useLastCachePurge();
+	const { purge, isPurging } = usePurgeCache();
+
+	const onPurge = async () => {
+		try {
+			await purge();
+		} catch (e) {
+			// The error is shown by the purge hook
+		}
+	};
+
+	return (
+		<div className="flex gap-4 items-center justify-between">
+			<div className="flex flex-col gap-1">
+				<span className="text-sm text-gray-500">
+					{i18n.t(
+						"The portal keeps the data of charts and maps for a few minutes. The data service clears it after uploading data, clear it here to show changes made in DHIS2 right away.",
+					)}
+				</span>
+				{lastPurge && (
+					<span className="text-sm text-gray-500">
+						{lastPurge.source === PortalCachePurgeSource.MANAGER
+							? i18n.t("Last cleared at {{date}} by {{user}}", {
+									date: new Date(
+										lastPurge.purgedAt,
+									).toLocaleString(),
+									user: lastPurge.purgedBy,
+								})
+							: i18n.t(
+									"Last cleared at {{date}} after a data service run",
+									{
+										date: new Date(
+											lastPurge.purgedAt,
+										).toLocaleString(),
+									},
+								)}
+					</span>
+				)}
+			</div>
+			<Button loading={isPurging} onClick={onPurge}>
+				{i18n.t("Clear cached data")}
+			</Button>
+		</div>
+	);
+}
@@ -0,0 +1,72 @@
+import {
+	Button,
+	ButtonStrip,
+	Modal,
+	ModalActions,
+	ModalContent,
+	ModalTitle,
+} from "@dhis2/ui";
+import React from "react";
+import i18n from "@dhis2/d2-i18n";
+import { useBoolean } from "usehooks-ts";
+import { PortalSnapshotSummary } from "@packages/shared/schemas";
+import { useRollback } from "../../../hooks/publish";
+
+export function RollbackSnapshot({
+	snapshot,
+}: {
+	snapshot: PortalSnapshotSummary;
+}) {
+	const {
+		value: hide,
+		setTrue: onClose,
+		setFalse: onShow,
+	} = useBoolean(true);
+	const { rollback, isRollingBack } = useRollback();
+
+	const onConfirm = async () => {
+		try {
+			await rollback({ version: snapshot.version });
+			onClose();
+		} catch (e) {
+			// The error is shown by the rollback hook
+		}
+	};
+
+	return (
+		<>
+			{!hide && (
+				<Modal position="middle" onClose={onClose}>
+					<ModalTitle>
+						{i18n.t("Roll back to version {{version}}", {
+							version: snapshot.version,
+						})}
+					</ModalTitle>
+					<ModalContent>
+						{i18n.t(
+							"The live portal and the draft will be replaced by version {{version}}. Unpublished changes in the draft will be lost. The rollback is published as a new version.",
+							{ version: snapshot.version },
+						)}
+					</ModalContent>
+					<ModalActions>
+						<ButtonStrip>
+							<Button onClick={onClose}>
+								{i18n.t("Cancel")}
+							</Button>
+							<Button
+								destructive
+								loading={isRollingBack}
+								onClick={onConfirm}
+							>
+								{i18n.t("Roll back")}
+							</Button>
+						</ButtonStrip>
+					</ModalActions>
+				</Modal>
+			)}
+			<Button small onClick={onShow}>
+				{i18n.t("Roll back")}
+			</Button>
+		</>
+	);
+}
@@ -0,0 +1,117 @@
+import { useAlert, useDataEngine } from "@dhis2/app-runtime";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import i18n from "@dhis2/d2-i18n";
+import {
+	PORTAL_CACHE_NAMESPACE,
+	PORTAL_CACHE_PURGE_KEY,
+} from "@packages/shared/constants";
+import {
+	PortalCachePurge,
+	PortalCachePurgeSource,
+} from "@packages/shared/schemas";
+
+const CACHE_PURGE_QUERY_KEY = ["portal-cache-purge"];
+
+const resource = `dataStore/${PORTAL_CACHE_NAMESPACE}/${PORTAL_CACHE_PURGE_KEY}`;
+
+function isNotFound(error: unknown) {
+	return (
+		(error as { details?: { httpStatusCode?: number } })?.details
+			?.httpStatusCode === 404
+	);
+}
+
+export function useLastCachePurge() {
+	const engine = useDataEngine();
+
+	const query = useQuery({
+		queryKey: CACHE_PURGE_QUERY_KEY,
+		queryFn: async () => {
+			try {
+				const { purge } = (await engine.query({
+					purge: {
+						resource,
+					},
+				})) as { purge: PortalCachePurge };
+				return purge;
+			} catch (e) {
+				if (isNotFound(e)) {
+					//The cache has never been purged
+					return null;
+				}
+				throw e;
+			}
+		},
+	});
+
+	return {
+		lastPurge: query.data ?? null,
+		isLoading: query.isLoading,
+	};
+}
+
+/*
+ * The portal checks the purge date regularly and drops the DHIS2 responses it has cached before it
+ * */
+export function usePurgeCache() {
+	const engine = useDataEngine();
+	const queryClient = useQueryClient();
+	const { show } = useAlert(
+		({ message }) => message,
+		({ type }) => ({ ...type, duration: 3000 }),
+	);
+
+	const mutation = useMutation({
+		mutationFn: async () => {
+			const { me } = (await engine.query({
+				me: {
+					resource: "me",
+					params: {
+						fields: "username",
+					},
+				},
+			})) as { me: { username: string } };
+			const purge: PortalCachePurge = {
+				purgedAt: new Date().toISOString(),
+				source: PortalCachePurgeSource.MANAGER,
+				purgedBy: me.username,
+			};
+			try {
+				await engine.mutate({
+					type: "update",
+					resource,
+					data: purge,
+				});
+			} catch (error) {
+				if (!isNotFound(error)) {
+					throw error;
+				}
+				await engine.mutate({
+					type: "create",
+					resource,
+					data: purge,
+				});
+			}
+		},
+		onSuccess: () => {
+			show({
+				message: i18n.t(
+					"The portal will load the latest data within a minute",
+				),
+				type: { success: true },
+			});
+			queryClient.invalidateQueries({ queryKey: CACHE_PURGE_QUERY_KEY });
+		},
+		onError: (error: Error) => {
+			show({
+				message: `${i18n.t("Could not clear the cached data")}: ${error.message}`,
+				type: { critical: true },
+			});
+		},
+	});
+
+	return {
+		purge: mutation.mutateAsync,
+		isPurging: mutation.isPending,
+	};
+}
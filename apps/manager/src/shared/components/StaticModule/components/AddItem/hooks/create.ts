@@ -1,6 +1,7 @@
 import { useDataEngine } from "@dhis2/app-runtime";
 import { useCallback } from "react";
 import { StaticItemConfig, StaticModule } from "@packages/shared/schemas";
+import { getStaticItemsDraftNamespace } from "@packages/shared/constants";
 import { useModule } from "../../../../ModulesPage/providers/ModuleProvider";
 
 const getMutation = ({ namespace, id }: { namespace: string; id: string }) => ({
@@ -16,7 +17,9 @@ export function useCreateItem() {
 		async (data: StaticItemConfig) => {
 			await engine.mutate(
 				getMutation({
-					namespace: module?.config?.namespace,
+					namespace: getStaticItemsDraftNamespace(
+						module?.config?.namespace,
+					),
 					id: data.id,
 				}) as any,
 				{
@@ -47,7 +50,9 @@ export function useUpdateItem() {
 		async (data: StaticItemConfig) => {
 			await engine.mutate(
 				getUpdateMutation({
-					namespace: module?.config?.namespace,
+					namespace: getStaticItemsDraftNamespace(
+						module?.config?.namespace,
+					),
 					id: data.id,
 				}) as any,
 				{
@@ -12,6 +12,7 @@ import React, { useState } from "react";
 import { useNavigate, useParams } from "@tanstack/react-router";
 import { FetchError, useAlert, useDataMutation } from "@dhis2/app-runtime";
 import { StaticItemConfig, StaticModule } from "@packages/shared/schemas";
+import { getStaticItemsDraftNamespace } from "@packages/shared/constants";
 import { useSaveItem } from "../hooks/save";
 import { useModule } from "../../ModulesPage/providers/ModuleProvider";
 import { useRefreshModules } from "../../ModulesPage/providers/ModulesProvider";
@@ -32,7 +33,7 @@ export function ItemActions() {
 	const { save } = useSaveItem(itemId!);
 	const module = useModule() as StaticModule;
 	const [onDelete, { loading }] = useDataMutation(
-		deleteMutation(module?.config?.namespace),
+		deleteMutation(getStaticItemsDraftNamespace(module?.config?.namespace)),
 	);
 	const refreshModules = useRefreshModules();
 	const [showDialog, setShowDialog] = useState(false);
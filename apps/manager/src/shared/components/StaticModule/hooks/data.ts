@@ -1,5 +1,6 @@
 import { useDataQuery } from "@dhis2/app-runtime";
 import { StaticItemConfig, StaticModule } from "@packages/shared/schemas";
+import { getStaticItemsDraftNamespace } from "@packages/shared/constants";
 import { useModule } from "../../ModulesPage/providers/ModuleProvider";
 import { Pagination } from "@hisptz/dhis2-utils";
 
@@ -23,9 +24,22 @@ type Response = {
 	};
 };
 
-export function useItemList() {
+/*
+ * Items are edited in the draft of the module namespace, the live namespace is only written when publishing
+ * */
+function useItemsNamespace() {
 	const module = useModule() as StaticModule;
 	const namespace = module?.config?.namespace;
+	return {
+		module,
+		namespace: namespace
+			? getStaticItemsDraftNamespace(namespace)
+			: undefined,
+	};
+}
+
+export function useItemList() {
+	const { module, namespace } = useItemsNamespace();
 	const {
 		data: namespaceData,
 		loading: namespaceLoading,
@@ -50,7 +64,7 @@ const singleQuery = {
 		id: ({ namespace, key }: { namespace: string; key: string }) =>
 			`${namespace}/${key}`,
 		params: {
-			fields: "id,title,icon,shortDescription,content",
+			fields: "id,title,icon,shortDescription,content,translations",
 		},
 	},
 };
@@ -61,8 +75,7 @@ type SingleResponse = {
 
 export function useItemById(key: string) {
 	if (!key) throw new Error("moduleId and key are required");
-	const module = useModule() as StaticModule;
-	const namespace = module?.config?.namespace;
+	const { namespace } = useItemsNamespace();
 	const {
 		data,
 		loading: itemLoading,
@@ -2,6 +2,7 @@ import { useNavigate } from "@tanstack/react-router";
 import { useAlert, useDataEngine } from "@dhis2/app-runtime";
 import i18n from "@dhis2/d2-i18n";
 import { StaticItemConfig, StaticModule } from "@packages/shared/schemas";
+import { getStaticItemsDraftNamespace } from "@packages/shared/constants";
 import {
 	useModule,
 	useRefreshModule,
@@ -62,7 +63,9 @@ export function useSaveItem(itemId: string) {
 			try {
 				await engine.mutate(
 					updateMutation({
-						namespace: module?.config?.namespace,
+						namespace: getStaticItemsDraftNamespace(
+							module.config.namespace,
+						),
 						id: itemId,
 					}),
 					{
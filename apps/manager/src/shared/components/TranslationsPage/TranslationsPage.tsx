@@ -0,0 +1,106 @@
+import React from "react";
+import { CircularLoader, Divider, NoticeBox, Tag } from "@dhis2/ui";
+import { SimpleTable, SimpleTableColumn } from "@hisptz/dhis2-ui";
+import i18n from "@dhis2/d2-i18n";
+import { useTranslationDocuments } from "./hooks/data";
+import { getMissingTranslations } from "./utils/documents";
+import { LocalesConfigForm } from "./components/LocalesConfigForm";
+import { EditTranslations } from "./components/EditTranslations";
+
+export function TranslationsPage() {
+	const { localization, documents, isLoading, error } =
+		useTranslationDocuments();
+
+	if (isLoading) {
+		return (
+			<div className="h-full w-full flex justify-center items-center">
+				<CircularLoader small />
+			</div>
+		);
+	}
+
+	if (error) {
+		return (
+			<NoticeBox error title={i18n.t("Could not load the translations")}>
+				{error.message}
+			</NoticeBox>
+		);
+	}
+
+	const translationLocales =
+		localization?.locales.filter(
+			(locale) => locale !== localization.defaultLocale,
+		) ?? [];
+
+	const columns: SimpleTableColumn[] = [
+		{
+			label: i18n.t("Name"),
+			key: "label",
+		},
+		{
+			label: i18n.t("Type"),
+			key: "type",
+		},
+		...translationLocales.map((locale) => ({
+			label: i18n.t("Missing ({{locale}})", { locale }),
+			key: locale,
+		})),
+		{
+			label: i18n.t("Actions"),
+			key: "actions",
+		},
+	];
+
+	const rows = documents.map((document) => ({
+		id: document.id,
+		label: document.label,
+		type: document.type,
+		...Object.fromEntries(
+			translationLocales.map((locale) => {
+				const missing = getMissingTranslations(document, locale).length;
+				return [
+					locale,
+					missing > 0 ? (
+						<Tag negative>{missing}</Tag>
+					) : (
+						<Tag positive>{i18n.t("Complete")}</Tag>
+					),
+				];
+			}),
+		),
+		actions: (
+			<EditTranslations
+				document={document}
+				locales={translationLocales}
+			/>
+		),
+	}));
+
+	return (
+		<div className="p-4 flex flex-col gap-4">
+			<span className="text-sm text-gray-500">
+				{i18n.t(
+					"Texts entered in the rest of the manager are in the default language. Visitors of the portal can switch to any of the other languages, texts without a translation are shown in the default language.",
+				)}
+			</span>
+			<LocalesConfigForm localization={localization} />
+			<Divider />
+			<span className="text-base font-semibold text-gray-700">
+				{i18n.t("Translations")}
+			</span>
+			{translationLocales.length === 0 ? (
+				<NoticeBox title={i18n.t("No languages to translate to")}>
+					{i18n.t(
+						"Add at least one language other than the default language to start translating the portal content",
+					)}
+				</NoticeBox>
+			) : (
+				<SimpleTable
+					columns={columns}
+					rows={rows}
+					emptyLabel={i18n.t("There is no content to translate")}
+				/>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,142 @@
+import React from "react";
+import {
+	Button,
+	ButtonStrip,
+	Divider,
+	Modal,
+	ModalActions,
+	ModalContent,
+	ModalTitle,
+} from "@dhis2/ui";
+import i18n from "@dhis2/d2-i18n";
+import { FormProvider, useForm } from "react-hook-form";
+import { RHFTextInputField } from "@hisptz/dhis2-ui";
+import { useBoolean } from "usehooks-ts";
+import { RHFRichTextAreaField } from "../../Fields/RHFRichTextAreaField";
+import { useSaveTranslations } from "../hooks/data";
+import {
+	getTranslationFieldName,
+	TranslatableField,
+	TranslationDocument,
+} from "../utils/documents";
+
+function TranslationField({
+	field,
+	locale,
+}: {
+	field: TranslatableField;
+	locale: string;
+}) {
+	const name = getTranslationFieldName(field, locale);
+	const label = `${field.label} (${locale})`;
+
+	if (field.richText) {
+		return <RHFRichTextAreaField name={name} label={label} />;
+	}
+	return (
+		<RHFTextInputField
+			name={name}
+			label={label}
+			helpText={field.defaultText}
+		/>
+	);
+}
+
+function EditTranslationsForm({
+	document,
+	locales,
+	onClose,
+}: {
+	document: TranslationDocument;
+	locales: string[];
+	onClose: () => void;
+}) {
+	const { save, isSaving } = useSaveTranslations();
+	const form = useForm<Record<string, unknown>>({
+		defaultValues: document.value,
+	});
+
+	const onSubmit = async (value: Record<string, unknown>) => {
+		await save({ document, value });
+		onClose();
+	};
+
+	return (
+		<FormProvider {...form}>
+			<Modal position="middle" large onClose={onClose}>
+				<ModalTitle>
+					{i18n.t("Translations of {{label}}", {
+						label: document.label,
+					})}
+				</ModalTitle>
+				<ModalContent>
+					<form className="flex flex-col gap-4">
+						{document.fields.map((field) => (
+							<div
+								key={`${field.path}.${field.field}`}
+								className="flex flex-col gap-2"
+							>
+								<span className="text-sm font-semibold text-gray-700">
+									{field.label}
+								</span>
+								{!field.richText && (
+									<span className="text-sm text-gray-500">
+										{i18n.t("Default")}:{" "}
+										{field.defaultText || "-"}
+									</span>
+								)}
+								{locales.map((locale) => (
+									<TranslationField
+										key={locale}
+										field={field}
+										locale={locale}
+									/>
+								))}
+								<Divider />
+							</div>
+						))}
+					</form>
+				</ModalContent>
+				<ModalActions>
+					<ButtonStrip>
+						<Button onClick={onClose}>{i18n.t("Cancel")}</Button>
+						<Button
+							primary
+							loading={isSaving}
+							onClick={(_, e) => {
+								form.handleSubmit(onSubmit)(e);
+							}}
+						>
+							{isSaving ? i18n.t("Saving...") : i18n.t("Save")}
+						</Button>
+					</ButtonStrip>
+				</ModalActions>
+			</Modal>
+		</FormProvider>
+	);
+}
+
+export function EditTranslations({
+	document,
+	locales,
+}: {
+	document: TranslationDocument;
+	locales: string[];
+}) {
+	const { value: hide, setTrue: onHide, setFalse: onOpen } = useBoolean(true);
+
+	return (
+		<>
+			{!hide && (
+				<EditTranslationsForm
+					document={document}
+					locales={locales}
+					onClose={onHide}
+				/>
+			)}
+			<Button small onClick={onOpen}>
+				{i18n.t("Translate")}
+			</Button>
+		</>
+	);
+}
@@ -0,0 +1,111 @@
+import React, { useState } from "react";
+import { uniq } from "lodash";
+import { Button, ButtonStrip, InputField } from "@dhis2/ui";
+import i18n from "@dhis2/d2-i18n";
+import { FormProvider, useController, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { RHFSingleSelectField } from "@hisptz/dhis2-ui";
+import { LocalesConfig, localesConfigSchema } from "@packages/shared/schemas";
+import { useSaveLocales } from "../hooks/data";
+
+const localesFormSchema = localesConfigSchema.refine(
+	({ defaultLocale, locales }) => locales.includes(defaultLocale),
+	{
+		message: "The default language must be one of the languages",
+		path: ["defaultLocale"],
+	},
+);
+
+/*
+ * Locales are typed as a comma separated list, the text is kept as typed while the form holds the parsed codes
+ * */
+function LocalesField() {
+	const { field, fieldState } = useController<LocalesConfig, "locales">({
+		name: "locales",
+	});
+	const [value, setValue] = useState<string>((field.value ?? []).join(", "));
+
+	return (
+		<InputField
+			required
+			name={field.name}
+			label={i18n.t("Languages")}
+			helpText={i18n.t(
+				"Locale codes separated by commas, e.g. en, fr, pt-BR",
+			)}
+			value={value}
+			onBlur={field.onBlur}
+			onChange={({ value }) => {
+				setValue(value ?? "");
+				field.onChange(
+					(value ?? "")
+						.split(",")
+						.map((locale) => locale.trim())
+						.filter(Boolean),
+				);
+			}}
+			error={!!fieldState.error}
+			validationText={
+				// Invalid codes are reported on the items of the array
+				fieldState.error &&
+				(fieldState.error.message ?? i18n.t("Enter valid locale codes"))
+			}
+		/>
+	);
+}
+
+export function LocalesConfigForm({
+	localization,
+}: {
+	localization?: LocalesConfig;
+}) {
+	const { save, isSaving } = useSaveLocales();
+	const form = useForm<LocalesConfig>({
+		resolver: zodResolver(localesFormSchema),
+		defaultValues: localization ?? {
+			defaultLocale: "en",
+			locales: ["en"],
+		},
+	});
+	const [locales, defaultLocale] = form.watch(["locales", "defaultLocale"]);
+
+	const onSubmit = async (data: LocalesConfig) => {
+		await save(data);
+		form.reset(data);
+	};
+
+	return (
+		<FormProvider {...form}>
+			<form className="flex flex-col gap-2">
+				<LocalesField />
+				<RHFSingleSelectField
+					required
+					name="defaultLocale"
+					label={i18n.t("Default language")}
+					helpText={i18n.t(
+						"The language of the texts entered in the rest of the manager",
+					)}
+					// Keeps the selected value listed while it is being removed from the languages
+					options={uniq([...(locales ?? []), defaultLocale]).map(
+						(locale) => ({
+							label: locale,
+							value: locale,
+						}),
+					)}
+				/>
+				<ButtonStrip end>
+					<Button
+						primary
+						loading={isSaving}
+						disabled={!form.formState.isDirty}
+						onClick={(_, e) => {
+							form.handleSubmit(onSubmit)(e);
+						}}
+					>
+						{isSaving ? i18n.t("Saving...") : i18n.t("Save")}
+					</Button>
+				</ButtonStrip>
+			</form>
+		</FormProvider>
+	);
+}
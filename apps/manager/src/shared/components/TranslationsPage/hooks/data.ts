@@ -0,0 +1,250 @@
+import { useAlert, useDataEngine } from "@dhis2/app-runtime";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import i18n from "@dhis2/d2-i18n";
+import {
+	DatastoreKeys,
+	DraftDatastoreNamespaces,
+	getStaticItemsDraftNamespace,
+} from "@packages/shared/constants";
+import {
+	AppAppearanceConfig,
+	AppMenuConfig,
+	AppModule,
+	LocalesConfig,
+	MetadataConfig,
+	ModuleType,
+	StaticItemConfig,
+} from "@packages/shared/schemas";
+import {
+	getAppearanceFields,
+	getMenuFields,
+	getModuleFields,
+	getStaticItemFields,
+	TranslationDocument,
+} from "../utils/documents";
+
+type DataEngine = ReturnType<typeof useDataEngine>;
+
+type NamespaceResponse<T> = {
+	namespace: {
+		entries: {
+			key: string;
+			value: T;
+		}[];
+	};
+};
+
+const TRANSLATIONS_QUERY_KEY = ["translations"];
+
+async function getValue<T>(engine: DataEngine, namespace: string, key: string) {
+	const { value } = (await engine.query({
+		value: {
+			resource: `dataStore/${namespace}/${key}`,
+		},
+	})) as { value: T };
+	return value;
+}
+
+async function getEntries<T>(engine: DataEngine, namespace: string) {
+	try {
+		const { namespace: response } = (await engine.query({
+			namespace: {
+				resource: `dataStore/${namespace}`,
+				params: {
+					fields: ".",
+					paging: false,
+				},
+			},
+		})) as NamespaceResponse<T>;
+		return response.entries;
+	} catch (e) {
+		//A static module without items has no namespace yet
+		return [];
+	}
+}
+
+async function getTranslationDocuments(
+	engine: DataEngine,
+): Promise<TranslationDocument[]> {
+	const appearance = await getValue<AppAppearanceConfig>(
+		engine,
+		DraftDatastoreNamespaces.MAIN_CONFIG,
+		DatastoreKeys.APPEARANCE,
+	);
+	const menu = await getValue<AppMenuConfig>(
+		engine,
+		DraftDatastoreNamespaces.MAIN_CONFIG,
+		DatastoreKeys.MENU,
+	);
+	const documents: TranslationDocument[] = [
+		{
+			id: DatastoreKeys.APPEARANCE,
+			label: i18n.t("Header"),
+			type: i18n.t("Appearance"),
+			namespace: DraftDatastoreNamespaces.MAIN_CONFIG,
+			key: DatastoreKeys.APPEARANCE,
+			value: appearance,
+			fields: getAppearanceFields(appearance),
+		},
+		{
+			id: DatastoreKeys.MENU,
+			label: i18n.t("App menu"),
+			type: i18n.t("Menu"),
+			namespace: DraftDatastoreNamespaces.MAIN_CONFIG,
+			key: DatastoreKeys.MENU,
+			value: menu,
+			fields: getMenuFields(menu),
+		},
+	];
+
+	const modules = await getEntries<AppModule>(
+		engine,
+		DraftDatastoreNamespaces.MODULES,
+	);
+	for (const { key, value: module } of modules) {
+		documents.push({
+			id: `module-${key}`,
+			label: module.label,
+			type: i18n.t("Module"),
+			namespace: DraftDatastoreNamespaces.MODULES,
+			key,
+			value: module,
+			fields: getModuleFields(module),
+		});
+		if (module.type === ModuleType.STATIC) {
+			const itemsNamespace = getStaticItemsDraftNamespace(
+				module.config.namespace,
+			);
+			const items = await getEntries<StaticItemConfig>(
+				engine,
+				itemsNamespace,
+			);
+			for (const { key: itemKey, value: item } of items) {
+				documents.push({
+					id: `${module.config.namespace}-${itemKey}`,
+					label: `${module.label} / ${item.title}`,
+					type: i18n.t("Static item"),
+					namespace: itemsNamespace,
+					key: itemKey,
+					value: item,
+					fields: getStaticItemFields(item),
+				});
+			}
+		}
+	}
+	return documents;
+}
+
+export function useTranslationDocuments() {
+	const engine = useDataEngine();
+
+	const query = useQuery({
+		queryKey: TRANSLATIONS_QUERY_KEY,
+		queryFn: async () => {
+			const metadata = await getValue<MetadataConfig>(
+				engine,
+				DraftDatastoreNamespaces.MAIN_CONFIG,
+				DatastoreKeys.METADATA,
+			);
+			return {
+				localization: metadata.localization,
+				documents: await getTranslationDocuments(engine),
+			};
+		},
+	});
+
+	return {
+		localization: query.data?.localization,
+		documents: query.data?.documents ?? [],
+		isLoading: query.isLoading,
+		error: query.error as Error | null,
+	};
+}
+
+export function useSaveTranslations() {
+	const engine = useDataEngine();
+	const queryClient = useQueryClient();
+	const { show } = useAlert(
+		({ message }) => message,
+		({ type }) => ({ ...type, duration: 3000 }),
+	);
+
+	const mutation = useMutation({
+		mutationFn: async ({
+			document,
+			value,
+		}: {
+			document: TranslationDocument;
+			value: Record<string, unknown>;
+		}) => {
+			await engine.mutate({
+				type: "update",
+				resource: `dataStore/${document.namespace}/${document.key}`,
+				data: value,
+			});
+		},
+		onSuccess: () => {
+			show({
+				message: i18n.t("Translations saved successfully"),
+				type: { success: true },
+			});
+			queryClient.invalidateQueries({ queryKey: TRANSLATIONS_QUERY_KEY });
+		},
+		onError: (error: Error) => {
+			show({
+				message: `${i18n.t("Could not save the translations")}: ${error.message}`,
+				type: { critical: true },
+			});
+		},
+	});
+
+	return {
+		save: mutation.mutateAsync,
+		isSaving: mutation.isPending,
+	};
+}
+
+export function useSaveLocales() {
+	const engine = useDataEngine();
+	const queryClient = useQueryClient();
+	const { show } = useAlert(
+		({ message }) => message,
+		({ type }) => ({ ...type, duration: 3000 }),
+	);
+
+	const mutation = useMutation({
+		mutationFn: async (localization: LocalesConfig) => {
+			const metadata = await getValue<MetadataConfig>(
+				engine,
+				DraftDatastoreNamespaces.MAIN_CONFIG,
+				DatastoreKeys.METADATA,
+			);
+			await engine.mutate({
+				type: "update",
+				resource: `dataStore/${DraftDatastoreNamespaces.MAIN_CONFIG}/${DatastoreKeys.METADATA}`,
+				data: {
+					...metadata,
+					localization,
+				},
+			});
+		},
+		onSuccess: () => {
+			show({
+				message: i18n.t("Languages saved successfully"),
+				type: { success: true },
+			});
+			queryClient.invalidateQueries({ queryKey: TRANSLATIONS_QUERY_KEY });
+		},
+		onError: (error: Error) => {
+			show({
+				message: `${i18n.t("Could not save the languages")}: ${error.message}`,
+				type: { critical: true },
+			});
+		},
+	});
+
+	return {
+		save: mutation.mutateAsync,
+		isSaving: mutation.isPending,
+	};
+}
@@ -0,0 +1,173 @@
+import i18n from "@dhis2/d2-i18n";
+import { get, isPlainObject } from "lodash";
+import {
+	AppAppearanceConfig,
+	AppMenuConfig,
+	AppModule,
+	DisplayItemType,
+	ModuleType,
+	StaticItemConfig,
+} from "@packages/shared/schemas";
+
+export interface TranslatableField {
+	/*
+	 * Path of the object holding the field and its `translations`, empty for the root of the document
+	 * */
+	path: string;
+	field: string;
+	label: string;
+	defaultText?: string;
+	richText?: boolean;
+}
+
+export interface TranslationDocument {
+	id: string;
+	label: string;
+	type: string;
+	namespace: string;
+	key: string;
+	value: Record<string, unknown>;
+	fields: TranslatableField[];
+}
+
+export function getTranslationFieldName(
+	{ path, field }: TranslatableField,
+	locale: string,
+) {
+	return [path, "translations", locale, field].filter(Boolean).join(".");
+}
+
+function getField(
+	value: unknown,
+	field: Omit<TranslatableField, "defaultText">,
+): TranslatableField {
+	const holder = field.path ? get(value, field.path) : value;
+	return {
+		...field,
+		defaultText: get(holder, field.field),
+	};
+}
+
+export function getAppearanceFields(
+	appearance: AppAppearanceConfig,
+): TranslatableField[] {
+	return [
+		getField(appearance, {
+			path: "header.title",
+			field: "text",
+			label: i18n.t("Header title"),
+		}),
+		getField(appearance, {
+			path: "header.subtitle",
+			field: "text",
+			label: i18n.t("Header subtitle"),
+		}),
+	];
+}
+
+export function getMenuFields(menu: AppMenuConfig): TranslatableField[] {
+	return menu.items.flatMap((item, index) => [
+		getField(menu, {
+			path: `items.${index}`,
+			field: "label",
+			label: i18n.t("Menu item"),
+		}),
+		...(item.type === "group"
+			? item.items.map((_, subIndex) =>
+					getField(menu, {
+						path: `items.${index}.items.${subIndex}`,
+						field: "label",
+						label: i18n.t("Menu item in {{group}}", {
+							group: item.label,
+						}),
+					}),
+				)
+			: []),
+	]);
+}
+
+/*
+ * Rich text display items can be nested anywhere in the module config, e.g. in sections or groups
+ * */
+function getRichTextFields(value: unknown, path: string): TranslatableField[] {
+	if (Array.isArray(value)) {
+		return value.flatMap((child, index) =>
+			getRichTextFields(child, `${path}.${index}`),
+		);
+	}
+	if (!isPlainObject(value)) {
+		return [];
+	}
+	const { type, item } = value as { type?: string; item?: unknown };
+	if (type === DisplayItemType.RICH_TEXT && isPlainObject(item)) {
+		return [
+			{
+				path: `${path}.item`,
+				field: "content",
+				label: i18n.t("Rich text"),
+				defaultText: (item as { content?: string }).content,
+				richText: true,
+			},
+		];
+	}
+	return Object.entries(value as object).flatMap(([key, child]) =>
+		getRichTextFields(child, path ? `${path}.${key}` : key),
+	);
+}
+
+export function getModuleFields(module: AppModule): TranslatableField[] {
+	const fields = [
+		getField(module, {
+			path: "",
+			field: "label",
+			label: i18n.t("Label"),
+		}),
+	];
+	if (module.type === ModuleType.STATIC) {
+		fields.push(
+			getField(module, {
+				path: "config",
+				field: "title",
+				label: i18n.t("Title"),
+			}),
+		);
+	}
+	return [...fields, ...getRichTextFields(module.config, "config")];
+}
+
+export function getStaticItemFields(
+	item: StaticItemConfig,
+): TranslatableField[] {
+	return [
+		getField(item, {
+			path: "",
+			field: "title",
+			label: i18n.t("Title"),
+		}),
+		getField(item, {
+			path: "",
+			field: "shortDescription",
+			label: i18n.t("Short description"),
+		}),
+		getField(item, {
+			path: "",
+			field: "content",
+			label: i18n.t("Content"),
+			richText: true,
+		}),
+	];
+}
+
+/*
+ * Fields with a default text but no translation in the locale. Fields that are empty by default do not need one.
+ */
+export function getMissingTranslations(
+	document: TranslationDocument,
+	locale: string,
+) {
+	return document.fields.filter(
+		(field) =>
+			!!field.defaultText &&
+			!get(document.value, getTranslationFieldName(field, locale)),
+	);
+}
@@ -39,6 +39,30 @@ export const appMenus: Array<AppMenuItem> = [
 		),
 		action: i18n.t("Configure app menu"),
 	},
+	{
+		label: i18n.t("Translations"),
+		href: "/translations",
+		description: i18n.t(
+			"Configure the languages of the web portal application and translate its content",
+		),
+		action: i18n.t("Translate content"),
+	},
+	{
+		label: i18n.t("Publishing"),
+		href: "/publishing",
+		description: i18n.t(
+			"Publish the draft configuration to the web portal application and roll back to earlier versions",
+		),
+		action: i18n.t("Publish configuration"),
+	},
+	{
+		label: i18n.t("Feedback"),
+		href: "/feedback",
+		description: i18n.t(
+			"Read, tag and export the feedback sent from the web portal application",
+		),
+		action: i18n.t("View feedback"),
+	},
 	{
 		label: i18n.t("Import/Export Configuration"),
 		href: "/configuration",
@@ -3,29 +3,43 @@
  *
  * */
 
-import { DatastoreNamespaces } from "@packages/shared/constants";
-import { FetchError, useDataEngine, useDataQuery } from "@dhis2/app-runtime";
+import { DraftDatastoreNamespaces } from "@packages/shared/constants";
+import { FetchError, useDataEngine } from "@dhis2/app-runtime";
+import { useQuery } from "@tanstack/react-query";
 import { defaultGeneralConfig } from "../constants/defaults/general";
 import { defaultMenuConfig } from "../constants/defaults/menu";
 import { defaultHomeModule } from "../constants/defaults/modules";
 import { useCallback, useState } from "react";
 import i18n from "@dhis2/d2-i18n";
 import { defaultAppearanceConfig } from "../constants/defaults/appearance";
+import { initializeDraft } from "./publish";
 
 const metaCheckQuery = {
 	main: {
-		resource: `dataStore/${DatastoreNamespaces.MAIN_CONFIG}`,
+		resource: `dataStore/${DraftDatastoreNamespaces.MAIN_CONFIG}`,
 	},
 	modules: {
-		resource: `dataStore/${DatastoreNamespaces.MODULES}`,
+		resource: `dataStore/${DraftDatastoreNamespaces.MODULES}`,
 	},
 };
 
 export function useCheckConfig() {
-	const { data, loading, error } = useDataQuery(metaCheckQuery);
+	const engine = useDataEngine();
+	const { data, isLoading } = useQuery({
+		queryKey: ["config-check"],
+		queryFn: async () => {
+			await initializeDraft(engine);
+			try {
+				await engine.query(metaCheckQuery);
+				return true;
+			} catch (e) {
+				return false;
+			}
+		},
+	});
 	return {
-		loading,
-		metadataExists: data && !error,
+		loading: isLoading,
+		metadataExists: data,
 	};
 }
 
@@ -114,25 +128,25 @@ export function useInitializeConfig() {
 
 const setupConfiguration = [
 	{
-		namespace: DatastoreNamespaces.MAIN_CONFIG,
+		namespace: DraftDatastoreNamespaces.MAIN_CONFIG,
 		key: "metadata",
 		data: defaultGeneralConfig,
 		label: i18n.t("General"),
 	},
 	{
-		namespace: DatastoreNamespaces.MAIN_CONFIG,
+		namespace: DraftDatastoreNamespaces.MAIN_CONFIG,
 		key: "menu",
 		data: defaultMenuConfig,
 		label: i18n.t("Menu"),
 	},
 	{
-		namespace: DatastoreNamespaces.MAIN_CONFIG,
+		namespace: DraftDatastoreNamespaces.MAIN_CONFIG,
 		key: "appearance",
 		data: defaultAppearanceConfig,
 		label: i18n.t("Appearance"),
 	},
 	{
-		namespace: DatastoreNamespaces.MODULES,
+		namespace: DraftDatastoreNamespaces.MODULES,
 		key: "home",
 		data: defaultHomeModule,
 		label: i18n.t("Home Module"),
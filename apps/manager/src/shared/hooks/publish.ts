@@ -0,0 +1,466 @@
+/*
+ * The manager edits the draft namespaces. Publishing snapshots the draft and copies it into the live namespaces read by the portal.
+ * The items of static modules are drafted and published with the modules, in namespaces named in each module config.
+ * */
+
+import { useAlert, useDataEngine } from "@dhis2/app-runtime";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import i18n from "@dhis2/d2-i18n";
+import { isEqual, max, omit, orderBy, uniq } from "lodash";
+import {
+	DatastoreNamespaces,
+	draftNamespaces,
+	DraftDatastoreNamespaces,
+	getStaticItemsDraftNamespace,
+	getStaticItemsNamespaces,
+	PUBLISHED_NAMESPACES,
+	PublishedNamespace,
+} from "@packages/shared/constants";
+import {
+	AppModule,
+	PortalSnapshot,
+	PortalSnapshotSummary,
+} from "@packages/shared/schemas";
+
+type DataEngine = ReturnType<typeof useDataEngine>;
+
+type NamespaceEntries = Record<string, unknown>;
+
+/*
+ * Entries of the live namespaces, and of the static module items namespaces, by namespace
+ * */
+type PublishedData = Record<string, NamespaceEntries>;
+
+const SNAPSHOTS_QUERY_KEY = ["portal-snapshots"];
+
+function isNotFound(error: unknown) {
+	return (
+		(error as { details?: { httpStatusCode?: number } })?.details
+			?.httpStatusCode === 404
+	);
+}
+
+async function getNamespaceKeys(
+	engine: DataEngine,
+	namespace: string,
+): Promise<string[]> {
+	try {
+		const { keys } = (await engine.query({
+			keys: {
+				resource: `dataStore/${namespace}`,
+			},
+		})) as { keys: string[] };
+		return keys ?? [];
+	} catch (error) {
+		if (isNotFound(error)) {
+			return [];
+		}
+		throw error;
+	}
+}
+
+async function getNamespaceEntries(
+	engine: DataEngine,
+	namespace: string,
+): Promise<NamespaceEntries> {
+	const entries: NamespaceEntries = {};
+	for (const key of await getNamespaceKeys(engine, namespace)) {
+		const { value } = (await engine.query({
+			value: {
+				resource: `dataStore/${namespace}/${key}`,
+			},
+		})) as { value: unknown };
+		entries[key] = value;
+	}
+	return entries;
+}
+
+async function setEntry(
+	engine: DataEngine,
+	namespace: string,
+	key: string,
+	data: unknown,
+) {
+	try {
+		await engine.mutate({
+			type: "update",
+			resource: `dataStore/${namespace}/${key}`,
+			data: data as Record<string, any>,
+		});
+	} catch (error) {
+		if (!isNotFound(error)) {
+			throw error;
+		}
+		await engine.mutate({
+			type: "create",
+			resource: `dataStore/${namespace}/${key}`,
+			data: data as Record<string, any>,
+		});
+	}
+}
+
+/*
+ * Makes the entries of the namespace exactly the given entries, removing the keys that are not part of them
+ * */
+async function replaceNamespaceEntries(
+	engine: DataEngine,
+	namespace: string,
+	entries: NamespaceEntries,
+) {
+	const currentKeys = await getNamespaceKeys(engine, namespace);
+	for (const [key, value] of Object.entries(entries)) {
+		await setEntry(engine, namespace, key, value);
+	}
+	for (const key of currentKeys) {
+		if (!(key in entries)) {
+			await engine.mutate({
+				type: "delete",
+				resource: `dataStore/${namespace}`,
+				id: key,
+			});
+		}
+	}
+}
+
+function getDraftNamespaceOf(namespace: string) {
+	return (
+		draftNamespaces[namespace as PublishedNamespace] ??
+		getStaticItemsDraftNamespace(namespace)
+	);
+}
+
+function getModuleStaticItemsNamespaces(modules: NamespaceEntries = {}) {
+	return getStaticItemsNamespaces(Object.values(modules) as AppModule[]);
+}
+
+async function getDraft(engine: DataEngine): Promise<PublishedData> {
+	const data: PublishedData = {};
+	for (const namespace of PUBLISHED_NAMESPACES) {
+		data[namespace] = await getNamespaceEntries(
+			engine,
+			draftNamespaces[namespace],
+		);
+	}
+	for (const namespace of getModuleStaticItemsNamespaces(
+		data[DatastoreNamespaces.MODULES],
+	)) {
+		data[namespace] = await getNamespaceEntries(
+			engine,
+			getStaticItemsDraftNamespace(namespace),
+		);
+	}
+	return data;
+}
+
+async function getSnapshots(
+	engine: DataEngine,
+): Promise<PortalSnapshotSummary[]> {
+	try {
+		const { snapshots } = (await engine.query({
+			snapshots: {
+				resource: `dataStore/${DraftDatastoreNamespaces.SNAPSHOTS}`,
+				params: {
+					fields: "version,description,publishedAt,publishedBy,rollbackOf,partial",
+					paging: false,
+				},
+			},
+		})) as { snapshots: { entries: PortalSnapshotSummary[] } };
+		return orderBy(snapshots.entries, ["version"], ["desc"]);
+	} catch (error) {
+		if (isNotFound(error)) {
+			return [];
+		}
+		throw error;
+	}
+}
+
+async function getSnapshot(
+	engine: DataEngine,
+	version: number,
+): Promise<PortalSnapshot> {
+	const { snapshot } = (await engine.query({
+		snapshot: {
+			resource: `dataStore/${DraftDatastoreNamespaces.SNAPSHOTS}/${version}`,
+		},
+	})) as { snapshot: PortalSnapshot };
+	return snapshot;
+}
+
+async function getLatestSnapshot(
+	engine: DataEngine,
+): Promise<PortalSnapshot | undefined> {
+	const [latest] = await getSnapshots(engine);
+	return latest ? getSnapshot(engine, latest.version) : undefined;
+}
+
+async function createSnapshot(
+	engine: DataEngine,
+	{
+		data,
+		description,
+		rollbackOf,
+	}: Pick<PortalSnapshot, "description" | "rollbackOf"> & {
+		data: PublishedData;
+	},
+): Promise<PortalSnapshot> {
+	const snapshots = await getSnapshots(engine);
+	const { me } = (await engine.query({
+		me: {
+			resource: "me",
+			params: {
+				fields: "username",
+			},
+		},
+	})) as { me: { username: string } };
+	const snapshot: PortalSnapshot = {
+		version: (max(snapshots.map(({ version }) => version)) ?? 0) + 1,
+		description,
+		rollbackOf,
+		publishedAt: new Date().toISOString(),
+		publishedBy: me.username,
+		partial: true,
+		data,
+	};
+	await engine.mutate({
+		type: "create",
+		resource: `dataStore/${DraftDatastoreNamespaces.SNAPSHOTS}/${snapshot.version}`,
+		data: snapshot,
+	});
+	return snapshot;
+}
+
+/*
+ * Copies the data of a snapshot, written before, into the live namespaces key by key. The namespaces of static modules
+ * published before but not part of the data anymore are emptied.
+ * When copying fails part way the snapshot stays partial, so that the user publishes again or rolls back.
+ * */
+async function publishSnapshot(
+	engine: DataEngine,
+	snapshot: PortalSnapshot,
+	previousData: PublishedData = {},
+) {
+	const removedNamespaces = uniq([
+		...Object.keys(previousData),
+		...getModuleStaticItemsNamespaces(
+			previousData[DatastoreNamespaces.MODULES],
+		),
+	]).filter((namespace) => !(namespace in snapshot.data));
+	try {
+		for (const namespace of Object.keys(snapshot.data)) {
+			await replaceNamespaceEntries(
+				engine,
+				namespace,
+				snapshot.data[namespace],
+			);
+		}
+		for (const namespace of removedNamespaces) {
+			await replaceNamespaceEntries(engine, namespace, {});
+		}
+	} catch (error) {
+		throw new Error(
+			i18n.t(
+				"Version {{version}} was only partly published, publish again or roll back to an earlier version: {{error}}",
+				{
+					version: snapshot.version,
+					error: (error as Error).message,
+				},
+			),
+		);
+	}
+	const publishedSnapshot = omit(snapshot, "partial");
+	await engine.mutate({
+		type: "update",
+		resource: `dataStore/${DraftDatastoreNamespaces.SNAPSHOTS}/${snapshot.version}`,
+		data: publishedSnapshot,
+	});
+	return publishedSnapshot;
+}
+
+/*
+ * Fills in the published namespaces missing from the data of a snapshot
+ * */
+function withPublishedNamespaces(data: PublishedData): PublishedData {
+	const publishedData: PublishedData = { ...data };
+	for (const namespace of PUBLISHED_NAMESPACES) {
+		publishedData[namespace] = data[namespace] ?? {};
+	}
+	return publishedData;
+}
+
+/**
+ * Copies the live configuration into the draft namespaces when they are still empty,
+ * e.g. the first time the manager is opened after drafts were introduced.
+ */
+export async function initializeDraft(engine: DataEngine) {
+	const initializeNamespace = async (namespace: string) => {
+		const draftNamespace = getDraftNamespaceOf(namespace);
+		if ((await getNamespaceKeys(engine, draftNamespace)).length > 0) {
+			return;
+		}
+		const liveEntries = await getNamespaceEntries(engine, namespace);
+		for (const [key, value] of Object.entries(liveEntries)) {
+			await setEntry(engine, draftNamespace, key, value);
+		}
+	};
+	for (const namespace of PUBLISHED_NAMESPACES) {
+		await initializeNamespace(namespace);
+	}
+	const draftModules = await getNamespaceEntries(
+		engine,
+		DraftDatastoreNamespaces.MODULES,
+	);
+	for (const namespace of getModuleStaticItemsNamespaces(draftModules)) {
+		await initializeNamespace(namespace);
+	}
+}
+
+export function usePublishStatus() {
+	const engine = useDataEngine();
+
+	const query = useQuery({
+		queryKey: SNAPSHOTS_QUERY_KEY,
+		queryFn: async () => {
+			const snapshots = await getSnapshots(engine);
+			const draft = await getDraft(engine);
+			const latest = snapshots[0]
+				? await getSnapshot(engine, snapshots[0].version)
+				: undefined;
+			const changedNamespaces = uniq([
+				...Object.keys(draft),
+				...Object.keys(latest?.data ?? {}),
+			]).filter(
+				(namespace) =>
+					!isEqual(
+						draft[namespace] ?? {},
+						latest?.data[namespace] ?? {},
+					),
+			);
+			return {
+				snapshots,
+				changedNamespaces,
+				isPartlyPublished: latest?.partial ?? false,
+			};
+		},
+	});
+
+	return {
+		snapshots: query.data?.snapshots ?? [],
+		hasUnpublishedChanges: (query.data?.changedNamespaces.length ?? 0) > 0,
+		changedNamespaces: query.data?.changedNamespaces ?? [],
+		isPartlyPublished: query.data?.isPartlyPublished ?? false,
+		isLoading: query.isLoading,
+		error: query.error as Error | null,
+		refetch: query.refetch,
+	};
+}
+
+export function usePublish() {
+	const engine = useDataEngine();
+	const queryClient = useQueryClient();
+	const { show } = useAlert(
+		({ message }) => message,
+		({ type }) => ({ ...type, duration: 3000 }),
+	);
+
+	const mutation = useMutation({
+		mutationFn: async ({ description }: { description?: string }) => {
+			const data = await getDraft(engine);
+			const latest = await getLatestSnapshot(engine);
+			const snapshot = await createSnapshot(engine, {
+				data,
+				description,
+			});
+			return publishSnapshot(engine, snapshot, latest?.data);
+		},
+		onSuccess: (snapshot: PortalSnapshot) => {
+			show({
+				message: i18n.t("Version {{version}} published successfully", {
+					version: snapshot.version,
+				}),
+				type: { success: true },
+			});
+			queryClient.invalidateQueries({ queryKey: SNAPSHOTS_QUERY_KEY });
+		},
+		onError: (error: Error) => {
+			show({
+				message: `${i18n.t("Could not publish the configuration")}: ${error.message}`,
+				type: { critical: true },
+			});
+			queryClient.invalidateQueries({ queryKey: SNAPSHOTS_QUERY_KEY });
+		},
+	});
+
+	return {
+		publish: mutation.mutateAsync,
+		isPublishing: mutation.isPending,
+	};
+}
+
+/**
+ * Publishes an earlier snapshot again as a new version and resets the draft to it
+ */
+export function useRollback() {
+	const engine = useDataEngine();
+	const queryClient = useQueryClient();
+	const { show } = useAlert(
+		({ message }) => message,
+		({ type }) => ({ ...type, duration: 3000 }),
+	);
+
+	const mutation = useMutation({
+		mutationFn: async ({ version }: { version: number }) => {
+			const { data } = await getSnapshot(engine, version);
+			const publishedData = withPublishedNamespaces(data);
+			const latest = await getLatestSnapshot(engine);
+			const draft = await getDraft(engine);
+			const snapshot = await createSnapshot(engine, {
+				data: publishedData,
+				description: i18n.t("Rollback to version {{version}}", {
+					version,
+				}),
+				rollbackOf: version,
+			});
+			const publishedSnapshot = await publishSnapshot(
+				engine,
+				snapshot,
+				latest?.data,
+			);
+			for (const namespace of uniq([
+				...Object.keys(publishedData),
+				...Object.keys(draft),
+			])) {
+				await replaceNamespaceEntries(
+					engine,
+					getDraftNamespaceOf(namespace),
+					publishedData[namespace] ?? {},
+				);
+			}
+			return publishedSnapshot;
+		},
+		onSuccess: (snapshot: PortalSnapshot) => {
+			show({
+				message: i18n.t(
+					"Rolled back to version {{version}}, published as version {{newVersion}}",
+					{
+						version: snapshot.rollbackOf,
+						newVersion: snapshot.version,
+					},
+				),
+				type: { success: true },
+			});
+			queryClient.invalidateQueries({ queryKey: SNAPSHOTS_QUERY_KEY });
+		},
+		onError: (error: Error) => {
+			show({
+				message: `${i18n.t("Could not roll back the configuration")}: ${error.message}`,
+				type: { critical: true },
+			});
+			queryClient.invalidateQueries({ queryKey: SNAPSHOTS_QUERY_KEY });
+		},
+	});
+
+	return {
+		rollback: mutation.mutateAsync,
+		isRollingBack: mutation.isPending,
+	};
+}
@@ -84,6 +84,10 @@ export async function downloadMetadata(engine: any, configId: string, data: any,
             queryParams.set('selectedDashboards', JSON.stringify(data.selectedDashboards));
         }
 
+        if (data.dryRun) {
+            queryParams.set('dryRun', 'true');
+        }
+
         const endpoint = `/metadata-download/${configId}?${queryParams.toString()}`;
         return queryDataServiceRoute(engine, endpoint);
     } else {
@@ -91,7 +95,8 @@ export async function downloadMetadata(engine: any, configId: string, data: any,
             metadataSource: data.metadataSource || 'source',
             selectedVisualizations: data.selectedVisualizations || [],
             selectedMaps: data.selectedMaps || [],
-            selectedDashboards: data.selectedDashboards || []
+            selectedDashboards: data.selectedDashboards || [],
+            dryRun: data.dryRun || false
         }, 'create');
     }
 }
@@ -112,6 +117,9 @@ export async function downloadData(engine: any, configId: string, data: any, ser
         if (data.isDelete) {
             queryParams.set('isDelete', JSON.stringify(data.isDelete));
         }
+        if (data.dryRun) {
+            queryParams.set('dryRun', JSON.stringify(data.dryRun));
+        }
 
         const endpoint = `/data-download/${configId}?${queryParams.toString()}`;
         return queryDataServiceRoute(engine, endpoint);
@@ -120,6 +128,7 @@ export async function downloadData(engine: any, configId: string, data: any, ser
             dataItemsConfigIds: data.dataItemsConfigIds || [],
             runtimeConfig: data.runtimeConfig || {},
             isDelete: data.isDelete || false,
+            dryRun: data.dryRun || false,
         }, 'create');
     }
 }
@@ -138,16 +147,43 @@ export async function startDataDeletion(engine: any, configId: string, data: any
             queryParams.set('runtimeConfig', JSON.stringify(data.runtimeConfig));
         }
 
+        if (data.dryRun) {
+            queryParams.set('dryRun', 'true');
+        }
+
         const endpoint = `/data-delete/${configId}?${queryParams.toString()}`;
         return queryDataServiceRoute(engine, endpoint);
     } else {
         return executeDataServiceRoute(engine, `/data-delete/${configId}`, {
             dataItemsConfigIds: data.dataItemsConfigIds || [],
-            runtimeConfig: data.runtimeConfig || {}
+            runtimeConfig: data.runtimeConfig || {},
+            dryRun: data.dryRun || false
         }, 'create');
     }
 }
 
+export async function uploadDataFile(engine: any, configId: string, data: {
+    dataItemsConfigId: string;
+    content: string;
+    dryRun?: boolean;
+}): Promise<ApiResponse> {
+    // The file content is too large for query parameters, so it is always sent in the body
+    return executeDataServiceRoute(engine, `/file-upload/${configId}`, {
+        dataItemsConfigId: data.dataItemsConfigId,
+        content: data.content,
+        dryRun: data.dryRun || false,
+    }, 'create');
+}
+
+export async function suggestOrgUnitMappings(engine: any, configId: string, level?: number): Promise<ApiResponse> {
+    const queryParams = new URLSearchParams();
+    if (level) {
+        queryParams.set('level', level.toString());
+    }
+
+    return queryDataServiceRoute(engine, `/org-unit-mapping/${configId}?${queryParams.toString()}`);
+}
+
 export async function createQueues(engine: any, configId: string): Promise<ApiResponse> {
     return executeDataServiceRoute(engine, `/queues/${configId}`);
 }
@@ -233,4 +269,47 @@ export async function retryByProcessType(
 
 export async function retrySingleMessage(engine: any, configId: string, messageId: string): Promise<ApiResponse> {
     return executeDataServiceRoute(engine, `/retry/${configId}/message/${messageId}`, undefined);
-}
\ No newline at end of file
+}
+export async function getSchedules(engine: any, configId: string): Promise<ApiResponse> {
+    return queryDataServiceRoute(engine, `/schedules/${configId}`);
+}
+
+export async function reloadSchedules(engine: any, configId: string): Promise<ApiResponse> {
+    return executeDataServiceRoute(engine, `/schedules/${configId}`);
+}
+
+export async function getRuns(engine: any, configId: string, options: {
+    limit?: number;
+    offset?: number;
+} = {}): Promise<ApiResponse> {
+    const { limit = 20, offset = 0 } = options;
+    const queryParams = new URLSearchParams({
+        limit: limit.toString(),
+        offset: offset.toString(),
+    });
+
+    return queryDataServiceRoute(engine, `/runs/${configId}?${queryParams.toString()}`);
+}
+
+export async function getRun(engine: any, configId: string, runId: string): Promise<ApiResponse> {
+    return queryDataServiceRoute(engine, `/runs/${configId}/${runId}`);
+}
+
+export async function getLogs(engine: any, configId: string, options: {
+    runId?: string;
+    correlationId?: string;
+    level?: string;
+    limit?: number;
+} = {}): Promise<ApiResponse> {
+    const { limit = 200, ...filters } = options;
+    const queryParams = new URLSearchParams({
+        limit: limit.toString(),
+    });
+    Object.entries(filters).forEach(([key, value]) => {
+        if (value) {
+            queryParams.set(key, value);
+        }
+    });
+
+    return queryDataServiceRoute(engine, `/logs/${configId}?${queryParams.toString()}`);
+}
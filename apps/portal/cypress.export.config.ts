@@ -0,0 +1,18 @@
+import { defineConfig } from "cypress";
+
+/*
+ * Used by `pnpm export` to load every page of the portal in a browser, so that the data requested by the charts and maps is saved.
+ * The base URL is set by the export script.
+ * */
+export default defineConfig({
+	e2e: {
+		specPattern: "cypress/export/**/*.cy.ts",
+		supportFile: false,
+		video: false,
+		screenshotOnRunFailure: false,
+		viewportWidth: 1280,
+		viewportHeight: 800,
+		defaultCommandTimeout: 60000,
+		testIsolation: false,
+	},
+});
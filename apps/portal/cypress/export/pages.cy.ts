@@ -0,0 +1,31 @@
+/// <reference types="cypress" />
+
+//Errors of single visualizations should not stop the export
+Cypress.on("uncaught:exception", () => false);
+
+describe("Static export", () => {
+	it("Should load the data of every page", () => {
+		let pendingRequests = 0;
+		cy.intercept({ url: /\/api\// }, (req) => {
+			pendingRequests++;
+			req.on("after:response", () => {
+				pendingRequests--;
+			});
+		});
+
+		cy.request("/api/export").then(({ body }) => {
+			for (const page of body.pages as string[]) {
+				cy.visit(page);
+				cy.scrollTo("bottom", {
+					ensureScrollable: false,
+					duration: 1000,
+				});
+				//Gives the charts and maps time to start their requests before waiting for them to finish
+				cy.wait(2000);
+				cy.wrap(null).should(() => {
+					expect(pendingRequests).to.equal(0);
+				});
+			}
+		});
+	});
+});
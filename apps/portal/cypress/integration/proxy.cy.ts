@@ -0,0 +1,35 @@
+/// <reference types="cypress" />
+
+import { FEEDBACK_NAMESPACE } from "@packages/shared/constants";
+
+describe("DHIS2 Proxy Tests", () => {
+	const requestThroughProxy = (path: string) =>
+		cy.request({
+			url: `/api/${path}`,
+			method: "GET",
+			failOnStatusCode: false,
+		});
+
+	it("should not forward the feedback entries", () => {
+		[
+			`dataStore/${FEEDBACK_NAMESPACE}`,
+			`dataStore/${FEEDBACK_NAMESPACE}?x=analytics`,
+			`dataStore/${FEEDBACK_NAMESPACE}/feedback?x=analytics`,
+			`dataStore/${FEEDBACK_NAMESPACE}.json?filter=analytics`,
+			`analytics/../dataStore/${FEEDBACK_NAMESPACE}`,
+			`analytics/%2E%2E/dataStore/${FEEDBACK_NAMESPACE}`,
+		].forEach((path) => {
+			requestThroughProxy(path).then((response) => {
+				expect(response.status).to.eq(404);
+			});
+		});
+	});
+
+	it("should forward the whitelisted resources", () => {
+		requestThroughProxy("legendSets.json?fields=id&pageSize=1").then(
+			(response) => {
+				expect(response.status).to.eq(200);
+			},
+		);
+	});
+});
@@ -5,6 +5,8 @@ const nextConfig: NextConfig = {
 	reactStrictMode: false,
 	basePath: process.env.CONTEXT_PATH ?? "",
 	images: {
+		// The exported site can not resize images on request
+		unoptimized: !!process.env.PORTAL_EXPORT_DIR,
 		dangerouslyAllowSVG: true,
 		contentDispositionType: "inline",
 		remotePatterns: [
@@ -0,0 +1,183 @@
+/*
+ * Exports the portal as a static site that can be hosted without access to DHIS2.
+ *
+ * The portal is built and started in export mode, every page is loaded in a browser so that the data of the charts
+ * and maps is saved, and the pages, scripts, documents and data are then written to the output folder.
+ *
+ * Usage: pnpm export [output folder, defaults to `out`]
+ * */
+import { spawn, spawnSync } from "node:child_process";
+import {
+	cpSync,
+	existsSync,
+	mkdirSync,
+	readFileSync,
+	rmSync,
+	writeFileSync,
+} from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import nextEnv from "@next/env";
+
+const projectDir = process.cwd();
+nextEnv.loadEnvConfig(projectDir);
+
+const outDir = path.resolve(process.argv[2] ?? "out");
+const port = process.env.PORTAL_EXPORT_PORT ?? "3210";
+const basePath = process.env.CONTEXT_PATH ?? "";
+const portalUrl = `http://localhost:${port}${basePath}`;
+const env = { ...process.env, PORTAL_EXPORT_DIR: outDir };
+const binDir = path.join(projectDir, "node_modules", ".bin");
+
+function run(command, args) {
+	const { status } = spawnSync(path.join(binDir, command), args, {
+		stdio: "inherit",
+		env,
+	});
+	if (status !== 0) {
+		throw new Error(`${command} ${args.join(" ")} failed`);
+	}
+}
+
+async function waitForPortal() {
+	for (let attempt = 0; attempt < 60; attempt++) {
+		try {
+			const response = await fetch(`${portalUrl}/api/info`);
+			if (response.ok) {
+				return;
+			}
+		} catch (e) {
+			//The portal is still starting
+		}
+		await new Promise((resolve) => setTimeout(resolve, 1000));
+	}
+	throw new Error(`The portal did not start at ${portalUrl}`);
+}
+
+function writeFile(filePath, content) {
+	const fullPath = path.join(outDir, filePath);
+	mkdirSync(path.dirname(fullPath), { recursive: true });
+	writeFileSync(fullPath, content);
+}
+
+/*
+ * `/modules/a` is saved as `/modules/a/index.html` and `/modules/a?group=b` as `/modules/a/index.group-b.html`
+ * */
+function getPageFile(page) {
+	const [pathname, search] = page.split("?");
+	const fileName = search
+		? `index.${search.replace(/[^\w-]+/g, "-")}.html`
+		: "index.html";
+	return `${pathname}/${fileName}`;
+}
+
+async function savePage(page, file) {
+	const response = await fetch(`${portalUrl}${page}`);
+	if (!response.ok) {
+		console.warn(`Could not export ${page}: ${response.status}`);
+		return;
+	}
+	const html = await response.text();
+	writeFile(file, html);
+	await saveIcons(html);
+}
+
+/*
+ * The icons generated by the portal, e.g. `/icon?abc`, are saved without their search params
+ * */
+async function saveIcons(html) {
+	const iconUrls = html.matchAll(
+		new RegExp(
+			`(?:href|src)="${basePath}(/(?:icon|apple-icon)[^"]*)"`,
+			"g",
+		),
+	);
+	for (const [, iconUrl] of iconUrls) {
+		const iconPath = iconUrl.split("?")[0];
+		if (existsSync(path.join(outDir, iconPath))) {
+			continue;
+		}
+		const response = await fetch(`${portalUrl}${iconUrl}`);
+		if (response.ok) {
+			writeFile(iconPath, Buffer.from(await response.arrayBuffer()));
+		}
+	}
+}
+
+async function saveLandingPage(pages) {
+	const response = await fetch(`${portalUrl}/`, { redirect: "manual" });
+	const target =
+		response.headers.get("location") ?? `${basePath}${pages[0] ?? ""}`;
+	writeFile(
+		"index.html",
+		`<!DOCTYPE html><html><head><meta http-equiv="refresh" content="0; url=${target}"></head></html>`,
+	);
+}
+
+function saveRuntime(pages) {
+	const variants = Object.fromEntries(
+		pages
+			.filter((page) => page.includes("?"))
+			.map((page) => [
+				`${basePath}${page}`,
+				`${basePath}${getPageFile(page)}`,
+			]),
+	);
+	const runtime = readFileSync(
+		path.join(path.dirname(fileURLToPath(import.meta.url)), "runtime.js"),
+		"utf-8",
+	).replace(
+		"__EXPORT_CONFIG__",
+		JSON.stringify({ basePath, pages: variants }),
+	);
+	writeFile("_export/runtime.js", runtime);
+}
+
+async function exportPortal() {
+	const { exportedAt, pages } = await (
+		await fetch(`${portalUrl}/api/export`)
+	).json();
+	console.info(`Exporting ${pages.length} pages`);
+
+	run("cypress", [
+		"run",
+		"--config-file",
+		"cypress.export.config.ts",
+		"--config",
+		`baseUrl=${portalUrl}`,
+	]);
+
+	for (const page of pages) {
+		await savePage(page, getPageFile(page));
+	}
+	await saveLandingPage(pages);
+	cpSync(
+		path.join(projectDir, ".next", "static"),
+		path.join(outDir, "_next", "static"),
+		{ recursive: true },
+	);
+	saveRuntime(pages);
+	writeFile(
+		"_export/manifest.json",
+		JSON.stringify({ exportedAt, pages }, null, 2),
+	);
+	console.info(`The portal was exported to ${outDir}`);
+}
+
+if (!path.relative(outDir, projectDir).startsWith("..")) {
+	throw new Error(`The output folder ${outDir} can not contain the portal`);
+}
+rmSync(outDir, { recursive: true, force: true });
+mkdirSync(outDir, { recursive: true });
+
+run("next", ["build"]);
+const server = spawn(path.join(binDir, "next"), ["start", "-p", port], {
+	stdio: "inherit",
+	env,
+});
+try {
+	await waitForPortal();
+	await exportPortal();
+} finally {
+	server.kill();
+}
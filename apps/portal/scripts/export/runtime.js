@@ -0,0 +1,63 @@
+/*
+ * Runs in the exported site before the portal scripts. `__EXPORT_CONFIG__` is replaced by `scripts/export/index.mjs`.
+ * */
+(function () {
+	var config = __EXPORT_CONFIG__;
+	var apiPath = config.basePath + "/api/";
+
+	//Pages with search params, like the groups of a module, are saved as separate files
+	var pagePath =
+		location.pathname.replace(/\/(index(\.[^/]*)?\.html)?$/, "") || "/";
+	var pageFile = config.pages[pagePath + location.search];
+	if (pageFile && pageFile !== location.pathname) {
+		location.replace(pageFile + location.hash);
+		return;
+	}
+
+	var originalFetch = window.fetch.bind(window);
+	var dataIndex;
+
+	function getDataIndex() {
+		if (!dataIndex) {
+			dataIndex = originalFetch(
+				config.basePath + "/_export/api/index.json",
+			).then(function (response) {
+				return response.json();
+			});
+		}
+		return dataIndex;
+	}
+
+	//Documents and icons are saved at their own path, the responses of the other API requests are looked up in the index
+	window.fetch = function (input, init) {
+		var url = new URL(
+			input instanceof Request ? input.url : String(input),
+			location.href,
+		);
+		if (
+			url.origin !== location.origin ||
+			url.pathname.indexOf(apiPath) !== 0 ||
+			/^(documents|icons)\//.test(url.pathname.slice(apiPath.length))
+		) {
+			return originalFetch(input, init);
+		}
+		var resource = url.href.substring(url.href.lastIndexOf("/api/") + 5);
+		return getDataIndex().then(function (index) {
+			if (!index[resource]) {
+				return new Response(
+					JSON.stringify({
+						message:
+							"This data is not available in the offline copy of the portal",
+					}),
+					{
+						status: 404,
+						headers: { "Content-Type": "application/json" },
+					},
+				);
+			}
+			return originalFetch(
+				config.basePath + "/_export/api/" + index[resource],
+			);
+		});
+	};
+})();
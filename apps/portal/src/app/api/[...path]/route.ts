@@ -1,22 +1,44 @@
 import { NextRequest, NextResponse } from "next/server";
 import { dhis2HttpClient } from "@/utils/api/dhis2";
 import { notFound } from "next/navigation";
+import { saveExportData } from "@/utils/export";
 
+/*
+ * The resource has to start the path, so that other resources can not be requested by naming one of these in the query
+ * */
 const whitelistedResources =
-	/analytics|legendSets|organisationUnits|geoFeatures|tokens\/google/;
+	/^(analytics|legendSets|organisationUnits|geoFeatures|tokens\/google)(\/|\?|\.|$)/;
 
-export async function GET(request: NextRequest) {
-	const url = request.url as string;
+/*
+ * The datastore holds the feedback of the portal users, it is never forwarded
+ * */
+function isWhitelistedResource(resourcePath: string) {
+	let decodedPath: string;
+	try {
+		decodedPath = decodeURIComponent(resourcePath);
+	} catch (e) {
+		return false;
+	}
+	return (
+		whitelistedResources.test(decodedPath) &&
+		!/(^|\/)dataStore(\/|$)/i.test(decodedPath) &&
+		!decodedPath.split("/").includes("..")
+	);
+}
 
-	const urlToForward = url
-		.substring(url.lastIndexOf("/api/"))
-		.replace("/api/", "");
+export async function GET(request: NextRequest) {
+	const { pathname, search } = request.nextUrl;
+	const resourcePath = pathname.substring(
+		pathname.indexOf("/api/") + "/api/".length,
+	);
 
-	if (!whitelistedResources.test(urlToForward)) {
+	if (!isWhitelistedResource(resourcePath)) {
 		return notFound();
 	}
 
+	const urlToForward = `${resourcePath}${search}`;
 	const response = await dhis2HttpClient.get(urlToForward);
+	saveExportData(urlToForward, response);
 
 	return NextResponse.json(response);
 }
@@ -1,5 +1,6 @@
 import { NextRequest } from "next/server";
 import { dhis2HttpClient } from "@/utils/api/dhis2";
+import { saveExportFile } from "@/utils/export";
 
 export async function GET(request: NextRequest) {
 	const url = request.url as string;
@@ -8,5 +9,9 @@ export async function GET(request: NextRequest) {
 		.substring(url.lastIndexOf("/api/"))
 		.replace("/api/", "")
 		.split("?")[0];
-	return await dhis2HttpClient.getFile(urlToForward);
+	const response = await dhis2HttpClient.getFile(urlToForward);
+	if (response) {
+		await saveExportFile(urlToForward, response);
+	}
+	return response;
 }
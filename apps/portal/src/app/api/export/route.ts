@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server";
+import { notFound } from "next/navigation";
+import { exportedAt, getExportPages, isExporting } from "@/utils/export";
+
+export async function GET() {
+	if (!isExporting()) {
+		return notFound();
+	}
+	return NextResponse.json({ exportedAt, pages: await getExportPages() });
+}
@@ -1,5 +1,6 @@
 import { NextRequest } from "next/server";
 import { dhis2HttpClient } from "@/utils/api/dhis2";
+import { saveExportFile } from "@/utils/export";
 
 export async function GET(request: NextRequest) {
 	const url = request.url as string;
@@ -8,5 +9,7 @@ export async function GET(request: NextRequest) {
 		.substring(url.lastIndexOf("/api/"))
 		.replace("/api/", "");
 
-	return await dhis2HttpClient.getIcon(urlToForward);
+	const response = await dhis2HttpClient.getIcon(urlToForward);
+	await saveExportFile(urlToForward, response);
+	return response;
 }
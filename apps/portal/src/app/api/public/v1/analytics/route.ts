@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+	getPublicAnalytics,
+	handlePublicApiRequest,
+	toCsv,
+} from "@/utils/publicApi";
+
+export async function GET(request: NextRequest) {
+	return handlePublicApiRequest(async () => {
+		const { searchParams } = request.nextUrl;
+		const rows = await getPublicAnalytics(searchParams);
+		if (searchParams.get("format") === "csv") {
+			return new NextResponse(
+				toCsv(rows, [
+					"indicator",
+					"indicatorName",
+					"period",
+					"periodName",
+					"orgUnit",
+					"orgUnitName",
+					"value",
+				]),
+				{
+					headers: {
+						"Content-Type": "text/csv; charset=utf-8",
+						"Content-Disposition": `attachment; filename="analytics.csv"`,
+					},
+				},
+			);
+		}
+		return NextResponse.json({ rows });
+	});
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+	getPublishedIndicators,
+	handlePublicApiRequest,
+	PublicApiError,
+} from "@/utils/publicApi";
+
+export async function GET(
+	request: NextRequest,
+	{ params }: { params: Promise<{ id: string }> },
+) {
+	return handlePublicApiRequest(async () => {
+		const { id } = await params;
+		const indicator = (await getPublishedIndicators()).find(
+			(indicator) => indicator.id === id,
+		);
+		if (!indicator) {
+			throw new PublicApiError(
+				`The indicator ${id} is not published on this portal`,
+				404,
+			);
+		}
+		return NextResponse.json(indicator);
+	});
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+	getPublishedIndicators,
+	handlePublicApiRequest,
+	toCsv,
+} from "@/utils/publicApi";
+
+export async function GET(request: NextRequest) {
+	return handlePublicApiRequest(async () => {
+		const indicators = await getPublishedIndicators();
+		if (request.nextUrl.searchParams.get("format") === "csv") {
+			return new NextResponse(
+				toCsv(
+					indicators.map(({ modules, ...indicator }) => ({
+						...indicator,
+						modules: modules.map(({ label }) => label).join("; "),
+					})),
+					[
+						"id",
+						"name",
+						"shortName",
+						"description",
+						"type",
+						"modules",
+					],
+				),
+				{
+					headers: {
+						"Content-Type": "text/csv; charset=utf-8",
+						"Content-Disposition": `attachment; filename="indicators.csv"`,
+					},
+				},
+			);
+		}
+		return NextResponse.json({ indicators });
+	});
+}
@@ -0,0 +1,9 @@
+import { NextResponse } from "next/server";
+import { handlePublicApiRequest } from "@/utils/publicApi";
+import { getPublicApiDocument } from "@/utils/publicApiDocument";
+
+export async function GET() {
+	return handlePublicApiRequest(async () =>
+		NextResponse.json(await getPublicApiDocument()),
+	);
+}
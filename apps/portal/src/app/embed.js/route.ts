@@ -0,0 +1,62 @@
+import { EMBED_RESIZE_MESSAGE } from "@/utils/embedCode";
+
+/*
+ * Loader of the script embed code. It replaces the `data-portal-embed` elements with iframes, and resizes them to the
+ * height sent by the embedded visualizations.
+ * */
+const loader = `(function () {
+	var script = document.currentScript;
+	if (!script) {
+		return;
+	}
+	var baseUrl = script.src.replace(/\\/embed\\.js(\\?.*)?$/, "");
+	var frames = window.__portalEmbedFrames || (window.__portalEmbedFrames = []);
+
+	if (!window.__portalEmbedListener) {
+		window.__portalEmbedListener = true;
+		window.addEventListener("message", function (event) {
+			if (!event.data || event.data.type !== "${EMBED_RESIZE_MESSAGE}") {
+				return;
+			}
+			frames.forEach(function (frame) {
+				if (frame.contentWindow === event.source && event.data.height > 0) {
+					frame.style.height = event.data.height + "px";
+				}
+			});
+		});
+	}
+
+	document.querySelectorAll("[data-portal-embed]").forEach(function (element) {
+		if (element.getAttribute("data-portal-embed-loaded")) {
+			return;
+		}
+		element.setAttribute("data-portal-embed-loaded", "true");
+		var params = new URLSearchParams();
+		["pe", "ou"].forEach(function (name) {
+			var value = element.getAttribute("data-" + name);
+			if (value) {
+				params.set(name, value);
+			}
+		});
+		var query = params.toString();
+		var frame = document.createElement("iframe");
+		frame.src = baseUrl + "/embed/" + element.getAttribute("data-portal-embed") + (query ? "?" + query : "");
+		frame.title = element.getAttribute("data-title") || "";
+		frame.loading = "lazy";
+		frame.style.width = "100%";
+		frame.style.height = (element.getAttribute("data-height") || "400") + "px";
+		frame.style.border = "0";
+		frames.push(frame);
+		element.appendChild(frame);
+	});
+})();
+`;
+
+export async function GET() {
+	return new Response(loader, {
+		headers: {
+			"Content-Type": "application/javascript; charset=utf-8",
+			"Cache-Control": "public, max-age=3600",
+		},
+	});
+}
@@ -0,0 +1,70 @@
+import { Suspense } from "react";
+import { redirect } from "next/navigation";
+import { Box } from "@mantine/core";
+import { ErrorBoundary } from "react-error-boundary";
+import { VisualizationDisplayItemType } from "@packages/shared/schemas";
+import { MainVisualization } from "@/components/displayItems/visualizations/MainVisualization";
+import { BaseCardError, CardError } from "@/components/CardError";
+import { CardLoading } from "@/components/CardLoading";
+import { EmbedResizer } from "@/components/EmbedResizer";
+import { getEmbedDimensions, getEmbedItem } from "@/utils/embed";
+
+export default async function EmbedPage({
+	params,
+	searchParams,
+}: {
+	params: Promise<{ moduleId: string; itemId: string }>;
+	searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+	const { moduleId, itemId } = await params;
+	const searchParamsValue = await searchParams;
+	const config = await getEmbedItem(moduleId, itemId);
+
+	if (!config) {
+		return (
+			<Box className="w-full h-dvh">
+				<BaseCardError
+					error={new Error("This visualization is not available")}
+				/>
+			</Box>
+		);
+	}
+
+	const dimensions = await getEmbedDimensions(config, searchParamsValue);
+	//The visualizations read the period and organisation units from the URL, so the ones that are not allowed are removed from it
+	if (
+		dimensions.pe?.join(",") !== searchParamsValue.pe ||
+		dimensions.ou?.join(",") !== searchParamsValue.ou
+	) {
+		const allowedSearchParams = new URLSearchParams();
+		if (dimensions.pe) {
+			allowedSearchParams.set("pe", dimensions.pe.join(","));
+		}
+		if (dimensions.ou) {
+			allowedSearchParams.set("ou", dimensions.ou.join(","));
+		}
+		redirect(`/embed/${moduleId}/${itemId}?${allowedSearchParams}`);
+	}
+
+	return (
+		<Box
+			className={
+				config.type === VisualizationDisplayItemType.BANNER
+					? "w-full"
+					: "w-full h-dvh"
+			}
+		>
+			<EmbedResizer />
+			<ErrorBoundary FallbackComponent={CardError}>
+				<Suspense fallback={<CardLoading />}>
+					<MainVisualization
+						config={config}
+						disableActions
+						periods={dimensions.pe}
+						orgUnits={dimensions.ou}
+					/>
+				</Suspense>
+			</ErrorBoundary>
+		</Box>
+	);
+}
@@ -0,0 +1,9 @@
+import { Box } from "@mantine/core";
+
+export default function EmbedLayout({ children }: LayoutProps<"/embed">) {
+	return (
+		<Box className="w-full" bg="white">
+			{children}
+		</Box>
+	);
+}
@@ -0,0 +1,165 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ImageResponse } from "next/og";
+import { ChartImage, toSvg } from "@/utils/server/chartImage";
+import {
+	getVisualizationImage,
+	VisualizationImageError,
+} from "@/utils/server/visualizationImage";
+
+const TEXT_BOX_WIDTH = 2000;
+
+/*
+ * The PNG renderer only lays out texts in HTML, so the shapes are drawn on one SVG below absolutely positioned texts
+ * */
+function ChartImageElements({ image }: { image: ChartImage }) {
+	const { width, height, background, elements } = image;
+	return (
+		<div
+			style={{
+				display: "flex",
+				position: "relative",
+				width,
+				height,
+				background,
+				fontFamily: "sans-serif",
+			}}
+		>
+			<svg
+				width={width}
+				height={height}
+				viewBox={`0 0 ${width} ${height}`}
+				style={{ position: "absolute", top: 0, left: 0 }}
+			>
+				{elements.map((element, index) => {
+					switch (element.type) {
+						case "rect":
+							return (
+								<rect
+									key={index}
+									x={element.x}
+									y={element.y}
+									width={element.width}
+									height={element.height}
+									fill={element.fill}
+								/>
+							);
+						case "path":
+							return (
+								<path
+									key={index}
+									d={element.d}
+									fill={element.fill ?? "none"}
+									fillOpacity={element.opacity}
+									stroke={element.stroke}
+									strokeWidth={element.strokeWidth}
+								/>
+							);
+						case "circle":
+							return (
+								<circle
+									key={index}
+									cx={element.cx}
+									cy={element.cy}
+									r={element.r}
+									fill={element.fill}
+								/>
+							);
+						default:
+							return null;
+					}
+				})}
+			</svg>
+			{elements.map((element, index) => {
+				if (element.type !== "text") {
+					return null;
+				}
+				const left =
+					element.anchor === "start"
+						? element.x
+						: element.anchor === "middle"
+							? element.x - TEXT_BOX_WIDTH / 2
+							: element.x - TEXT_BOX_WIDTH;
+				return (
+					<div
+						key={index}
+						style={{
+							display: "flex",
+							position: "absolute",
+							top: element.y - element.size,
+							left,
+							width: TEXT_BOX_WIDTH,
+							justifyContent:
+								element.anchor === "start"
+									? "flex-start"
+									: element.anchor === "middle"
+										? "center"
+										: "flex-end",
+							fontSize: element.size,
+							lineHeight: 1.2,
+							fontWeight: element.bold ? 700 : 400,
+							color: element.color,
+							whiteSpace: "nowrap",
+						}}
+					>
+						{element.text}
+					</div>
+				);
+			})}
+		</div>
+	);
+}
+
+/*
+ * Renders a chart of a published module as PNG, or as SVG with `?format=svg`, e.g. for link previews and downloads without JavaScript
+ * */
+export async function GET(
+	request: NextRequest,
+	{ params }: { params: Promise<{ moduleId: string; itemId: string }> },
+) {
+	const { moduleId, itemId } = await params;
+	const { searchParams } = request.nextUrl;
+	const format = searchParams.get("format") === "svg" ? "svg" : "png";
+	const headers: Record<string, string> = {
+		"Cache-Control": "public, max-age=3600",
+	};
+	if (searchParams.get("download") === "true") {
+		headers["Content-Disposition"] =
+			`attachment; filename="${itemId}.${format}"`;
+	}
+
+	try {
+		const image = await getVisualizationImage(
+			moduleId,
+			itemId,
+			searchParams,
+		);
+		if (format === "svg") {
+			return new NextResponse(toSvg(image), {
+				headers: {
+					...headers,
+					"Content-Type": "image/svg+xml; charset=utf-8",
+				},
+			});
+		}
+		return new ImageResponse(<ChartImageElements image={image} />, {
+			width: image.width,
+			height: image.height,
+			headers,
+		});
+	} catch (e) {
+		if (e instanceof VisualizationImageError) {
+			return NextResponse.json(
+				{ message: e.message },
+				{ status: e.status },
+			);
+		}
+		console.error(
+			`Could not render the image of visualization ${itemId}`,
+			e,
+		);
+		return NextResponse.json(
+			{ message: "The visualization could not be rendered" },
+			{ status: 502 },
+		);
+	}
+}
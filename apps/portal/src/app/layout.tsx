@@ -12,6 +12,10 @@ import { getAppearanceConfig } from "@/utils/config/appConfig";
 import { env } from "@/utils/env";
 import { dhis2HttpClient } from "@/utils/api/dhis2";
 import { DHIS2ConnectionError } from "@/components/DHIS2ConnectionError";
+import { getLocale } from "@/utils/locale";
+import { exportedAt, isExporting } from "@/utils/export";
+import { ExportBanner } from "@/components/ExportBanner";
+import Script from "next/script";
 
 export async function generateMetadata() {
 	return await getAppMetadata();
@@ -29,11 +33,19 @@ export default async function RootLayout({
 	}
 	const config = await getAppearanceConfig();
 	const contextPath = env.CONTEXT_PATH ?? "";
+	const locale = await getLocale();
 
 	return (
-		<html lang="en" {...mantineHtmlProps}>
+		<html lang={locale} {...mantineHtmlProps}>
 			<head>
 				<ColorSchemeScript />
+				{/* Only exists in the exported site, it loads the saved data instead of calling the portal API */}
+				{isExporting() && (
+					<Script
+						src={`${contextPath}/_export/runtime.js`}
+						strategy="beforeInteractive"
+					/>
+				)}
 			</head>
 			<body>
 				<Providers config={config?.appearanceConfig}>
@@ -41,6 +53,9 @@ export default async function RootLayout({
 					<DHIS2AppProvider contextPath={contextPath}>
 						{children}
 					</DHIS2AppProvider>
+					{isExporting() && (
+						<ExportBanner exportedAt={exportedAt} locale={locale} />
+					)}
 				</Providers>
 			</body>
 		</html>
@@ -5,6 +5,8 @@ import React from "react";
 import { getAppConfigWithNamespace } from "@/utils/config";
 import { AppMeta } from "@packages/shared/schemas";
 import { DatastoreNamespaces } from "@packages/shared/constants";
+import { getLocale } from "@/utils/locale";
+import { isExporting } from "@/utils/export";
 
 export default async function AppLayout({
 	children,
@@ -16,6 +18,7 @@ export default async function AppLayout({
 		namespace: DatastoreNamespaces.MAIN_CONFIG,
 		key: "metadata",
 	});
+	const locale = await getLocale();
 
 	if (!config) {
 		return <NoConfigLandingPage />;
@@ -25,6 +28,8 @@ export default async function AppLayout({
 	return (
 		<MainLayout
 			metadata={appMeta!}
+			locale={locale}
+			staticExport={isExporting()}
 			menuConfig={menuConfig}
 			appearanceConfig={appearanceConfig}
 		>
@@ -0,0 +1,94 @@
+import { NextRequest } from "next/server";
+import { ImageResponse } from "next/og";
+import { notFound } from "next/navigation";
+import { getAppearanceConfig } from "@/utils/config/appConfig";
+import { getOpenGraphDetails, OPEN_GRAPH_IMAGE_SIZE } from "@/utils/openGraph";
+
+export async function GET(
+	request: NextRequest,
+	{ params }: { params: Promise<{ moduleId: string }> },
+) {
+	const { moduleId } = await params;
+	const details = await getOpenGraphDetails(
+		moduleId,
+		request.nextUrl.searchParams,
+	);
+	if (!details) {
+		notFound();
+	}
+	const appearanceConfig = await getAppearanceConfig();
+	const primaryColor =
+		appearanceConfig?.appearanceConfig.colors.primary ?? "#2C6693";
+
+	return new ImageResponse(
+		<div
+			style={{
+				display: "flex",
+				width: "100%",
+				height: "100%",
+				background: "white",
+			}}
+		>
+			<div
+				style={{ width: 24, height: "100%", background: primaryColor }}
+			/>
+			<div
+				style={{
+					display: "flex",
+					flexDirection: "column",
+					justifyContent: "space-between",
+					padding: 64,
+					flex: 1,
+				}}
+			>
+				<div style={{ fontSize: 32, color: primaryColor }}>
+					{details.appName ?? ""}
+				</div>
+				<div
+					style={{
+						display: "flex",
+						flexDirection: "column",
+						gap: 16,
+					}}
+				>
+					{details.subtitle && (
+						<div style={{ fontSize: 36, color: "#4A5768" }}>
+							{details.subtitle}
+						</div>
+					)}
+					<div
+						style={{
+							fontSize: 72,
+							fontWeight: 700,
+							color: "#212934",
+						}}
+					>
+						{details.title}
+					</div>
+				</div>
+				<div
+					style={{
+						display: "flex",
+						flexDirection: "column",
+						gap: 8,
+						fontSize: 30,
+						color: "#4A5768",
+					}}
+				>
+					{details.periods && (
+						<div>{`Period: ${details.periods}`}</div>
+					)}
+					{details.orgUnits && (
+						<div>{`Location: ${details.orgUnits}`}</div>
+					)}
+				</div>
+			</div>
+		</div>,
+		{
+			...OPEN_GRAPH_IMAGE_SIZE,
+			headers: {
+				"Cache-Control": "public, max-age=3600",
+			},
+		},
+	);
+}
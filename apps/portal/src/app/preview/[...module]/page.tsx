@@ -13,7 +13,7 @@ import { getModuleMetadata } from "@/utils/moduleMetadata";
 import { getAppearanceConfig } from "@/utils/config/appConfig";
 
 export async function generateMetadata(props: ModuleMetaProps) {
-	return await getModuleMetadata({ props });
+	return await getModuleMetadata({ props, preview: true });
 }
 
 export default async function ModuleLandingPage({
@@ -26,14 +26,20 @@ export default async function ModuleLandingPage({
 	const { module } = await params;
 	const searchParamsValue = await searchParams;
 
-	const appearanceConfigData = await getAppearanceConfig();
+	const appearanceConfigData = await getAppearanceConfig({ preview: true });
 	const titlesColor = appearanceConfigData?.appearanceConfig.colors.titlesColor;
 
 	if (module.includes("details")) {
 		//We are dealing with a details page
 		const resourceId = last(module)!;
 		const moduleConfig = module.slice(-3, -2)[0];
-		return <DetailsPage moduleId={moduleConfig} id={resourceId} />;
+		return (
+			<DetailsPage
+				moduleId={moduleConfig}
+				id={resourceId}
+				preview={true}
+			/>
+		);
 	}
 	const moduleId = last(module);
 	if (!moduleId) {
@@ -50,7 +56,7 @@ export default async function ModuleLandingPage({
 		);
 	}
 
-	const moduleConfig = await getAppModule(moduleId);
+	const moduleConfig = await getAppModule(moduleId, { preview: true });
 
 	if (!moduleConfig) {
 		return (
@@ -83,6 +89,7 @@ export default async function ModuleLandingPage({
 					moduleId={moduleId}
 					config={moduleConfig.config}
 					titlesColor={titlesColor ?? "#120d0c"}
+					preview={true}
 				/>
 			);
 		case ModuleType.DOCUMENTS:
@@ -0,0 +1,14 @@
+import { notFound, redirect } from "next/navigation";
+import { getShortLink } from "@/utils/shortLinks";
+
+export async function GET(
+	request: Request,
+	{ params }: { params: Promise<{ id: string }> },
+) {
+	const { id } = await params;
+	const shortLink = await getShortLink(id);
+	if (!shortLink) {
+		notFound();
+	}
+	redirect(shortLink.path);
+}
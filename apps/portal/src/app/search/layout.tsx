@@ -0,0 +1,4 @@
+/*
+ * The search page is shown within the same header, menu and footer as the modules
+ * */
+export { default } from "@/app/modules/layout";
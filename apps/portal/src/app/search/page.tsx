@@ -0,0 +1,47 @@
+import { Stack, Text, Title } from "@mantine/core";
+import { searchPortal } from "@/utils/search";
+import { getAppearanceConfig } from "@/utils/config/appConfig";
+import { SearchResultsList } from "@/components/Search/SearchResultsList";
+
+export async function generateMetadata({
+	searchParams,
+}: {
+	searchParams: Promise<{ q?: string }>;
+}) {
+	const { q } = await searchParams;
+	return {
+		title: q ? `Search: ${q}` : "Search",
+	};
+}
+
+export default async function SearchPage({
+	searchParams,
+}: {
+	searchParams: Promise<{ q?: string }>;
+}) {
+	const { q } = await searchParams;
+	const query = q?.trim() ?? "";
+	const appearanceConfigData = await getAppearanceConfig();
+	const titlesColor =
+		appearanceConfigData?.appearanceConfig.colors.titlesColor;
+	const results = await searchPortal(query);
+
+	return (
+		<Stack>
+			<Title order={2} style={{ color: titlesColor ?? "#120d0c" }}>
+				Search
+			</Title>
+			{query ? (
+				<>
+					<Text c="dimmed">
+						{results.length} result{results.length === 1 ? "" : "s"}{" "}
+						for &quot;{query}&quot;
+					</Text>
+					<SearchResultsList results={results} />
+				</>
+			) : (
+				<Text c="dimmed">Type in the search box to find content</Text>
+			)}
+		</Stack>
+	);
+}
@@ -0,0 +1,28 @@
+"use client";
+
+import { useEffect } from "react";
+import { EMBED_RESIZE_MESSAGE } from "@/utils/embedCode";
+
+/*
+ * Tells the page embedding the portal the height of the content, so that the embed loader can resize the iframe
+ * */
+export function EmbedResizer() {
+	useEffect(() => {
+		if (window.parent === window) {
+			return;
+		}
+		const observer = new ResizeObserver(() => {
+			window.parent.postMessage(
+				{
+					type: EMBED_RESIZE_MESSAGE,
+					height: document.documentElement.scrollHeight,
+				},
+				"*",
+			);
+		});
+		observer.observe(document.body);
+		return () => observer.disconnect();
+	}, []);
+
+	return null;
+}
@@ -0,0 +1,30 @@
+import { Box, Text } from "@mantine/core";
+import { DateTime } from "luxon";
+
+export function ExportBanner({
+	exportedAt,
+	locale,
+}: {
+	exportedAt: string;
+	locale: string;
+}) {
+	const date = DateTime.fromISO(exportedAt)
+		.setLocale(locale)
+		.toLocaleString(DateTime.DATETIME_MED);
+
+	return (
+		<Box
+			pos="fixed"
+			bottom={0}
+			left={0}
+			right={0}
+			py={4}
+			bg="yellow.1"
+			className="z-[1000] text-center"
+		>
+			<Text size="sm">
+				This is an offline copy of the portal. Data as of {date}
+			</Text>
+		</Box>
+	);
+}
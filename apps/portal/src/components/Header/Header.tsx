@@ -6,6 +6,8 @@ import { getForeground } from "@packages/shared/utils";
 import { HeaderMenu } from "@/components/AppMenu/HeaderMenu";
 import { getAppTheme } from "@/utils/theme";
 import { useGetImageUrl } from "@/utils/client/images";
+import { LocaleSwitcher } from "@/components/Header/LocaleSwitcher";
+import { SearchBox } from "@/components/Search/SearchBox";
 
 export function AppHeader({
 	config,
@@ -13,12 +15,16 @@ export function AppHeader({
 	toggle,
 	menuConfig,
 	metadata,
+	locale,
+	staticExport,
 }: {
 	config: AppAppearanceConfig;
 	menuConfig: AppMenuConfig;
 	opened: boolean;
 	toggle: () => void;
 	metadata: AppMeta;
+	locale: string;
+	staticExport?: boolean;
 }) {
 	const hasMenu = menuConfig.items.length > 1;
 	const { header: headerConfig } = config;
@@ -140,6 +146,18 @@ export function AppHeader({
 						)}
 					</Container>
 				</Stack>
+				{!staticExport && (
+					<Box visibleFrom="sm">
+						<SearchBox />
+					</Box>
+				)}
+				{!staticExport &&
+					(metadata.localization?.locales.length ?? 0) > 1 && (
+						<LocaleSwitcher
+							locale={locale}
+							config={metadata.localization!}
+						/>
+					)}
 				{headerConfig.style?.trailingLogo?.show && (
 					<Box
 						style={{
@@ -0,0 +1,59 @@
+"use client";
+
+import { LocalesConfig } from "@packages/shared/schemas";
+import { Select } from "@mantine/core";
+import { IconLanguage } from "@tabler/icons-react";
+import { useRouter } from "nextjs-toploader/app";
+import { useTransition } from "react";
+import { setLocale } from "@/utils/locale";
+
+function getLocaleName(locale: string) {
+	try {
+		return (
+			new Intl.DisplayNames([locale], { type: "language" }).of(locale) ??
+			locale
+		);
+	} catch (e) {
+		return locale;
+	}
+}
+
+export function LocaleSwitcher({
+	locale,
+	config,
+}: {
+	locale: string;
+	config: LocalesConfig;
+}) {
+	const router = useRouter();
+	const [isPending, startTransition] = useTransition();
+
+	const options = config.locales.map((locale) => ({
+		label: getLocaleName(locale),
+		value: locale,
+	}));
+
+	const onLocaleChange = (value: string | null) => {
+		if (!value || value === locale) {
+			return;
+		}
+		startTransition(async () => {
+			await setLocale(value);
+			router.refresh();
+		});
+	};
+
+	return (
+		<Select
+			size="xs"
+			w={140}
+			aria-label="Language"
+			allowDeselect={false}
+			leftSection={<IconLanguage size={16} />}
+			data={options}
+			value={locale}
+			onChange={onLocaleChange}
+			disabled={isPending}
+		/>
+	);
+}
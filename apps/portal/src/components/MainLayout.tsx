@@ -17,11 +17,15 @@ export function MainLayout({
 	appearanceConfig,
 	menuConfig,
 	metadata,
+	locale,
+	staticExport,
 }: {
 	children: React.ReactNode;
 	appearanceConfig: AppAppearanceConfig;
 	menuConfig: AppMenuConfig;
 	metadata: AppMeta;
+	locale: string;
+	staticExport?: boolean;
 }) {
 	const [opened, { toggle }] = useDisclosure();
 	const hasMenuOnHeader = menuConfig.position === MenuPosition.HEADER;
@@ -104,6 +108,8 @@ export function MainLayout({
 			>
 				<AppHeader
 					metadata={metadata}
+					locale={locale}
+					staticExport={staticExport}
 					menuConfig={menuConfig}
 					opened={opened}
 					toggle={toggle}
@@ -0,0 +1,37 @@
+"use client";
+
+import { TextInput } from "@mantine/core";
+import { IconSearch } from "@tabler/icons-react";
+import { useSearchParams } from "next/navigation";
+import { useRouter } from "nextjs-toploader/app";
+import { FormEvent, useState } from "react";
+
+export function SearchBox() {
+	const router = useRouter();
+	const searchParams = useSearchParams();
+	const [query, setQuery] = useState(searchParams.get("q") ?? "");
+
+	const onSubmit = (event: FormEvent) => {
+		event.preventDefault();
+		if (!query.trim()) {
+			return;
+		}
+		const params = new URLSearchParams({ q: query.trim() });
+		router.push(`/search?${params.toString()}`);
+	};
+
+	return (
+		<form role="search" onSubmit={onSubmit}>
+			<TextInput
+				size="xs"
+				w={200}
+				type="search"
+				aria-label="Search"
+				placeholder="Search"
+				leftSection={<IconSearch size={16} />}
+				value={query}
+				onChange={(event) => setQuery(event.currentTarget.value)}
+			/>
+		</form>
+	);
+}
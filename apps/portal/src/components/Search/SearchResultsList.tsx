@@ -0,0 +1,48 @@
+import { Badge, Card, Group, Stack, Text, Title } from "@mantine/core";
+import Link from "next/link";
+import { SearchResult, SearchResultType } from "@/utils/search";
+
+const resultTypeLabels: Record<SearchResultType, string> = {
+	[SearchResultType.MODULE]: "Page",
+	[SearchResultType.GROUP]: "Section",
+	[SearchResultType.STATIC_ITEM]: "Article",
+	[SearchResultType.DOCUMENT]: "Document",
+};
+
+export function SearchResultsList({ results }: { results: SearchResult[] }) {
+	if (results.length === 0) {
+		return <Text>No content matches your search</Text>;
+	}
+
+	return (
+		<Stack>
+			{results.map((result) => (
+				<Card
+					key={`${result.type}-${result.id}`}
+					component={Link}
+					href={result.url}
+					withBorder
+				>
+					<Stack gap="xs">
+						<Group gap="xs">
+							<Badge variant="light">
+								{resultTypeLabels[result.type]}
+							</Badge>
+							{result.type !== SearchResultType.MODULE && (
+								<Text size="sm" c="dimmed">
+									{result.module}
+								</Text>
+							)}
+						</Group>
+						<Title order={4}>{result.title}</Title>
+						{result.description && (
+							<Text size="sm" lineClamp={2}>
+								{result.description}
+							</Text>
+						)}
+					</Stack>
+				</Card>
+			))}
+		</Stack>
+	);
+}
@@ -20,6 +20,8 @@ import {
 	FeedbackItem,
 	feedbackSchema,
 } from "@packages/shared/schemas";
+import { getFeedbackChallenge, submitFeedback } from "@/utils/feedback";
+import { solveChallenge } from "@/utils/client/challenge";
 
 export default function FeedbackVisualizer({ item }: { item: FeedbackItem }) {
 	const theme = useMantineTheme();
@@ -30,11 +32,23 @@ export default function FeedbackVisualizer({ item }: { item: FeedbackItem }) {
 		reValidateMode: "onChange",
 	});
 	const formRef = useRef<HTMLFormElement>(null);
+	const honeypotRef = useRef<HTMLInputElement>(null);
 
 	const onFormSubmit = useCallback(
 		async (data: FeedbackConfig) => {
 			try {
-				//   await sendFeedbackEmail({ data, item });
+				const { challenge, difficulty } = await getFeedbackChallenge();
+				const nonce = await solveChallenge(challenge, difficulty);
+				const result = await submitFeedback({
+					itemId: item.id,
+					data,
+					challenge,
+					nonce,
+					website: honeypotRef.current?.value,
+				});
+				if (!result.success) {
+					throw new Error(result.error);
+				}
 				form.reset();
 				notifications.show({
 					title: i18n.t("Success"),
@@ -93,6 +107,16 @@ export default function FeedbackVisualizer({ item }: { item: FeedbackItem }) {
 					ref={formRef}
 					className="flex flex-col gap-4"
 				>
+					{/* Honeypot, hidden from visitors and filled in by bots */}
+					<input
+						ref={honeypotRef}
+						name="website"
+						type="text"
+						tabIndex={-1}
+						autoComplete="off"
+						aria-hidden
+						className="hidden"
+					/>
 					<TextInput
 						{...form.register("email")}
 						type="email"
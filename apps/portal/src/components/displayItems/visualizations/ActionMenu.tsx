@@ -8,7 +8,11 @@ import { IconDots } from "@tabler/icons-react";
 export interface ActionMenu {
 	label: string;
 	icon: ReactNode;
-	onClick: () => void;
+	onClick?: () => void;
+	/*
+	 * Renders the action as a link, e.g. to download a file from the server
+	 * */
+	href?: string;
 }
 
 export interface ActionMenuGroup {
@@ -16,6 +20,26 @@ export interface ActionMenuGroup {
 	label?: string;
 }
 
+function ActionMenuItem({ action }: { action: ActionMenu }) {
+	if (action.href) {
+		return (
+			<Menu.Item
+				component="a"
+				href={action.href}
+				leftSection={action.icon}
+				onClick={action.onClick}
+			>
+				{action.label}
+			</Menu.Item>
+		);
+	}
+	return (
+		<Menu.Item leftSection={action.icon} onClick={action.onClick}>
+			{action.label}
+		</Menu.Item>
+	);
+}
+
 export function ActionMenu({
 	actions,
 	actionMenuGroups,
@@ -36,13 +60,10 @@ export function ActionMenu({
 				<Menu.Dropdown>
 					{!isEmpty(actions)
 						? actions?.map((action) => (
-								<Menu.Item
+								<ActionMenuItem
 									key={`${id}-${action.label}-menu-item`}
-									leftSection={action.icon}
-									onClick={action.onClick}
-								>
-									{action.label}
-								</Menu.Item>
+									action={action}
+								/>
 							))
 						: actionMenuGroups?.map((group) => (
 								<div key={group.label + id}>
@@ -50,13 +71,10 @@ export function ActionMenu({
 										{group.label}
 									</Menu.Label>
 									{group.actions.map((action) => (
-										<Menu.Item
+										<ActionMenuItem
 											key={`${id}-${action.label}-menu-item`}
-											leftSection={action.icon}
-											onClick={action.onClick}
-										>
-											{action.label}
-										</Menu.Item>
+											action={action}
+										/>
 									))}
 								</div>
 							))}
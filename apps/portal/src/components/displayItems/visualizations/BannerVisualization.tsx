@@ -11,6 +11,8 @@ import { Banner } from "@/components/displayItems/visualizations/Banner";
 export interface BannerVisualizationProps {
 	config: BannerVisualizationType;
 	disableActions?: boolean;
+	periods?: string[];
+	orgUnits?: string[];
 }
 
 async function getData({
@@ -69,11 +71,13 @@ async function getData({
 export async function BannerVisualization({
 	config,
 	disableActions = false,
+	periods = ["2023"],
+	orgUnits = ["USER_ORGUNIT"],
 }: BannerVisualizationProps) {
 	const data = await getData({
 		config,
-		periods: ["2023"],
-		orgUnits: ["USER_ORGUNIT"],
+		periods,
+		orgUnits,
 	});
 
 	if (!data) {
@@ -11,6 +11,8 @@ import {
 import { FullScreen } from "react-full-screen";
 import { CustomOrgUnitModal } from "./CustomOrgUnitModal";
 import { CustomPeriodModal } from "./CustomPeriodModal";
+import { EmbedCodeModal } from "./EmbedCodeModal";
+import { ShareLinkModal } from "./ShareLinkModal";
 import { useSearchParams } from "next/navigation";
 import { isEmpty } from "lodash";
 import { ActionMenu } from "@/components/displayItems/visualizations/ActionMenu";
@@ -25,8 +27,8 @@ import {
 	ChartSelector,
 	TableVisualizer,
 } from "@packages/shared/visualizations";
-import { useMemo } from "react";
 import { useAnalytics } from "@/hooks/charts";
+import { useDimensionSearchParams } from "@/hooks/viewState";
 
 export function DataVisComponent({
 	visualizationConfig,
@@ -52,6 +54,11 @@ export function DataVisComponent({
 		showTable,
 		onFullScreen,
 		actionMenuGroups,
+		moduleId,
+		showEmbedCode,
+		onCloseEmbedCode,
+		showShareLink,
+		onCloseShareLink,
 	} = useDimensionViewControls({
 		chartRef,
 		tableRef,
@@ -62,7 +69,7 @@ export function DataVisComponent({
 
 	const { containerRef } = useContainerSize(chartRef);
 	const searchParams = useSearchParams();
-	const params = useMemo(() => new Map(searchParams), [searchParams]);
+	const params = useDimensionSearchParams();
 
 	const {
 		analytics,
@@ -192,6 +199,22 @@ export function DataVisComponent({
 					periods={periodConfig?.periods}
 				/>
 			)}
+			{showShareLink && (
+				<ShareLinkModal
+					open={showShareLink}
+					handleClose={onCloseShareLink}
+					title={visualizationConfig.name}
+				/>
+			)}
+			{showEmbedCode && moduleId && (
+				<EmbedCodeModal
+					open={showEmbedCode}
+					handleClose={onCloseEmbedCode}
+					moduleId={moduleId}
+					itemId={config.id}
+					title={visualizationConfig.name}
+				/>
+			)}
 		</>
 	);
 }
@@ -0,0 +1,107 @@
+"use client";
+
+import {
+	Button,
+	CopyButton,
+	Modal,
+	Stack,
+	Text,
+	Textarea,
+} from "@mantine/core";
+import { useConfig } from "@dhis2/app-runtime";
+import { useSearchParams } from "next/navigation";
+import i18n from "@dhis2/d2-i18n";
+import { getIframeEmbedCode, getScriptEmbedCode } from "@/utils/embedCode";
+
+function EmbedCodeField({
+	label,
+	description,
+	code,
+}: {
+	label: string;
+	description: string;
+	code: string;
+}) {
+	return (
+		<Stack gap="xs">
+			<Textarea
+				label={label}
+				description={description}
+				value={code}
+				readOnly
+				autosize
+				minRows={2}
+				styles={{ input: { fontFamily: "monospace" } }}
+			/>
+			<CopyButton value={code}>
+				{({ copied, copy }) => (
+					<Button
+						variant="light"
+						size="xs"
+						className="self-end"
+						onClick={copy}
+					>
+						{copied ? i18n.t("Copied") : i18n.t("Copy")}
+					</Button>
+				)}
+			</CopyButton>
+		</Stack>
+	);
+}
+
+export function EmbedCodeModal({
+	open,
+	handleClose,
+	moduleId,
+	itemId,
+	title,
+}: {
+	open: boolean;
+	handleClose: () => void;
+	moduleId: string;
+	itemId: string;
+	title: string;
+}) {
+	const { baseUrl } = useConfig();
+	const searchParams = useSearchParams();
+	const options = {
+		baseUrl,
+		moduleId,
+		itemId,
+		title,
+		searchParams: new URLSearchParams(searchParams),
+	};
+
+	return (
+		<Modal
+			size="lg"
+			opened={open}
+			onClose={handleClose}
+			title={
+				<Text fw="bold">{i18n.t("Embed {{title}}", { title })}</Text>
+			}
+		>
+			<Stack>
+				<Text size="sm" c="dimmed">
+					{i18n.t(
+						"Paste one of the codes in the HTML of another website to show this visualization, with the selected period and location.",
+					)}
+				</Text>
+				<EmbedCodeField
+					label={i18n.t("Script")}
+					description={i18n.t(
+						"Resizes the visualization to fit its content",
+					)}
+					code={getScriptEmbedCode(options)}
+				/>
+				<EmbedCodeField
+					label={i18n.t("Iframe")}
+					description={i18n.t(
+						"For websites that do not allow scripts",
+					)}
+					code={getIframeEmbedCode(options)}
+				/>
+			</Stack>
+		</Modal>
+	);
+}
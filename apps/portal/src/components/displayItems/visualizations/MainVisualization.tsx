@@ -11,12 +11,19 @@ export interface MainVisualizationProps {
 	config: VisualizationItem;
 	showFilter?: boolean;
 	disableActions?: boolean;
+	/*
+	 * Used by banners, which are rendered on the server. The other visualizations read the `pe` and `ou` query parameters.
+	 * */
+	periods?: string[];
+	orgUnits?: string[];
 }
 
 export async function MainVisualization({
 	showFilter,
 	config,
 	disableActions,
+	periods,
+	orgUnits,
 }: MainVisualizationProps) {
 	const { type } = config;
 
@@ -42,6 +49,8 @@ export async function MainVisualization({
 				<BannerVisualization
 					config={config}
 					disableActions={disableActions}
+					periods={periods}
+					orgUnits={orgUnits}
 				/>
 			);
 		default:
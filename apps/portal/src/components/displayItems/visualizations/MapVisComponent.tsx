@@ -18,6 +18,8 @@ import L, { Map as LeafletMap } from "leaflet";
 import "leaflet-easyprint";
 import { CustomOrgUnitModal } from "./CustomOrgUnitModal";
 import { CustomPeriodModal } from "./CustomPeriodModal";
+import { EmbedCodeModal } from "./EmbedCodeModal";
+import { ShareLinkModal } from "./ShareLinkModal";
 import { useBoolean, useResizeObserver } from "usehooks-ts";
 import { MapTableComponent } from "@/components/displayItems/visualizations/MapTableComponent";
 import {
@@ -34,6 +36,9 @@ import {
 } from "@packages/shared/visualizations";
 import { useSearchParams } from "next/navigation";
 import { defaultTo, isEmpty } from "lodash";
+import { useEmbedCodeControls } from "@/hooks/embed";
+import { useShareLinkControls } from "@/hooks/share";
+import { useVisualizationViewState } from "@/hooks/viewState";
 
 export function MapVisComponent({
 	mapConfig,
@@ -48,7 +53,14 @@ export function MapVisComponent({
 }) {
 	const searchParams = useSearchParams();
 	const { orgUnitConfig, periodConfig } = config;
-	const { value: showTable, toggle: toggleShowTable } = useBoolean(false);
+	const {
+		showTable,
+		toggleShowTable,
+		periods: periodState,
+		setPeriods: setPeriodState,
+		orgUnits: orgUnitState,
+		setOrgUnits: setOrgUnitState,
+	} = useVisualizationViewState(config.id);
 	const handler = useFullScreenHandle();
 	const mapContainer = useRef<HTMLDivElement | null>(null);
 
@@ -94,6 +106,10 @@ export function MapVisComponent({
 	}, [map, mapConfig.name]);
 
 	const tableRef = useRef<HTMLTableElement>(null);
+	const { moduleId, embedAction, showEmbedCode, onCloseEmbedCode } =
+		useEmbedCodeControls();
+	const { shareAction, showShareLink, onCloseShareLink } =
+		useShareLinkControls();
 
 	const onDownload = () => {
 		const label = `${mapConfig.name.toLowerCase()}`;
@@ -119,10 +135,13 @@ export function MapVisComponent({
 		setFalse: hidePeriods,
 	} = useBoolean(false);
 
-	const [periodState, setPeriodState] = useState<string[] | undefined>();
-	const [orgUnitSelectionState, setOrgUnitSelectionState] = useState<
-		OrgUnitSelection | undefined
-	>();
+	const orgUnitSelectionState: OrgUnitSelection | undefined = useMemo(
+		() =>
+			isEmpty(orgUnitState)
+				? undefined
+				: getOrgUnitSelectionFromIds(orgUnitState),
+		[orgUnitState],
+	);
 
 	const onFullScreen = async () => {
 		if (handler.active) {
@@ -166,6 +185,8 @@ export function MapVisComponent({
 						onClick: onDownload,
 						icon: <IconDownload />,
 					},
+					...(shareAction ? [shareAction] : []),
+					...(embedAction ? [embedAction] : []),
 				],
 			},
 		];
@@ -199,6 +220,8 @@ export function MapVisComponent({
 		showPeriods,
 		onDownload,
 		showFilter,
+		shareAction,
+		embedAction,
 	]);
 
 	const periods = searchParams.get("pe")?.split(",");
@@ -249,9 +272,7 @@ export function MapVisComponent({
 								<MapTableComponent
 									fullScreen={handler.active}
 									orgUnitSelection={
-										!isEmpty(
-											orgUnitSelectionState?.orgUnits,
-										)
+										orgUnitSelectionState
 											? orgUnitSelectionState
 											: !isEmpty(orgUnitsIds)
 												? getOrgUnitSelectionFromIds(
@@ -280,7 +301,7 @@ export function MapVisComponent({
 								mapConfig={mapConfig}
 								setRef={mapRef}
 								orgUnitSelection={
-									!isEmpty(orgUnitSelectionState?.orgUnits)
+									orgUnitSelectionState
 										? orgUnitSelectionState
 										: !isEmpty(orgUnitsIds)
 											? getOrgUnitSelectionFromIds(
@@ -304,23 +325,14 @@ export function MapVisComponent({
 			</FullScreen>
 			{orgUnits && (
 				<CustomOrgUnitModal
-					onReset={() => setOrgUnitSelectionState(undefined)}
+					onReset={() => setOrgUnitState(undefined)}
 					orgUnitState={
-						!isEmpty(orgUnitSelectionState?.orgUnits)
-							? orgUnitSelectionState?.orgUnits?.map(
-									(ou) => ou.id,
-								)
+						!isEmpty(orgUnitState)
+							? orgUnitState
 							: (orgUnitsIds ?? [])
 					}
 					onUpdate={(val) => {
-						setOrgUnitSelectionState({
-							orgUnits: val?.map((ou: string) => ({
-								id: ou,
-								children: [],
-							})),
-							levels: [],
-							groups: [],
-						});
+						setOrgUnitState(val);
 					}}
 					open={orgUnits}
 					title={mapConfig.name}
@@ -347,6 +359,22 @@ export function MapVisComponent({
 					periods={periodConfig?.periods}
 				/>
 			)}
+			{showShareLink && (
+				<ShareLinkModal
+					open={showShareLink}
+					handleClose={onCloseShareLink}
+					title={mapConfig.name}
+				/>
+			)}
+			{showEmbedCode && moduleId && (
+				<EmbedCodeModal
+					open={showEmbedCode}
+					handleClose={onCloseEmbedCode}
+					moduleId={moduleId}
+					itemId={config.id}
+					title={mapConfig.name}
+				/>
+			)}
 		</>
 	);
 }
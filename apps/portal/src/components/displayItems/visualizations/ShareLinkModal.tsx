@@ -0,0 +1,124 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+	Button,
+	CopyButton,
+	Group,
+	Loader,
+	Modal,
+	Stack,
+	Text,
+	TextInput,
+} from "@mantine/core";
+import { useConfig } from "@dhis2/app-runtime";
+import { usePathname, useSearchParams } from "next/navigation";
+import i18n from "@dhis2/d2-i18n";
+import { createShortLink } from "@/utils/shortLinks";
+
+/*
+ * Links longer than this are replaced by a short link
+ * */
+const MAX_LINK_LENGTH = 120;
+
+function useShareLink() {
+	const { baseUrl } = useConfig();
+	const pathname = usePathname();
+	const searchParams = useSearchParams();
+	const search = searchParams.toString();
+	const path = `${pathname}${search ? `?${search}` : ""}`;
+	const url = `${baseUrl}${path}`;
+	const [shortLink, setShortLink] = useState<{
+		path: string;
+		url?: string;
+		error?: string;
+	}>();
+
+	useEffect(() => {
+		if (url.length <= MAX_LINK_LENGTH) {
+			return;
+		}
+		createShortLink(path).then((result) => {
+			setShortLink(
+				result.success
+					? { path, url: `${baseUrl}/s/${result.id}` }
+					: { path, error: result.error },
+			);
+		});
+	}, [baseUrl, path, url]);
+
+	if (url.length <= MAX_LINK_LENGTH) {
+		return { url, loading: false };
+	}
+	if (shortLink?.path !== path) {
+		return { url, loading: true };
+	}
+	//The full link still works when the short link could not be created
+	return {
+		url: shortLink.url ?? url,
+		loading: false,
+		error: shortLink.error,
+	};
+}
+
+export function ShareLinkModal({
+	open,
+	handleClose,
+	title,
+}: {
+	open: boolean;
+	handleClose: () => void;
+	title: string;
+}) {
+	const { url, loading, error } = useShareLink();
+	const canUseNativeShare =
+		typeof navigator !== "undefined" && !!navigator.share;
+
+	return (
+		<Modal
+			size="lg"
+			opened={open}
+			onClose={handleClose}
+			title={
+				<Text fw="bold">{i18n.t("Share {{title}}", { title })}</Text>
+			}
+		>
+			<Stack>
+				<Text size="sm" c="dimmed">
+					{i18n.t(
+						"The link opens this page with the selected periods, locations, groups and views.",
+					)}
+				</Text>
+				<TextInput
+					value={url}
+					readOnly
+					disabled={loading}
+					rightSection={loading ? <Loader size="xs" /> : undefined}
+					error={error}
+				/>
+				<Group justify="flex-end">
+					{canUseNativeShare && (
+						<Button
+							variant="subtle"
+							disabled={loading}
+							onClick={() =>
+								navigator.share({ title, url }).catch(() => {})
+							}
+						>
+							{i18n.t("Share")}
+						</Button>
+					)}
+					<CopyButton value={url}>
+						{({ copied, copy }) => (
+							<Button disabled={loading} onClick={copy}>
+								{copied
+									? i18n.t("Copied")
+									: i18n.t("Copy link")}
+							</Button>
+						)}
+					</CopyButton>
+				</Group>
+			</Stack>
+		</Modal>
+	);
+}
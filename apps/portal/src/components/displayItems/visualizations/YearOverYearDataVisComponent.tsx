@@ -24,10 +24,12 @@ import {
 import { ActionMenu } from "./ActionMenu";
 import { CustomOrgUnitModal } from "./CustomOrgUnitModal";
 import { CustomPeriodModal } from "@/components/displayItems/visualizations/CustomPeriodModal";
+import { EmbedCodeModal } from "./EmbedCodeModal";
+import { ShareLinkModal } from "./ShareLinkModal";
 
 import React from "react";
-import { useSearchParams } from "next/navigation";
 import { useYearOverYearAnalytics } from "@/hooks/charts";
+import { useDimensionSearchParams } from "@/hooks/viewState";
 
 export function YearOverYearDataVisComponent({
 	visualizationConfig,
@@ -44,8 +46,7 @@ export function YearOverYearDataVisComponent({
 }) {
 	const { orgUnitConfig, periodConfig } = config;
 	const { chartRef, tableRef } = useVisualizationRefs();
-	const searchParams = useSearchParams();
-	const params = React.useMemo(() => new Map(searchParams), [searchParams]);
+	const params = useDimensionSearchParams();
 	const {
 		onCloseOrgUnitSelector,
 		showPeriodSelector,
@@ -55,6 +56,11 @@ export function YearOverYearDataVisComponent({
 		showTable,
 		onFullScreen,
 		actionMenuGroups,
+		moduleId,
+		showEmbedCode,
+		onCloseEmbedCode,
+		showShareLink,
+		onCloseShareLink,
 	} = useDimensionViewControls({
 		chartRef,
 		tableRef,
@@ -244,6 +250,22 @@ export function YearOverYearDataVisComponent({
 					periods={periodConfig?.periods}
 				/>
 			)}
+			{showShareLink && (
+				<ShareLinkModal
+					open={showShareLink}
+					handleClose={onCloseShareLink}
+					title={visualizationConfig.name}
+				/>
+			)}
+			{showEmbedCode && moduleId && (
+				<EmbedCodeModal
+					open={showEmbedCode}
+					handleClose={onCloseEmbedCode}
+					moduleId={moduleId}
+					itemId={config.id}
+					title={visualizationConfig.name}
+				/>
+			)}
 		</>
 	);
 }
@@ -6,15 +6,21 @@ export function StaticModule({
 	config,
 	moduleId,
 	titlesColor,
+	preview,
 }: {
 	config: StaticModuleConfig;
 	moduleId: string;
 	titlesColor: string;
+	preview?: boolean;
 }) {
 	return (
 		<Stack>
 			<Title order={2} style={{ color: titlesColor }}>{config.title}</Title>
-			<StaticItemsList moduleId={moduleId} config={config} />
+			<StaticItemsList
+				moduleId={moduleId}
+				config={config}
+				preview={preview}
+			/>
 		</Stack>
 	);
 }
@@ -2,20 +2,27 @@ import { Button, Card, Container, Stack, Title } from "@mantine/core";
 import { getAppModule } from "@/utils/module";
 import { ModuleType, StaticItemConfig } from "@packages/shared/schemas";
 import { getAppConfigWithNamespace } from "@/utils/config";
-import { DatastoreNamespaces } from "@packages/shared/constants";
+import {
+	DatastoreNamespaces,
+	getStaticItemsDraftNamespace,
+} from "@packages/shared/constants";
 import { BaseCardError } from "@/components/CardError";
 import { RichContent } from "@/components/RichContent";
 import { IconArrowLeft } from "@tabler/icons-react";
 import Link from "next/link";
+import { translate } from "@packages/shared/utils";
+import { getLocale } from "@/utils/locale";
 
 export async function DetailsPage({
 	id,
 	moduleId,
+	preview,
 }: {
 	id: string;
 	moduleId: string;
+	preview?: boolean;
 }) {
-	const config = await getAppModule(moduleId);
+	const config = await getAppModule(moduleId, { preview });
 
 	if (!config || config.type !== ModuleType.STATIC) {
 		return (
@@ -25,12 +32,17 @@ export async function DetailsPage({
 		);
 	}
 
-	const namespace = config.config.namespace;
+	const namespace = preview
+		? getStaticItemsDraftNamespace(config.config.namespace)
+		: config.config.namespace;
 
-	const item = await getAppConfigWithNamespace<StaticItemConfig>({
-		namespace: namespace as DatastoreNamespaces,
-		key: id,
-	});
+	const item = translate(
+		await getAppConfigWithNamespace<StaticItemConfig>({
+			namespace: namespace as DatastoreNamespaces,
+			key: id,
+		}),
+		await getLocale(),
+	);
 
 	if (!item) {
 		return <BaseCardError error={new Error("Item not found")} />;
@@ -1,19 +1,31 @@
 import { StaticItemConfig, StaticModuleConfig } from "@packages/shared/schemas";
 import { getAppConfigsFromNamespace } from "@/utils/config";
-import { DatastoreNamespaces } from "@packages/shared/constants";
+import {
+	DatastoreNamespaces,
+	getStaticItemsDraftNamespace,
+} from "@packages/shared/constants";
 import { SimpleGrid } from "@mantine/core";
 import { StaticItemCard } from "@/components/modules/StaticModule/components/StaticItemCard";
+import { translate } from "@packages/shared/utils";
+import { getLocale } from "@/utils/locale";
 
 export async function StaticItemsList({
 	config,
 	moduleId,
+	preview,
 }: {
 	config: StaticModuleConfig;
 	moduleId: string;
+	preview?: boolean;
 }) {
-	const namespace = config.namespace;
-	const items = await getAppConfigsFromNamespace<StaticItemConfig>(
-		namespace as DatastoreNamespaces,
+	const namespace = preview
+		? getStaticItemsDraftNamespace(config.namespace)
+		: config.namespace;
+	const items = translate(
+		await getAppConfigsFromNamespace<StaticItemConfig>(
+			namespace as DatastoreNamespaces,
+		),
+		await getLocale(),
 	);
 
 	return (
@@ -1,4 +1,4 @@
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useDataQuery } from "@dhis2/app-runtime";
 import { PeriodTypeCategory, PeriodUtility } from "@hisptz/dhis2-utils";
 import { snakeCase } from "lodash";
@@ -13,6 +13,7 @@ import {
 	VisualizationConfig,
 	YearOverYearVisualizationConfig,
 } from "@packages/shared/schemas";
+import { useVisualizationViewState } from "@/hooks/viewState";
 
 const analyticsQuery = {
 	analytics: {
@@ -40,8 +41,12 @@ export function useAnalytics({
 	visualizationConfig: VisualizationConfig;
 	params: Map<string, string>;
 }) {
-	const [selectedOrgUnits, setSelectedOrgUnits] = useState<string[]>([]);
-	const [selectedPeriods, setSelectedPeriods] = useState<string[]>([]);
+	const {
+		orgUnits: selectedOrgUnits,
+		setOrgUnits: setSelectedOrgUnits,
+		periods: selectedPeriods,
+		setPeriods: setSelectedPeriods,
+	} = useVisualizationViewState(visualizationConfig.id);
 
 	const { refetch, loading, data } = useDataQuery<{
 		analytics: AnalyticsData;
@@ -104,9 +109,19 @@ export function useYearOverYearAnalytics({
 	params: Map<string, string>;
 }) {
 	const [data, setData] = useState<Map<string, AnalyticsData>>();
-	const [selectedOrgUnits, setSelectedOrgUnits] = useState<string[]>([]);
-	const [selectedPeriods, setSelectedPeriods] = useState<string[]>(
-		params?.get("pe")?.split(",") ?? [],
+	const {
+		orgUnits: selectedOrgUnits,
+		setOrgUnits: setSelectedOrgUnits,
+		periods: itemPeriods,
+		setPeriods: setSelectedPeriods,
+	} = useVisualizationViewState(visualizationConfig.id);
+	const globalPeriods = params?.get("pe");
+	const selectedPeriods = useMemo(
+		() =>
+			itemPeriods.length > 0
+				? itemPeriods
+				: (globalPeriods?.split(",") ?? []),
+		[itemPeriods, globalPeriods],
 	);
 
 	const { refetch, loading } = useDataQuery<{
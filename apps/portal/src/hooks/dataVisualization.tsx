@@ -17,6 +17,12 @@ import Highcharts from "highcharts";
 import { isEmpty } from "lodash";
 import { useFullScreenHandle } from "react-full-screen";
 import { ActionMenuGroup } from "@/components/displayItems/visualizations/ActionMenu";
+import {
+	useEmbedCodeControls,
+	useImageDownloadAction,
+} from "@/hooks/embed";
+import { useShareLinkControls } from "@/hooks/share";
+import { useVisualizationViewState } from "@/hooks/viewState";
 
 export function useDimensionViewControls({
 	visualizationConfig,
@@ -45,7 +51,12 @@ export function useDimensionViewControls({
 		setTrue: onShowPeriodSelector,
 		setFalse: onClosePeriodSelector,
 	} = useBoolean(false);
-	const { value: showTable, toggle: toggleShowTable } = useBoolean(false);
+	const { showTable, toggleShowTable } = useVisualizationViewState(config.id);
+	const { moduleId, embedAction, showEmbedCode, onCloseEmbedCode } =
+		useEmbedCodeControls();
+	const { shareAction, showShareLink, onCloseShareLink } =
+		useShareLinkControls();
+	const imageDownloadAction = useImageDownloadAction(visualizationConfig);
 
 	const onDownload = () => {
 		const label = `${visualizationConfig.name.toLowerCase()}`;
@@ -108,6 +119,9 @@ export function useDimensionViewControls({
 						onClick: onDownload,
 						icon: <IconDownload />,
 					},
+					...(imageDownloadAction ? [imageDownloadAction] : []),
+					...(shareAction ? [shareAction] : []),
+					...(embedAction ? [embedAction] : []),
 				],
 			},
 		];
@@ -177,6 +191,9 @@ export function useDimensionViewControls({
 		handler.active,
 		onFullScreen,
 		showFilter,
+		imageDownloadAction,
+		shareAction,
+		embedAction,
 	]);
 
 	return {
@@ -190,6 +207,11 @@ export function useDimensionViewControls({
 		onShowPeriodSelector,
 		onCloseOrgUnitSelector,
 		onClosePeriodSelector,
+		moduleId,
+		showEmbedCode,
+		onCloseEmbedCode,
+		showShareLink,
+		onCloseShareLink,
 	};
 }
 
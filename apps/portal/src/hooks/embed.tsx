@@ -0,0 +1,88 @@
+import { useMemo } from "react";
+import { usePathname, useSearchParams } from "next/navigation";
+import { useBoolean } from "usehooks-ts";
+import { useConfig } from "@dhis2/app-runtime";
+import i18n from "@dhis2/d2-i18n";
+import { IconCode, IconPhotoDown } from "@tabler/icons-react";
+import { last } from "lodash";
+import { ActionMenu } from "@/components/displayItems/visualizations/ActionMenu";
+import { useVisualizationViewState } from "@/hooks/viewState";
+import { getImageDownloadUrl } from "@/utils/embedCode";
+import { isChartImageSupported } from "@/utils/server/chartImage";
+import { VisualizationConfig } from "@packages/shared/schemas";
+
+function getPublishedModuleId(pathname: string) {
+	const segments = pathname.split("/").filter(Boolean);
+	return segments[0] === "modules" && !segments.includes("details")
+		? last(segments)
+		: undefined;
+}
+
+/*
+ * Only visualizations of the published modules can be embedded, so the action is not shown in the preview
+ * */
+export function useEmbedCodeControls() {
+	const pathname = usePathname();
+	const {
+		value: showEmbedCode,
+		setTrue: onShowEmbedCode,
+		setFalse: onCloseEmbedCode,
+	} = useBoolean(false);
+	const moduleId = getPublishedModuleId(pathname);
+
+	const embedAction: ActionMenu | undefined = useMemo(
+		() =>
+			moduleId
+				? {
+						label: i18n.t("Copy embed code"),
+						icon: <IconCode />,
+						onClick: onShowEmbedCode,
+					}
+				: undefined,
+		[moduleId, onShowEmbedCode],
+	);
+
+	return {
+		moduleId,
+		embedAction,
+		showEmbedCode,
+		onCloseEmbedCode,
+	};
+}
+
+/*
+ * Downloads the chart as an image rendered by the server, with the periods and organisation units selected on it
+ * */
+export function useImageDownloadAction({
+	id: itemId,
+	type,
+}: Pick<VisualizationConfig, "id" | "type">) {
+	const pathname = usePathname();
+	const searchParams = useSearchParams();
+	const { baseUrl } = useConfig();
+	const { periods, orgUnits } = useVisualizationViewState(itemId);
+	const moduleId = getPublishedModuleId(pathname);
+
+	return useMemo((): ActionMenu | undefined => {
+		if (!moduleId || !isChartImageSupported(type)) {
+			return;
+		}
+		const params = new URLSearchParams(searchParams);
+		if (periods.length > 0) {
+			params.set("pe", periods.join(","));
+		}
+		if (orgUnits.length > 0) {
+			params.set("ou", orgUnits.join(","));
+		}
+		return {
+			label: i18n.t("Download image"),
+			icon: <IconPhotoDown />,
+			href: getImageDownloadUrl({
+				baseUrl,
+				moduleId,
+				itemId,
+				searchParams: params,
+			}),
+		};
+	}, [moduleId, type, searchParams, periods, orgUnits, baseUrl, itemId]);
+}
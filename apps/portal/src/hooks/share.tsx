@@ -0,0 +1,37 @@
+import { useMemo } from "react";
+import { usePathname } from "next/navigation";
+import { useBoolean } from "usehooks-ts";
+import i18n from "@dhis2/d2-i18n";
+import { IconShare } from "@tabler/icons-react";
+import { ActionMenu } from "@/components/displayItems/visualizations/ActionMenu";
+
+/*
+ * Links are only shared from the published modules, since the preview is not public
+ * */
+export function useShareLinkControls() {
+	const pathname = usePathname();
+	const {
+		value: showShareLink,
+		setTrue: onShowShareLink,
+		setFalse: onCloseShareLink,
+	} = useBoolean(false);
+	const canShare = pathname.startsWith("/modules/");
+
+	const shareAction: ActionMenu | undefined = useMemo(
+		() =>
+			canShare
+				? {
+						label: i18n.t("Share"),
+						icon: <IconShare />,
+						onClick: onShowShareLink,
+					}
+				: undefined,
+		[canShare, onShowShareLink],
+	);
+
+	return {
+		shareAction,
+		showShareLink,
+		onCloseShareLink,
+	};
+}
@@ -0,0 +1,96 @@
+import { useCallback, useMemo } from "react";
+import { useSearchParams } from "next/navigation";
+import { compact } from "lodash";
+
+/*
+ * Query parameters of the view state of a single visualization, e.g. `?{id}.pe=2024Q1&{id}.view=table`
+ * */
+export function getViewStateParam(id: string, name: "pe" | "ou" | "view") {
+	return `${id}.${name}`;
+}
+
+/*
+ * Updates the URL without reloading the page, so that the state is kept on reload and in shared links
+ * */
+function replaceSearchParam(name: string, value?: string) {
+	const params = new URLSearchParams(window.location.search);
+	if (value) {
+		params.set(name, value);
+	} else {
+		params.delete(name);
+	}
+	const search = params.toString();
+	window.history.replaceState(
+		null,
+		"",
+		`${window.location.pathname}${search ? `?${search}` : ""}${window.location.hash}`,
+	);
+}
+
+/**
+ * The periods and organisation units selected on the global filters of the module, from the `pe` and `ou` query parameters
+ */
+export function useDimensionSearchParams() {
+	const searchParams = useSearchParams();
+	const periods = searchParams.get("pe");
+	const orgUnits = searchParams.get("ou");
+
+	return useMemo(
+		() =>
+			new Map(
+				compact([
+					periods ? ["pe", periods] : undefined,
+					orgUnits ? ["ou", orgUnits] : undefined,
+				]) as [string, string][],
+			),
+		[periods, orgUnits],
+	);
+}
+
+/**
+ * Periods, organisation units and view of a visualization, selected from its action menu and kept in the URL
+ */
+export function useVisualizationViewState(id: string) {
+	const searchParams = useSearchParams();
+	const periodsParam = searchParams.get(getViewStateParam(id, "pe"));
+	const orgUnitsParam = searchParams.get(getViewStateParam(id, "ou"));
+	const showTable =
+		searchParams.get(getViewStateParam(id, "view")) === "table";
+
+	const periods = useMemo(
+		() => compact(periodsParam?.split(",")),
+		[periodsParam],
+	);
+	const orgUnits = useMemo(
+		() => compact(orgUnitsParam?.split(",")),
+		[orgUnitsParam],
+	);
+
+	const setPeriods = useCallback(
+		(value?: string[]) => {
+			replaceSearchParam(getViewStateParam(id, "pe"), value?.join(","));
+		},
+		[id],
+	);
+	const setOrgUnits = useCallback(
+		(value?: string[]) => {
+			replaceSearchParam(getViewStateParam(id, "ou"), value?.join(","));
+		},
+		[id],
+	);
+	const toggleShowTable = useCallback(() => {
+		replaceSearchParam(
+			getViewStateParam(id, "view"),
+			showTable ? undefined : "table",
+		);
+	}, [id, showTable]);
+
+	return {
+		periods,
+		orgUnits,
+		showTable,
+		setPeriods,
+		setOrgUnits,
+		toggleShowTable,
+	};
+}
@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { ResponseCache } from "./cache";
+
+function createCache(
+	options: Partial<ConstructorParameters<typeof ResponseCache>[0]> = {},
+) {
+	return new ResponseCache({
+		maxEntries: 10,
+		ttl: { analytics: 60 },
+		staleTtl: 60,
+		...options,
+	});
+}
+
+describe("Response cache keys", () => {
+	test("Params in another order have the same key", () => {
+		expect(
+			ResponseCache.normalizeKey(
+				"analytics?filter=pe:2024&dimension=dx:a&dimension=ou:b",
+			),
+		).to.equal(
+			ResponseCache.normalizeKey(
+				"/analytics?dimension=dx:a&dimension=ou:b&filter=pe:2024",
+			),
+		);
+	});
+	test("Repeated params keep their order", () => {
+		expect(
+			ResponseCache.normalizeKey(
+				"analytics?dimension=dx:a&dimension=ou:b",
+			),
+		).not.to.equal(
+			ResponseCache.normalizeKey(
+				"analytics?dimension=ou:b&dimension=dx:a",
+			),
+		);
+	});
+	test("Only resources with a time to live are cached", () => {
+		const cache = createCache();
+		expect(cache.isCached("analytics.json?dimension=dx:a")).to.equal(true);
+		expect(cache.isCached("dataStore/namespace/key")).to.equal(false);
+	});
+});
+
+describe("Response cache", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+	});
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	test("Fresh responses are served from the cache", async () => {
+		const cache = createCache();
+		const fetcher = vi.fn().mockResolvedValue("first");
+		await cache.get("analytics?dimension=dx:a", fetcher);
+		expect(await cache.get("analytics?dimension=dx:a", fetcher)).to.equal(
+			"first",
+		);
+		expect(fetcher).toHaveBeenCalledTimes(1);
+	});
+
+	test("Stale responses are served while they are fetched again", async () => {
+		const cache = createCache();
+		await cache.get("analytics", () => Promise.resolve("first"));
+		vi.advanceTimersByTime(90 * 1000);
+		const fetcher = vi.fn().mockResolvedValue("second");
+		expect(await cache.get("analytics", fetcher)).to.equal("first");
+		expect(fetcher).toHaveBeenCalledTimes(1);
+		await vi.runAllTimersAsync();
+		expect(await cache.get("analytics", fetcher)).to.equal("second");
+	});
+
+	test("Expired responses are fetched again", async () => {
+		const cache = createCache();
+		await cache.get("analytics", () => Promise.resolve("first"));
+		vi.advanceTimersByTime(150 * 1000);
+		expect(
+			await cache.get("analytics", () => Promise.resolve("second")),
+		).to.equal("second");
+	});
+
+	test("The least recently used responses are dropped", async () => {
+		const cache = createCache({ maxEntries: 2 });
+		await cache.get("analytics?a", () => Promise.resolve("a"));
+		await cache.get("analytics?b", () => Promise.resolve("b"));
+		await cache.get("analytics?a", () => Promise.resolve("a"));
+		await cache.get("analytics?c", () => Promise.resolve("c"));
+		const fetcher = vi.fn().mockResolvedValue("b");
+		await cache.get("analytics?a", fetcher);
+		expect(fetcher).not.toHaveBeenCalled();
+		await cache.get("analytics?b", fetcher);
+		expect(fetcher).toHaveBeenCalledTimes(1);
+	});
+
+	test("Purging drops the cached responses", async () => {
+		let purgedAt: string | undefined;
+		const cache = createCache({
+			getPurgedAt: async () => purgedAt,
+			purgeCheckInterval: 0,
+		});
+		await cache.get("analytics", () => Promise.resolve("first"));
+		purgedAt = new Date().toISOString();
+		expect(
+			await cache.get("analytics", () => Promise.resolve("second")),
+		).to.equal("second");
+	});
+});
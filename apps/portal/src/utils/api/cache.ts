@@ -0,0 +1,224 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+export interface ResponseCacheOptions {
+	/*
+	 * Least recently used responses are dropped from the memory once there are more
+	 * */
+	maxEntries: number;
+	/*
+	 * Seconds a response stays fresh, by resource, e.g. `{ analytics: 300 }`. Other resources are not cached.
+	 * */
+	ttl: Record<string, number>;
+	/*
+	 * Seconds an expired response is still served while it is fetched again in the background
+	 * */
+	staleTtl: number;
+	/*
+	 * Keeps the responses on disk too, so that they survive restarts
+	 * */
+	directory?: string;
+	/*
+	 * Returns when the cache was last purged, all responses fetched before are dropped
+	 * */
+	getPurgedAt?: () => Promise<string | undefined>;
+	purgeCheckInterval?: number;
+}
+
+interface CacheEntry {
+	key: string;
+	value: unknown;
+	fetchedAt: number;
+}
+
+const DEFAULT_PURGE_CHECK_INTERVAL = 30 * 1000;
+
+/**
+ * LRU cache of DHIS2 responses, with a time to live per resource and stale-while-revalidate
+ */
+export class ResponseCache {
+	options: ResponseCacheOptions;
+	private entries = new Map<string, CacheEntry>();
+	private pending = new Map<string, Promise<unknown>>();
+	private purgedAt?: string;
+	private purgeCheckedAt = 0;
+	/*
+	 * Incremented by each clear, so that responses requested before are not cached
+	 * */
+	private generation = 0;
+
+	constructor(options: ResponseCacheOptions) {
+		this.options = options;
+	}
+
+	/*
+	 * The same query with its params in another order has the same key. Values of repeated params keep their order.
+	 * */
+	static normalizeKey(resource: string) {
+		const [pathname, search] = resource.split("?");
+		const params = Array.from(new URLSearchParams(search ?? "")).sort(
+			([a], [b]) => (a < b ? -1 : a > b ? 1 : 0),
+		);
+		const normalizedPath = pathname.replace(/^\/+|\/+$/g, "");
+		return params.length > 0
+			? `${normalizedPath}?${new URLSearchParams(params).toString()}`
+			: normalizedPath;
+	}
+
+	getTtl(resource: string) {
+		const resourceType =
+			ResponseCache.normalizeKey(resource).split(/[/?.]/)[0];
+		return this.options.ttl[resourceType];
+	}
+
+	isCached(resource: string) {
+		return this.options.maxEntries > 0 && !!this.getTtl(resource);
+	}
+
+	async get<T>(resource: string, fetcher: () => Promise<T>): Promise<T> {
+		await this.checkPurge();
+		const key = ResponseCache.normalizeKey(resource);
+		const ttl = this.getTtl(resource) * 1000;
+		const entry = this.entries.get(key) ?? (await this.readEntry(key));
+		const age = entry ? Date.now() - entry.fetchedAt : Infinity;
+
+		if (entry && age < ttl) {
+			this.setEntry(entry);
+			return entry.value as T;
+		}
+		if (entry && age < ttl + this.options.staleTtl * 1000) {
+			this.setEntry(entry);
+			this.refresh(key, fetcher).catch((e) => {
+				console.error(`Could not refresh the cached ${key}`, e);
+			});
+			return entry.value as T;
+		}
+		return this.refresh(key, fetcher);
+	}
+
+	async clear() {
+		this.generation++;
+		this.entries.clear();
+		this.pending.clear();
+		if (this.options.directory) {
+			await rm(this.options.directory, { recursive: true, force: true });
+		}
+	}
+
+	/*
+	 * Concurrent requests of the same resource share a single DHIS2 request
+	 * */
+	private refresh<T>(key: string, fetcher: () => Promise<T>): Promise<T> {
+		const pending = this.pending.get(key);
+		if (pending) {
+			return pending as Promise<T>;
+		}
+		const generation = this.generation;
+		const requestedAt = Date.now();
+		const request = fetcher()
+			.then(async (value) => {
+				if (
+					generation !== this.generation ||
+					this.isPurged(requestedAt)
+				) {
+					return value;
+				}
+				const entry = { key, value, fetchedAt: requestedAt };
+				this.setEntry(entry);
+				await this.writeEntry(entry);
+				return value;
+			})
+			.finally(() => {
+				if (this.pending.get(key) === request) {
+					this.pending.delete(key);
+				}
+			});
+		this.pending.set(key, request);
+		return request;
+	}
+
+	private setEntry(entry: CacheEntry) {
+		this.entries.delete(entry.key);
+		this.entries.set(entry.key, entry);
+		while (this.entries.size > this.options.maxEntries) {
+			const oldestKey = this.entries.keys().next().value!;
+			this.entries.delete(oldestKey);
+			this.deleteEntryFile(oldestKey);
+		}
+	}
+
+	private isPurged(fetchedAt: number) {
+		return !!this.purgedAt && fetchedAt < Date.parse(this.purgedAt);
+	}
+
+	private getFilePath(key: string) {
+		return path.join(
+			this.options.directory!,
+			`${createHash("sha1").update(key).digest("hex")}.json`,
+		);
+	}
+
+	private async readEntry(key: string): Promise<CacheEntry | undefined> {
+		if (!this.options.directory) {
+			return;
+		}
+		try {
+			const entry = JSON.parse(
+				await readFile(this.getFilePath(key), "utf-8"),
+			) as CacheEntry;
+			if (this.isPurged(entry.fetchedAt)) {
+				return;
+			}
+			return entry;
+		} catch (e) {
+			return;
+		}
+	}
+
+	private async writeEntry(entry: CacheEntry) {
+		if (!this.options.directory) {
+			return;
+		}
+		try {
+			await mkdir(this.options.directory, { recursive: true });
+			await writeFile(this.getFilePath(entry.key), JSON.stringify(entry));
+		} catch (e) {
+			console.error(`Could not save the cached ${entry.key}`, e);
+		}
+	}
+
+	private deleteEntryFile(key: string) {
+		if (!this.options.directory) {
+			return;
+		}
+		rm(this.getFilePath(key), { force: true }).catch((e) => {
+			console.error(`Could not delete the cached ${key}`, e);
+		});
+	}
+
+	private async checkPurge() {
+		const interval =
+			this.options.purgeCheckInterval ?? DEFAULT_PURGE_CHECK_INTERVAL;
+		if (
+			!this.options.getPurgedAt ||
+			Date.now() - this.purgeCheckedAt < interval
+		) {
+			return;
+		}
+		const isFirstCheck = this.purgeCheckedAt === 0;
+		this.purgeCheckedAt = Date.now();
+		try {
+			const purgedAt = await this.options.getPurgedAt();
+			if (purgedAt && purgedAt !== this.purgedAt) {
+				this.purgedAt = purgedAt;
+				//Responses kept on disk from before a restart are only dropped when they are older than the purge
+				if (!isFirstCheck) {
+					await this.clear();
+				}
+			}
+		} catch (e) {
+			console.error("Could not check if the cache was purged", e);
+		}
+	}
+}
@@ -1,7 +1,61 @@
 import { D2HttpClient } from "./http";
+import { ResponseCache } from "./cache";
 import { env } from "@/utils/env";
+import {
+	PORTAL_CACHE_NAMESPACE,
+	PORTAL_CACHE_PURGE_KEY,
+} from "@packages/shared/constants";
+import { PortalCachePurge } from "@packages/shared/schemas";
+
+/*
+ * Seconds each resource requested by the charts and maps stays fresh, can be changed with `API_CACHE_TTL`, e.g. `analytics=300,geoFeatures=86400`
+ * */
+const DEFAULT_CACHE_TTL: Record<string, number> = {
+	analytics: 300,
+	legendSets: 3600,
+	organisationUnits: 3600,
+	geoFeatures: 3600,
+};
+
+function getCacheTtl() {
+	const ttl = { ...DEFAULT_CACHE_TTL };
+	for (const entry of env.API_CACHE_TTL?.split(",") ?? []) {
+		const [resource, seconds] = entry
+			.split("=")
+			.map((value) => value.trim());
+		if (resource && !isNaN(Number(seconds))) {
+			ttl[resource] = Number(seconds);
+		}
+	}
+	return ttl;
+}
+
+function createResponseCache() {
+	//The export saves the data as it is in DHIS2
+	if (env.PORTAL_EXPORT_DIR) {
+		return;
+	}
+	return new ResponseCache({
+		maxEntries: Number(env.API_CACHE_MAX_ENTRIES || 500),
+		ttl: getCacheTtl(),
+		staleTtl: Number(env.API_CACHE_STALE_TTL || 3600),
+		directory: env.API_CACHE_DIR || undefined,
+		getPurgedAt: async () => {
+			try {
+				const purge = await dhis2HttpClient.get<PortalCachePurge>(
+					`dataStore/${PORTAL_CACHE_NAMESPACE}/${PORTAL_CACHE_PURGE_KEY}`,
+				);
+				return purge.purgedAt;
+			} catch (e) {
+				//The cache has never been purged
+				return;
+			}
+		},
+	});
+}
 
 export const dhis2HttpClient = new D2HttpClient(
 	env.DHIS2_BASE_URL,
 	env.DHIS2_BASE_PAT_TOKEN,
+	{ cache: createResponseCache() },
 );
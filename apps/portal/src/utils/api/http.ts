@@ -1,12 +1,19 @@
 import { ConnectionStatus } from "@/types/connection";
+import { ResponseCache } from "./cache";
 
 export class D2HttpClient {
 	baseURL: URL;
 	pat: string;
+	cache?: ResponseCache;
 
-	constructor(baseURL: string, pat: string) {
+	constructor(
+		baseURL: string,
+		pat: string,
+		{ cache }: { cache?: ResponseCache } = {},
+	) {
 		this.baseURL = D2HttpClient.sanitizeURL(baseURL);
 		this.pat = pat;
+		this.cache = cache;
 	}
 
 	static sanitizeURL(baseURL: string): URL {
@@ -193,6 +200,17 @@ export class D2HttpClient {
 			});
 		}
 
+		/*
+		 * Only the resources with a time to live, like analytics, are cached. The configuration is always fetched.
+		 * */
+		const resource = url.href.replace(this.baseURL.href, "");
+		if (this.cache?.isCached(resource)) {
+			return this.cache.get(resource, () => this.fetchJson<T>(url));
+		}
+		return this.fetchJson<T>(url);
+	}
+
+	private async fetchJson<T>(url: URL) {
 		const response = await fetch(url, {
 			cache: "no-store",
 			headers: {
@@ -2,6 +2,7 @@ import { getAppConfigWithNamespace } from "@/utils/config";
 import { DatastoreNamespaces } from "@packages/shared/constants";
 import { AppMeta } from "@packages/shared/schemas";
 import { Metadata } from "next";
+import { getLocale } from "@/utils/locale";
 
 export async function getAppMetadata(): Promise<Metadata> {
 	try {
@@ -23,6 +24,10 @@ export async function getAppMetadata(): Promise<Metadata> {
 				template: `%s | ${config?.name}`,
 			},
 			description: config?.description,
+			openGraph: {
+				siteName: config?.name,
+				locale: await getLocale(),
+			},
 		} as Metadata;
 	} catch (e) {
 		return {
@@ -0,0 +1,76 @@
+import {
+	createHash,
+	createHmac,
+	randomBytes,
+	timingSafeEqual,
+} from "node:crypto";
+import { env } from "@/utils/env";
+import { countLeadingZeroBits } from "@/utils/client/challenge";
+
+/*
+ * Proof-of-work challenges keep bots from submitting forms: the browser has to find a nonce for which
+ * `sha256("{challenge}:{nonce}")` starts with `CHALLENGE_DIFFICULTY` zero bits, which takes about a second.
+ * */
+export const CHALLENGE_DIFFICULTY = 14;
+
+const CHALLENGE_TTL = 10 * 60 * 1000;
+
+/*
+ * Derived from the PAT when not set, so that all the instances of a portal share it without more configuration
+ * */
+const secret =
+	env.FEEDBACK_CHALLENGE_SECRET ||
+	createHmac("sha256", env.DHIS2_BASE_PAT_TOKEN)
+		.update("feedback-challenge")
+		.digest("hex");
+
+const usedChallenges = new Map<string, number>();
+
+function sign(payload: string) {
+	return createHmac("sha256", secret).update(payload).digest("hex");
+}
+
+export function createChallenge() {
+	const payload = `${Date.now()}.${randomBytes(12).toString("hex")}`;
+	return {
+		challenge: `${payload}.${sign(payload)}`,
+		difficulty: CHALLENGE_DIFFICULTY,
+	};
+}
+
+/*
+ * A challenge can only be used once, until it expires
+ * */
+export function verifyChallenge(challenge: string, nonce: string) {
+	const now = Date.now();
+	for (const [usedChallenge, expiresAt] of usedChallenges) {
+		if (expiresAt <= now) {
+			usedChallenges.delete(usedChallenge);
+		}
+	}
+
+	const [issuedAt, random, signature] = challenge.split(".");
+	if (!issuedAt || !random || !signature || !/^[0-9a-f]+$/.test(signature)) {
+		return false;
+	}
+	const expectedSignature = Buffer.from(sign(`${issuedAt}.${random}`));
+	const signatureBuffer = Buffer.from(signature);
+	if (
+		expectedSignature.length !== signatureBuffer.length ||
+		!timingSafeEqual(expectedSignature, signatureBuffer)
+	) {
+		return false;
+	}
+	if (
+		now - Number(issuedAt) > CHALLENGE_TTL ||
+		usedChallenges.has(challenge)
+	) {
+		return false;
+	}
+	const hash = createHash("sha256").update(`${challenge}:${nonce}`).digest();
+	if (countLeadingZeroBits(hash) < CHALLENGE_DIFFICULTY) {
+		return false;
+	}
+	usedChallenges.set(challenge, Number(issuedAt) + CHALLENGE_TTL);
+	return true;
+}
@@ -0,0 +1,30 @@
+/*
+ * Finds the nonce that solves a proof-of-work challenge created by `createChallenge`
+ * */
+export async function solveChallenge(challenge: string, difficulty: number) {
+	const encoder = new TextEncoder();
+	for (let nonce = 0; ; nonce++) {
+		const hash = new Uint8Array(
+			await crypto.subtle.digest(
+				"SHA-256",
+				encoder.encode(`${challenge}:${nonce}`),
+			),
+		);
+		if (countLeadingZeroBits(hash) >= difficulty) {
+			return nonce.toString();
+		}
+	}
+}
+
+export function countLeadingZeroBits(hash: Uint8Array) {
+	let bits = 0;
+	for (const byte of hash) {
+		if (byte === 0) {
+			bits += 8;
+			continue;
+		}
+		bits += Math.clz32(byte) - 24;
+		break;
+	}
+	return bits;
+}
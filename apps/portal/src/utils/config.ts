@@ -1,12 +1,15 @@
 import { dhis2HttpClient } from "@/utils/api/dhis2";
 import { Pagination } from "@hisptz/dhis2-utils";
-import { DatastoreNamespaces } from "@packages/shared/constants";
+import {
+	DatastoreNamespaces,
+	DraftDatastoreNamespaces,
+} from "@packages/shared/constants";
 
 export async function getAppConfigWithNamespace<T>({
 	namespace,
 	key,
 }: {
-	namespace: DatastoreNamespaces;
+	namespace: DatastoreNamespaces | DraftDatastoreNamespaces;
 	key: string;
 }) {
 	try {
@@ -18,7 +21,7 @@ export async function getAppConfigWithNamespace<T>({
 }
 
 export async function getAppConfigsFromNamespace<T>(
-	namespace: DatastoreNamespaces,
+	namespace: DatastoreNamespaces | DraftDatastoreNamespaces,
 ): Promise<T[]> {
 	try {
 		const url = `dataStore/${namespace}`;
@@ -1,7 +1,12 @@
 import { dhis2HttpClient } from "@/utils/api/dhis2";
 import { Pagination } from "@hisptz/dhis2-utils";
-import { DatastoreNamespaces } from "@packages/shared/constants";
+import {
+	DatastoreNamespaces,
+	DraftDatastoreNamespaces,
+} from "@packages/shared/constants";
 import { AppAppearanceConfig, AppMenuConfig } from "@packages/shared/schemas";
+import { translate } from "@packages/shared/utils";
+import { getLocale } from "@/utils/locale";
 
 const appConfigKeys = [
 	"dashboards",
@@ -49,25 +54,31 @@ export async function getAppConfigsFromNamespace<T>(
 	return response?.entries.map(({ value }) => value) ?? [];
 }
 
-export async function getAppearanceConfig() {
+export async function getAppearanceConfig({
+	preview,
+}: { preview?: boolean } = {}) {
+	const namespace = preview
+		? DraftDatastoreNamespaces.MAIN_CONFIG
+		: DatastoreNamespaces.MAIN_CONFIG;
 	try {
 		const appearanceConfig =
 			await getAppConfigWithNamespace<AppAppearanceConfig>({
-				namespace: DatastoreNamespaces.MAIN_CONFIG,
+				namespace,
 				key: "appearance",
 			});
 
 		const menuConfig = await getAppConfigWithNamespace<AppMenuConfig>({
-			namespace: DatastoreNamespaces.MAIN_CONFIG,
+			namespace,
 			key: "menu",
 		});
 
 		if (!appearanceConfig || !menuConfig) {
 			return;
 		}
+		const locale = await getLocale();
 		return {
-			appearanceConfig,
-			menuConfig,
+			appearanceConfig: translate(appearanceConfig, locale),
+			menuConfig: translate(menuConfig, locale),
 		};
 	} catch (error) {
 		console.error("Error fetching appearance config:", error);
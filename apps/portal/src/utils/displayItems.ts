@@ -0,0 +1,21 @@
+import { DisplayItemType } from "@packages/shared/schemas";
+import { isPlainObject } from "lodash";
+
+/*
+ * Collects the items of the display items of type `type` nested anywhere in a module config, e.g. in sections or groups
+ * */
+export function getDisplayItems<T>(value: unknown, type: DisplayItemType): T[] {
+	if (Array.isArray(value)) {
+		return value.flatMap((child) => getDisplayItems<T>(child, type));
+	}
+	if (!isPlainObject(value)) {
+		return [];
+	}
+	const displayItem = value as { type?: string; item?: T };
+	if (displayItem.type === type && displayItem.item) {
+		return [displayItem.item];
+	}
+	return Object.values(value as object).flatMap((child) =>
+		getDisplayItems<T>(child, type),
+	);
+}
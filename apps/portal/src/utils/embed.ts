@@ -0,0 +1,124 @@
+import { PeriodUtility } from "@hisptz/dhis2-utils";
+import { compact, uniq } from "lodash";
+import { dhis2HttpClient } from "@/utils/api/dhis2";
+import { getDisplayItems } from "@/utils/displayItems";
+import { getAppModule } from "@/utils/module";
+import {
+	DisplayItemType,
+	OrgUnitConfig,
+	PeriodConfig,
+	VisualizationItem,
+} from "@packages/shared/schemas";
+
+export interface EmbedDimensions {
+	pe?: string[];
+	ou?: string[];
+}
+
+/*
+ * Only visualizations of published modules can be embedded
+ * */
+export async function getEmbedItem(moduleId: string, itemId: string) {
+	const appModule = await getAppModule(moduleId);
+	if (!appModule) {
+		return;
+	}
+	return getDisplayItems<VisualizationItem>(
+		appModule.config,
+		DisplayItemType.VISUALIZATION,
+	).find(({ id }) => id === itemId);
+}
+
+function getListParam(value?: string | string[]) {
+	const values = Array.isArray(value) ? value : [value];
+	return uniq(
+		compact(values.flatMap((value) => value?.split(",") ?? [])).map(
+			(value) => value.trim(),
+		),
+	);
+}
+
+function isPeriodAllowed(id: string, periodConfig?: PeriodConfig) {
+	if (periodConfig?.periods?.length) {
+		return periodConfig.periods.includes(id);
+	}
+	try {
+		const period = PeriodUtility.getPeriodById(id);
+		if (
+			periodConfig?.categories?.length &&
+			!periodConfig.categories.includes(
+				period.type.type as unknown as "RELATIVE" | "FIXED",
+			)
+		) {
+			return false;
+		}
+		return (
+			!periodConfig?.periodTypes?.length ||
+			periodConfig.periodTypes.includes(period.type.id)
+		);
+	} catch (e) {
+		return false;
+	}
+}
+
+function getPeriods(
+	value: string | string[] | undefined,
+	periodConfig?: PeriodConfig,
+) {
+	const periods = getListParam(value).filter((id) =>
+		isPeriodAllowed(id, periodConfig),
+	);
+	return periodConfig?.singleSelection ? periods.slice(0, 1) : periods;
+}
+
+/*
+ * Organisation units have to be one of the configured ones, or below them, and on one of the configured levels
+ * */
+async function getOrgUnits(
+	value: string | string[] | undefined,
+	orgUnitConfig?: OrgUnitConfig,
+) {
+	const ids = getListParam(value).filter((id) => /^[\w-]+$/.test(id));
+	const roots = orgUnitConfig?.orgUnits ?? [];
+	const levels = orgUnitConfig?.orgUnitLevels ?? [];
+	if (ids.length === 0 || (roots.length === 0 && levels.length === 0)) {
+		return ids;
+	}
+	try {
+		const { organisationUnits } = await dhis2HttpClient.get<{
+			organisationUnits: { id: string; path: string; level: number }[];
+		}>("organisationUnits", {
+			params: {
+				filter: `id:in:[${ids.join(",")}]`,
+				fields: "id,path,level",
+				paging: "false",
+			},
+		});
+		return organisationUnits
+			.filter(
+				({ path, level }) =>
+					(roots.length === 0 ||
+						roots.some((root) => path.split("/").includes(root))) &&
+					(levels.length === 0 || levels.includes(level)),
+			)
+			.map(({ id }) => id);
+	} catch (e) {
+		console.error("Could not check the organisation units of the embed", e);
+		return [];
+	}
+}
+
+/**
+ * Keeps the `pe` and `ou` query parameters that the period and organisation unit configuration of the visualization allow
+ */
+export async function getEmbedDimensions(
+	config: VisualizationItem,
+	searchParams: Record<string, string | string[] | undefined>,
+): Promise<EmbedDimensions> {
+	const pe = getPeriods(searchParams.pe, config.periodConfig);
+	const ou = await getOrgUnits(searchParams.ou, config.orgUnitConfig);
+	return {
+		pe: pe.length > 0 ? pe : undefined,
+		ou: ou.length > 0 ? ou : undefined,
+	};
+}
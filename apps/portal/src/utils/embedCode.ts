@@ -0,0 +1,80 @@
+/*
+ * Sent by embedded visualizations to the page embedding them, with the height of their content
+ * */
+export const EMBED_RESIZE_MESSAGE = "flexiportal-embed-resize";
+
+export interface EmbedCodeOptions {
+	/*
+	 * URL of the portal, including the context path
+	 * */
+	baseUrl: string;
+	moduleId: string;
+	itemId: string;
+	title: string;
+	/*
+	 * Selected periods and organisation units, as `pe` and `ou`
+	 * */
+	searchParams?: URLSearchParams;
+}
+
+function escapeAttribute(value: string) {
+	return value
+		.replace(/&/g, "&amp;")
+		.replace(/"/g, "&quot;")
+		.replace(/</g, "&lt;");
+}
+
+function getDimensionParams(searchParams?: URLSearchParams) {
+	const params = new URLSearchParams();
+	for (const name of ["pe", "ou"]) {
+		const value = searchParams?.get(name);
+		if (value) {
+			params.set(name, value);
+		}
+	}
+	return params;
+}
+
+export function getEmbedUrl({
+	baseUrl,
+	moduleId,
+	itemId,
+	searchParams,
+}: EmbedCodeOptions) {
+	const params = getDimensionParams(searchParams).toString();
+	return `${baseUrl}/embed/${moduleId}/${itemId}${params ? `?${params}` : ""}`;
+}
+
+export function getIframeEmbedCode(options: EmbedCodeOptions) {
+	return `<iframe src="${escapeAttribute(getEmbedUrl(options))}" title="${escapeAttribute(options.title)}" width="100%" height="400" style="border: 0" loading="lazy"></iframe>`;
+}
+
+/*
+ * The loader replaces the element with an iframe that grows with the visualization
+ * */
+export function getScriptEmbedCode(options: EmbedCodeOptions) {
+	const { baseUrl, moduleId, itemId, title, searchParams } = options;
+	const attributes = [
+		`data-portal-embed="${escapeAttribute(`${moduleId}/${itemId}`)}"`,
+		`data-title="${escapeAttribute(title)}"`,
+		...Array.from(getDimensionParams(searchParams)).map(
+			([name, value]) => `data-${name}="${escapeAttribute(value)}"`,
+		),
+	];
+	return `<div ${attributes.join(" ")}></div>\n<script src="${escapeAttribute(`${baseUrl}/embed.js`)}" async></script>`;
+}
+
+/*
+ * PNG of the chart rendered by the server, see the `images` route
+ * */
+export function getImageDownloadUrl({
+	baseUrl,
+	moduleId,
+	itemId,
+	searchParams,
+}: Omit<EmbedCodeOptions, "title">) {
+	const params = getDimensionParams(searchParams);
+	params.set("format", "png");
+	params.set("download", "true");
+	return `${baseUrl}/images/${moduleId}/${itemId}?${params.toString()}`;
+}
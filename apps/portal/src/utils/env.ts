@@ -8,6 +8,16 @@ const envSchema = z.object({
 	DHIS2_BASE_URL: z.string(),
 	DHIS2_BASE_PAT_TOKEN: z.string(),
 	CONTEXT_PATH: z.string().optional(),
+	FEEDBACK_CHALLENGE_SECRET: z.string().optional(),
+	TRUSTED_PROXIES: z.string().optional(),
+	PORTAL_EXPORT_DIR: z.string().optional(),
+	API_CACHE_MAX_ENTRIES: z.string().optional(),
+	API_CACHE_TTL: z.string().optional(),
+	API_CACHE_STALE_TTL: z.string().optional(),
+	API_CACHE_DIR: z.string().optional(),
+	PUBLIC_API_RATE_LIMIT: z.string().optional(),
+	PUBLIC_API_KEY_RATE_LIMIT: z.string().optional(),
+	PUBLIC_API_KEYS: z.string().optional(),
 });
 
 export const env = envSchema.safeParse(process.env).data ?? {
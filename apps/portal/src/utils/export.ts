@@ -0,0 +1,114 @@
+import { createHash } from "node:crypto";
+import { mkdirSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { env } from "@/utils/env";
+import {
+	getAppConfigsFromNamespace,
+	getAppConfigWithNamespace,
+} from "@/utils/config";
+import { getModuleUrls } from "@/utils/menu";
+import { DatastoreNamespaces } from "@packages/shared/constants";
+import {
+	AppMenuConfig,
+	AppModule,
+	ModuleType,
+	StaticItemConfig,
+} from "@packages/shared/schemas";
+
+/*
+ * The portal runs in export mode while `pnpm export` crawls it, see `scripts/export.mjs`.
+ * The data the browser requests through the portal is then saved next to the exported pages.
+ * */
+export const exportedAt = new Date().toISOString();
+
+const dataIndex: Record<string, string> = {};
+
+export function isExporting() {
+	return !!env.PORTAL_EXPORT_DIR;
+}
+
+function writeExportFile(filePath: string, content: string | Buffer) {
+	const fullPath = path.join(env.PORTAL_EXPORT_DIR!, filePath);
+	mkdirSync(path.dirname(fullPath), { recursive: true });
+	writeFileSync(fullPath, content);
+}
+
+/**
+ * Saves the response of a proxied DHIS2 API request. The exported site looks up the file using the request path in `_export/api/index.json`.
+ */
+export function saveExportData(resource: string, data: unknown) {
+	if (!isExporting()) {
+		return;
+	}
+	const fileName = `${createHash("sha1").update(resource).digest("hex")}.json`;
+	writeExportFile(`_export/api/${fileName}`, JSON.stringify(data));
+	dataIndex[resource] = fileName;
+	writeExportFile("_export/api/index.json", JSON.stringify(dataIndex));
+}
+
+/**
+ * Saves a file served by the portal, like a document or an icon, at the same path in the exported site.
+ */
+export async function saveExportFile(resource: string, response: Response) {
+	if (!isExporting() || !response.ok) {
+		return;
+	}
+	writeExportFile(
+		`api/${resource.split("?")[0]}`,
+		Buffer.from(await response.clone().arrayBuffer()),
+	);
+}
+
+function getModulePages(
+	appModule: AppModule,
+	moduleUrl: string,
+	staticItems: StaticItemConfig[],
+) {
+	switch (appModule.type) {
+		case ModuleType.VISUALIZATION:
+		case ModuleType.DOCUMENTS:
+			return appModule.config.grouped
+				? [
+						moduleUrl,
+						...appModule.config.groups.map(
+							({ id }) => `${moduleUrl}?group=${id}`,
+						),
+					]
+				: [moduleUrl];
+		case ModuleType.STATIC:
+			return [
+				moduleUrl,
+				...staticItems.map(({ id }) => `${moduleUrl}/details/${id}`),
+			];
+		default:
+			return [moduleUrl];
+	}
+}
+
+/**
+ * Lists the pages of every module in the menu, including the pages of each group and of each static item.
+ */
+export async function getExportPages(): Promise<string[]> {
+	const menu = await getAppConfigWithNamespace<AppMenuConfig>({
+		namespace: DatastoreNamespaces.MAIN_CONFIG,
+		key: "menu",
+	});
+	const modules = await getAppConfigsFromNamespace<AppModule>(
+		DatastoreNamespaces.MODULES,
+	);
+	const pages: string[] = [];
+	for (const [moduleId, moduleUrl] of getModuleUrls(menu)) {
+		const appModule = modules.find(({ id }) => id === moduleId);
+		if (!appModule) {
+			continue;
+		}
+		const staticItems =
+			appModule.type === ModuleType.STATIC
+				? await getAppConfigsFromNamespace<StaticItemConfig>(
+						appModule.config.namespace as DatastoreNamespaces,
+					)
+				: [];
+		pages.push(...getModulePages(appModule, moduleUrl, staticItems));
+	}
+	return pages;
+}
@@ -0,0 +1,137 @@
+"use server";
+
+import { randomUUID } from "node:crypto";
+import { dhis2HttpClient } from "@/utils/api/dhis2";
+import { getAppConfigsFromNamespace } from "@/utils/config";
+import { createChallenge, verifyChallenge } from "@/utils/challenge";
+import { getDisplayItems } from "@/utils/displayItems";
+import { createRateLimiter, getClientIp } from "@/utils/rateLimit";
+import { sendFeedbackEmail } from "@/utils/sendEmail";
+import {
+	DatastoreNamespaces,
+	DraftDatastoreNamespaces,
+	FEEDBACK_NAMESPACE,
+} from "@packages/shared/constants";
+import {
+	AppModule,
+	DisplayItemType,
+	FeedbackConfig,
+	FeedbackDeliveryStatus,
+	FeedbackItem,
+	feedbackSchema,
+	FeedbackSubmission,
+} from "@packages/shared/schemas";
+
+type FeedbackSubmissionResult =
+	| { success: true }
+	| { success: false; error: string };
+
+const isRateLimited = createRateLimiter({
+	limit: 5,
+	windowMs: 10 * 60 * 1000,
+});
+
+/*
+ * Recipients are read from the configuration so that they can not be changed by the browser.
+ * The draft modules are checked too, for feedback sent from the preview.
+ * */
+async function getFeedbackItem(itemId: string) {
+	for (const namespace of [
+		DatastoreNamespaces.MODULES,
+		DraftDatastoreNamespaces.MODULES,
+	]) {
+		const modules = await getAppConfigsFromNamespace<AppModule>(namespace);
+		const item = getDisplayItems<FeedbackItem>(
+			modules.map(({ config }) => config),
+			DisplayItemType.FEEDBACK,
+		).find(({ id }) => id === itemId);
+		if (item) {
+			return item;
+		}
+	}
+}
+
+export async function getFeedbackChallenge() {
+	return createChallenge();
+}
+
+export async function submitFeedback({
+	itemId,
+	data,
+	challenge,
+	nonce,
+	website,
+}: {
+	itemId: string;
+	data: FeedbackConfig;
+	challenge: string;
+	nonce: string;
+	website?: string;
+}): Promise<FeedbackSubmissionResult> {
+	if (website) {
+		//Only bots fill in the hidden honeypot field, they are not told that the feedback was dropped
+		return { success: true };
+	}
+	if (isRateLimited(await getClientIp())) {
+		return {
+			success: false,
+			error: "Too many feedback submissions. Try again later.",
+		};
+	}
+	if (!verifyChallenge(challenge, nonce)) {
+		return {
+			success: false,
+			error: "Could not verify the submission. Reload the page and try again.",
+		};
+	}
+	const parsed = feedbackSchema.safeParse(data);
+	if (!parsed.success) {
+		return {
+			success: false,
+			error: "Invalid feedback. Check the form and try again.",
+		};
+	}
+	const item = await getFeedbackItem(itemId);
+	if (!item) {
+		return {
+			success: false,
+			error: "This feedback form is no longer available.",
+		};
+	}
+
+	let delivery: FeedbackSubmission["delivery"];
+	try {
+		await sendFeedbackEmail({ data: parsed.data, item });
+		delivery = { status: FeedbackDeliveryStatus.SENT };
+	} catch (e) {
+		delivery = {
+			status: FeedbackDeliveryStatus.FAILED,
+			error: e instanceof Error ? e.message : `${e}`,
+		};
+	}
+
+	const submission: FeedbackSubmission = {
+		...parsed.data,
+		id: randomUUID(),
+		itemId,
+		submittedAt: new Date().toISOString(),
+		read: false,
+		tags: [],
+		delivery,
+	};
+	try {
+		await dhis2HttpClient.post(
+			`dataStore/${FEEDBACK_NAMESPACE}/${submission.id}`,
+			submission,
+		);
+	} catch (e) {
+		console.error(`Could not store feedback ${submission.id}`, e);
+		if (delivery.status === FeedbackDeliveryStatus.FAILED) {
+			return {
+				success: false,
+				error: "Error sending feedback. Try again later.",
+			};
+		}
+	}
+	return { success: true };
+}
@@ -0,0 +1,27 @@
+"use server";
+
+import { cookies } from "next/headers";
+import { getAppMeta } from "@/utils/appMetadata";
+
+const LOCALE_COOKIE = "portal-locale";
+const FALLBACK_LOCALE = "en";
+
+/*
+ * The locale selected by the visitor, as long as it is one of the locales enabled in the manager
+ * */
+export async function getLocale(): Promise<string> {
+	const localization = (await getAppMeta())?.localization;
+	const selectedLocale = (await cookies()).get(LOCALE_COOKIE)?.value;
+	if (selectedLocale && localization?.locales.includes(selectedLocale)) {
+		return selectedLocale;
+	}
+	return localization?.defaultLocale ?? FALLBACK_LOCALE;
+}
+
+export async function setLocale(locale: string) {
+	(await cookies()).set(LOCALE_COOKIE, locale, {
+		path: "/",
+		maxAge: 60 * 60 * 24 * 365,
+		sameSite: "lax",
+	});
+}
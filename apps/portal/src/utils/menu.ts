@@ -0,0 +1,15 @@
+import { AppMenuConfig } from "@packages/shared/schemas";
+
+/*
+ * Links to the menu path of the module when it is in the menu, e.g. `/modules/group/module`
+ * */
+export function getModuleUrls(menu?: AppMenuConfig) {
+	const urls = new Map<string, string>();
+	for (const item of menu?.items ?? []) {
+		const moduleItems = item.type === "group" ? item.items : [item];
+		for (const { moduleId, path } of moduleItems) {
+			urls.set(moduleId, `/modules/${path}`);
+		}
+	}
+	return urls;
+}
@@ -1,10 +1,24 @@
 import { getAppConfigWithNamespace } from "@/utils/config";
-import { DatastoreNamespaces } from "@packages/shared/constants";
+import {
+	DatastoreNamespaces,
+	DraftDatastoreNamespaces,
+} from "@packages/shared/constants";
 import { AppModule } from "@packages/shared/schemas";
+import { translate } from "@packages/shared/utils";
+import { getLocale } from "@/utils/locale";
 
-export async function getAppModule(key: string) {
-	return await getAppConfigWithNamespace<AppModule>({
-		namespace: DatastoreNamespaces.MODULES,
+/*
+ * The preview renders the draft modules edited in the manager
+ * */
+export async function getAppModule(
+	key: string,
+	{ preview }: { preview?: boolean } = {},
+) {
+	const appModule = await getAppConfigWithNamespace<AppModule>({
+		namespace: preview
+			? DraftDatastoreNamespaces.MODULES
+			: DatastoreNamespaces.MODULES,
 		key,
 	});
+	return translate(appModule, await getLocale());
 }
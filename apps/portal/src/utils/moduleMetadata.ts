@@ -1,15 +1,84 @@
 import { getAppConfigWithNamespace } from "@/utils/config";
-import { DatastoreNamespaces } from "@packages/shared/constants";
-import { StaticItemConfig, StaticModule } from "@packages/shared/schemas";
+import {
+	DatastoreNamespaces,
+	getStaticItemsDraftNamespace,
+} from "@packages/shared/constants";
+import {
+	MetadataConfig,
+	StaticItemConfig,
+	StaticModule,
+} from "@packages/shared/schemas";
 import { Metadata } from "next";
 import { ModuleMetaProps } from "@/types/appMetadata";
-import { last } from "lodash";
+import { compact, last } from "lodash";
 import { getAppModule } from "@/utils/module";
+import { translate } from "@packages/shared/utils";
+import { getLocale } from "@/utils/locale";
+import {
+	getOpenGraphChartId,
+	OPEN_GRAPH_IMAGE_SIZE,
+} from "@/utils/openGraph";
+
+/*
+ * Shared links of module pages show an image with the module, group, periods and organisation units of the link
+ * */
+async function getModuleOpenGraph(
+	moduleId: string,
+	searchParams?: Awaited<ModuleMetaProps["searchParams"]>,
+): Promise<Pick<Metadata, "openGraph" | "twitter">> {
+	const appMeta = await getAppConfigWithNamespace<MetadataConfig>({
+		namespace: DatastoreNamespaces.MAIN_CONFIG,
+		key: "metadata",
+	});
+	if (!appMeta?.applicationURL) {
+		return {};
+	}
+	const params = new URLSearchParams();
+	for (const name of ["group", "pe", "ou"]) {
+		const value = searchParams?.[name];
+		if (typeof value === "string" && value) {
+			params.set(name, value);
+		}
+	}
+	const applicationURL = appMeta.applicationURL.replace(/\/$/, "");
+	const cardUrl = `${applicationURL}/og/${moduleId}?${params.toString()}`;
+	//The first chart of the page is preferred to the card with the page title
+	const chartId = await getOpenGraphChartId(
+		moduleId,
+		params.get("group") ?? undefined,
+	);
+	const chartParams = new URLSearchParams(params);
+	chartParams.delete("group");
+	chartParams.set("width", `${OPEN_GRAPH_IMAGE_SIZE.width}`);
+	chartParams.set("height", `${OPEN_GRAPH_IMAGE_SIZE.height}`);
+	const imageUrls = compact([
+		chartId
+			? `${applicationURL}/images/${moduleId}/${chartId}?${chartParams.toString()}`
+			: undefined,
+		cardUrl,
+	]);
+	return {
+		openGraph: {
+			siteName: appMeta.name,
+			locale: await getLocale(),
+			images: imageUrls.map((url) => ({
+				url,
+				...OPEN_GRAPH_IMAGE_SIZE,
+			})),
+		},
+		twitter: {
+			card: "summary_large_image",
+			images: imageUrls,
+		},
+	};
+}
 
 export async function getModuleMetadata({
 	props,
+	preview,
 }: {
 	props: ModuleMetaProps;
+	preview?: boolean;
 }): Promise<Metadata> {
 	try {
 		const { module } = await props.params;
@@ -19,13 +88,20 @@ export async function getModuleMetadata({
 			//Details page
 			const resourceId = last(module)!;
 			const moduleId = module.slice(-3, -2)[0];
-			const moduleConfig = (await getAppModule(moduleId)) as StaticModule;
-			const namespace = moduleConfig.config.namespace;
+			const moduleConfig = (await getAppModule(moduleId, {
+				preview,
+			})) as StaticModule;
+			const namespace = preview
+				? getStaticItemsDraftNamespace(moduleConfig.config.namespace)
+				: moduleConfig.config.namespace;
 
-			const item = await getAppConfigWithNamespace<StaticItemConfig>({
-				namespace: namespace as DatastoreNamespaces,
-				key: resourceId,
-			});
+			const item = translate(
+				await getAppConfigWithNamespace<StaticItemConfig>({
+					namespace: namespace as DatastoreNamespaces,
+					key: resourceId,
+				}),
+				await getLocale(),
+			);
 
 			if (!item) {
 				return {
@@ -41,7 +117,7 @@ export async function getModuleMetadata({
 		}
 
 		const moduleId = last(module)!;
-		const config = await getAppModule(moduleId);
+		const config = await getAppModule(moduleId, { preview });
 
 		if (!config) {
 			return {
@@ -53,6 +129,9 @@ export async function getModuleMetadata({
 		const groupId: string | undefined = searchParamsValue?.group as
 			| string
 			| undefined;
+		const openGraph = preview
+			? {}
+			: await getModuleOpenGraph(moduleId, searchParamsValue);
 
 		if (groupId) {
 			if ("groups" in config.config) {
@@ -63,6 +142,7 @@ export async function getModuleMetadata({
 					return {
 						title: ` ${groupConfig.title} | ${config.label}`,
 						description: groupConfig.shortDescription,
+						...openGraph,
 					};
 				}
 			}
@@ -74,6 +154,7 @@ export async function getModuleMetadata({
 				"shortDescription" in config.config
 					? `${config.config?.shortDescription}`
 					: undefined,
+			...openGraph,
 		};
 	} catch (e) {
 		return {
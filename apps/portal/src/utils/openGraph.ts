@@ -0,0 +1,135 @@
+import { PeriodUtility } from "@hisptz/dhis2-utils";
+import { compact } from "lodash";
+import { dhis2HttpClient } from "@/utils/api/dhis2";
+import { getAppMeta } from "@/utils/appMetadata";
+import { getAppModule } from "@/utils/module";
+import { getDisplayItems } from "@/utils/displayItems";
+import { isChartImageSupported } from "@/utils/server/chartImage";
+import {
+	DisplayItemType,
+	VisualizationConfig,
+	VisualizationDisplayItemType,
+	VisualizationItem,
+} from "@packages/shared/schemas";
+
+export const OPEN_GRAPH_IMAGE_SIZE = {
+	width: 1200,
+	height: 630,
+};
+
+/*
+ * Only the first few periods and organisation units are named on the image
+ * */
+const MAX_NAMED_ITEMS = 3;
+
+function getSelection(value: string | null) {
+	return compact(value?.split(","));
+}
+
+function getPeriodNames(periods: string[]) {
+	return periods.slice(0, MAX_NAMED_ITEMS).map((id) => {
+		try {
+			return PeriodUtility.getPeriodById(id).name;
+		} catch (e) {
+			return id;
+		}
+	});
+}
+
+async function getOrgUnitNames(orgUnits: string[]) {
+	const ids = orgUnits
+		.slice(0, MAX_NAMED_ITEMS)
+		.filter((id) => /^\w+$/.test(id));
+	if (ids.length === 0) {
+		return [];
+	}
+	try {
+		const { organisationUnits } = await dhis2HttpClient.get<{
+			organisationUnits: { id: string; name: string }[];
+		}>("organisationUnits", {
+			params: {
+				filter: `id:in:[${ids.join(",")}]`,
+				fields: "id,displayName~rename(name)",
+				paging: "false",
+			},
+		});
+		return organisationUnits.map(({ name }) => name);
+	} catch (e) {
+		return [];
+	}
+}
+
+function describeSelection(names: string[], total: number) {
+	if (names.length === 0) {
+		return;
+	}
+	return total > names.length
+		? `${names.join(", ")} and ${total - names.length} more`
+		: names.join(", ");
+}
+
+/**
+ * Texts of the Open Graph image of a module page, with the group, periods and organisation units of the shared link
+ */
+export async function getOpenGraphDetails(
+	moduleId: string,
+	searchParams: URLSearchParams,
+) {
+	const appMeta = await getAppMeta();
+	const appModule = await getAppModule(moduleId);
+	if (!appModule) {
+		return;
+	}
+	const groupId = searchParams.get("group");
+	const group =
+		groupId && "groups" in appModule.config
+			? (
+					appModule.config.groups as
+						{ id: string; title: string }[] | undefined
+				)?.find(({ id }) => id === groupId)
+			: undefined;
+	const periods = getSelection(searchParams.get("pe"));
+	const orgUnits = getSelection(searchParams.get("ou"));
+
+	return {
+		appName: appMeta?.name,
+		title: group?.title ?? appModule.label,
+		subtitle: group ? appModule.label : undefined,
+		periods: describeSelection(getPeriodNames(periods), periods.length),
+		orgUnits: describeSelection(
+			await getOrgUnitNames(orgUnits),
+			orgUnits.length,
+		),
+	};
+}
+
+/**
+ * The first chart of the module page, or of its selected group, that can be shown as the image of a shared link
+ */
+export async function getOpenGraphChartId(moduleId: string, groupId?: string) {
+	const appModule = await getAppModule(moduleId);
+	if (!appModule) {
+		return;
+	}
+	const group =
+		groupId && "groups" in appModule.config
+			? (appModule.config.groups as { id: string }[] | undefined)?.find(
+					({ id }) => id === groupId,
+				)
+			: undefined;
+	const chart = getDisplayItems<VisualizationItem>(
+		group ?? appModule.config,
+		DisplayItemType.VISUALIZATION,
+	).find(({ type }) => type === VisualizationDisplayItemType.CHART);
+	if (!chart) {
+		return;
+	}
+	try {
+		const { type } = await dhis2HttpClient.get<
+			Pick<VisualizationConfig, "type">
+		>(`visualizations/${chart.id}`, { params: { fields: "type" } });
+		return isChartImageSupported(type) ? chart.id : undefined;
+	} catch (e) {
+		return;
+	}
+}
@@ -0,0 +1,352 @@
+import { headers } from "next/headers";
+import { NextResponse } from "next/server";
+import { compact, uniq } from "lodash";
+import { dhis2HttpClient } from "@/utils/api/dhis2";
+import { getAppConfigsFromNamespace } from "@/utils/config";
+import { getDisplayItems } from "@/utils/displayItems";
+import { createRateLimiter, getClientIp } from "@/utils/rateLimit";
+import { env } from "@/utils/env";
+import { DatastoreNamespaces } from "@packages/shared/constants";
+import {
+	AppModule,
+	DisplayItemType,
+	HighlightedSingleValueConfig,
+	VisualizationDisplayItemType,
+	VisualizationItem,
+} from "@packages/shared/schemas";
+
+export interface PublicIndicator {
+	id: string;
+	name: string;
+	shortName?: string;
+	description?: string;
+	type?: string;
+	modules: { id: string; label: string }[];
+}
+
+export interface PublicAnalyticsRow {
+	indicator: string;
+	indicatorName: string;
+	period: string;
+	periodName: string;
+	orgUnit: string;
+	orgUnitName: string;
+	value: number | string;
+}
+
+type DimensionalObject = {
+	dimension: string;
+	items?: { id: string }[];
+};
+
+type VisualizationDimensions = Partial<
+	Record<"columns" | "rows" | "filters", DimensionalObject[]>
+>;
+
+type AnalyticsResponse = {
+	headers: { name: string }[];
+	rows: string[][];
+	metaData: { items: Record<string, { name: string }> };
+};
+
+export class PublicApiError extends Error {
+	status: number;
+
+	constructor(message: string, status: number) {
+		super(message);
+		this.status = status;
+	}
+}
+
+/*
+ * The published modules are read again at most once per interval
+ * */
+const REFRESH_INTERVAL = 5 * 60 * 1000;
+
+const MAX_DIMENSION_ITEMS = {
+	indicators: 20,
+	periods: 60,
+	orgUnits: 50,
+};
+
+const RATE_LIMIT_WINDOW = 60 * 1000;
+
+const isAnonymousClientRateLimited = createRateLimiter({
+	limit: Number(env.PUBLIC_API_RATE_LIMIT || 60),
+	windowMs: RATE_LIMIT_WINDOW,
+});
+
+const isKeyClientRateLimited = createRateLimiter({
+	limit: Number(env.PUBLIC_API_KEY_RATE_LIMIT || 600),
+	windowMs: RATE_LIMIT_WINDOW,
+});
+
+const apiKeys = compact(
+	env.PUBLIC_API_KEYS?.split(",").map((key) => key.trim()),
+);
+
+/*
+ * Concurrent requests share a single fetch of the published indicators, like `ResponseCache.refresh`
+ * */
+let publishedIndicators:
+	{ indicators: Promise<PublicIndicator[]>; fetchedAt: number } | undefined;
+
+function getDataDimensionItems({
+	columns = [],
+	rows = [],
+	filters = [],
+}: VisualizationDimensions) {
+	return [...columns, ...rows, ...filters]
+		.filter(({ dimension }) => dimension === "dx")
+		.flatMap(({ items }) => items?.map(({ id }) => id) ?? []);
+}
+
+async function getVisualizationDataItems(
+	visualization: VisualizationItem,
+): Promise<string[]> {
+	const dimensionsFields =
+		"columns[dimension,items[id]],rows[dimension,items[id]],filters[dimension,items[id]]";
+	try {
+		switch (visualization.type) {
+			case VisualizationDisplayItemType.BANNER:
+				return visualization.data.map(({ id }) => id);
+			case VisualizationDisplayItemType.CHART: {
+				const dimensions =
+					await dhis2HttpClient.get<VisualizationDimensions>(
+						`visualizations/${visualization.id}`,
+						{ params: { fields: dimensionsFields } },
+					);
+				return getDataDimensionItems(dimensions);
+			}
+			case VisualizationDisplayItemType.MAP: {
+				const { mapViews } = await dhis2HttpClient.get<{
+					mapViews: VisualizationDimensions[];
+				}>(`maps/${visualization.id}`, {
+					params: { fields: `mapViews[${dimensionsFields}]` },
+				});
+				return mapViews.flatMap(getDataDimensionItems);
+			}
+		}
+	} catch (e) {
+		console.error(
+			`Could not get the data items of the visualization ${visualization.id}`,
+		);
+		return [];
+	}
+}
+
+async function getModuleDataItems(appModule: AppModule) {
+	const visualizations = getDisplayItems<VisualizationItem>(
+		appModule.config,
+		DisplayItemType.VISUALIZATION,
+	);
+	const singleValues = getDisplayItems<HighlightedSingleValueConfig>(
+		appModule.config,
+		DisplayItemType.HIGHLIGHTED_SINGLE_VALUE,
+	);
+	const dataItems = [
+		...singleValues.map(({ id }) => id),
+		...(
+			await Promise.all(visualizations.map(getVisualizationDataItems))
+		).flat(),
+	];
+	return uniq(dataItems);
+}
+
+async function fetchPublishedIndicators(): Promise<PublicIndicator[]> {
+	const modules = await getAppConfigsFromNamespace<AppModule>(
+		DatastoreNamespaces.MODULES,
+	);
+	const indicatorModules = new Map<string, PublicIndicator["modules"]>();
+	for (const appModule of modules) {
+		for (const id of await getModuleDataItems(appModule)) {
+			indicatorModules.set(id, [
+				...(indicatorModules.get(id) ?? []),
+				{ id: appModule.id, label: appModule.label },
+			]);
+		}
+	}
+	const ids = Array.from(indicatorModules.keys());
+	if (ids.length === 0) {
+		return [];
+	}
+	const { dataItems } = await dhis2HttpClient.get<{
+		dataItems: Omit<PublicIndicator, "modules">[];
+	}>("dataItems", {
+		params: {
+			filter: `id:in:[${ids.join(",")}]`,
+			fields: "id,displayName~rename(name),displayShortName~rename(shortName),displayDescription~rename(description),dimensionItemType~rename(type)",
+			paging: "false",
+		},
+	});
+	return ids.map((id) => ({
+		name: id,
+		...dataItems.find((dataItem) => dataItem.id === id),
+		id,
+		modules: indicatorModules.get(id)!,
+	}));
+}
+
+/**
+ * Lists the data items shown in the published modules, which are the only ones the public API gives access to
+ */
+export async function getPublishedIndicators() {
+	if (
+		!publishedIndicators ||
+		Date.now() - publishedIndicators.fetchedAt > REFRESH_INTERVAL
+	) {
+		const request = {
+			indicators: fetchPublishedIndicators(),
+			fetchedAt: Date.now(),
+		};
+		publishedIndicators = request;
+		request.indicators.catch(() => {
+			// Failed fetches are not kept, the next request fetches again
+			if (publishedIndicators === request) {
+				publishedIndicators = undefined;
+			}
+		});
+	}
+	return publishedIndicators.indicators;
+}
+
+function getListParam(
+	searchParams: URLSearchParams,
+	name: keyof typeof MAX_DIMENSION_ITEMS,
+	defaultValue?: string,
+) {
+	const values = compact(
+		(searchParams.get(name) ?? defaultValue ?? "")
+			.split(/[,;]/)
+			.map((value) => value.trim()),
+	);
+	if (values.length === 0) {
+		throw new PublicApiError(`The ${name} parameter is required`, 400);
+	}
+	if (values.length > MAX_DIMENSION_ITEMS[name]) {
+		throw new PublicApiError(
+			`At most ${MAX_DIMENSION_ITEMS[name]} ${name} can be requested at once`,
+			400,
+		);
+	}
+	const invalidValue = values.find((value) => !/^[\w.-]+$/.test(value));
+	if (invalidValue) {
+		throw new PublicApiError(
+			`${invalidValue} is not a valid value for ${name}`,
+			400,
+		);
+	}
+	return values;
+}
+
+/**
+ * Gets the analytics values of published indicators, e.g. `?indicators=a,b&periods=LAST_12_MONTHS&orgUnits=USER_ORGUNIT`
+ */
+export async function getPublicAnalytics(
+	searchParams: URLSearchParams,
+): Promise<PublicAnalyticsRow[]> {
+	const indicators = getListParam(searchParams, "indicators");
+	const periods = getListParam(searchParams, "periods", "LAST_12_MONTHS");
+	const orgUnits = getListParam(searchParams, "orgUnits", "USER_ORGUNIT");
+
+	const publishedIds = (await getPublishedIndicators()).map(({ id }) => id);
+	const unpublishedIndicator = indicators.find(
+		(id) => !publishedIds.includes(id),
+	);
+	if (unpublishedIndicator) {
+		throw new PublicApiError(
+			`The indicator ${unpublishedIndicator} is not published on this portal`,
+			404,
+		);
+	}
+
+	const analytics = await dhis2HttpClient.get<AnalyticsResponse>(
+		`analytics?dimension=dx:${indicators.join(";")}&dimension=pe:${periods.join(";")}&dimension=ou:${orgUnits.join(";")}&displayProperty=NAME`,
+	);
+	const columns = Object.fromEntries(
+		analytics.headers.map(({ name }, index) => [name, index]),
+	);
+	const getName = (id: string) => analytics.metaData.items[id]?.name ?? id;
+	return analytics.rows.map((row) => {
+		const value = row[columns.value];
+		return {
+			indicator: row[columns.dx],
+			indicatorName: getName(row[columns.dx]),
+			period: row[columns.pe],
+			periodName: getName(row[columns.pe]),
+			orgUnit: row[columns.ou],
+			orgUnitName: getName(row[columns.ou]),
+			value: isNaN(Number(value)) ? value : Number(value),
+		};
+	});
+}
+
+function escapeCsvValue(value: unknown) {
+	const text = `${value ?? ""}`;
+	return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv<T extends object>(rows: T[], columns: (keyof T)[]) {
+	return [
+		columns.join(","),
+		...rows.map((row) =>
+			columns.map((column) => escapeCsvValue(row[column])).join(","),
+		),
+	].join("\n");
+}
+
+async function getClientRateLimit() {
+	const requestHeaders = await headers();
+	const apiKey = requestHeaders.get("x-api-key");
+	if (apiKey) {
+		if (!apiKeys.includes(apiKey)) {
+			throw new PublicApiError("Invalid API key", 401);
+		}
+		return isKeyClientRateLimited(`key:${apiKey}`);
+	}
+	return isAnonymousClientRateLimited(`ip:${await getClientIp()}`);
+}
+
+const corsHeaders = {
+	"Access-Control-Allow-Origin": "*",
+	"Access-Control-Allow-Headers": "X-API-Key",
+};
+
+/**
+ * Rate limits the public API clients, by API key or by IP address, and returns errors as `{ message }`
+ */
+export async function handlePublicApiRequest(
+	handler: () => Promise<Response>,
+): Promise<Response> {
+	try {
+		if (await getClientRateLimit()) {
+			return NextResponse.json(
+				{ message: "Too many requests. Try again later." },
+				{
+					status: 429,
+					headers: {
+						...corsHeaders,
+						"Retry-After": `${RATE_LIMIT_WINDOW / 1000}`,
+					},
+				},
+			);
+		}
+		const response = await handler();
+		for (const [name, value] of Object.entries(corsHeaders)) {
+			response.headers.set(name, value);
+		}
+		return response;
+	} catch (e) {
+		if (e instanceof PublicApiError) {
+			return NextResponse.json(
+				{ message: e.message },
+				{ status: e.status, headers: corsHeaders },
+			);
+		}
+		console.error("Public API request failed", e);
+		return NextResponse.json(
+			{ message: "Could not get the data from DHIS2" },
+			{ status: 502, headers: corsHeaders },
+		);
+	}
+}
@@ -0,0 +1,241 @@
+import { getAppMeta } from "@/utils/appMetadata";
+import { env } from "@/utils/env";
+import { version } from "../../package.json";
+
+const errorResponse = {
+	content: {
+		"application/json": {
+			schema: { $ref: "#/components/schemas/Error" },
+		},
+	},
+};
+
+const formatParameter = {
+	name: "format",
+	in: "query",
+	description: "Downloads the response as a CSV file when set to `csv`",
+	schema: { type: "string", enum: ["json", "csv"], default: "json" },
+};
+
+const commonResponses = {
+	"429": {
+		description:
+			"Too many requests from the client. Wait for the number of seconds in the `Retry-After` header.",
+		...errorResponse,
+	},
+	"502": {
+		description: "The data could not be retrieved from DHIS2",
+		...errorResponse,
+	},
+};
+
+/**
+ * OpenAPI document of the public API, served at `/api/public/v1/openapi.json`
+ */
+export async function getPublicApiDocument() {
+	const appMeta = await getAppMeta();
+
+	return {
+		openapi: "3.0.0",
+		info: {
+			title: `${appMeta?.name ?? "Portal"} public API`,
+			version,
+			description:
+				"Read-only access to the indicators shown in the published modules of the portal and to their values. Clients are rate limited by IP address, or by API key when an `X-API-Key` header is sent.",
+		},
+		servers: [{ url: `${env.CONTEXT_PATH ?? ""}/api/public/v1` }],
+		components: {
+			securitySchemes: {
+				apiKey: {
+					type: "apiKey",
+					in: "header",
+					name: "X-API-Key",
+					description:
+						"Optional. Clients with an API key get a higher rate limit.",
+				},
+			},
+			schemas: {
+				Error: {
+					type: "object",
+					properties: {
+						message: { type: "string" },
+					},
+				},
+				Indicator: {
+					type: "object",
+					properties: {
+						id: { type: "string", example: "Uvn6LCg7dVU" },
+						name: { type: "string", example: "ANC 1 Coverage" },
+						shortName: { type: "string" },
+						description: { type: "string" },
+						type: {
+							type: "string",
+							description: "DHIS2 dimension item type",
+							example: "INDICATOR",
+						},
+						modules: {
+							type: "array",
+							description:
+								"Published modules the indicator is shown in",
+							items: {
+								type: "object",
+								properties: {
+									id: { type: "string" },
+									label: { type: "string" },
+								},
+							},
+						},
+					},
+				},
+				AnalyticsRow: {
+					type: "object",
+					properties: {
+						indicator: { type: "string" },
+						indicatorName: { type: "string" },
+						period: { type: "string", example: "202401" },
+						periodName: { type: "string", example: "January 2024" },
+						orgUnit: { type: "string" },
+						orgUnitName: { type: "string" },
+						value: {
+							oneOf: [{ type: "number" }, { type: "string" }],
+						},
+					},
+				},
+			},
+		},
+		security: [{}, { apiKey: [] }],
+		paths: {
+			"/indicators": {
+				get: {
+					summary: "List the published indicators",
+					parameters: [formatParameter],
+					responses: {
+						"200": {
+							description: "The published indicators",
+							content: {
+								"application/json": {
+									schema: {
+										type: "object",
+										properties: {
+											indicators: {
+												type: "array",
+												items: {
+													$ref: "#/components/schemas/Indicator",
+												},
+											},
+										},
+									},
+								},
+								"text/csv": {
+									schema: { type: "string" },
+								},
+							},
+						},
+						...commonResponses,
+					},
+				},
+			},
+			"/indicators/{id}": {
+				get: {
+					summary: "Get the metadata of a published indicator",
+					parameters: [
+						{
+							name: "id",
+							in: "path",
+							required: true,
+							schema: { type: "string" },
+						},
+					],
+					responses: {
+						"200": {
+							description: "The indicator",
+							content: {
+								"application/json": {
+									schema: {
+										$ref: "#/components/schemas/Indicator",
+									},
+								},
+							},
+						},
+						"404": {
+							description: "The indicator is not published",
+							...errorResponse,
+						},
+						...commonResponses,
+					},
+				},
+			},
+			"/analytics": {
+				get: {
+					summary: "Get the values of published indicators",
+					parameters: [
+						{
+							name: "indicators",
+							in: "query",
+							required: true,
+							description:
+								"Comma separated ids of published indicators, at most 20",
+							schema: { type: "string" },
+						},
+						{
+							name: "periods",
+							in: "query",
+							description:
+								"Comma separated DHIS2 periods, fixed like `202401` or relative like `LAST_12_MONTHS`, at most 60",
+							schema: {
+								type: "string",
+								default: "LAST_12_MONTHS",
+							},
+						},
+						{
+							name: "orgUnits",
+							in: "query",
+							description:
+								"Comma separated organisation unit ids, or DHIS2 selections like `LEVEL-2`, at most 50",
+							schema: { type: "string", default: "USER_ORGUNIT" },
+						},
+						formatParameter,
+					],
+					responses: {
+						"200": {
+							description:
+								"A value per indicator, period and organisation unit",
+							content: {
+								"application/json": {
+									schema: {
+										type: "object",
+										properties: {
+											rows: {
+												type: "array",
+												items: {
+													$ref: "#/components/schemas/AnalyticsRow",
+												},
+											},
+										},
+									},
+								},
+								"text/csv": {
+									schema: { type: "string" },
+								},
+							},
+						},
+						"400": {
+							description: "Invalid parameters",
+							...errorResponse,
+						},
+						"401": {
+							description: "Invalid API key",
+							...errorResponse,
+						},
+						"404": {
+							description:
+								"One of the indicators is not published",
+							...errorResponse,
+						},
+						...commonResponses,
+					},
+				},
+			},
+		},
+	};
+}
@@ -0,0 +1,52 @@
+import { headers } from "next/headers";
+import { env } from "@/utils/env";
+
+/**
+ * In-memory sliding window rate limiter. Each portal instance keeps its own counts.
+ */
+export function createRateLimiter({
+	limit,
+	windowMs,
+}: {
+	limit: number;
+	windowMs: number;
+}) {
+	const hits = new Map<string, number[]>();
+
+	return function isRateLimited(key: string) {
+		const now = Date.now();
+		for (const [hitKey, timestamps] of hits) {
+			if (timestamps.every((timestamp) => now - timestamp >= windowMs)) {
+				hits.delete(hitKey);
+			}
+		}
+		const recentHits = (hits.get(key) ?? []).filter(
+			(timestamp) => now - timestamp < windowMs,
+		);
+		if (recentHits.length >= limit) {
+			hits.set(key, recentHits);
+			return true;
+		}
+		hits.set(key, [...recentHits, now]);
+		return false;
+	};
+}
+
+const trustedProxies = Math.max(Number(env.TRUSTED_PROXIES ?? 1) || 1, 1);
+
+/**
+ * Address of the client as seen by the outermost trusted reverse proxy. Each proxy appends the address it received the
+ * request from to `X-Forwarded-For`, so the entries before the ones of the trusted proxies can be set by the client itself.
+ */
+export async function getClientIp() {
+	const requestHeaders = await headers();
+	const forwardedFor = (requestHeaders.get("x-forwarded-for") ?? "")
+		.split(",")
+		.map((address) => address.trim())
+		.filter(Boolean);
+	return (
+		forwardedFor.at(-trustedProxies) ??
+		requestHeaders.get("x-real-ip") ??
+		"unknown"
+	);
+}
@@ -0,0 +1,379 @@
+import { createHash } from "node:crypto";
+import { dhis2HttpClient } from "@/utils/api/dhis2";
+import {
+	getAppConfigsFromNamespace,
+	getAppConfigWithNamespace,
+} from "@/utils/config";
+import { getLocale } from "@/utils/locale";
+import { DatastoreNamespaces } from "@packages/shared/constants";
+import {
+	AppMenuConfig,
+	AppModule,
+	DisplayItemType,
+	ModuleType,
+	StaticItemConfig,
+	VisualizationDisplayItemType,
+} from "@packages/shared/schemas";
+import { translate } from "@packages/shared/utils";
+import { compact, orderBy, uniq } from "lodash";
+import { getDisplayItems } from "@/utils/displayItems";
+import { getModuleUrls } from "@/utils/menu";
+
+export enum SearchResultType {
+	MODULE = "MODULE",
+	GROUP = "GROUP",
+	STATIC_ITEM = "STATIC_ITEM",
+	DOCUMENT = "DOCUMENT",
+}
+
+export interface SearchResult {
+	id: string;
+	type: SearchResultType;
+	title: string;
+	description?: string;
+	module: string;
+	url: string;
+	score: number;
+}
+
+type SearchDocument = Omit<SearchResult, "score"> & {
+	text?: string;
+	tokens: Record<SearchField, string[]>;
+};
+
+type SearchField = "title" | "description" | "text";
+
+type RawSearchData = {
+	menu?: AppMenuConfig;
+	modules: AppModule[];
+	staticItems: Record<string, StaticItemConfig[]>;
+};
+
+type SearchIndex = {
+	fingerprint: string;
+	documents: SearchDocument[];
+};
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+	title: 5,
+	description: 2,
+	text: 1,
+};
+
+const MAX_RESULTS = 50;
+
+/*
+ * The configuration is read again at most once per interval, the index is only rebuilt when it has changed
+ * */
+const REFRESH_INTERVAL = 60 * 1000;
+
+const indexes = new Map<string, SearchIndex>();
+const visualizationNames = new Map<string, string>();
+let rawData:
+	{ data: RawSearchData; fingerprint: string; fetchedAt: number } | undefined;
+
+function normalize(text: string) {
+	return text
+		.normalize("NFD")
+		.replace(/[\u0300-\u036f]/g, "")
+		.toLowerCase();
+}
+
+function stripHtml(text: string) {
+	return text
+		.replace(/<[^>]*>/g, " ")
+		.replace(/&nbsp;/g, " ")
+		.replace(/\s+/g, " ")
+		.trim();
+}
+
+function tokenize(text?: string) {
+	return text
+		? normalize(text)
+				.split(/[^\p{L}\p{N}]+/u)
+				.filter(Boolean)
+		: [];
+}
+
+async function getRawData(): Promise<RawSearchData> {
+	const menu = await getAppConfigWithNamespace<AppMenuConfig>({
+		namespace: DatastoreNamespaces.MAIN_CONFIG,
+		key: "menu",
+	});
+	const modules = await getAppConfigsFromNamespace<AppModule>(
+		DatastoreNamespaces.MODULES,
+	);
+	const staticItems: RawSearchData["staticItems"] = {};
+	for (const appModule of modules) {
+		if (appModule.type === ModuleType.STATIC) {
+			staticItems[appModule.id] =
+				await getAppConfigsFromNamespace<StaticItemConfig>(
+					appModule.config.namespace as DatastoreNamespaces,
+				);
+		}
+	}
+	return { menu, modules, staticItems };
+}
+
+async function getSearchData() {
+	if (!rawData || Date.now() - rawData.fetchedAt > REFRESH_INTERVAL) {
+		const data = await getRawData();
+		rawData = {
+			data,
+			fingerprint: createHash("sha1")
+				.update(JSON.stringify(data))
+				.digest("hex"),
+			fetchedAt: Date.now(),
+		};
+	}
+	return rawData;
+}
+
+async function getVisualizationNames(modules: AppModule[]) {
+	const items = getDisplayItems<{ id: string; type: string }>(
+		modules.map(({ config }) => config),
+		DisplayItemType.VISUALIZATION,
+	);
+	const resources = {
+		visualizations: uniq(
+			items
+				.filter(
+					({ type }) => type === VisualizationDisplayItemType.CHART,
+				)
+				.map(({ id }) => id),
+		),
+		maps: uniq(
+			items
+				.filter(({ type }) => type === VisualizationDisplayItemType.MAP)
+				.map(({ id }) => id),
+		),
+	};
+	for (const [resource, ids] of Object.entries(resources)) {
+		const missingIds = ids.filter((id) => !visualizationNames.has(id));
+		if (missingIds.length === 0) {
+			continue;
+		}
+		try {
+			const response = await dhis2HttpClient.get<
+				Record<string, { id: string; displayName: string }[]>
+			>(resource, {
+				params: {
+					fields: "id,displayName",
+					filter: `id:in:[${missingIds.join(",")}]`,
+					paging: "false",
+				},
+			});
+			for (const { id, displayName } of response[resource] ?? []) {
+				visualizationNames.set(id, displayName);
+			}
+		} catch (e) {
+			console.error(
+				`Could not get the names of the ${resource} to search`,
+			);
+		}
+	}
+	return visualizationNames;
+}
+
+function getVisualizationsText(config: unknown, names: Map<string, string>) {
+	return compact(
+		getDisplayItems<{ id: string; caption?: string }>(
+			config,
+			DisplayItemType.VISUALIZATION,
+		).flatMap(({ id, caption }) => [names.get(id), caption]),
+	).join(" ");
+}
+
+function getRichText(config: unknown) {
+	return getDisplayItems<{ content: string }>(
+		config,
+		DisplayItemType.RICH_TEXT,
+	)
+		.map(({ content }) => stripHtml(content))
+		.join(" ");
+}
+
+function createDocument(
+	document: Omit<SearchDocument, "tokens">,
+): SearchDocument {
+	return {
+		...document,
+		tokens: {
+			title: tokenize(document.title),
+			description: tokenize(document.description),
+			text: tokenize(document.text),
+		},
+	};
+}
+
+function getModuleDocuments(
+	appModule: AppModule,
+	moduleUrl: string,
+	staticItems: StaticItemConfig[],
+	names: Map<string, string>,
+): SearchDocument[] {
+	const config = appModule.config as Record<string, unknown>;
+	const documents: SearchDocument[] = [
+		createDocument({
+			id: appModule.id,
+			type: SearchResultType.MODULE,
+			title: appModule.label,
+			description: compact([
+				config.title as string,
+				config.shortDescription as string,
+				config.description as string,
+			]).join(" - "),
+			text: `${getRichText(config)} ${getVisualizationsText(config, names)}`,
+			module: appModule.label,
+			url: moduleUrl,
+		}),
+	];
+
+	switch (appModule.type) {
+		case ModuleType.VISUALIZATION:
+			if (appModule.config.grouped) {
+				for (const group of appModule.config.groups) {
+					documents.push(
+						createDocument({
+							id: `${appModule.id}-${group.id}`,
+							type: SearchResultType.GROUP,
+							title: group.title,
+							description: compact([
+								group.shortDescription,
+								group.description,
+							]).join(" - "),
+							text: `${getRichText(group)} ${getVisualizationsText(group, names)}`,
+							module: appModule.label,
+							url: `${moduleUrl}?group=${group.id}`,
+						}),
+					);
+				}
+			}
+			break;
+		case ModuleType.DOCUMENTS: {
+			const groups = appModule.config.grouped
+				? appModule.config.groups
+				: [{ id: undefined, items: appModule.config.items }];
+			for (const group of groups) {
+				for (const item of group.items) {
+					documents.push(
+						createDocument({
+							id: `${appModule.id}-${item.id}`,
+							type: SearchResultType.DOCUMENT,
+							title: item.label,
+							description:
+								"title" in group ? group.title : undefined,
+							module: appModule.label,
+							url: group.id
+								? `${moduleUrl}?group=${group.id}`
+								: moduleUrl,
+						}),
+					);
+				}
+			}
+			break;
+		}
+		case ModuleType.STATIC:
+			for (const item of staticItems) {
+				documents.push(
+					createDocument({
+						id: `${appModule.id}-${item.id}`,
+						type: SearchResultType.STATIC_ITEM,
+						title: item.title,
+						description: item.shortDescription,
+						text: stripHtml(item.content ?? ""),
+						module: appModule.label,
+						url: `${moduleUrl}/details/${item.id}`,
+					}),
+				);
+			}
+			break;
+	}
+	return documents;
+}
+
+async function buildIndex(
+	data: RawSearchData,
+	locale: string,
+): Promise<SearchDocument[]> {
+	const { menu, modules, staticItems } = translate(data, locale);
+	const urls = getModuleUrls(menu);
+	const names = await getVisualizationNames(modules);
+	return modules.flatMap((appModule) =>
+		getModuleDocuments(
+			appModule,
+			urls.get(appModule.id) ?? `/modules/${appModule.id}`,
+			staticItems[appModule.id] ?? [],
+			names,
+		),
+	);
+}
+
+async function getIndex(locale: string) {
+	const { data, fingerprint } = await getSearchData();
+	const index = indexes.get(locale);
+	if (index?.fingerprint === fingerprint) {
+		return index.documents;
+	}
+	const documents = await buildIndex(data, locale);
+	indexes.set(locale, { fingerprint, documents });
+	return documents;
+}
+
+/*
+ * Full words score more than words that only start with the search term
+ * */
+function getTermScore(document: SearchDocument, term: string) {
+	let score = 0;
+	for (const [field, weight] of Object.entries(FIELD_WEIGHTS)) {
+		const tokens = document.tokens[field as SearchField];
+		if (tokens.includes(term)) {
+			score += weight;
+		} else if (tokens.some((token) => token.startsWith(term))) {
+			score += weight / 2;
+		}
+	}
+	return score;
+}
+
+function getScore(document: SearchDocument, terms: string[], query: string) {
+	let score = 0;
+	for (const term of terms) {
+		const termScore = getTermScore(document, term);
+		if (termScore === 0) {
+			//Every term has to match
+			return 0;
+		}
+		score += termScore;
+	}
+	if (normalize(document.title).includes(query)) {
+		score += FIELD_WEIGHTS.title;
+	}
+	return score;
+}
+
+/**
+ * Searches the titles, descriptions and content of the published modules, static items and documents,
+ * including the names of the DHIS2 visualizations in the modules.
+ */
+export async function searchPortal(query: string): Promise<SearchResult[]> {
+	const terms = uniq(tokenize(query));
+	if (terms.length === 0) {
+		return [];
+	}
+	const documents = await getIndex(await getLocale());
+	const normalizedQuery = normalize(query.trim());
+	const results = documents
+		.map((document) => {
+			const { tokens, text, ...result } = document;
+			return {
+				...result,
+				score: getScore(document, terms, normalizedQuery),
+			};
+		})
+		.filter(({ score }) => score > 0);
+	return orderBy(results, ["score", "title"], ["desc", "asc"]).slice(
+		0,
+		MAX_RESULTS,
+	);
+}
@@ -1,5 +1,3 @@
-"use server";
-
 import { dhis2HttpClient } from "@/utils/api/dhis2";
 import {  FeedbackConfig, FeedbackItem } from "@packages/shared/schemas";
 
@@ -21,11 +19,9 @@ export async function sendEmail({
 		message,
 	};
 	try {
-		return await dhis2HttpClient.postFeedback<SendEmailResponse>(
-			url,
-			{},
-			{ params: searchParams },
-		);
+		return await dhis2HttpClient.postFeedback<SendEmailResponse>(url, {
+			params: searchParams,
+		});
 	} catch (e) {
 		console.log(e);
 		throw "Could not send email";
@@ -0,0 +1,118 @@
+import { describe, expect, test } from "vitest";
+import {
+	AnalyticsData,
+	VisualizationChartType,
+	VisualizationConfig,
+} from "@packages/shared/schemas";
+import { getAxisTicks, getChartData, getChartImage, toSvg } from "./chartImage";
+
+const analytics: AnalyticsData = {
+	headers: [
+		{ name: "dx", column: "Data", valueType: "TEXT" },
+		{ name: "pe", column: "Period", valueType: "TEXT" },
+		{ name: "value", column: "Value", valueType: "NUMBER" },
+	],
+	rows: [
+		["anc1", "202401", "12.5"],
+		["anc1", "202402", "20"],
+		["anc4", "202401", "8"],
+	],
+	metaData: {
+		items: {
+			"anc1": { name: "ANC 1 Coverage" },
+			"anc4": { name: "ANC 4 & more" },
+			"202401": { name: "January 2024" },
+			"202402": { name: "February 2024" },
+			"ou1": { name: "Sierra Leone" },
+		},
+		dimensions: {
+			dx: ["anc1", "anc4"],
+			pe: ["202401", "202402"],
+			ou: ["ou1"],
+		},
+	},
+};
+
+function getVisualization(type: VisualizationChartType) {
+	return {
+		type,
+		name: "ANC",
+		displayName: "ANC coverage",
+		hideTitle: false,
+		hideSubtitle: false,
+		rows: [{ dimension: "pe", items: [] }],
+		columns: [{ dimension: "dx", items: [] }],
+		filters: [{ dimension: "ou", items: [] }],
+	} as unknown as VisualizationConfig;
+}
+
+const colors = ["#A8BF24", "#518CC3"];
+
+describe("Chart images", () => {
+	test("Values are grouped by the row and column dimensions", () => {
+		const data = getChartData(
+			getVisualization(VisualizationChartType.COLUMN),
+			analytics,
+		);
+		expect(data.categories.map(({ name }) => name)).to.deep.equal([
+			"January 2024",
+			"February 2024",
+		]);
+		expect(data.series).to.deep.equal([
+			{ id: "anc1", name: "ANC 1 Coverage", values: [12.5, 20] },
+			{ id: "anc4", name: "ANC 4 & more", values: [8, undefined] },
+		]);
+	});
+	test("Axis ticks are round numbers", () => {
+		expect(getAxisTicks(0, 20)).to.deep.equal([0, 5, 10, 15, 20]);
+		expect(getAxisTicks(0, 0.7)).to.deep.equal([0, 0.2, 0.4, 0.6, 0.8]);
+	});
+	test("Column charts have a bar per value and a legend", () => {
+		const image = getChartImage({
+			visualization: getVisualization(VisualizationChartType.COLUMN),
+			analytics,
+			colors,
+			width: 800,
+			height: 500,
+		});
+		const bars = image.elements.filter(
+			(element) =>
+				element.type === "rect" && colors.includes(element.fill),
+		);
+		//3 bars and 2 legend keys
+		expect(bars).to.have.length(5);
+		const texts = image.elements.flatMap((element) =>
+			element.type === "text" ? [element.text] : [],
+		);
+		expect(texts).to.include.members([
+			"ANC coverage",
+			"Sierra Leone",
+			"January 2024",
+			"ANC 4 & more",
+		]);
+	});
+	test("SVG texts are escaped", () => {
+		const svg = toSvg(
+			getChartImage({
+				visualization: getVisualization(VisualizationChartType.TABLE),
+				analytics,
+				colors,
+				width: 800,
+				height: 500,
+			}),
+		);
+		expect(svg).to.contain("ANC 4 &amp; more");
+		expect(svg).to.contain(">12.5<");
+	});
+	test("Unsupported visualizations throw", () => {
+		expect(() =>
+			getChartImage({
+				visualization: getVisualization(VisualizationChartType.SCATTER),
+				analytics,
+				colors,
+				width: 800,
+				height: 500,
+			}),
+		).to.throw();
+	});
+});
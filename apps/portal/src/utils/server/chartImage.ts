@@ -0,0 +1,865 @@
+import { compact, max, min, sum, uniq } from "lodash";
+import {
+	AnalyticsData,
+	VisualizationChartType,
+	VisualizationConfig,
+} from "@packages/shared/schemas";
+
+export type ChartImageElement =
+	| {
+			type: "rect";
+			x: number;
+			y: number;
+			width: number;
+			height: number;
+			fill: string;
+	  }
+	| {
+			type: "path";
+			d: string;
+			stroke?: string;
+			strokeWidth?: number;
+			fill?: string;
+			opacity?: number;
+	  }
+	| { type: "circle"; cx: number; cy: number; r: number; fill: string }
+	| {
+			type: "text";
+			x: number;
+			/*
+			 * Baseline of the text
+			 * */
+			y: number;
+			text: string;
+			size: number;
+			color: string;
+			anchor: "start" | "middle" | "end";
+			bold?: boolean;
+	  };
+
+/**
+ * A chart drawn as a list of shapes and texts, that is written as SVG or rendered to PNG
+ */
+export interface ChartImage {
+	width: number;
+	height: number;
+	background: string;
+	elements: ChartImageElement[];
+}
+
+export interface ChartImageOptions {
+	visualization: VisualizationConfig;
+	analytics: AnalyticsData;
+	colors: string[];
+	width: number;
+	height: number;
+}
+
+interface ChartData {
+	categories: { id: string; name: string }[];
+	series: { id: string; name: string; values: (number | undefined)[] }[];
+}
+
+interface Area {
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+}
+
+const PADDING = 24;
+const TEXT_COLOR = "#212934";
+const MUTED_TEXT_COLOR = "#4A5768";
+const GRID_COLOR = "#E8EDF2";
+const AXIS_FONT_SIZE = 12;
+const LEGEND_FONT_SIZE = 13;
+
+const CARTESIAN_TYPES = [
+	VisualizationChartType.COLUMN,
+	VisualizationChartType.STACKED_COLUMN,
+	VisualizationChartType.BAR,
+	VisualizationChartType.STACKED_BAR,
+	VisualizationChartType.LINE,
+	VisualizationChartType.AREA,
+	VisualizationChartType.STACKED_AREA,
+];
+
+export function isChartImageSupported(type: VisualizationChartType) {
+	return [
+		...CARTESIAN_TYPES,
+		VisualizationChartType.PIE,
+		VisualizationChartType.SINGLE_VALUE,
+		VisualizationChartType.GAUGE,
+		VisualizationChartType.TABLE,
+	].includes(type);
+}
+
+/*
+ * Texts are not measured, an average character width is close enough for labels
+ * */
+function getTextWidth(text: string, size: number) {
+	return text.length * size * 0.55;
+}
+
+function truncate(text: string, width: number, size: number) {
+	const maxLength = Math.floor(width / (size * 0.55));
+	if (text.length <= maxLength) {
+		return text;
+	}
+	return maxLength > 1 ? `${text.slice(0, maxLength - 1)}…` : "";
+}
+
+function formatValue(value: number) {
+	return Intl.NumberFormat("en-GB", {
+		notation: "standard",
+		maximumFractionDigits: 2,
+	}).format(value);
+}
+
+function formatAxisValue(value: number) {
+	return Intl.NumberFormat("en-GB", {
+		notation: "compact",
+		maximumFractionDigits: 1,
+	}).format(value);
+}
+
+function getName(analytics: AnalyticsData, id: string) {
+	return (analytics.metaData.items[id]?.name as string | undefined) ?? id;
+}
+
+function getDimensionItems(
+	analytics: AnalyticsData,
+	dimension: string | undefined,
+) {
+	if (!dimension) {
+		return [{ id: "", name: "" }];
+	}
+	const columnIndex = analytics.headers.findIndex(
+		({ name }) => name === dimension,
+	);
+	const ids =
+		analytics.metaData.dimensions[dimension] ??
+		uniq(analytics.rows.map((row) => row[columnIndex]));
+	return ids.map((id) => ({ id, name: getName(analytics, id) }));
+}
+
+/**
+ * Values of the analytics by category, the first row dimension, and series, the first column dimension
+ */
+export function getChartData(
+	visualization: VisualizationConfig,
+	analytics: AnalyticsData,
+): ChartData {
+	const categoryDimension = visualization.rows[0]?.dimension;
+	const seriesDimension = visualization.columns[0]?.dimension;
+	const categoryIndex = analytics.headers.findIndex(
+		({ name }) => name === categoryDimension,
+	);
+	const seriesIndex = analytics.headers.findIndex(
+		({ name }) => name === seriesDimension,
+	);
+	const valueIndex = analytics.headers.findIndex(
+		({ name }) => name === "value",
+	);
+	const values = new Map<string, number>();
+	for (const row of analytics.rows) {
+		const value = parseFloat(row[valueIndex]);
+		if (!isNaN(value)) {
+			const key = `${row[categoryIndex] ?? ""}/${row[seriesIndex] ?? ""}`;
+			values.set(key, (values.get(key) ?? 0) + value);
+		}
+	}
+	const categories = getDimensionItems(analytics, categoryDimension);
+	return {
+		categories,
+		series: getDimensionItems(analytics, seriesDimension).map((series) => ({
+			...series,
+			values: categories.map(({ id }) =>
+				values.get(`${id}/${series.id}`),
+			),
+		})),
+	};
+}
+
+function getFilterDescription(
+	visualization: VisualizationConfig,
+	analytics: AnalyticsData,
+) {
+	return compact(
+		visualization.filters.map(({ dimension }) =>
+			(analytics.metaData.dimensions[dimension] ?? [])
+				.map((id) => getName(analytics, id))
+				.join(", "),
+		),
+	).join(" - ");
+}
+
+/*
+ * Title and filters of the visualization, the same as the header of the charts on the portal
+ * */
+function drawHeader(
+	{ visualization, analytics, width }: ChartImageOptions,
+	elements: ChartImageElement[],
+) {
+	let y = PADDING;
+	const title = visualization.hideTitle
+		? undefined
+		: visualization.title || visualization.displayName;
+	if (title) {
+		y += 20;
+		elements.push({
+			type: "text",
+			x: width / 2,
+			y,
+			text: truncate(title, width - PADDING * 2, 18),
+			size: 18,
+			color: TEXT_COLOR,
+			anchor: "middle",
+			bold: true,
+		});
+	}
+	const filters = visualization.hideSubtitle
+		? undefined
+		: visualization.subtitle ||
+			getFilterDescription(visualization, analytics);
+	if (filters) {
+		y += 22;
+		elements.push({
+			type: "text",
+			x: width / 2,
+			y,
+			text: truncate(filters, width - PADDING * 2, 14),
+			size: 14,
+			color: MUTED_TEXT_COLOR,
+			anchor: "middle",
+		});
+	}
+	return y + 16;
+}
+
+/*
+ * Draws the legend at the bottom of the image and returns its height
+ * */
+function drawLegend(
+	items: { name: string; color: string }[],
+	{ width, height }: { width: number; height: number },
+	elements: ChartImageElement[],
+) {
+	const lines: { name: string; color: string; width: number }[][] = [[]];
+	let lineWidth = 0;
+	for (const item of items) {
+		const itemWidth =
+			getTextWidth(item.name, LEGEND_FONT_SIZE) + LEGEND_FONT_SIZE + 24;
+		if (lineWidth + itemWidth > width - PADDING * 2 && lineWidth > 0) {
+			lines.push([]);
+			lineWidth = 0;
+		}
+		lines[lines.length - 1].push({ ...item, width: itemWidth });
+		lineWidth += itemWidth;
+	}
+	const lineHeight = LEGEND_FONT_SIZE + 10;
+	const legendHeight = lines.length * lineHeight;
+	lines.forEach((line, index) => {
+		let x = (width - sum(line.map(({ width }) => width))) / 2;
+		const y = height - PADDING - legendHeight + index * lineHeight;
+		for (const item of line) {
+			elements.push({
+				type: "rect",
+				x,
+				y: y + 2,
+				width: LEGEND_FONT_SIZE,
+				height: LEGEND_FONT_SIZE,
+				fill: item.color,
+			});
+			elements.push({
+				type: "text",
+				x: x + LEGEND_FONT_SIZE + 6,
+				y: y + LEGEND_FONT_SIZE,
+				text: item.name,
+				size: LEGEND_FONT_SIZE,
+				color: TEXT_COLOR,
+				anchor: "start",
+			});
+			x += item.width;
+		}
+	});
+	return legendHeight + 12;
+}
+
+/*
+ * Round axis steps, e.g. 1, 2, 5, 10, 20, 50
+ * */
+export function getAxisTicks(minValue: number, maxValue: number, count = 5) {
+	if (minValue === maxValue) {
+		maxValue = minValue + 1;
+	}
+	const roughStep = (maxValue - minValue) / count;
+	const magnitude = Math.pow(10, Math.floor(Math.log10(roughStep)));
+	const step =
+		[1, 2, 5, 10]
+			.map((factor) => factor * magnitude)
+			.find((step) => step >= roughStep) ?? roughStep;
+	const start = Math.floor(minValue / step);
+	const end = Math.ceil(maxValue / step);
+	return Array.from({ length: end - start + 1 }, (_, index) =>
+		Number(((start + index) * step).toPrecision(12)),
+	);
+}
+
+function drawCartesianChart(
+	options: ChartImageOptions,
+	data: ChartData,
+	area: Area,
+	elements: ChartImageElement[],
+) {
+	const { visualization, colors } = options;
+	const type = visualization.type;
+	const horizontal = [
+		VisualizationChartType.BAR,
+		VisualizationChartType.STACKED_BAR,
+	].includes(type);
+	const stacked = [
+		VisualizationChartType.STACKED_COLUMN,
+		VisualizationChartType.STACKED_BAR,
+		VisualizationChartType.STACKED_AREA,
+	].includes(type);
+	const isLine = [
+		VisualizationChartType.LINE,
+		VisualizationChartType.AREA,
+		VisualizationChartType.STACKED_AREA,
+	].includes(type);
+	const isArea = [
+		VisualizationChartType.AREA,
+		VisualizationChartType.STACKED_AREA,
+	].includes(type);
+
+	const totals = data.categories.map((_, index) =>
+		stacked
+			? sum(
+					data.series.map(({ values }) =>
+						Math.max(values[index] ?? 0, 0),
+					),
+				)
+			: (max(data.series.map(({ values }) => values[index] ?? 0)) ?? 0),
+	);
+	const lowest =
+		min(data.series.flatMap(({ values }) => compact(values))) ?? 0;
+	const ticks = getAxisTicks(Math.min(lowest, 0), max(totals) ?? 0);
+	const axisMin = ticks[0];
+	const axisMax = ticks[ticks.length - 1];
+
+	const valueLabelWidth =
+		(max(
+			ticks.map((tick) =>
+				getTextWidth(formatAxisValue(tick), AXIS_FONT_SIZE),
+			),
+		) ?? 0) + 8;
+	const categoryLabelWidth = horizontal
+		? Math.min(
+				(max(
+					data.categories.map(({ name }) =>
+						getTextWidth(name, AXIS_FONT_SIZE),
+					),
+				) ?? 0) + 8,
+				area.width / 4,
+			)
+		: 0;
+	const plot: Area = horizontal
+		? {
+				x: area.x + categoryLabelWidth,
+				y: area.y,
+				width: area.width - categoryLabelWidth - PADDING / 2,
+				height: area.height - AXIS_FONT_SIZE - 8,
+			}
+		: {
+				x: area.x + valueLabelWidth,
+				y: area.y,
+				width: area.width - valueLabelWidth,
+				height: area.height - AXIS_FONT_SIZE - 8,
+			};
+
+	const valueLength = horizontal ? plot.width : plot.height;
+	const categoryLength = horizontal ? plot.height : plot.width;
+	const toValuePosition = (value: number) =>
+		((value - axisMin) / (axisMax - axisMin)) * valueLength;
+	const band = categoryLength / Math.max(data.categories.length, 1);
+
+	//Grid lines and value axis labels
+	for (const tick of ticks) {
+		const position = toValuePosition(tick);
+		elements.push(
+			horizontal
+				? {
+						type: "rect",
+						x: plot.x + position,
+						y: plot.y,
+						width: 1,
+						height: plot.height,
+						fill: GRID_COLOR,
+					}
+				: {
+						type: "rect",
+						x: plot.x,
+						y: plot.y + plot.height - position,
+						width: plot.width,
+						height: 1,
+						fill: GRID_COLOR,
+					},
+		);
+		elements.push(
+			horizontal
+				? {
+						type: "text",
+						x: plot.x + position,
+						y: plot.y + plot.height + AXIS_FONT_SIZE + 6,
+						text: formatAxisValue(tick),
+						size: AXIS_FONT_SIZE,
+						color: MUTED_TEXT_COLOR,
+						anchor: "middle",
+					}
+				: {
+						type: "text",
+						x: plot.x - 8,
+						y: plot.y + plot.height - position + AXIS_FONT_SIZE / 3,
+						text: formatAxisValue(tick),
+						size: AXIS_FONT_SIZE,
+						color: MUTED_TEXT_COLOR,
+						anchor: "end",
+					},
+		);
+	}
+
+	//Category axis labels, some are skipped when they do not fit
+	const labelEvery = horizontal
+		? Math.ceil((AXIS_FONT_SIZE + 4) / band)
+		: Math.ceil(
+				((max(
+					data.categories.map(({ name }) =>
+						Math.min(getTextWidth(name, AXIS_FONT_SIZE), 120),
+					),
+				) ?? 0) +
+					8) /
+					band,
+			);
+	data.categories.forEach(({ name }, index) => {
+		if (index % labelEvery !== 0) {
+			return;
+		}
+		const center = band * index + band / 2;
+		elements.push(
+			horizontal
+				? {
+						type: "text",
+						x: plot.x - 8,
+						y: plot.y + center + AXIS_FONT_SIZE / 3,
+						text: truncate(
+							name,
+							categoryLabelWidth - 8,
+							AXIS_FONT_SIZE,
+						),
+						size: AXIS_FONT_SIZE,
+						color: MUTED_TEXT_COLOR,
+						anchor: "end",
+					}
+				: {
+						type: "text",
+						x: plot.x + center,
+						y: plot.y + plot.height + AXIS_FONT_SIZE + 6,
+						text: truncate(
+							name,
+							Math.max(band * labelEvery - 8, 120),
+							AXIS_FONT_SIZE,
+						),
+						size: AXIS_FONT_SIZE,
+						color: MUTED_TEXT_COLOR,
+						anchor: "middle",
+					},
+		);
+	});
+
+	const baseline = toValuePosition(Math.max(axisMin, 0));
+	const toPoint = (index: number, value: number) => {
+		const center = band * index + band / 2;
+		const position = toValuePosition(value);
+		return horizontal
+			? { x: plot.x + position, y: plot.y + center }
+			: { x: plot.x + center, y: plot.y + plot.height - position };
+	};
+
+	if (isLine) {
+		const stackedValues = data.categories.map(() => 0);
+		data.series.forEach(({ values }, seriesIndex) => {
+			const color = colors[seriesIndex % colors.length];
+			const points = compact(
+				values.map((value, index) => {
+					if (value === undefined) {
+						return undefined;
+					}
+					const previous = stackedValues[index];
+					if (stacked) {
+						stackedValues[index] += value;
+					}
+					return {
+						...toPoint(index, stacked ? previous + value : value),
+						base: toPoint(
+							index,
+							stacked ? previous : Math.max(axisMin, 0),
+						),
+					};
+				}),
+			);
+			if (points.length === 0) {
+				return;
+			}
+			const line = points
+				.map(({ x, y }, index) => `${index === 0 ? "M" : "L"}${x} ${y}`)
+				.join(" ");
+			if (isArea) {
+				const base = [...points]
+					.reverse()
+					.map(({ base }) => `L${base.x} ${base.y}`)
+					.join(" ");
+				elements.push({
+					type: "path",
+					d: `${line} ${base} Z`,
+					fill: color,
+					opacity: 0.5,
+				});
+			}
+			elements.push({
+				type: "path",
+				d: line,
+				stroke: color,
+				strokeWidth: 2,
+			});
+			for (const { x, y } of points) {
+				elements.push({
+					type: "circle",
+					cx: x,
+					cy: y,
+					r: 3,
+					fill: color,
+				});
+			}
+		});
+		return;
+	}
+
+	const groupWidth = band * 0.8;
+	const barWidth = stacked ? groupWidth : groupWidth / data.series.length;
+	data.categories.forEach((_, index) => {
+		let stackedValue = 0;
+		data.series.forEach(({ values }, seriesIndex) => {
+			const value = values[index];
+			if (value === undefined) {
+				return;
+			}
+			const start = stacked ? stackedValue : 0;
+			if (stacked) {
+				stackedValue += value;
+			}
+			const from = stacked ? toValuePosition(start) : baseline;
+			const to = toValuePosition(start + value);
+			const offset =
+				band * index +
+				(band - groupWidth) / 2 +
+				(stacked ? 0 : barWidth * seriesIndex);
+			const length = Math.abs(to - from);
+			const valueStart = Math.min(to, from);
+			elements.push(
+				horizontal
+					? {
+							type: "rect",
+							x: plot.x + valueStart,
+							y: plot.y + offset,
+							width: length,
+							height: barWidth,
+							fill: colors[seriesIndex % colors.length],
+						}
+					: {
+							type: "rect",
+							x: plot.x + offset,
+							y: plot.y + plot.height - valueStart - length,
+							width: barWidth,
+							height: length,
+							fill: colors[seriesIndex % colors.length],
+						},
+			);
+		});
+	});
+}
+
+function drawPieChart(
+	{ colors }: ChartImageOptions,
+	data: ChartData,
+	area: Area,
+	elements: ChartImageElement[],
+) {
+	//A pie shows either the series of the only category, or the categories of the first series
+	const slices = (
+		data.series.length > 1
+			? data.series.map(({ name, values }) => ({
+					name,
+					value: values[0],
+				}))
+			: data.categories.map(({ name }, index) => ({
+					name,
+					value: data.series[0]?.values[index],
+				}))
+	).filter(({ value }) => value !== undefined && value > 0) as {
+		name: string;
+		value: number;
+	}[];
+	const total = sum(slices.map(({ value }) => value));
+	const radius = Math.min(area.width, area.height) / 2 - 8;
+	const cx = area.x + area.width / 2;
+	const cy = area.y + area.height / 2;
+	let angle = -Math.PI / 2;
+	slices.forEach(({ value }, index) => {
+		const color = colors[index % colors.length];
+		if (value === total) {
+			elements.push({ type: "circle", cx, cy, r: radius, fill: color });
+			return;
+		}
+		const sliceAngle = (value / total) * Math.PI * 2;
+		const start = {
+			x: cx + radius * Math.cos(angle),
+			y: cy + radius * Math.sin(angle),
+		};
+		angle += sliceAngle;
+		const end = {
+			x: cx + radius * Math.cos(angle),
+			y: cy + radius * Math.sin(angle),
+		};
+		elements.push({
+			type: "path",
+			d: `M${cx} ${cy} L${start.x} ${start.y} A${radius} ${radius} 0 ${sliceAngle > Math.PI ? 1 : 0} 1 ${end.x} ${end.y} Z`,
+			fill: color,
+			stroke: "#FFFFFF",
+			strokeWidth: 1,
+		});
+	});
+	return slices.map(({ name, value }, index) => ({
+		name: `${name}: ${formatValue(value)}`,
+		color: colors[index % colors.length],
+	}));
+}
+
+function drawSingleValue(
+	{ colors }: ChartImageOptions,
+	data: ChartData,
+	area: Area,
+	elements: ChartImageElement[],
+) {
+	const series = data.series[0];
+	const value = series?.values[0];
+	const size = Math.min(area.height / 3, 96);
+	elements.push({
+		type: "text",
+		x: area.x + area.width / 2,
+		y: area.y + area.height / 2 + size / 3,
+		text: value === undefined ? "-" : formatValue(value),
+		size,
+		color: colors[0] ?? TEXT_COLOR,
+		anchor: "middle",
+		bold: true,
+	});
+	const label = series?.name || data.categories[0]?.name;
+	if (label) {
+		elements.push({
+			type: "text",
+			x: area.x + area.width / 2,
+			y: area.y + area.height / 2 + size / 3 + 32,
+			text: truncate(label, area.width, 16),
+			size: 16,
+			color: MUTED_TEXT_COLOR,
+			anchor: "middle",
+		});
+	}
+}
+
+function drawTable(data: ChartData, area: Area, elements: ChartImageElement[]) {
+	const rowHeight = 28;
+	const fontSize = 13;
+	const maxRows = Math.max(Math.floor(area.height / rowHeight) - 2, 1);
+	const rows = data.categories.slice(0, maxRows);
+	const headerWidth = Math.min(
+		(max(rows.map(({ name }) => getTextWidth(name, fontSize))) ?? 0) + 16,
+		area.width / 3,
+	);
+	const columnWidth =
+		(area.width - headerWidth) / Math.max(data.series.length, 1);
+
+	const drawCell = (
+		text: string,
+		x: number,
+		y: number,
+		width: number,
+		{ header, alignEnd }: { header?: boolean; alignEnd?: boolean } = {},
+	) => {
+		elements.push({
+			type: "rect",
+			x,
+			y,
+			width,
+			height: rowHeight,
+			fill: header ? "#DBE4EC" : "#FFFFFF",
+		});
+		elements.push({
+			type: "path",
+			d: `M${x} ${y} H${x + width} V${y + rowHeight} H${x} Z`,
+			stroke: "#B0BEC9",
+			strokeWidth: 1,
+		});
+		elements.push({
+			type: "text",
+			x: alignEnd ? x + width - 8 : x + 8,
+			y: y + rowHeight / 2 + fontSize / 3,
+			text: truncate(text, width - 16, fontSize),
+			size: fontSize,
+			color: TEXT_COLOR,
+			anchor: alignEnd ? "end" : "start",
+			bold: header,
+		});
+	};
+
+	drawCell("", area.x, area.y, headerWidth, { header: true });
+	data.series.forEach(({ name }, index) => {
+		drawCell(
+			name,
+			area.x + headerWidth + columnWidth * index,
+			area.y,
+			columnWidth,
+			{
+				header: true,
+			},
+		);
+	});
+	rows.forEach(({ name }, rowIndex) => {
+		const y = area.y + rowHeight * (rowIndex + 1);
+		drawCell(name, area.x, y, headerWidth, { header: true });
+		data.series.forEach(({ values }, index) => {
+			const value = values[rowIndex];
+			drawCell(
+				value === undefined ? "" : formatValue(value),
+				area.x + headerWidth + columnWidth * index,
+				y,
+				columnWidth,
+				{ alignEnd: true },
+			);
+		});
+	});
+	if (data.categories.length > rows.length) {
+		elements.push({
+			type: "text",
+			x: area.x,
+			y: area.y + rowHeight * (rows.length + 1) + 20,
+			text: `${data.categories.length - rows.length} more rows are not shown`,
+			size: fontSize,
+			color: MUTED_TEXT_COLOR,
+			anchor: "start",
+		});
+	}
+}
+
+/**
+ * Draws a DHIS2 visualization with its analytics, without a browser
+ */
+export function getChartImage(options: ChartImageOptions): ChartImage {
+	const { visualization, analytics, colors, width, height } = options;
+	if (!isChartImageSupported(visualization.type)) {
+		throw new Error(
+			`Images of ${visualization.type.toLowerCase()} visualizations are not supported`,
+		);
+	}
+	const elements: ChartImageElement[] = [];
+	const top = drawHeader(options, elements);
+	const data = getChartData(visualization, analytics);
+	const area: Area = {
+		x: PADDING,
+		y: top,
+		width: width - PADDING * 2,
+		height: height - top - PADDING,
+	};
+
+	switch (visualization.type) {
+		case VisualizationChartType.SINGLE_VALUE:
+		case VisualizationChartType.GAUGE:
+			drawSingleValue(options, data, area, elements);
+			break;
+		case VisualizationChartType.TABLE:
+			drawTable(data, area, elements);
+			break;
+		case VisualizationChartType.PIE: {
+			const legendElements: ChartImageElement[] = [];
+			const pieElements: ChartImageElement[] = [];
+			const legendHeight = drawLegend(
+				drawPieChart(options, data, { ...area, height: 0 }, []),
+				{ width, height },
+				legendElements,
+			);
+			drawPieChart(
+				options,
+				data,
+				{ ...area, height: area.height - legendHeight },
+				pieElements,
+			);
+			elements.push(...pieElements, ...legendElements);
+			break;
+		}
+		default: {
+			const legendHeight =
+				data.series.length > 1
+					? drawLegend(
+							data.series.map(({ name }, index) => ({
+								name,
+								color: colors[index % colors.length],
+							})),
+							{ width, height },
+							elements,
+						)
+					: 0;
+			drawCartesianChart(
+				options,
+				data,
+				{ ...area, height: area.height - legendHeight },
+				elements,
+			);
+		}
+	}
+
+	return { width, height, background: "#FFFFFF", elements };
+}
+
+function escapeXml(text: string) {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+}
+
+function round(value: number) {
+	return Math.round(value * 100) / 100;
+}
+
+export function toSvg({ width, height, background, elements }: ChartImage) {
+	const content = elements.map((element) => {
+		switch (element.type) {
+			case "rect":
+				return `<rect x="${round(element.x)}" y="${round(element.y)}" width="${round(element.width)}" height="${round(element.height)}" fill="${element.fill}"/>`;
+			case "path":
+				return `<path d="${element.d}" fill="${element.fill ?? "none"}"${element.stroke ? ` stroke="${element.stroke}" stroke-width="${element.strokeWidth ?? 1}"` : ""}${element.opacity !== undefined ? ` fill-opacity="${element.opacity}"` : ""}/>`;
+			case "circle":
+				return `<circle cx="${round(element.cx)}" cy="${round(element.cy)}" r="${element.r}" fill="${element.fill}"/>`;
+			case "text":
+				return `<text x="${round(element.x)}" y="${round(element.y)}" font-size="${element.size}" fill="${element.color}" text-anchor="${element.anchor}"${element.bold ? ' font-weight="bold"' : ""}>${escapeXml(element.text)}</text>`;
+		}
+	});
+	return [
+		`<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="Roboto, Helvetica, Arial, sans-serif">`,
+		`<rect width="100%" height="100%" fill="${background}"/>`,
+		...content,
+		"</svg>",
+	].join("\n");
+}
@@ -0,0 +1,97 @@
+import { clamp } from "lodash";
+import { dhis2HttpClient } from "@/utils/api/dhis2";
+import { getAppearanceConfig } from "@/utils/config/appConfig";
+import { getEmbedDimensions, getEmbedItem } from "@/utils/embed";
+import {
+	AnalyticsData,
+	VisualizationConfig,
+	visualizationFields,
+	VisualizationDisplayItemType,
+} from "@packages/shared/schemas";
+import {
+	getVisualizationDimensions,
+	getVisualizationFilters,
+} from "@packages/shared/utils";
+import {
+	ChartImage,
+	getChartImage,
+	isChartImageSupported,
+} from "@/utils/server/chartImage";
+
+export const DEFAULT_IMAGE_SIZE = { width: 800, height: 500 };
+
+export class VisualizationImageError extends Error {
+	status: number;
+
+	constructor(message: string, status: number) {
+		super(message);
+		this.status = status;
+	}
+}
+
+function getSize(value: string | null, defaultValue: number) {
+	const size = parseInt(value ?? "");
+	return isNaN(size) ? defaultValue : clamp(size, 300, 2000);
+}
+
+/**
+ * Draws a chart visualization of a published module with the `pe`, `ou`, `width` and `height` query parameters
+ */
+export async function getVisualizationImage(
+	moduleId: string,
+	itemId: string,
+	searchParams: URLSearchParams,
+): Promise<ChartImage> {
+	const item = await getEmbedItem(moduleId, itemId);
+	if (!item || item.type !== VisualizationDisplayItemType.CHART) {
+		throw new VisualizationImageError(
+			"This visualization is not available",
+			404,
+		);
+	}
+	const visualization = await dhis2HttpClient.get<VisualizationConfig>(
+		`visualizations/${item.id}`,
+		{
+			params: {
+				fields: visualizationFields.join(","),
+			},
+		},
+	);
+	if (!isChartImageSupported(visualization.type)) {
+		throw new VisualizationImageError(
+			"Images of this visualization type are not supported",
+			422,
+		);
+	}
+
+	const { pe, ou } = await getEmbedDimensions(item, {
+		pe: searchParams.get("pe") ?? undefined,
+		ou: searchParams.get("ou") ?? undefined,
+	});
+	const selectedValues = { selectedPeriods: pe, selectedOrgUnits: ou };
+	const toParams = (name: string, items: Record<string, string[]>) =>
+		Object.entries(items).map(
+			([dimension, values]) => `${name}=${dimension}:${values.join(";")}`,
+		);
+	const analytics = await dhis2HttpClient.get<AnalyticsData>(
+		`analytics?${[
+			...toParams(
+				"dimension",
+				getVisualizationDimensions(visualization, selectedValues),
+			),
+			...toParams(
+				"filter",
+				getVisualizationFilters(visualization, selectedValues),
+			),
+		].join("&")}&displayProperty=NAME&includeMetadataDetails=true`,
+	);
+	const appearanceConfig = await getAppearanceConfig();
+
+	return getChartImage({
+		visualization,
+		analytics,
+		colors: appearanceConfig?.appearanceConfig.colors.chartColors ?? [],
+		width: getSize(searchParams.get("width"), DEFAULT_IMAGE_SIZE.width),
+		height: getSize(searchParams.get("height"), DEFAULT_IMAGE_SIZE.height),
+	});
+}
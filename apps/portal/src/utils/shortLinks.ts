@@ -0,0 +1,92 @@
+"use server";
+
+import { createHash } from "node:crypto";
+import { dhis2HttpClient } from "@/utils/api/dhis2";
+import { createRateLimiter, getClientIp } from "@/utils/rateLimit";
+import { SHORT_LINK_NAMESPACE } from "@packages/shared/constants";
+
+export interface ShortLink {
+	path: string;
+	createdAt: string;
+}
+
+type ShortLinkResult =
+	{ success: true; id: string } | { success: false; error: string };
+
+const MAX_PATH_LENGTH = 4000;
+
+const isRateLimited = createRateLimiter({
+	limit: 30,
+	windowMs: 10 * 60 * 1000,
+});
+
+const SHORT_LINK_ID_LENGTH = 10;
+
+/*
+ * The same page state always gets the same ids, so sharing it again does not create another link.
+ * The first id is the shortest, the next ones are longer prefixes of the same hash, used when a shorter one is taken by another path
+ * */
+function getShortLinkIds(path: string) {
+	const hash = createHash("sha256").update(path).digest("base64url");
+	const ids: string[] = [];
+	for (let length = SHORT_LINK_ID_LENGTH; length < hash.length; length += 4) {
+		ids.push(hash.slice(0, length));
+	}
+	return [...ids, hash];
+}
+
+export async function getShortLink(id: string) {
+	if (!/^[\w-]+$/.test(id)) {
+		return;
+	}
+	try {
+		return await dhis2HttpClient.get<ShortLink>(
+			`dataStore/${SHORT_LINK_NAMESPACE}/${id}`,
+		);
+	} catch (e) {
+		return;
+	}
+}
+
+/**
+ * Stores the path and query of a module page, with its selected periods, organisation units and views, under a short id
+ */
+export async function createShortLink(path: string): Promise<ShortLinkResult> {
+	if (!path.startsWith("/modules/") || path.length > MAX_PATH_LENGTH) {
+		return { success: false, error: "This page can not be shared." };
+	}
+	if (isRateLimited(await getClientIp())) {
+		return {
+			success: false,
+			error: "Too many links created. Try again later.",
+		};
+	}
+	try {
+		for (const id of getShortLinkIds(path)) {
+			const existingLink = await getShortLink(id);
+			if (existingLink?.path === path) {
+				return { success: true, id };
+			}
+			if (existingLink) {
+				// Taken by another path with the same hash prefix
+				continue;
+			}
+			const shortLink: ShortLink = {
+				path,
+				createdAt: new Date().toISOString(),
+			};
+			await dhis2HttpClient.post(
+				`dataStore/${SHORT_LINK_NAMESPACE}/${id}`,
+				shortLink,
+			);
+			return { success: true, id };
+		}
+		throw new Error(`All the short link ids of ${path} are taken`);
+	} catch (e) {
+		console.error("Could not create a short link", e);
+		return {
+			success: false,
+			error: "Could not create a short link. Try again later.",
+		};
+	}
+}
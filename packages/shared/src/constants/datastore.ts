@@ -1,4 +1,10 @@
-import { AppAppearanceConfig, AppMenuConfig, MetadataConfig } from "../schemas";
+import {
+	AppAppearanceConfig,
+	AppMenuConfig,
+	AppModule,
+	MetadataConfig,
+	ModuleType,
+} from "../schemas";
 
 export enum DatastoreNamespaces {
 	MODULES = "hisptz-public-portal-modules",
@@ -6,6 +12,77 @@ export enum DatastoreNamespaces {
 	DATA_SERVICE_CONFIG = "hisptz-public-data-service-config",
 }
 
+/*
+ * The manager edits the draft namespaces and the portal preview renders them.
+ * Publishing copies the draft into the live `DatastoreNamespaces` and keeps a snapshot of it.
+ * */
+export enum DraftDatastoreNamespaces {
+	MODULES = "hisptz-public-portal-modules-draft",
+	MAIN_CONFIG = "hisptz-public-portal-draft",
+	SNAPSHOTS = "hisptz-public-portal-snapshots",
+}
+
+/*
+ * Feedback submitted from the portal. It is not configuration, so it is neither drafted nor exported.
+ * */
+export const FEEDBACK_NAMESPACE = "hisptz-public-portal-feedback";
+
+/*
+ * Written by the manager and the data service to make the portal clear its cached DHIS2 responses, see `PortalCachePurge`
+ * */
+export const PORTAL_CACHE_NAMESPACE = "hisptz-public-portal-cache";
+export const PORTAL_CACHE_PURGE_KEY = "purge";
+
+/*
+ * Short links of shared portal pages, keyed by the short link id. Created by the portal only.
+ * */
+export const SHORT_LINK_NAMESPACE = "hisptz-public-portal-short-links";
+
+/*
+ * Live namespaces that are edited as a draft
+ * */
+export const PUBLISHED_NAMESPACES = [
+	DatastoreNamespaces.MAIN_CONFIG,
+	DatastoreNamespaces.MODULES,
+] as const;
+
+export type PublishedNamespace = (typeof PUBLISHED_NAMESPACES)[number];
+
+export const draftNamespaces: Record<
+	PublishedNamespace,
+	DraftDatastoreNamespaces
+> = {
+	[DatastoreNamespaces.MAIN_CONFIG]: DraftDatastoreNamespaces.MAIN_CONFIG,
+	[DatastoreNamespaces.MODULES]: DraftDatastoreNamespaces.MODULES,
+};
+
+export function getDraftNamespace(namespace: string): string {
+	return draftNamespaces[namespace as PublishedNamespace] ?? namespace;
+}
+
+/*
+ * Items of a static module are kept in the namespace named in its config. They are edited in a draft of that namespace
+ * and published together with the modules.
+ * */
+export function getStaticItemsDraftNamespace(namespace: string): string {
+	return `${namespace}-draft`;
+}
+
+/*
+ * Live namespaces of the items of the static modules among `modules`
+ * */
+export function getStaticItemsNamespaces(modules: AppModule[]): string[] {
+	return Array.from(
+		new Set(
+			modules.flatMap((module) =>
+				module.type === ModuleType.STATIC && module.config?.namespace
+					? [module.config.namespace]
+					: [],
+			),
+		),
+	);
+}
+
 export enum DatastoreKeys {
 	APPEARANCE = "appearance",
 	METADATA = "metadata",
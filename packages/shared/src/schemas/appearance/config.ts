@@ -2,6 +2,7 @@ import { z } from "zod";
 import { footerLinkSchema } from "./links";
 import { logoConfig } from "./logo";
 import { styleConfig } from "./style";
+import { localesConfigSchema, translationsSchema } from "../translations";
 
 export const appMeta = z.object({
 	name: z.string(),
@@ -14,6 +15,7 @@ export const appMeta = z.object({
 			rel: z.string(),
 		}),
 	),
+	localization: localesConfigSchema.optional(),
 });
 
 export const appColorConfig = z.object({
@@ -41,6 +43,7 @@ export const headerConfig = z.object({
 			.max(100, { message: "Subtitle must be less than 100 characters" })
 			.optional(),
 		style: styleConfig.optional(),
+		translations: translationsSchema(["text"]),
 	}),
 	title: z.object({
 		text: z
@@ -48,6 +51,7 @@ export const headerConfig = z.object({
 			.min(1, { message: "Title is required" })
 			.max(50, { message: "Title must be less than 50 characters" }),
 		style: styleConfig.optional(),
+		translations: translationsSchema(["text"]),
 	}),
 	style: headerStyleConfig,
 });
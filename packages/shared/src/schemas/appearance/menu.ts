@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { translationsSchema } from "../translations";
 
 export enum MenuPosition {
 	HEADER = "header",
@@ -23,6 +24,7 @@ export const baseMenuItemSchema = z.object({
 	icon: z.string().optional(),
 	sortOrder: z.number(),
 	path: z.string().max(50),
+	translations: translationsSchema(["label"]),
 });
 
 export const moduleMenuItemSchema = baseMenuItemSchema.extend({
@@ -0,0 +1,20 @@
+import { z } from "zod";
+
+export enum PortalCachePurgeSource {
+	MANAGER = "MANAGER",
+	DATA_SERVICE = "DATA_SERVICE",
+}
+
+/*
+ * The portal clears its cached DHIS2 responses when `purgedAt` changes
+ * */
+export const portalCachePurgeSchema = z.object({
+	purgedAt: z.string().datetime(),
+	source: z.nativeEnum(PortalCachePurgeSource),
+	/*
+	 * Username of the manager user, or the id of the data service run that uploaded the data
+	 * */
+	purgedBy: z.string().optional(),
+});
+
+export type PortalCachePurge = z.infer<typeof portalCachePurgeSchema>;
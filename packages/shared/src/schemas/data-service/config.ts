@@ -8,9 +8,38 @@ export const dataSourceSchema = z.object({
 
 export type DataServiceDataSource = z.infer<typeof dataSourceSchema>;
 
+/*
+ * Transformations applied to the values of a data item before they are uploaded to the destination.
+ * Values below the minimum value are dropped, the rest are scaled, converted and rounded in that order.
+ * */
+export const dataItemTransformSchema = z.object({
+	minimumValue: z.number().optional(),
+	scaleFactor: z.number().optional(),
+	unitConversion: z
+		.object({
+			factor: z.number(),
+			offset: z.number().optional(),
+		})
+		.optional(),
+	decimals: z.number().int().min(0).optional(),
+	categoryOptionCombos: z
+		.array(
+			z.object({
+				sourceId: z.string(),
+				id: z.string(),
+			}),
+		)
+		.optional(),
+});
+
+export type DataServiceDataItemTransform = z.infer<
+	typeof dataItemTransformSchema
+>;
+
 export const dataItemConfigSchema = z.object({
 	sourceId: z.string(),
 	id: z.string(),
+	transform: dataItemTransformSchema.optional(),
 });
 
 export type DataServiceDataItemConfig = z.infer<typeof dataItemConfigSchema>;
@@ -18,12 +47,41 @@ export type DataServiceDataItemConfig = z.infer<typeof dataItemConfigSchema>;
 export enum DataServiceSupportedDataSourcesType {
 	ATTRIBUTE_VALUES = "ATTRIBUTE_VALUES",
 	DX_VALUES = "DX_VALUES",
+	FILE_VALUES = "FILE_VALUES",
 }
 
 export const supportedDataSourcesType = z.nativeEnum(
 	DataServiceSupportedDataSourcesType,
 );
 
+export enum DataServiceSuppressionReplacement {
+	DROP = "DROP",
+	LABEL = "LABEL",
+	ROUND = "ROUND",
+}
+
+/*
+ * Disclosure control applied to the values of a data items configuration before they are uploaded.
+ * Non zero values below the threshold are replaced, and when only one value of a data element is replaced for an
+ * organisation unit and period, the next smallest value is replaced too so that it can not be recovered from the total.
+ * */
+export const suppressionPolicySchema = z.object({
+	threshold: z.number().int().min(1),
+	replacement: z.nativeEnum(DataServiceSuppressionReplacement),
+	/*
+	 * Uploaded instead of suppressed values when replacing with a label, defaults to `<{threshold}`
+	 * */
+	label: z.string().optional(),
+	/*
+	 * Suppressed values are rounded to a multiple of this base when rounding, defaults to the threshold
+	 * */
+	roundingBase: z.number().int().min(1).optional(),
+});
+
+export type DataServiceSuppressionPolicy = z.infer<
+	typeof suppressionPolicySchema
+>;
+
 export const baseDataItemsSourceSchema = z.object({
 	id: z.string(),
 	name: z.string(),
@@ -34,6 +92,7 @@ export const baseDataItemsSourceSchema = z.object({
 	periodTypeId: z.string(),
 	parentOrgUnitId: z.string(),
 	orgUnitLevel: z.number(),
+	suppression: suppressionPolicySchema.optional(),
 });
 
 export const attributeValuesDataItemsSourceSchema =
@@ -55,9 +114,51 @@ export type DataServiceDxValuesDataItemsSource = z.infer<
 	typeof dxValuesDataItemsSourceSchema
 >;
 
+export enum DataServiceFileFormat {
+	CSV = "CSV",
+	JSON = "JSON",
+}
+
+/*
+ * Names of the CSV columns, or JSON object properties, holding each field of a data value
+ * */
+export const fileColumnMappingSchema = z.object({
+	dataElement: z.string().min(1, i18n.t("A column is required")),
+	period: z.string().min(1, i18n.t("A column is required")),
+	orgUnit: z.string().min(1, i18n.t("A column is required")),
+	categoryOptionCombo: z.string().optional(),
+	attributeOptionCombo: z.string().optional(),
+	value: z.string().min(1, i18n.t("A column is required")),
+});
+
+export type DataServiceFileColumnMapping = z.infer<
+	typeof fileColumnMappingSchema
+>;
+
+/*
+ * Data values uploaded as CSV or JSON files instead of being downloaded from a DHIS2 source.
+ * Data items map the data elements of the file to the destination, unmapped data elements are uploaded as they are.
+ * */
+export const fileValuesDataItemsSourceSchema = baseDataItemsSourceSchema
+	.omit({ parentOrgUnitId: true, orgUnitLevel: true })
+	.extend({
+		type: z.literal("FILE_VALUES"),
+		format: z.nativeEnum(DataServiceFileFormat),
+		columnMapping: fileColumnMappingSchema,
+		dataItems: z.array(dataItemConfigSchema),
+	});
+
+export type DataServiceFileValuesDataItemsSource = z.infer<
+	typeof fileValuesDataItemsSourceSchema
+>;
+
 export const dataSourceItemsConfigSchema = z.discriminatedUnion(
 	"type",
-	[attributeValuesDataItemsSourceSchema, dxValuesDataItemsSourceSchema],
+	[
+		attributeValuesDataItemsSourceSchema,
+		dxValuesDataItemsSourceSchema,
+		fileValuesDataItemsSourceSchema,
+	],
 	{ message: i18n.t("This value is required") },
 );
 
@@ -65,20 +166,16 @@ export type DataServiceDataSourceItemsConfig = z.infer<
 	typeof dataSourceItemsConfigSchema
 >;
 
-export const dataServiceConfigSchema = z.object({
-	id: z.string(),
-	source: dataSourceSchema,
-	itemsConfig: z.array(dataSourceItemsConfigSchema),
-	visualizations: z.array(z.object({ id: z.string() })),
-});
-
-export type DataServiceConfig = z.infer<typeof dataServiceConfigSchema>;
-
 export const dataServiceRuntimeConfig = z.object({
 	periods: z.string().array(),
 	pageSize: z.number().optional(),
 	timeout: z.number().optional(),
 	paginateByData: z.boolean().optional(),
+	/*
+	 * Only migrates values changed on the source since the last successful run of each period of a data items configuration.
+	 * Falls back to a full migration of the periods that have not been migrated successfully before.
+	 * */
+	incremental: z.boolean().optional(),
 	overrides: z
 		.object({
 			parentOrgUnitId: z.string().optional(),
@@ -89,14 +186,237 @@ export const dataServiceRuntimeConfig = z.object({
 
 export type DataServiceRuntimeConfig = z.infer<typeof dataServiceRuntimeConfig>;
 
+/*
+ * DHIS2 relative period keywords accepted in `DataServiceRuntimeConfig.periods`.
+ * They are resolved into fixed periods of each data item configuration's period type when a run is queued.
+ * */
+export enum DataServiceRelativePeriod {
+	TODAY = "TODAY",
+	YESTERDAY = "YESTERDAY",
+	LAST_3_DAYS = "LAST_3_DAYS",
+	LAST_7_DAYS = "LAST_7_DAYS",
+	LAST_14_DAYS = "LAST_14_DAYS",
+	LAST_30_DAYS = "LAST_30_DAYS",
+	LAST_60_DAYS = "LAST_60_DAYS",
+	LAST_90_DAYS = "LAST_90_DAYS",
+	LAST_180_DAYS = "LAST_180_DAYS",
+	THIS_WEEK = "THIS_WEEK",
+	LAST_WEEK = "LAST_WEEK",
+	LAST_4_WEEKS = "LAST_4_WEEKS",
+	LAST_12_WEEKS = "LAST_12_WEEKS",
+	LAST_52_WEEKS = "LAST_52_WEEKS",
+	THIS_BIWEEK = "THIS_BIWEEK",
+	LAST_BIWEEK = "LAST_BIWEEK",
+	LAST_4_BIWEEKS = "LAST_4_BIWEEKS",
+	THIS_MONTH = "THIS_MONTH",
+	LAST_MONTH = "LAST_MONTH",
+	LAST_3_MONTHS = "LAST_3_MONTHS",
+	LAST_6_MONTHS = "LAST_6_MONTHS",
+	LAST_12_MONTHS = "LAST_12_MONTHS",
+	THIS_BIMONTH = "THIS_BIMONTH",
+	LAST_BIMONTH = "LAST_BIMONTH",
+	LAST_6_BIMONTHS = "LAST_6_BIMONTHS",
+	THIS_QUARTER = "THIS_QUARTER",
+	LAST_QUARTER = "LAST_QUARTER",
+	LAST_4_QUARTERS = "LAST_4_QUARTERS",
+	THIS_SIX_MONTH = "THIS_SIX_MONTH",
+	LAST_SIX_MONTH = "LAST_SIX_MONTH",
+	LAST_2_SIXMONTHS = "LAST_2_SIXMONTHS",
+	THIS_YEAR = "THIS_YEAR",
+	WEEKS_THIS_YEAR = "WEEKS_THIS_YEAR",
+	MONTHS_THIS_YEAR = "MONTHS_THIS_YEAR",
+	BIMONTHS_THIS_YEAR = "BIMONTHS_THIS_YEAR",
+	QUARTERS_THIS_YEAR = "QUARTERS_THIS_YEAR",
+	LAST_YEAR = "LAST_YEAR",
+	MONTHS_LAST_YEAR = "MONTHS_LAST_YEAR",
+	QUARTERS_LAST_YEAR = "QUARTERS_LAST_YEAR",
+	LAST_5_YEARS = "LAST_5_YEARS",
+	LAST_10_YEARS = "LAST_10_YEARS",
+	THIS_FINANCIAL_YEAR = "THIS_FINANCIAL_YEAR",
+	LAST_FINANCIAL_YEAR = "LAST_FINANCIAL_YEAR",
+	LAST_5_FINANCIAL_YEARS = "LAST_5_FINANCIAL_YEARS",
+	LAST_10_FINANCIAL_YEARS = "LAST_10_FINANCIAL_YEARS",
+}
+
+export const dataServiceSchedulePeriodsSchema = z.object({
+	periodType: z.string(),
+	count: z.number().int().min(1),
+	includeCurrent: z.boolean().optional(),
+});
+
+export type DataServiceSchedulePeriods = z.infer<
+	typeof dataServiceSchedulePeriodsSchema
+>;
+
+export const dataServiceScheduleSchema = z.object({
+	id: z.string(),
+	name: z.string(),
+	cron: z.string().min(1, i18n.t("A cron expression is required")),
+	enabled: z.boolean(),
+	dataItemsConfigIds: z
+		.string()
+		.array()
+		.min(1, i18n.t("At least one data item configuration is required")),
+	periods: dataServiceSchedulePeriodsSchema,
+	runtimeConfig: dataServiceRuntimeConfig.omit({ periods: true }).optional(),
+});
+
+export type DataServiceSchedule = z.infer<typeof dataServiceScheduleSchema>;
+
+/*
+ * How an organisation unit of the source was matched to an organisation unit of the destination
+ * */
+export enum DataServiceOrgUnitMatchType {
+	ID = "ID",
+	CODE = "CODE",
+	NAME = "NAME",
+	MANUAL = "MANUAL",
+}
+
+export const orgUnitMappingSchema = z.object({
+	sourceId: z
+		.string()
+		.min(1, i18n.t("A source organisation unit is required")),
+	id: z
+		.string()
+		.min(1, i18n.t("A destination organisation unit is required")),
+	matchType: z.nativeEnum(DataServiceOrgUnitMatchType).optional(),
+	/*
+	 * Name of the source organisation unit, only kept for display
+	 * */
+	sourceName: z.string().optional(),
+});
+
+export type DataServiceOrgUnitMapping = z.infer<typeof orgUnitMappingSchema>;
+
+export enum DataServiceNotificationEvent {
+	RUN_COMPLETED = "RUN_COMPLETED",
+	RUN_FAILED = "RUN_FAILED",
+	FAILED_QUEUE_THRESHOLD = "FAILED_QUEUE_THRESHOLD",
+}
+
+export enum DataServiceNotificationTargetType {
+	WEBHOOK = "WEBHOOK",
+	EMAIL = "EMAIL",
+	MESSAGE_CONVERSATION = "MESSAGE_CONVERSATION",
+}
+
+const baseNotificationTargetSchema = z.object({
+	id: z.string(),
+	name: z.string().min(1, i18n.t("A name is required")),
+	enabled: z.boolean().optional(),
+	events: z
+		.array(z.nativeEnum(DataServiceNotificationEvent))
+		.min(1, i18n.t("At least one event is required")),
+});
+
+export const webhookNotificationTargetSchema =
+	baseNotificationTargetSchema.extend({
+		type: z.literal(DataServiceNotificationTargetType.WEBHOOK),
+		url: z.string().url(i18n.t("A valid URL is required")),
+		/*
+		 * When set, the payload is signed with HMAC-SHA256 in the `X-Data-Service-Signature` header
+		 * */
+		secret: z.string().optional(),
+	});
+
+export const emailNotificationTargetSchema =
+	baseNotificationTargetSchema.extend({
+		type: z.literal(DataServiceNotificationTargetType.EMAIL),
+		recipients: z
+			.array(
+				z.string().email(i18n.t("A valid email address is required")),
+			)
+			.min(1, i18n.t("At least one recipient is required")),
+	});
+
+export const messageConversationNotificationTargetSchema =
+	baseNotificationTargetSchema.extend({
+		type: z.literal(DataServiceNotificationTargetType.MESSAGE_CONVERSATION),
+		userGroups: z
+			.array(z.string())
+			.min(1, i18n.t("At least one user group is required")),
+	});
+
+export const notificationTargetSchema = z.discriminatedUnion("type", [
+	webhookNotificationTargetSchema,
+	emailNotificationTargetSchema,
+	messageConversationNotificationTargetSchema,
+]);
+
+export type DataServiceNotificationTarget = z.infer<
+	typeof notificationTargetSchema
+>;
+
+export const dataServiceNotificationsSchema = z.object({
+	targets: z.array(notificationTargetSchema).optional(),
+	/*
+	 * Notifies the targets of `FAILED_QUEUE_THRESHOLD` once the failed queue holds at least this many messages
+	 * */
+	failedQueueThreshold: z.number().int().min(1).nullish(),
+});
+
+export type DataServiceNotifications = z.infer<
+	typeof dataServiceNotificationsSchema
+>;
+
+/*
+ * Retries of the failed jobs of a configuration. A job is retried after `backoffBaseSeconds`, twice as long after
+ * every further failure up to `backoffCapSeconds`, until it has been attempted `maxAttempts` times.
+ * Failures without a response, like timeouts, are retried. Status codes in neither list are not retried.
+ * */
+export const dataServiceRetryPolicySchema = z.object({
+	maxAttempts: z.number().int().min(1).nullish(),
+	backoffBaseSeconds: z.number().int().min(0).nullish(),
+	backoffCapSeconds: z.number().int().min(0).nullish(),
+	retryableStatusCodes: z.array(z.number().int()).optional(),
+	/*
+	 * Jobs failing with these status codes go to the failed queue without being retried
+	 * */
+	permanentStatusCodes: z.array(z.number().int()).optional(),
+});
+
+export type DataServiceRetryPolicy = z.infer<
+	typeof dataServiceRetryPolicySchema
+>;
+
+export const dataServiceConfigSchema = z.object({
+	id: z.string(),
+	source: dataSourceSchema,
+	itemsConfig: z.array(dataSourceItemsConfigSchema),
+	visualizations: z.array(z.object({ id: z.string() })),
+	schedules: z.array(dataServiceScheduleSchema).optional(),
+	/*
+	 * Maps the organisation units of the source to the ones of the destination.
+	 * Without a mapping, organisation units are assumed to have the same IDs on both instances.
+	 * */
+	orgUnitMappings: z.array(orgUnitMappingSchema).optional(),
+	notifications: dataServiceNotificationsSchema.optional(),
+	retryPolicy: dataServiceRetryPolicySchema.optional(),
+});
+
+export type DataServiceConfig = z.infer<typeof dataServiceConfigSchema>;
+
 export const dataDownloadBodySchema = z.object({
 	runtimeConfig: dataServiceRuntimeConfig,
 	dataItemsConfigIds: z.string().array(),
 	isDelete: z.boolean().optional(),
+	dryRun: z.boolean().optional(),
 });
 
 export type DataDownloadBody = z.infer<typeof dataDownloadBodySchema>;
 
+export const fileUploadBodySchema = z.object({
+	dataItemsConfigId: z.string(),
+	/*
+	 * Text content of the uploaded CSV or JSON file
+	 * */
+	content: z.string().min(1),
+	dryRun: z.boolean().optional(),
+});
+
+export type FileUploadBody = z.infer<typeof fileUploadBodySchema>;
+
 export const dataUploadBodySchema = z.object({
 	filename: z.string().min(1).optional(), 
 	payload: z.any().optional(),
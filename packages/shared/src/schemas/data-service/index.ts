@@ -1,3 +1,5 @@
 export * from "./status";
 export * from "./config";
 export * from "./summary";
+export * from "./runs";
+export * from "./logs";
@@ -0,0 +1,18 @@
+import { z } from "zod";
+
+export const dataServiceLogEntrySchema = z.object({
+	timestamp: z.string(),
+	level: z.string(),
+	message: z.string(),
+	configId: z.string(),
+	queueType: z.string().optional(),
+	runId: z.string().optional(),
+	/*
+	 * Shared by the messages queued from one download, from the download request to the last upload
+	 * */
+	correlationId: z.string().optional(),
+	messageId: z.string().optional(),
+	stack: z.string().optional(),
+});
+
+export type DataServiceLogEntry = z.infer<typeof dataServiceLogEntrySchema>;
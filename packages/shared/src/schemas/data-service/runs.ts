@@ -0,0 +1,139 @@
+import { z } from "zod";
+
+export enum DataServiceRunHistoryStatus {
+	QUEUED = "QUEUED",
+	RUNNING = "RUNNING",
+	COMPLETED = "COMPLETED",
+	COMPLETED_WITH_ERRORS = "COMPLETED_WITH_ERRORS",
+	FAILED = "FAILED",
+}
+
+export const dataServiceRunStageSchema = z.object({
+	stage: z.string(),
+	queued: z.number(),
+	processed: z.number(),
+	failed: z.number(),
+	imported: z.number(),
+	updated: z.number(),
+	ignored: z.number(),
+	deleted: z.number(),
+});
+
+export type DataServiceRunStage = z.infer<typeof dataServiceRunStageSchema>;
+
+export const dataServiceRunErrorSchema = z.object({
+	stage: z.string(),
+	message: z.string(),
+	details: z.unknown().optional(),
+	timestamp: z.string(),
+});
+
+export type DataServiceRunError = z.infer<typeof dataServiceRunErrorSchema>;
+
+export const dataServiceImportConflictSchema = z.object({
+	object: z.string().optional(),
+	value: z.string(),
+	errorCode: z.string().optional(),
+});
+
+export type DataServiceImportConflict = z.infer<
+	typeof dataServiceImportConflictSchema
+>;
+
+/*
+ * Import summary returned by the destination for a single upload of a run
+ * */
+export const dataServiceImportSummarySchema = z.object({
+	stage: z.string(),
+	/*
+	 * What was uploaded, e.g. the data file or the metadata file
+	 * */
+	reference: z.string().optional(),
+	status: z.string(),
+	imported: z.number(),
+	updated: z.number(),
+	ignored: z.number(),
+	deleted: z.number(),
+	conflicts: z.array(dataServiceImportConflictSchema),
+	/*
+	 * Only the first conflicts are kept, this is the number of conflicts reported by the destination
+	 * */
+	totalConflicts: z.number(),
+	timestamp: z.string(),
+});
+
+export type DataServiceImportSummary = z.infer<
+	typeof dataServiceImportSummarySchema
+>;
+
+/*
+ * A value replaced by the suppression policy of a data items configuration. The original value is never stored.
+ * */
+export const dataServiceSuppressionSchema = z.object({
+	dataItemsConfigId: z.string(),
+	dataElement: z.string(),
+	categoryOptionCombo: z.string().optional(),
+	attributeOptionCombo: z.string().optional(),
+	orgUnit: z.string(),
+	period: z.string(),
+	/*
+	 * `PRIMARY` values are below the threshold, `COMPLEMENTARY` values are suppressed to protect a primary one
+	 * */
+	type: z.enum(["PRIMARY", "COMPLEMENTARY"]),
+	/*
+	 * The uploaded value, `null` when the value was not uploaded
+	 * */
+	replacement: z.string().nullable(),
+});
+
+export type DataServiceSuppression = z.infer<
+	typeof dataServiceSuppressionSchema
+>;
+
+/*
+ * An organisation unit of the source without a mapping to the destination, its values were not uploaded
+ * */
+export const dataServiceUnmappedOrgUnitSchema = z.object({
+	dataItemsConfigId: z.string(),
+	orgUnit: z.string(),
+	valueCount: z.number(),
+});
+
+export type DataServiceUnmappedOrgUnit = z.infer<
+	typeof dataServiceUnmappedOrgUnitSchema
+>;
+
+export const dataServiceRunSchema = z.object({
+	id: z.string(),
+	configId: z.string(),
+	type: z.enum(["download", "delete", "metadata", "file"]),
+	status: z.nativeEnum(DataServiceRunHistoryStatus),
+	/*
+	 * Dry runs only validate the uploads against the destination without changing its data
+	 * */
+	dryRun: z.boolean(),
+	dataItemsConfigIds: z.string().array(),
+	requestedPeriods: z.string().array(),
+	/*
+	 * Resolved period ids per data items configuration
+	 * */
+	periods: z.record(z.string(), z.string().array()),
+	startedAt: z.string(),
+	finishedAt: z.string().nullable(),
+	stages: z.array(dataServiceRunStageSchema),
+	errorCount: z.number(),
+	suppressionCount: z.number(),
+	/*
+	 * Number of distinct organisation units whose values were not uploaded because they are not mapped
+	 * */
+	unmappedOrgUnitCount: z.number(),
+	errors: z.array(dataServiceRunErrorSchema).optional(),
+	importSummaries: z.array(dataServiceImportSummarySchema).optional(),
+	/*
+	 * Only the first suppressions are returned, see `suppressionCount` for the total
+	 * */
+	suppressions: z.array(dataServiceSuppressionSchema).optional(),
+	unmappedOrgUnits: z.array(dataServiceUnmappedOrgUnitSchema).optional(),
+});
+
+export type DataServiceRun = z.infer<typeof dataServiceRunSchema>;
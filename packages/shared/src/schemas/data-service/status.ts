@@ -11,3 +11,20 @@ export enum DataServiceRunStatus {
 }
 
 export const dataServiceRunStatusSchema = z.nativeEnum(DataServiceRunStatus);
+
+export const dataServiceScheduleStatusSchema = z.object({
+	id: z.string(),
+	name: z.string(),
+	cron: z.string(),
+	enabled: z.boolean(),
+	nextRun: z.string().nullable(),
+	lastRun: z.string().nullable(),
+	lastRunStatus: z.enum(["SUCCESS", "FAILED"]).nullable(),
+	lastRunPeriods: z.string().array(),
+	lastRunId: z.string().nullable(),
+	lastRunError: z.string().optional(),
+});
+
+export type DataServiceScheduleStatus = z.infer<
+	typeof dataServiceScheduleStatusSchema
+>;
@@ -3,6 +3,7 @@ import { z } from "zod";
 export const dataDownloadSummary = z.object({
 	id: z.string(),
 	type: z.literal("download"),
+	requestedPeriods: z.string().array().optional(),
 	periods: z.string().array().optional(),
 	dataItems: z.string().array().optional(),
 	status: z.enum(["SUCCESS", "QUEUED", "FAILED", "DONE", "INIT"]),
@@ -3,8 +3,8 @@ import { z } from "zod";
 
 export const feedbackSchema = z.object({
 	email: z.string().email(),
-	name: z.string().optional(),
-	message: z.string().optional(),
+	name: z.string().max(200).optional(),
+	message: z.string().max(5000).optional(),
 });
 
 export const feedbackRecipientSchema = z.object({
@@ -16,6 +16,26 @@ export const feedbackItemSchema = z.object({
 	recipients: z.array(feedbackRecipientSchema),
 });
 
+export enum FeedbackDeliveryStatus {
+	SENT = "SENT",
+	FAILED = "FAILED",
+}
+
+/*
+ * Feedback submitted from the portal, as stored in the feedback namespace
+ * */
+export const feedbackSubmissionSchema = feedbackSchema.extend({
+	id: z.string(),
+	itemId: z.string(),
+	submittedAt: z.string().datetime(),
+	read: z.boolean(),
+	tags: z.array(z.string()),
+	delivery: z.object({
+		status: z.nativeEnum(FeedbackDeliveryStatus),
+		error: z.string().optional(),
+	}),
+});
+
 export const feedbackDisplayItemSchema = baseDisplayItemSchema.extend({
 	type: z.literal(DisplayItemType.FEEDBACK),
 	item: feedbackItemSchema,
@@ -25,3 +45,4 @@ export type FeedbackDisplayItem = z.infer<typeof feedbackDisplayItemSchema>;
 export type FeedbackConfig = z.infer<typeof feedbackSchema>;
 export type FeedbackRecipient = z.infer<typeof feedbackRecipientSchema>;
 export type FeedbackItem = z.infer<typeof feedbackItemSchema>;
+export type FeedbackSubmission = z.infer<typeof feedbackSubmissionSchema>;
@@ -1,9 +1,11 @@
 import { baseDisplayItemSchema, DisplayItemType } from "./base";
 import { z } from "zod";
+import { translationsSchema } from "../translations";
 
 export const richTextItemConfig = z.object({
 	id: z.string(),
 	content: z.string(),
+	translations: translationsSchema(["content"]),
 });
 
 export type RichTextItemConfig = z.infer<typeof richTextItemConfig>;
@@ -14,3 +14,6 @@ export * from "./modules";
 export * from "./layout";
 export * from "./dimensions";
 export * from "./metadata"
+export * from "./publishing";
+export * from "./translations";
+export * from "./cache";
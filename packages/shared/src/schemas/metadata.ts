@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { localesConfigSchema } from "./translations";
 
 const appIconSchema = z.object({
 	rel: z.string(),
@@ -32,6 +33,7 @@ export const metadataSchema = z.object({
 	applicationURL: z
 		.string({ description: "Where your public portal can be found" })
 		.url(),
+	localization: localesConfigSchema.optional(),
 });
 
 export const metadataFormSchema = z.object({
@@ -56,6 +58,7 @@ export const metadataFormSchema = z.object({
 					"Application URL is not valid. Make sure it points to your running FlexiPortal installation",
 			},
 		),
+	localization: localesConfigSchema.optional(),
 });
 
 export type MetadataForm = z.infer<typeof metadataFormSchema>;
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { translationsSchema } from "../translations";
 
 export enum ModuleType {
 	VISUALIZATION = "VISUALIZATION",
@@ -13,6 +14,7 @@ export const baseModuleSchema = z.object({
 	id: z.string(),
 	type: moduleType,
 	label: z.string(),
+	translations: translationsSchema(["label"]),
 });
 
 export type BaseModule = z.infer<typeof baseModuleSchema>;
@@ -1,5 +1,6 @@
 import { baseModuleSchema, ModuleType } from "./base";
 import { z } from "zod";
+import { translationsSchema } from "../translations";
 
 export const staticItemSchema = z.object({
 	id: z.string(),
@@ -8,6 +9,7 @@ export const staticItemSchema = z.object({
 	shortDescription: z.string(),
 	sortOrder: z.number().optional(),
 	content: z.string(),
+	translations: translationsSchema(["title", "shortDescription", "content"]),
 });
 
 export type StaticItemConfig = z.infer<typeof staticItemSchema>;
@@ -15,6 +17,7 @@ export type StaticItemConfig = z.infer<typeof staticItemSchema>;
 export const staticModuleConfigSchema = z.object({
 	namespace: z.string(),
 	title: z.string(),
+	translations: translationsSchema(["title"]),
 });
 
 export type StaticModuleConfig = z.infer<typeof staticModuleConfigSchema>;
@@ -0,0 +1,30 @@
+import { z } from "zod";
+
+/*
+ * Entries of a namespace, by key
+ * */
+const namespaceEntriesSchema = z.record(z.string(), z.unknown());
+
+export const portalSnapshotSchema = z.object({
+	version: z.number().int().min(1),
+	description: z.string().optional(),
+	publishedAt: z.string().datetime(),
+	publishedBy: z.string().optional(),
+	/*
+	 * Set when the snapshot was published by rolling back to an earlier version
+	 * */
+	rollbackOf: z.number().int().optional(),
+	/*
+	 * Set while the snapshot is copied into the live namespaces. It stays set when copying failed part way,
+	 * the live portal then mixes this version with the previous one until it is published again or rolled back.
+	 * */
+	partial: z.boolean().optional(),
+	/*
+	 * The published entries of each live namespace, including the namespaces of the static module items
+	 * */
+	data: z.record(z.string(), namespaceEntriesSchema),
+});
+
+export type PortalSnapshot = z.infer<typeof portalSnapshotSchema>;
+
+export type PortalSnapshotSummary = Omit<PortalSnapshot, "data">;
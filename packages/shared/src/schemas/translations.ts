@@ -0,0 +1,33 @@
+import { z } from "zod";
+
+/*
+ * Locale codes such as `en`, `fr` or `pt-BR`
+ * */
+export const localeSchema = z
+	.string()
+	.regex(/^[a-z]{2,3}(-[A-Z]{2})?$/, { message: "Invalid locale code" });
+
+export type Translations<Field extends string = string> = Record<
+	string,
+	Partial<Record<Field, string>>
+>;
+
+/**
+ * Per-locale overrides of the translatable fields of a config, keyed by locale code,
+ * e.g. `{ fr: { label: "Accueil" } }`. Fields without an override use the default text.
+ */
+export function translationsSchema<Field extends string>(
+	fields: readonly [Field, ...Field[]],
+) {
+	const shape = Object.fromEntries(
+		fields.map((field) => [field, z.string().optional()]),
+	) as Record<Field, z.ZodOptional<z.ZodString>>;
+	return z.record(localeSchema, z.object(shape)).optional();
+}
+
+export const localesConfigSchema = z.object({
+	defaultLocale: localeSchema,
+	locales: z.array(localeSchema).min(1),
+});
+
+export type LocalesConfig = z.infer<typeof localesConfigSchema>;
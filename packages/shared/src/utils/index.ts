@@ -4,4 +4,5 @@ export * from "./colors";
 export * from "./legends";
 export * from "./numbers";
 export * from "./orgUnits";
-export * from "./table";
\ No newline at end of file
+export * from "./table";
+export * from "./translations";
\ No newline at end of file
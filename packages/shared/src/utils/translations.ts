@@ -0,0 +1,53 @@
+import { isPlainObject } from "lodash";
+import type { Translations } from "../schemas/translations";
+
+/*
+ * `pt-BR` falls back to `pt` when there is no override for the full locale code
+ * */
+export function getLocaleFallbacks(locale: string): string[] {
+	const [language] = locale.split("-");
+	return language && language !== locale ? [locale, language] : [locale];
+}
+
+function getOverrides(
+	translations: Translations,
+	locale: string,
+): Record<string, string> {
+	const overrides: Record<string, string> = {};
+	for (const code of getLocaleFallbacks(locale).reverse()) {
+		for (const [field, text] of Object.entries(translations[code] ?? {})) {
+			if (text) {
+				overrides[field] = text;
+			}
+		}
+	}
+	return overrides;
+}
+
+/**
+ * Returns a copy of the config with every translatable field, at any depth, replaced by its
+ * translation in the given locale. Fields without a translation keep their default text.
+ */
+export function translate<T>(value: T, locale?: string): T {
+	if (!locale) {
+		return value;
+	}
+	if (Array.isArray(value)) {
+		return value.map((item) => translate(item, locale)) as T;
+	}
+	if (!isPlainObject(value)) {
+		return value;
+	}
+	const translated: Record<string, unknown> = {};
+	for (const [key, child] of Object.entries(value as object)) {
+		translated[key] = translate(child, locale);
+	}
+	const translations = (value as { translations?: unknown }).translations;
+	if (isPlainObject(translations)) {
+		Object.assign(
+			translated,
+			getOverrides(translations as Translations, locale),
+		);
+	}
+	return translated as T;
+}
@@ -7,8 +7,11 @@ import { apiDoc } from './openapi'
 import path, { dirname } from 'path'
 import swagger from 'swagger-ui-express'
 import { fileURLToPath } from 'url'
-import { connectRabbit } from '@/rabbit/connection'
-import logger from '@/logging'
+import { getBroker } from '@/broker'
+import logger, { addJsonLogFile } from '@/logging'
+import { startScheduler } from '@/services/scheduler'
+import { isAuthEnabled, securityHandlers } from '@/services/auth'
+import { handleMetricsRequest } from '@/services/metricsServer'
 
 interface HttpError extends Error {
     status?: number
@@ -23,10 +26,17 @@ interface ErrorResponse {
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = dirname(__filename)
 
+addJsonLogFile('api')
+
 const app = express()
-app.use(express.json())
+app.use(express.json({ limit: env.DATA_SERVICE_MAX_BODY_SIZE ?? '20mb' }))
 
 logger.info(`Initializing FlexiPortal Data Service`)
+if (!isAuthEnabled()) {
+    logger.warn(
+        `DATA_SERVICE_API_KEYS is not set, the routes of the data service are not protected`
+    )
+}
 await initialize({
     app,
     apiDoc: apiDoc,
@@ -36,8 +46,10 @@ await initialize({
     routesGlob: '**/*.{ts,js,mjs}',
     routesIndexFileRegExp: /(?:index)?\.(m?[tj]s)$/,
     docsPath: `/openapi`,
+    securityHandlers,
 })
 
+app.get('/metrics', handleMetricsRequest)
 app.get('/', (req, res) => {
     res.send(
         'Hello, Welcome to the DHIS2 Flexiportal Data Service!, Navigate to /docs to view documentation on usage and endpoints'
@@ -74,7 +86,8 @@ app.use(
     }
 )
 app.listen(env.DATA_SERVICE_PORT, async () => {
-    await connectRabbit()
+    await getBroker().connect()
+    await startScheduler()
     console.log(
         `DHIS2 Data service is running and listening on http://localhost:${env.DATA_SERVICE_PORT}`
     )
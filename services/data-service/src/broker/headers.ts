@@ -0,0 +1,54 @@
+import { DeadLetterInfo, QueueHeaders } from "./types";
+
+export const DEATH_HEADER = "x-death";
+
+/*
+ * Entry of the `x-death` header, in the shape RabbitMQ gives it so that failed messages read the same on every broker
+ * */
+export interface DeathEntry {
+	queue: string;
+	reason: string;
+	count: number;
+	time?: number;
+}
+
+export function getDeadLetter(
+	headers: QueueHeaders,
+): DeadLetterInfo | undefined {
+	const xDeath = headers[DEATH_HEADER];
+	if (!Array.isArray(xDeath) || xDeath.length === 0) {
+		return undefined;
+	}
+	const { queue, reason, count, time }: DeathEntry = xDeath[0];
+	return {
+		queue,
+		reason,
+		count,
+		time: time ? new Date(time * 1000).toISOString() : undefined,
+	};
+}
+
+/*
+ * Adds the source queue to the x-death header the way RabbitMQ does: the count of a queue and reason goes up and its entry moves first
+ * */
+export function addDeath(
+	headers: QueueHeaders,
+	queue: string,
+	reason: string,
+): DeathEntry[] {
+	const deaths: DeathEntry[] = Array.isArray(headers[DEATH_HEADER])
+		? headers[DEATH_HEADER]
+		: [];
+	const previous = deaths.find(
+		(death) => death.queue === queue && death.reason === reason,
+	);
+	return [
+		{
+			queue,
+			reason,
+			count: (previous?.count ?? 0) + 1,
+			time: Math.floor(Date.now() / 1000),
+		},
+		...deaths.filter((death) => death !== previous),
+	];
+}
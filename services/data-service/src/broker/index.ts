@@ -0,0 +1,13 @@
+import { env } from "@/env";
+import { rabbitBroker } from "./rabbitmq";
+import { sqliteBroker } from "./sqlite";
+import { QueueBroker } from "./types";
+
+export * from "./types";
+
+/**
+ * Queue broker of the data service and its worker, selected with `QUEUE_BROKER`. RabbitMQ is used unless it is set to `sqlite`.
+ */
+export function getBroker(): QueueBroker {
+	return env.QUEUE_BROKER === "sqlite" ? sqliteBroker : rabbitBroker;
+}
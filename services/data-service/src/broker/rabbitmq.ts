@@ -0,0 +1,282 @@
+import axios from "axios";
+import { Channel } from "amqplib";
+import { v4 } from "uuid";
+import { env } from "@/env";
+import logger from "@/logging";
+import { connectRabbit, getChannel, getConnection } from "@/rabbit/connection";
+import { REFRESH_EXCHANGE } from "@/rabbit/constants";
+import { addDeath, DEATH_HEADER, getDeadLetter } from "./headers";
+import { QueueBroker, QueuedMessage } from "./types";
+
+/*
+ * Messages larger than this are truncated by the management API when they are read
+ * */
+const MAX_MESSAGE_SIZE = 50000;
+
+/*
+ * Single messages are looked up among the first messages of a queue
+ * */
+const MESSAGE_LOOKUP_COUNT = 100;
+
+interface ManagementMessage {
+	payload: string;
+	properties?: {
+		message_id?: string;
+		headers?: Record<string, any>;
+	};
+}
+
+/*
+ * Delay queues are deleted by RabbitMQ once they have not been used for this long after their delay
+ * */
+const DELAY_QUEUE_EXPIRY = 60 * 1000;
+
+const consumerChannels = new Map<string, Channel>();
+const deadLetterQueues = new Map<string, string>();
+const consumedQueues = new Set<string>();
+
+function getManagementApi() {
+	const vhost = encodeURIComponent(env.RABBITMQ_VHOST || "/");
+	return axios.create({
+		baseURL: `${env.RABBITMQ_HOST || "http://localhost:15672"}/api/queues/${vhost}`,
+		auth: {
+			username: env.RABBITMQ_USER || "guest",
+			password: env.RABBITMQ_PASS || "guest",
+		},
+	});
+}
+
+function toQueuedMessage(
+	message: ManagementMessage,
+	index: number,
+): QueuedMessage {
+	const headers = message.properties?.headers ?? {};
+	return {
+		messageId: message.properties?.message_id || `msg-${index + 1}`,
+		content: message.payload,
+		headers,
+		deadLetter: getDeadLetter(headers),
+	};
+}
+
+async function getMessages(
+	queue: string,
+	count: number,
+	requeue: boolean,
+): Promise<QueuedMessage[]> {
+	const { data } = await getManagementApi().post<ManagementMessage[]>(
+		`${queue}/get`,
+		{
+			count,
+			ackmode: requeue ? "ack_requeue_true" : "ack_requeue_false",
+			encoding: "auto",
+			truncate: MAX_MESSAGE_SIZE,
+		},
+	);
+	return (data ?? []).map(toQueuedMessage);
+}
+
+async function getConsumerChannel(group: string, prefetch: number) {
+	const existing = consumerChannels.get(group);
+	if (existing) {
+		return existing;
+	}
+	const channel = await getConnection().createChannel();
+	await channel.prefetch(prefetch);
+	consumerChannels.set(group, channel);
+	return channel;
+}
+
+/**
+ * Queues of a RabbitMQ server. Messages are read through the management API, configured with `RABBITMQ_HOST`,
+ * `RABBITMQ_USER` and `RABBITMQ_PASS`.
+ */
+export const rabbitBroker: QueueBroker = {
+	name: "rabbitmq",
+
+	async connect(onClose) {
+		await connectRabbit();
+		const connection = getConnection();
+		consumerChannels.clear();
+		consumedQueues.clear();
+		if (onClose) {
+			connection.on("close", onClose);
+		}
+	},
+
+	async assertQueues(queues, deadLetterQueue) {
+		const channel = getChannel();
+		await channel.assertQueue(deadLetterQueue, { durable: true });
+		for (const queue of queues) {
+			deadLetterQueues.set(queue, deadLetterQueue);
+			await channel.assertQueue(queue, {
+				durable: true,
+				arguments: {
+					"x-dead-letter-exchange": "",
+					"x-dead-letter-routing-key": deadLetterQueue,
+				},
+			});
+		}
+	},
+
+	async publish(queue, content, { headers, messageId } = {}) {
+		getChannel().sendToQueue(queue, Buffer.from(content), {
+			persistent: true,
+			headers,
+			messageId: messageId ?? v4(),
+		});
+	},
+
+	async publishDelayed(queue, content, delay, { headers, messageId } = {}) {
+		// One queue per delay, messages expire in the order they were queued and go back to `queue`
+		const channel = getChannel();
+		const delayQueue = `${queue}-delay-${delay}`;
+		await channel.assertQueue(delayQueue, {
+			durable: true,
+			arguments: {
+				"x-message-ttl": delay,
+				"x-dead-letter-exchange": "",
+				"x-dead-letter-routing-key": queue,
+				"x-expires": delay + DELAY_QUEUE_EXPIRY,
+			},
+		});
+		channel.sendToQueue(delayQueue, Buffer.from(content), {
+			persistent: true,
+			headers,
+			messageId: messageId ?? v4(),
+		});
+	},
+
+	async consume(queue, handler, { group, prefetch }) {
+		if (consumedQueues.has(queue)) {
+			return;
+		}
+		const channel = await getConsumerChannel(group, prefetch);
+		await channel.consume(queue, async (msg) => {
+			if (!msg) {
+				return;
+			}
+			await handler({
+				messageId: msg.properties.messageId,
+				content: msg.content.toString(),
+				headers: msg.properties.headers ?? {},
+				ack: () => channel.ack(msg),
+				requeue: () => channel.nack(msg, false, true),
+				deadLetter: (failureHeaders) => {
+					const deadLetterQueue = deadLetterQueues.get(queue);
+					if (!deadLetterQueue) {
+						channel.nack(msg, false, false);
+						return;
+					}
+					// Republished rather than rejected, RabbitMQ would drop the failure headers when dead-lettering
+					const headers = {
+						...msg.properties.headers,
+						...failureHeaders,
+					};
+					channel.sendToQueue(deadLetterQueue, msg.content, {
+						persistent: true,
+						messageId: msg.properties.messageId,
+						headers: {
+							...headers,
+							[DEATH_HEADER]: addDeath(
+								headers,
+								queue,
+								"rejected",
+							),
+						},
+					});
+					channel.ack(msg);
+				},
+			});
+		});
+		consumedQueues.add(queue);
+	},
+
+	async getQueueStats(queue) {
+		const { data } = await getManagementApi().get(queue);
+		return {
+			messages: data.messages ?? 0,
+			messagesReady: data.messages_ready ?? 0,
+			messagesUnacknowledged: data.messages_unacknowledged ?? 0,
+		};
+	},
+
+	async countMessages(queue) {
+		const { messageCount } = await getChannel().checkQueue(queue);
+		return messageCount;
+	},
+
+	async peekMessages(queue, count) {
+		return getMessages(queue, count, true);
+	},
+
+	async takeMessages(queue, count) {
+		return getMessages(queue, count, false);
+	},
+
+	async takeMessage(queue, messageId) {
+		const messages = await getMessages(queue, MESSAGE_LOOKUP_COUNT, true);
+		const index = messages.findIndex(
+			(message) => message.messageId === messageId,
+		);
+		if (index === -1) {
+			return undefined;
+		}
+		// The management API can only take messages from the head of the queue, the ones before the target go back to its tail
+		const taken = await getMessages(queue, index + 1, false);
+		const target = taken.pop();
+		for (const message of taken) {
+			await rabbitBroker.publish(queue, message.content, {
+				headers: message.headers,
+				messageId: message.messageId,
+			});
+		}
+		return target;
+	},
+
+	async purgeQueue(queue) {
+		const { messageCount } = await getChannel().purgeQueue(queue);
+		return messageCount;
+	},
+
+	async deleteQueue(queue) {
+		const { messageCount } = await getChannel().deleteQueue(queue);
+		return messageCount;
+	},
+
+	async publishRefresh(configId) {
+		const channel = getChannel();
+		await channel.assertExchange(REFRESH_EXCHANGE, "fanout", {
+			durable: true,
+		});
+		channel.publish(
+			REFRESH_EXCHANGE,
+			REFRESH_EXCHANGE,
+			Buffer.from(JSON.stringify({ configId })),
+		);
+	},
+
+	async onRefresh(listener) {
+		const channel = await getConnection().createChannel();
+		await channel.assertExchange(REFRESH_EXCHANGE, "fanout", {
+			durable: true,
+		});
+		const { queue } = await channel.assertQueue("");
+		await channel.bindQueue(queue, REFRESH_EXCHANGE, "");
+		await channel.consume(queue, async (msg) => {
+			if (!msg) {
+				return;
+			}
+			const { configId } = JSON.parse(msg.content.toString());
+			channel.ack(msg);
+			try {
+				await listener(configId);
+			} catch (error) {
+				logger.error(
+					`Failed to refresh the consumers for ${configId}`,
+					error,
+				);
+			}
+		});
+	},
+};
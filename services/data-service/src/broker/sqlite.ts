@@ -0,0 +1,425 @@
+import { Database } from "bun:sqlite";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { v4 } from "uuid";
+import logger from "@/logging";
+import { addDeath, DEATH_HEADER, getDeadLetter } from "./headers";
+import {
+	ConsumedMessage,
+	QueueBroker,
+	QueuedMessage,
+	QueueHeaders,
+} from "./types";
+
+const queuesPath = `queues`;
+const databaseFile = path.join(queuesPath, "queues.sqlite");
+
+/*
+ * The worker looks for new messages and refreshes every second
+ * */
+const POLL_INTERVAL = 1000;
+
+enum MessageStatus {
+	READY = "ready",
+	UNACKED = "unacked",
+}
+
+interface MessageRow {
+	id: number;
+	message_id: string;
+	queue: string;
+	content: string;
+	headers: string;
+	status: MessageStatus;
+}
+
+interface Consumer {
+	group: string;
+	handler: (message: ConsumedMessage) => Promise<void>;
+}
+
+let database: Database | undefined;
+let pollTimer: ReturnType<typeof setInterval> | undefined;
+let lastRefreshId = 0;
+const consumers = new Map<string, Consumer>();
+const groups = new Map<string, { prefetch: number; inFlight: number }>();
+const refreshListeners: ((configId: string) => Promise<void>)[] = [];
+
+function getDatabase(): Database {
+	if (database) {
+		return database;
+	}
+	fs.mkdirSync(queuesPath, { recursive: true });
+	database = new Database(databaseFile, { create: true });
+	database.exec("PRAGMA journal_mode = WAL;");
+	database.exec("PRAGMA busy_timeout = 5000;");
+	database.exec(`
+		CREATE TABLE IF NOT EXISTS queues (
+			name TEXT PRIMARY KEY,
+			dead_letter_queue TEXT
+		);
+		CREATE TABLE IF NOT EXISTS messages (
+			id INTEGER PRIMARY KEY AUTOINCREMENT,
+			message_id TEXT NOT NULL,
+			queue TEXT NOT NULL,
+			content TEXT NOT NULL,
+			headers TEXT NOT NULL,
+			status TEXT NOT NULL,
+			created_at TEXT NOT NULL
+		);
+		CREATE INDEX IF NOT EXISTS messages_queue ON messages (queue, status, id);
+		CREATE TABLE IF NOT EXISTS delayed_messages (
+			id INTEGER PRIMARY KEY AUTOINCREMENT,
+			message_id TEXT NOT NULL,
+			queue TEXT NOT NULL,
+			content TEXT NOT NULL,
+			headers TEXT NOT NULL,
+			available_at INTEGER NOT NULL
+		);
+		CREATE INDEX IF NOT EXISTS delayed_messages_available_at ON delayed_messages (available_at);
+		CREATE TABLE IF NOT EXISTS refreshes (
+			id INTEGER PRIMARY KEY AUTOINCREMENT,
+			config_id TEXT NOT NULL,
+			created_at TEXT NOT NULL
+		);
+	`);
+	return database;
+}
+
+function toQueuedMessage(row: MessageRow): QueuedMessage {
+	const headers = JSON.parse(row.headers);
+	return {
+		messageId: row.message_id,
+		content: row.content,
+		headers,
+		deadLetter: getDeadLetter(headers),
+	};
+}
+
+function insertMessage(
+	queue: string,
+	content: string,
+	headers: QueueHeaders,
+	messageId: string,
+) {
+	getDatabase()
+		.query(
+			`INSERT INTO messages (message_id, queue, content, headers, status, created_at) VALUES (?, ?, ?, ?, ?, ?)`,
+		)
+		.run(
+			messageId,
+			queue,
+			content,
+			JSON.stringify(headers),
+			MessageStatus.READY,
+			new Date().toISOString(),
+		);
+}
+
+function deadLetterMessage(row: MessageRow, failureHeaders: QueueHeaders) {
+	const db = getDatabase();
+	db.transaction(() => {
+		db.query(`DELETE FROM messages WHERE id = ?`).run(row.id);
+		const queue = db
+			.query<{ dead_letter_queue: string | null }, [string]>(
+				`SELECT dead_letter_queue FROM queues WHERE name = ?`,
+			)
+			.get(row.queue);
+		if (!queue?.dead_letter_queue) {
+			return;
+		}
+		const headers = { ...JSON.parse(row.headers), ...failureHeaders };
+		insertMessage(
+			queue.dead_letter_queue,
+			row.content,
+			{
+				...headers,
+				[DEATH_HEADER]: addDeath(headers, row.queue, "rejected"),
+			},
+			row.message_id,
+		);
+	})();
+}
+
+async function deliver(row: MessageRow, consumer: Consumer) {
+	const db = getDatabase();
+	const group = groups.get(consumer.group)!;
+	let settled = false;
+	const settle = (action: () => void) => () => {
+		if (settled) {
+			return;
+		}
+		settled = true;
+		action();
+	};
+	const requeue = settle(() =>
+		db
+			.query(`UPDATE messages SET status = ? WHERE id = ?`)
+			.run(MessageStatus.READY, row.id),
+	);
+	try {
+		await consumer.handler({
+			messageId: row.message_id,
+			content: row.content,
+			headers: JSON.parse(row.headers),
+			ack: settle(() =>
+				db.query(`DELETE FROM messages WHERE id = ?`).run(row.id),
+			),
+			requeue,
+			deadLetter: (headers) =>
+				settle(() => deadLetterMessage(row, headers))(),
+		});
+	} catch (error) {
+		logger.error(`Failed to process a message of ${row.queue}`, error);
+		requeue();
+	} finally {
+		group.inFlight--;
+	}
+}
+
+function pollRefreshes() {
+	if (refreshListeners.length === 0) {
+		return;
+	}
+	const db = getDatabase();
+	const refreshes = db
+		.query<{ id: number; config_id: string }, [number]>(
+			`SELECT id, config_id FROM refreshes WHERE id > ? ORDER BY id`,
+		)
+		.all(lastRefreshId);
+	if (refreshes.length === 0) {
+		return;
+	}
+	lastRefreshId = refreshes[refreshes.length - 1].id;
+	db.query(`DELETE FROM refreshes WHERE id <= ?`).run(lastRefreshId);
+	for (const { config_id } of refreshes) {
+		for (const listener of refreshListeners) {
+			listener(config_id).catch((error) =>
+				logger.error(
+					`Failed to refresh the consumers for ${config_id}`,
+					error,
+				),
+			);
+		}
+	}
+}
+
+/*
+ * Delayed messages join their queue once their delay has passed
+ * */
+function releaseDelayedMessages() {
+	const db = getDatabase();
+	db.transaction(() => {
+		const rows = db
+			.query<Omit<MessageRow, "status">, [number]>(
+				`DELETE FROM delayed_messages WHERE available_at <= ? RETURNING *`,
+			)
+			.all(Date.now())
+			.sort((a, b) => a.id - b.id);
+		for (const row of rows) {
+			insertMessage(
+				row.queue,
+				row.content,
+				JSON.parse(row.headers),
+				row.message_id,
+			);
+		}
+	})();
+}
+
+function pollMessages() {
+	const db = getDatabase();
+	for (const [queue, consumer] of consumers) {
+		const group = groups.get(consumer.group)!;
+		const available = group.prefetch - group.inFlight;
+		if (available <= 0) {
+			continue;
+		}
+		const rows = db
+			.query<MessageRow, [string, string, MessageStatus, number]>(
+				`UPDATE messages SET status = ? WHERE id IN (SELECT id FROM messages WHERE queue = ? AND status = ? ORDER BY id LIMIT ?) RETURNING *`,
+			)
+			.all(MessageStatus.UNACKED, queue, MessageStatus.READY, available)
+			.sort((a, b) => a.id - b.id);
+		group.inFlight += rows.length;
+		for (const row of rows) {
+			void deliver(row, consumer);
+		}
+	}
+}
+
+function startPolling() {
+	if (pollTimer) {
+		return;
+	}
+	pollTimer = setInterval(() => {
+		try {
+			pollRefreshes();
+			releaseDelayedMessages();
+			pollMessages();
+		} catch (error) {
+			logger.error("Failed to poll the queue database", error);
+		}
+	}, POLL_INTERVAL);
+}
+
+function selectMessages(sql: string, ...params: (string | number)[]) {
+	return getDatabase()
+		.query<MessageRow, (string | number)[]>(sql)
+		.all(...params)
+		.sort((a, b) => a.id - b.id)
+		.map(toQueuedMessage);
+}
+
+/**
+ * Queues kept in a SQLite database shared by the data service and its worker, for deployments without RabbitMQ.
+ * Only one worker can consume the queues of a database.
+ */
+export const sqliteBroker: QueueBroker = {
+	name: "sqlite",
+
+	async connect() {
+		getDatabase();
+	},
+
+	async assertQueues(queues, deadLetterQueue) {
+		const db = getDatabase();
+		const upsert = db.query(
+			`INSERT INTO queues (name, dead_letter_queue) VALUES (?, ?) ON CONFLICT (name) DO UPDATE SET dead_letter_queue = excluded.dead_letter_queue`,
+		);
+		db.transaction(() => {
+			upsert.run(deadLetterQueue, null);
+			for (const queue of queues) {
+				upsert.run(queue, deadLetterQueue);
+			}
+		})();
+	},
+
+	async publish(queue, content, { headers = {}, messageId = v4() } = {}) {
+		insertMessage(queue, content, headers, messageId);
+	},
+
+	async publishDelayed(
+		queue,
+		content,
+		delay,
+		{ headers = {}, messageId = v4() } = {},
+	) {
+		getDatabase()
+			.query(
+				`INSERT INTO delayed_messages (message_id, queue, content, headers, available_at) VALUES (?, ?, ?, ?, ?)`,
+			)
+			.run(
+				messageId,
+				queue,
+				content,
+				JSON.stringify(headers),
+				Date.now() + delay,
+			);
+	},
+
+	async consume(queue, handler, { group, prefetch }) {
+		if (consumers.has(queue)) {
+			return;
+		}
+		// Messages left unacknowledged by a previous worker are delivered again
+		getDatabase()
+			.query(
+				`UPDATE messages SET status = ? WHERE queue = ? AND status = ?`,
+			)
+			.run(MessageStatus.READY, queue, MessageStatus.UNACKED);
+		if (!groups.has(group)) {
+			groups.set(group, { prefetch, inFlight: 0 });
+		}
+		consumers.set(queue, { group, handler });
+		startPolling();
+	},
+
+	async getQueueStats(queue) {
+		const stats = getDatabase()
+			.query<
+				{
+					messages: number;
+					ready: number | null;
+					unacked: number | null;
+				},
+				[MessageStatus, MessageStatus, string]
+			>(
+				`SELECT COUNT(*) AS messages, SUM(status = ?) AS ready, SUM(status = ?) AS unacked FROM messages WHERE queue = ?`,
+			)
+			.get(MessageStatus.READY, MessageStatus.UNACKED, queue);
+		return {
+			messages: stats?.messages ?? 0,
+			messagesReady: stats?.ready ?? 0,
+			messagesUnacknowledged: stats?.unacked ?? 0,
+		};
+	},
+
+	async countMessages(queue) {
+		const { messagesReady } = await sqliteBroker.getQueueStats(queue);
+		return messagesReady;
+	},
+
+	async peekMessages(queue, count) {
+		return selectMessages(
+			`SELECT * FROM messages WHERE queue = ? AND status = ? ORDER BY id LIMIT ?`,
+			queue,
+			MessageStatus.READY,
+			count,
+		);
+	},
+
+	async takeMessages(queue, count) {
+		return selectMessages(
+			`DELETE FROM messages WHERE id IN (SELECT id FROM messages WHERE queue = ? AND status = ? ORDER BY id LIMIT ?) RETURNING *`,
+			queue,
+			MessageStatus.READY,
+			count,
+		);
+	},
+
+	async takeMessage(queue, messageId) {
+		const [message] = selectMessages(
+			`DELETE FROM messages WHERE id = (SELECT id FROM messages WHERE queue = ? AND status = ? AND message_id = ? ORDER BY id LIMIT 1) RETURNING *`,
+			queue,
+			MessageStatus.READY,
+			messageId,
+		);
+		return message;
+	},
+
+	async purgeQueue(queue) {
+		return getDatabase()
+			.query(`DELETE FROM messages WHERE queue = ? AND status = ?`)
+			.run(queue, MessageStatus.READY).changes;
+	},
+
+	async deleteQueue(queue) {
+		const db = getDatabase();
+		return db.transaction(() => {
+			db.query(`DELETE FROM queues WHERE name = ?`).run(queue);
+			db.query(`DELETE FROM delayed_messages WHERE queue = ?`).run(queue);
+			return db.query(`DELETE FROM messages WHERE queue = ?`).run(queue)
+				.changes;
+		})();
+	},
+
+	async publishRefresh(configId) {
+		getDatabase()
+			.query(
+				`INSERT INTO refreshes (config_id, created_at) VALUES (?, ?)`,
+			)
+			.run(configId, new Date().toISOString());
+	},
+
+	async onRefresh(listener) {
+		const latest = getDatabase()
+			.query<{ id: number | null }, []>(
+				`SELECT MAX(id) AS id FROM refreshes`,
+			)
+			.get();
+		lastRefreshId = latest?.id ?? 0;
+		refreshListeners.push(listener);
+		startPolling();
+	},
+};
@@ -0,0 +1,104 @@
+export type QueueHeaders = Record<string, any>;
+
+export interface PublishOptions {
+	headers?: QueueHeaders;
+	messageId?: string;
+}
+
+/*
+ * Dead-lettering details of a message, read from its `x-death` header
+ * */
+export interface DeadLetterInfo {
+	queue: string;
+	count: number;
+	reason: string;
+	time?: string;
+}
+
+/*
+ * A message read from a queue outside of a consumer, e.g. from the failed queue of a configuration
+ * */
+export interface QueuedMessage {
+	messageId: string;
+	content: string;
+	headers: QueueHeaders;
+	deadLetter?: DeadLetterInfo;
+}
+
+/*
+ * A message delivered to a consumer, which has to settle it exactly once
+ * */
+export interface ConsumedMessage {
+	messageId?: string;
+	content: string;
+	headers: QueueHeaders;
+	ack(): void;
+	requeue(): void;
+	/*
+	 * Moves the message to the dead letter queue of its queue, with the failure details added to its `headers`
+	 * */
+	deadLetter(headers: QueueHeaders): void;
+}
+
+export interface ConsumeOptions {
+	/*
+	 * Consumers of the same group share the number of messages processed at once
+	 * */
+	group: string;
+	prefetch: number;
+}
+
+export interface QueueStats {
+	messages: number;
+	messagesReady: number;
+	messagesUnacknowledged: number;
+}
+
+export interface QueueBroker {
+	name: string;
+	connect(onClose?: () => void): Promise<void>;
+	/*
+	 * Creates the queues if needed, dead-lettering their rejected messages to `deadLetterQueue`
+	 * */
+	assertQueues(queues: string[], deadLetterQueue: string): Promise<void>;
+	publish(
+		queue: string,
+		content: string,
+		options?: PublishOptions,
+	): Promise<void>;
+	/*
+	 * Publishes a message to `queue` once `delay` milliseconds have passed, the message is kept by the broker meanwhile
+	 * */
+	publishDelayed(
+		queue: string,
+		content: string,
+		delay: number,
+		options?: PublishOptions,
+	): Promise<void>;
+	consume(
+		queue: string,
+		handler: (message: ConsumedMessage) => Promise<void>,
+		options: ConsumeOptions,
+	): Promise<void>;
+	getQueueStats(queue: string): Promise<QueueStats>;
+	countMessages(queue: string): Promise<number>;
+	/*
+	 * Reads the first messages of a queue without removing them
+	 * */
+	peekMessages(queue: string, count: number): Promise<QueuedMessage[]>;
+	/*
+	 * Removes and returns the first messages of a queue
+	 * */
+	takeMessages(queue: string, count: number): Promise<QueuedMessage[]>;
+	takeMessage(
+		queue: string,
+		messageId: string,
+	): Promise<QueuedMessage | undefined>;
+	purgeQueue(queue: string): Promise<number>;
+	deleteQueue(queue: string): Promise<number>;
+	/*
+	 * Tells the worker to set up consumers for the queues of a new configuration
+	 * */
+	publishRefresh(configId: string): Promise<void>;
+	onRefresh(listener: (configId: string) => Promise<void>): Promise<void>;
+}
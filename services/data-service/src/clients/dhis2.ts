@@ -6,26 +6,33 @@ import { DatastoreNamespaces } from "@packages/shared/constants";
 import logger from "@/logging";
 import { uniqBy } from "lodash";
 import * as fs from "node:fs";
+import { instrumentClient } from "@/services/metrics";
 
 config();
 
-export const dhis2Client = axios.create({
-	baseURL: `${env.DHIS2_BASE_URL}/api/`,
-	headers: {
-		Accept: "application/json",
-		Authorization: `ApiToken ${env.DHIS2_PAT}`,
-	},
-});
-
-
-export function createSourceClient(routeId: string): AxiosInstance {
-	return axios.create({
-		baseURL: `${env.DHIS2_BASE_URL}/api/routes/${routeId}/run/`,
+export const dhis2Client = instrumentClient(
+	axios.create({
+		baseURL: `${env.DHIS2_BASE_URL}/api/`,
 		headers: {
 			Accept: "application/json",
 			Authorization: `ApiToken ${env.DHIS2_PAT}`,
 		},
-	});
+	}),
+	"destination",
+);
+
+
+export function createSourceClient(routeId: string): AxiosInstance {
+	return instrumentClient(
+		axios.create({
+			baseURL: `${env.DHIS2_BASE_URL}/api/routes/${routeId}/run/`,
+			headers: {
+				Accept: "application/json",
+				Authorization: `ApiToken ${env.DHIS2_PAT}`,
+			},
+		}),
+		"source",
+	);
 }
 
 export async function getSourceClientFromConfig(configId: string): Promise<AxiosInstance> {
@@ -48,13 +55,16 @@ export function createDownloadClient({
 }: {
 	config: DataServiceConfig;
 }) {
-	return axios.create({
-		baseURL: `${env.DHIS2_BASE_URL}/api/routes/${config.source.routeId}/run`,
-		headers: {
-			Accept: "application/json",
-			Authorization: `ApiToken ${env.DHIS2_PAT}`,
-		},
-	});
+	return instrumentClient(
+		axios.create({
+			baseURL: `${env.DHIS2_BASE_URL}/api/routes/${config.source.routeId}/run`,
+			headers: {
+				Accept: "application/json",
+				Authorization: `ApiToken ${env.DHIS2_PAT}`,
+			},
+		}),
+		"source",
+	);
 }
 
 export function getDHIS2ClientByPAT({
@@ -94,31 +104,11 @@ export function getDHIS2ClientByBasicAuth({
 	});
 }
 
-async function uploadWithRetry(url: string, payload: any, maxRetries: number = 3): Promise<any> {
-	for (let attempt = 1; attempt <= maxRetries; attempt++) {
-		try {
-			logger.info(`Upload attempt ${attempt}/${maxRetries}`);
-			const response = await dhis2Client.post(url, payload, {
-				headers: { "Content-Type": "application/json" },
-				timeout: 120000,
-			});
-			return response;
-		} catch (error: any) {
-			logger.warn(`Upload attempt ${attempt} failed:`, error.message);
-
-			if (attempt === maxRetries) {
-				throw error;
-			}
-			const waitTime = Math.pow(2, attempt) * 1000;
-			logger.info(`Waiting ${waitTime}ms before retry...`);
-			await new Promise(resolve => setTimeout(resolve, waitTime));
-		}
-	}
-}
-
-export async function uploadMetadataFile(filePath: string) {
-	const url =
-		"metadata?importStrategy=CREATE_AND_UPDATE&async=false&atomicMode=NONE";
+export async function uploadMetadataFile(
+	filePath: string,
+	{ dryRun }: { dryRun?: boolean } = {},
+) {
+	const url = `metadata?importStrategy=CREATE_AND_UPDATE&async=false&atomicMode=NONE${dryRun ? "&importMode=VALIDATE" : ""}`;
 
 	if (!filePath.endsWith(".json")) {
 		logger.error(`${filePath}: Only JSON files are supported.`);
@@ -133,7 +123,11 @@ export async function uploadMetadataFile(filePath: string) {
 		logger.info(`File size: ${fileSizeKB} KB`);
 
 		const payload = JSON.parse(fileContent);
-		const response = await uploadWithRetry(url, payload);
+		// Failed uploads are retried by the worker, following the retry policy of the config
+		const response = await dhis2Client.post(url, payload, {
+			headers: { "Content-Type": "application/json" },
+			timeout: 120000,
+		});
 
 		logger.info(`Upload completed Successfully`);
 		logger.info(
@@ -146,6 +140,10 @@ export async function uploadMetadataFile(filePath: string) {
 
 		return response.data;
 	} catch (error: any) {
+		if (dryRun && error.response?.status === 409 && error.response.data) {
+			logger.warn(`Validation of ${filePath} reported errors`);
+			return error.response.data;
+		}
 		const fileContent = await fs.promises.readFile(filePath, 'utf8');
 		const payload = JSON.parse(fileContent);
 
@@ -4,11 +4,28 @@ export const envSchema = z.object({
 	DHIS2_BASE_URL: z.string().url(),
 	DHIS2_PAT: z.string(),
 	DATA_SERVICE_PORT: z.string(),
+	// Maximum size of JSON request bodies, e.g. uploaded data files
+	DATA_SERVICE_MAX_BODY_SIZE: z.string().optional(),
+	// Comma separated API keys accepted in the X-API-Key header, routes are not protected when empty
+	DATA_SERVICE_API_KEYS: z.string().optional(),
+	// Check the authorities of the DHIS2 user forwarded in the X-Forwarded-User header
+	DATA_SERVICE_VERIFY_USER: z.string().optional(),
+	// Comma separated DHIS2 authorities, a user needs one of them for the routes of each permission
+	DATA_SERVICE_READ_AUTHORITIES: z.string().optional(),
+	DATA_SERVICE_RUN_AUTHORITIES: z.string().optional(),
+	DATA_SERVICE_DELETE_AUTHORITIES: z.string().optional(),
+	// Port of the /metrics endpoint of the worker, which is not served when empty
+	DATA_SERVICE_WORKER_METRICS_PORT: z.string().optional(),
+	// Format of the console and logs/log output, cli by default or json for log collectors
+	LOG_FORMAT: z.enum(["cli", "json"]).optional(),
+	// Queue broker of the data service and its worker, rabbitmq by default or sqlite for deployments without RabbitMQ
+	QUEUE_BROKER: z.enum(["rabbitmq", "sqlite"]).optional(),
 	// RabbitMQ configuration
 	RABBITMQ_URI: z.string().optional(),
 	RABBITMQ_HOST: z.string().optional(),
 	RABBITMQ_USER: z.string().optional(),
 	RABBITMQ_PASS: z.string().optional(),
+	RABBITMQ_VHOST: z.string().optional(),
 	RABBITMQ_PREFETCH_COUNT: z.string().optional(),
 });
 
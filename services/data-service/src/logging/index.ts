@@ -1,19 +1,65 @@
 import winston from "winston";
-import { config } from "dotenv";
+import { env } from "@/env";
+import { getJobContext } from "@/utils/job-context";
+
+/*
+ * The data service and its worker write and rotate their own JSON log file, rotation is not safe across processes
+ * */
+export const JSON_LOG_FILES = {
+	api: "logs/api.json",
+	worker: "logs/worker.json",
+} as const;
+
+export type LogProcess = keyof typeof JSON_LOG_FILES;
+
+/*
+ * Config, run, correlation and message ids of the job being processed, which tie a log entry to a run and a queue message
+ * */
+const jobContext = winston.format((info) => {
+	for (const [key, value] of Object.entries(getJobContext() ?? {})) {
+		if (value !== undefined && info[key] === undefined) {
+			info[key] = value;
+		}
+	}
+	return info;
+});
+
+const jsonFormat = winston.format.json();
+const outputFormat =
+	env.LOG_FORMAT === "json" ? jsonFormat : winston.format.cli({});
 
-config();
 const logger = winston.createLogger({
-	format: winston.format.cli({}),
+	format: winston.format.combine(
+		winston.format.errors({ stack: true }),
+		winston.format.timestamp(),
+		jobContext(),
+	),
 	defaultMeta: {},
 	transports: [
-		new winston.transports.Console({}),
+		new winston.transports.Console({ format: outputFormat }),
 		new winston.transports.File({
 			filename: "logs/log",
 			tailable: true,
+			format: outputFormat,
 		}),
 	],
 });
 
+/*
+ * Writes the entries of the process as JSON to its file read by the logs route, whatever the output format
+ * */
+export function addJsonLogFile(logProcess: LogProcess) {
+	logger.add(
+		new winston.transports.File({
+			filename: JSON_LOG_FILES[logProcess],
+			tailable: true,
+			maxsize: 10 * 1024 * 1024,
+			maxFiles: 5,
+			format: jsonFormat,
+		}),
+	);
+}
+
 export const streamLogger = winston.createLogger({
 	format: winston.format.cli(),
 	transports: [new winston.transports.Console({})],
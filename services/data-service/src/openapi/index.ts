@@ -1,4 +1,9 @@
 import dotenv from "dotenv";
+import {
+	DataServicePermission,
+	requirePermission,
+	securitySchemes
+} from "@/services/auth";
 
 dotenv.config();
 
@@ -18,5 +23,174 @@ export const apiDoc: any = {
 			description: "Development server"
 		}
 	],
-	paths: {}
+	paths: {},
+	/*
+	 * Routes without their own `security` only need the read permission
+	 * */
+	security: requirePermission(DataServicePermission.READ),
+	components: {
+		securitySchemes,
+		schemas: {
+			DataServiceRunStage: {
+				type: "object",
+				properties: {
+					stage: { type: "string", example: "dataUpload" },
+					queued: { type: "integer" },
+					processed: { type: "integer" },
+					failed: { type: "integer" },
+					imported: { type: "integer" },
+					updated: { type: "integer" },
+					ignored: { type: "integer" },
+					deleted: { type: "integer" }
+				}
+			},
+			DataServiceImportSummary: {
+				type: "object",
+				properties: {
+					stage: { type: "string", example: "dataUpload" },
+					reference: { type: "string", description: "The uploaded data or metadata file" },
+					status: { type: "string", example: "WARNING" },
+					imported: { type: "integer" },
+					updated: { type: "integer" },
+					ignored: { type: "integer" },
+					deleted: { type: "integer" },
+					conflicts: {
+						type: "array",
+						items: {
+							type: "object",
+							properties: {
+								object: { type: "string" },
+								value: { type: "string" },
+								errorCode: { type: "string" }
+							}
+						}
+					},
+					totalConflicts: {
+						type: "integer",
+						description: "Number of conflicts reported by the destination, only the first 100 are kept"
+					},
+					timestamp: { type: "string", format: "date-time" }
+				}
+			},
+			DataServiceSuppression: {
+				type: "object",
+				properties: {
+					dataItemsConfigId: { type: "string" },
+					dataElement: { type: "string" },
+					categoryOptionCombo: { type: "string" },
+					attributeOptionCombo: { type: "string" },
+					orgUnit: { type: "string" },
+					period: { type: "string" },
+					type: {
+						type: "string",
+						enum: ["PRIMARY", "COMPLEMENTARY"],
+						description: "COMPLEMENTARY values are suppressed so that a PRIMARY value can not be recovered from the total"
+					},
+					replacement: {
+						type: "string",
+						nullable: true,
+						description: "The uploaded value, null when the value was not uploaded"
+					}
+				}
+			},
+			DataServiceUnmappedOrgUnit: {
+				type: "object",
+				properties: {
+					dataItemsConfigId: { type: "string" },
+					orgUnit: { type: "string", description: "Source organisation unit without a mapping" },
+					valueCount: { type: "integer", description: "Number of values that were not uploaded" }
+				}
+			},
+			DataServiceOrgUnitMapping: {
+				type: "object",
+				properties: {
+					sourceId: { type: "string", description: "Organisation unit of the source" },
+					id: { type: "string", description: "Organisation unit of the destination" },
+					matchType: { type: "string", enum: ["ID", "CODE", "NAME", "MANUAL"] },
+					sourceName: { type: "string" }
+				}
+			},
+			DataServiceRun: {
+				type: "object",
+				properties: {
+					id: { type: "string" },
+					configId: { type: "string" },
+					type: { type: "string", enum: ["download", "delete", "metadata", "file"] },
+					status: {
+						type: "string",
+						enum: ["QUEUED", "RUNNING", "COMPLETED", "COMPLETED_WITH_ERRORS", "FAILED"]
+					},
+					dryRun: {
+						type: "boolean",
+						description: "Dry runs only validate the uploads against the destination"
+					},
+					dataItemsConfigIds: { type: "array", items: { type: "string" } },
+					requestedPeriods: {
+						type: "array",
+						items: { type: "string" },
+						example: ["LAST_3_MONTHS"]
+					},
+					periods: {
+						type: "object",
+						description: "Resolved period ids per data item configuration",
+						additionalProperties: { type: "array", items: { type: "string" } }
+					},
+					startedAt: { type: "string", format: "date-time" },
+					finishedAt: { type: "string", format: "date-time", nullable: true },
+					stages: {
+						type: "array",
+						items: { $ref: "#/components/schemas/DataServiceRunStage" }
+					},
+					errorCount: { type: "integer" },
+					suppressionCount: { type: "integer" },
+					unmappedOrgUnitCount: {
+						type: "integer",
+						description: "Number of organisation units whose values were not uploaded because they are not mapped"
+					},
+					errors: {
+						type: "array",
+						description: "Only included in the run details",
+						items: {
+							type: "object",
+							properties: {
+								stage: { type: "string" },
+								message: { type: "string" },
+								details: { type: "object" },
+								timestamp: { type: "string", format: "date-time" }
+							}
+						}
+					},
+					importSummaries: {
+						type: "array",
+						description: "Only included in the run details",
+						items: { $ref: "#/components/schemas/DataServiceImportSummary" }
+					},
+					suppressions: {
+						type: "array",
+						description: "Only included in the run details, only the first 1000 are returned",
+						items: { $ref: "#/components/schemas/DataServiceSuppression" }
+					},
+					unmappedOrgUnits: {
+						type: "array",
+						description: "Only included in the run details, only the 1000 organisation units with the most values are returned",
+						items: { $ref: "#/components/schemas/DataServiceUnmappedOrgUnit" }
+					}
+				}
+			},
+			DataServiceLogEntry: {
+				type: "object",
+				properties: {
+					timestamp: { type: "string" },
+					level: { type: "string" },
+					message: { type: "string" },
+					configId: { type: "string" },
+					queueType: { type: "string", description: "Queue of the message being processed" },
+					runId: { type: "string" },
+					correlationId: { type: "string", description: "Shared by the messages queued from one download" },
+					messageId: { type: "string", description: "Queue message being processed" },
+					stack: { type: "string" }
+				}
+			}
+		}
+	}
 };
@@ -1,6 +1,10 @@
 import logger from "@/logging";
-import { getChannel, getWorkerPublishChannel } from "./connection";
+import { getBroker } from "@/broker";
 import { getQueueNames, QueueType } from "../variables/queue-names";
+import { recordJobQueued, recordJobUnqueued } from "@/services/runs";
+import { messagesPublished } from "@/services/metrics";
+import { CORRELATION_ID_HEADER, getJobContext } from "@/utils/job-context";
+import { v4 } from "uuid";
 
 export async function pushToQueue(
     configId: string,
@@ -8,11 +12,6 @@ export async function pushToQueue(
     jobData: any,
     error?: any
 ) {
-    const currentChannel = getChannel();
-    if (!currentChannel) {
-        throw new Error("Channel not initialized");
-    }
-
     const queueNames = getQueueNames(configId);
     const queueName = queueNames[queueType];
 
@@ -31,11 +30,20 @@ export async function pushToQueue(
         // })
     };
 
-    const messageBuffer = Buffer.from(JSON.stringify(messageData));
+    // Jobs queued outside of a download or a message start their own correlation
+    const correlationId = getJobContext()?.correlationId ?? v4();
+    // Counted before publishing, the worker can process the job before publish resolves
+    recordJobQueued(jobData.runId, queueType);
+    try {
+        await getBroker().publish(queueName, JSON.stringify(messageData), {
+            headers: { [CORRELATION_ID_HEADER]: correlationId },
+        });
+    } catch (error) {
+        recordJobUnqueued(jobData.runId, queueType);
+        throw error;
+    }
 
-    currentChannel.sendToQueue(queueName, messageBuffer, {
-        persistent: true,
-    });
+    messagesPublished.inc({ config_id: configId, queue_type: queueType });
 
     logger.info(`Message pushed to ${queueType} queue: ${queueName}`);
 }
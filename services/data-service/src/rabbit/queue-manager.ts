@@ -1,35 +1,18 @@
 import logger from "@/logging";
-import { getChannel } from "./connection";
+import { getBroker } from "@/broker";
 import { DatastoreNamespaces } from "@packages/shared/constants";
 import { dhis2Client } from "@/clients/dhis2";
 import { DataServiceConfig } from "@packages/shared/schemas";
 import { getQueueNames } from "@/variables/queue-names";
-import { REFRESH_EXCHANGE } from "@/rabbit/constants";
 
 /**
  * Creates all required queues for a specific config
  */
 export async function createQueuesForConfig(configId: string) {
-	const currentChannel = getChannel();
-	if (!currentChannel) {
-		throw new Error("Channel not initialized");
-	}
-
+	const broker = getBroker();
 	const queueNames = getQueueNames(configId);
 	logger.info(`Creating queues for configId: ${configId}`);
-	const queueOptions = {
-		durable: true,
-		arguments: {
-			"x-dead-letter-exchange": "",
-			"x-dead-letter-routing-key": queueNames.failed,
-		},
-	};
 
-	// Create failed queue first (no DLX routing to avoid circular reference)
-	await currentChannel.assertQueue(queueNames.failed, { durable: true });
-	logger.info(`Created queue: ${queueNames.failed}`);
-
-	// Create all other queues with failed queue as DLX
 	const queuesToCreate = [
 		{ name: queueNames.metadataDownload, description: "Metadata Download" },
 		{ name: queueNames.metadataUpload, description: "Metadata Upload" },
@@ -38,22 +21,20 @@ export async function createQueuesForConfig(configId: string) {
 		{ name: queueNames.dataDeletion, description: "Data Deletion" },
 	];
 
+	// Failed messages of all the other queues are dead-lettered to the failed queue
+	await broker.assertQueues(
+		queuesToCreate.map(({ name }) => name),
+		queueNames.failed,
+	);
+	logger.info(`Created queue: ${queueNames.failed}`);
 	for (const queue of queuesToCreate) {
-		await currentChannel.assertQueue(queue.name, queueOptions);
 		logger.info(`Created queue: ${queue.name} (${queue.description})`);
 	}
 	logger.info(`All queues created successfully for configId: ${configId}`);
 	logger.info(
 		`Restarting worker to setup consumers for new configuration: ${configId}`,
 	);
-	await currentChannel.assertExchange(REFRESH_EXCHANGE, "fanout", {
-		durable: true,
-	});
-	currentChannel.publish(
-		REFRESH_EXCHANGE,
-		REFRESH_EXCHANGE,
-		Buffer.from(JSON.stringify({ configId })),
-	);
+	await broker.publishRefresh(configId);
 	logger.info(
 		`Worker restarted successfully. Configuration ${configId} is ready for processing.`,
 	);
@@ -134,11 +115,7 @@ export async function initializeAllQueuesFromDatastore() {
  * Purge all queues for a specific config
  */
 export async function purgeConfigQueues(configId: string) {
-	const currentChannel = getChannel();
-	if (!currentChannel) {
-		throw new Error("Channel not initialized");
-	}
-
+	const broker = getBroker();
 	const queueNames = getQueueNames(configId);
 	const results: Record<string, any> = {};
 
@@ -155,15 +132,13 @@ export async function purgeConfigQueues(configId: string) {
 
 	for (const queue of queuesToPurge) {
 		try {
-			const purgeResult = await currentChannel.purgeQueue(queue.name);
+			const messageCount = await broker.purgeQueue(queue.name);
 			results[queue.key] = {
 				name: queue.name,
 				purged: true,
-				messageCount: purgeResult.messageCount,
+				messageCount,
 			};
-			logger.info(
-				`Purged queue ${queue.name}: ${purgeResult.messageCount} messages`,
-			);
+			logger.info(`Purged queue ${queue.name}: ${messageCount} messages`);
 		} catch (error) {
 			results[queue.key] = {
 				name: queue.name,
@@ -187,11 +162,7 @@ export async function purgeConfigQueues(configId: string) {
  * Delete all queues for a specific config
  */
 export async function deleteConfigQueues(configId: string) {
-	const currentChannel = getChannel();
-	if (!currentChannel) {
-		throw new Error("Channel not initialized");
-	}
-
+	const broker = getBroker();
 	const queueNames = getQueueNames(configId);
 	const results: Record<string, any> = {};
 
@@ -206,14 +177,14 @@ export async function deleteConfigQueues(configId: string) {
 
 	for (const queue of queuesToDelete) {
 		try {
-			const deleteResult = await currentChannel.deleteQueue(queue.name);
+			const messageCount = await broker.deleteQueue(queue.name);
 			results[queue.key] = {
 				name: queue.name,
 				deleted: true,
-				messageCount: deleteResult.messageCount,
+				messageCount,
 			};
 			logger.info(
-				`Deleted queue ${queue.name}: ${deleteResult.messageCount} messages removed`,
+				`Deleted queue ${queue.name}: ${messageCount} messages removed`,
 			);
 		} catch (error) {
 			results[queue.key] = {
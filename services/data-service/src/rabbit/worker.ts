@@ -1,23 +1,47 @@
 #!/usr/bin/env node
 
-import { Channel, ChannelModel } from "amqplib";
 import figlet from "figlet";
-import logger from "@/logging";
-import { connectRabbit, getConnection } from "./connection";
+import logger, { addJsonLogFile } from "@/logging";
+import { ConsumedMessage, getBroker, QueueHeaders } from "@/broker";
 import { dataFromQueue } from "@/services/data-migration/data-upload";
 import { uploadMetadataFromQueue } from "@/services/metadata-migration/metadata-upload";
 import { downloadAndQueueMetadata } from "@/services/metadata-migration/metadata-download";
-import { getQueueNames } from "@/variables/queue-names";
+import { getQueueNames, QueueType } from "@/variables/queue-names";
 import { DatastoreNamespaces } from "@packages/shared/constants";
 import { dhis2Client } from "@/clients/dhis2";
 import axios from "axios";
 import { downloadData } from "@/services/data-migration/data-download";
-import { REFRESH_EXCHANGE } from "@/rabbit/constants";
+import { recordJobFailed, recordJobProcessed } from "@/services/runs";
+import { notifyFailedQueueThreshold } from "@/services/notifications";
+import {
+	messageDuration,
+	messagesAcked,
+	messagesConsumed,
+	messagesDeadLettered,
+	messagesRetried,
+} from "@/services/metrics";
+import { startMetricsServer } from "@/services/metricsServer";
+import {
+	ATTEMPTS_HEADER,
+	Attempt,
+	countAttempts,
+	getAttempts,
+	getBackoffDelay,
+	getErrorStatus,
+	getRetryPolicy,
+	isRetryable,
+} from "@/services/retries";
+import {
+	CORRELATION_ID_HEADER,
+	JobContext,
+	runInJobContext,
+} from "@/utils/job-context";
+import { env } from "@/env";
+
+addJsonLogFile("worker");
 
 let isConnecting = false;
 const RECONNECT_DELAY = 5000;
-const MAX_RETRIES = 2;
-const retryCounts = new Map<string, number>();
 
 // Handler map for different queue types
 const handlerMap: Record<string, (messageContent: any) => Promise<void>> = {
@@ -70,28 +94,20 @@ export const startWorker = async () => {
 	}
 	isConnecting = true;
 	try {
-		await connectRabbit();
-		const connection = getConnection();
-
-		if (!connection) {
-			throw new Error("Failed to get RabbitMQ connection");
-		}
-
-		const downloadChannel = await connection.createChannel();
-		const uploadChannel = await connection.createChannel();
-
-		isConnecting = false;
-
+		const broker = getBroker();
 		// Setup reconnection on connection close
-		connection.on("close", () => {
+		await broker.connect(() => {
 			logger.error(
-				"[Worker] RabbitMQ connection closed! Attempting to reconnect...",
+				"[Worker] Queue broker connection closed! Attempting to reconnect...",
 			);
 			setTimeout(startWorker, RECONNECT_DELAY);
 		});
-		logger.info("[Worker] Setting up consumers...");
-		await setupConsumer(downloadChannel, uploadChannel);
-		await setupRefreshConsumer(connection);
+
+		isConnecting = false;
+
+		logger.info(`[Worker] Setting up consumers on ${broker.name}...`);
+		await setupConsumer();
+		await setupRefreshConsumer();
 	} catch (error) {
 		logger.error(
 			"[Worker] Failed to connect during startup. Retrying...",
@@ -102,31 +118,227 @@ export const startWorker = async () => {
 	}
 };
 
-const setupRefreshConsumer = async (connection: ChannelModel) => {
+const setupRefreshConsumer = async () => {
 	logger.info("[RefreshConsumer] Starting setup...");
-	const refreshChannel = await connection.createChannel();
-	await refreshChannel.assertExchange(REFRESH_EXCHANGE, "fanout", {
-		durable: true,
+	await getBroker().onRefresh(async (configId) => {
+		logger.info(
+			`[RefreshConsumer] Received refresh message for config: ${configId}`,
+		);
+		await setupConsumer();
 	});
-	const queue = await refreshChannel.assertQueue("");
-	await refreshChannel.bindQueue(queue.queue, REFRESH_EXCHANGE, "");
-	await refreshChannel.consume(queue.queue, async (msg) => {
-		if (msg) {
-			const messageContent = JSON.parse(msg.content.toString());
-			logger.info(
-				`[RefreshConsumer] Received refresh message for config: ${messageContent.configId}`,
+	logger.info("[RefreshConsumer] Setup complete. Waiting for messages...");
+};
+
+/*
+ * The run and correlation ids of a message are added to everything logged while it is processed
+ * */
+const getMessageContext = (
+	message: ConsumedMessage,
+	queueType: string,
+	configId: string,
+): JobContext => {
+	let runId: string | undefined;
+	try {
+		runId = JSON.parse(message.content).runId;
+	} catch {
+		runId = undefined;
+	}
+	return {
+		configId,
+		queueType,
+		runId,
+		correlationId: message.headers[CORRELATION_ID_HEADER],
+		messageId: message.messageId,
+	};
+};
+
+/*
+ * Dead-letters a failed message that could not be retried or dead-lettered with its attempts, e.g. because the delay
+ * queue could not be published to. When that fails too, the message is handed back to the broker, so that it does
+ * not hold a prefetch slot until the channel closes.
+ * */
+const settleUnretriedMessage = ({
+	message,
+	configId,
+	queueType,
+	deadLetterHeaders,
+	onDeadLettered,
+}: {
+	message: ConsumedMessage;
+	configId: string;
+	queueType: string;
+	deadLetterHeaders: QueueHeaders;
+	onDeadLettered: () => void;
+}) => {
+	try {
+		message.deadLetter(deadLetterHeaders);
+		onDeadLettered();
+		void checkFailedQueue(configId);
+	} catch (deadLetterErr: any) {
+		logger.error(
+			`Could not dead-letter the ${queueType} job of ${configId}, requeuing it: ${deadLetterErr.message || deadLetterErr}`,
+		);
+		try {
+			message.requeue();
+		} catch (requeueErr: any) {
+			logger.error(
+				`Could not requeue the ${queueType} job of ${configId}, it is delivered again when the worker reconnects: ${requeueErr.message || requeueErr}`,
 			);
-			await setupConsumer(refreshChannel, refreshChannel);
 		}
-	});
-	logger.info("[RefreshConsumer] Setup complete. Waiting for messages...");
+	}
 };
 
-const setupConsumer = async (
-	downloadChannel: Channel,
-	uploadChannel: Channel,
+const handleMessage = async (
+	message: ConsumedMessage,
+	handlerType: string,
+	configId: string,
 ) => {
+	const messageContent = JSON.parse(message.content);
+	const queueType = handlerType;
+	const labels = { config_id: configId, queue_type: queueType };
+	const startTime = performance.now();
+	const observeDuration = (outcome: string) =>
+		messageDuration.observe(
+			{ ...labels, outcome },
+			(performance.now() - startTime) / 1000,
+		);
+	messagesConsumed.inc(labels);
 	try {
+		const handler = handlerMap[queueType];
+
+		if (!handler) {
+			logger.warn(
+				`[Worker] No handler for queue type: ${queueType}. Discarding.`,
+			);
+			message.ack();
+			messagesAcked.inc(labels);
+			return;
+		}
+
+		await handler(messageContent);
+
+		message.ack();
+		recordJobProcessed(messageContent.runId, queueType);
+		messagesAcked.inc(labels);
+		observeDuration("acked");
+
+		logger.info(
+			`[Worker] <==> Message Processed & Acknowledged for ${queueType}.`,
+		);
+	} catch (error: any) {
+		// Enhanced failure reason - handle axios errors specially
+		const failureReason =
+			axios.isAxiosError(error) && error.response
+				? error.response.data
+				: { message: error.message };
+
+		const failureHeaders: QueueHeaders = {
+			"x-failure-reason": JSON.stringify(failureReason),
+			"x-error-message": error.message,
+			"x-error-name": error.name,
+			"x-error-timestamp": new Date().toISOString(),
+			"x-queue-type": queueType,
+		};
+
+		if (axios.isAxiosError(error)) {
+			failureHeaders["x-axios-status"] =
+				error.response?.status?.toString() || "unknown";
+			failureHeaders["x-axios-code"] = error.code || "unknown";
+			failureHeaders["x-axios-url"] = error.config?.url || "unknown";
+		}
+
+		// Failed messages have to be settled even when retrying or dead-lettering them fails, see below
+		let settled = false;
+		let deadLetterHeaders = failureHeaders;
+		try {
+			const policy = await getRetryPolicy(configId);
+			const attempt = countAttempts(message.headers) + 1;
+			const status = getErrorStatus(error);
+			const retry =
+				attempt < policy.maxAttempts && isRetryable(error, policy);
+			const delay = getBackoffDelay(policy, attempt);
+			const attempts: Attempt[] = [
+				...getAttempts(message.headers),
+				{
+					attempt,
+					timestamp: new Date().toISOString(),
+					error: error.message,
+					...(status !== undefined && { status }),
+					...(retry && { delay: delay / 1000 }),
+				},
+			];
+			deadLetterHeaders = {
+				...failureHeaders,
+				[ATTEMPTS_HEADER]: attempts,
+			};
+
+			if (retry) {
+				logger.warn(
+					`Attempt ${attempt} of ${policy.maxAttempts} of the ${queueType} job failed, retrying in ${delay / 1000}s`,
+				);
+				await getBroker().publishDelayed(
+					getQueueNames(configId)[queueType as QueueType],
+					message.content,
+					delay,
+					{
+						messageId: message.messageId,
+						headers: {
+							...message.headers,
+							[ATTEMPTS_HEADER]: attempts,
+						},
+					},
+				);
+				message.ack();
+				settled = true;
+				messagesRetried.inc(labels);
+				observeDuration("retried");
+			} else {
+				logger.error(
+					attempt < policy.maxAttempts
+						? `The ${queueType} job failed with status ${status}, which is not retried`
+						: `The ${queueType} job failed after ${attempt} attempts`,
+				);
+				message.deadLetter(deadLetterHeaders);
+				settled = true;
+				messagesDeadLettered.inc(labels);
+				observeDuration("dead_lettered");
+				recordJobFailed(
+					messageContent.runId,
+					queueType,
+					error.message,
+					failureReason,
+				);
+				void checkFailedQueue(configId);
+			}
+		} catch (ackErr: any) {
+			logger.error(
+				`Failed to retry or dead-letter message for ${configId}: ${ackErr.message || ackErr}`,
+			);
+			if (!settled) {
+				settleUnretriedMessage({
+					message,
+					configId,
+					queueType,
+					deadLetterHeaders,
+					onDeadLettered: () => {
+						messagesDeadLettered.inc(labels);
+						observeDuration("dead_lettered");
+						recordJobFailed(
+							messageContent.runId,
+							queueType,
+							error.message,
+							failureReason,
+						);
+					},
+				});
+			}
+		}
+	}
+};
+
+const setupConsumer = async () => {
+	try {
+		const broker = getBroker();
 		logger.info(
 			"[ConsumerSetup] Starting to discover configs from datastore...",
 		);
@@ -136,152 +348,57 @@ const setupConsumer = async (
 		const prefetchCount = parseInt(
 			process.env.RABBITMQ_PREFETCH_COUNT || "20",
 		);
-		await downloadChannel.prefetch(prefetchCount);
-		await uploadChannel.prefetch(prefetchCount);
 
 		// Set up queues and consumers for each config
 		for (const configId of configIds) {
 			const queueNames = getQueueNames(configId);
-			await downloadChannel.assertQueue(queueNames.failed, {
-				durable: true,
-			});
-			await uploadChannel.assertQueue(queueNames.failed, {
-				durable: true,
-			});
-			// Queue configuration with DLQ
-			const queueOptions = {
-				durable: true,
-				arguments: {
-					"x-dead-letter-exchange": "",
-					"x-dead-letter-routing-key": queueNames.failed,
-				},
-			};
 
 			// Setup work queues for this config
 			const queuesToSetup = [
 				{
 					queueName: queueNames.metadataDownload,
 					handlerType: "metadataDownload",
-					channel: downloadChannel,
+					group: "download",
 				},
 				{
 					queueName: queueNames.metadataUpload,
 					handlerType: "metadataUpload",
-					channel: uploadChannel,
+					group: "upload",
 				},
 				{
 					queueName: queueNames.dataDownload,
 					handlerType: "dataDownload",
-					channel: downloadChannel,
+					group: "download",
 				},
 				{
 					queueName: queueNames.dataUpload,
 					handlerType: "dataUpload",
-					channel: uploadChannel,
+					group: "upload",
 				},
 				{
 					queueName: queueNames.dataDeletion,
 					handlerType: "dataDeletion",
-					channel: uploadChannel,
+					group: "upload",
 				},
 			];
 
-			for (const { queueName, handlerType, channel } of queuesToSetup) {
-				// Assert the queue
-				await channel.assertQueue(queueName, queueOptions);
+			// Assert the queues, with the failed queue as DLQ
+			await broker.assertQueues(
+				queuesToSetup.map(({ queueName }) => queueName),
+				queueNames.failed,
+			);
 
+			for (const { queueName, handlerType, group } of queuesToSetup) {
 				// Start consuming from the queue
-				await channel.consume(queueName, async (msg) => {
-					if (msg) {
-						const messageContent = JSON.parse(
-							msg.content.toString(),
-						);
-						const jobId = `${messageContent.mainConfigId ?? messageContent.configId}-${messageContent.config?.id ?? messageContent.filename ?? "metadata"}-${messageContent.periodId ?? handlerType}`;
-						const currentRetries = retryCounts.get(jobId) || 0;
-						const queueType = handlerType;
-						try {
-							const handler = handlerMap[queueType];
-
-							if (!handler) {
-								logger.warn(
-									`[Worker] No handler for queue type: ${queueType}. Discarding.`,
-								);
-								channel.ack(msg);
-								retryCounts.delete(jobId);
-								return;
-							}
-
-							await handler(messageContent);
-
-							channel.ack(msg);
-							retryCounts.delete(jobId);
-
-							logger.info(
-								`[Worker] <==> Message Processed & Acknowledged for ${queueType}.`,
-							);
-						} catch (error: any) {
-							const rawRetryCount =
-								msg.properties.headers?.["x-retry-count"];
-							let retryCount =
-								typeof rawRetryCount === "number"
-									? rawRetryCount
-									: parseInt(
-											String(rawRetryCount || "0"),
-											10,
-										);
-							if (isNaN(retryCount)) retryCount = 0;
-
-							if (!msg.properties.headers) {
-								msg.properties.headers = {};
-							}
-
-							// Enhanced failure reason - handle axios errors specially
-							const failureReason =
-								axios.isAxiosError(error) && error.response
-									? error.response.data
-									: { message: error.message };
-
-							msg.properties.headers["x-failure-reason"] =
-								JSON.stringify(failureReason);
-							msg.properties.headers["x-error-message"] =
-								error.message;
-							msg.properties.headers["x-error-name"] = error.name;
-							msg.properties.headers["x-error-timestamp"] =
-								new Date().toISOString();
-							msg.properties.headers["x-queue-type"] = queueType;
-
-							if (axios.isAxiosError(error)) {
-								msg.properties.headers["x-axios-status"] =
-									error.response?.status?.toString() ||
-									"unknown";
-								msg.properties.headers["x-axios-code"] =
-									error.code || "unknown";
-								msg.properties.headers["x-axios-url"] =
-									error.config?.url || "unknown";
-							}
-
-							try {
-								if (currentRetries < MAX_RETRIES) {
-									retryCounts.set(jobId, currentRetries + 1);
-									logger.warn(
-										`Retrying job ${jobId}, attempt ${currentRetries + 1}`,
-									);
-									channel.nack(msg, false, true);
-								} else {
-									logger.error(
-										`Job ${jobId} reached max retries, discarding`,
-									);
-									retryCounts.delete(jobId);
-									channel.nack(msg, false, false);
-								}
-							} catch (ackErr: any) {
-								logger.error(
-									`Failed to nack message for ${configId}: ${ackErr.message || ackErr}`,
-								);
-							}
-						}
-					}
-				});
+				await broker.consume(
+					queueName,
+					(message) =>
+						runInJobContext(
+							getMessageContext(message, handlerType, configId),
+							() => handleMessage(message, handlerType, configId),
+						),
+					{ group, prefetch: prefetchCount },
+				);
 
 				logger.info(
 					`[ConsumerSetup] Setup consumer for queue: ${queueName} (${handlerType})`,
@@ -297,12 +414,14 @@ const setupConsumer = async (
 		logger.info(
 			`[Worker] Registered handlers: ${Object.keys(handlerMap).join(", ")}`,
 		);
-		logger.info(`[Worker] Prefetch count per channel: ${prefetchCount}`);
 		logger.info(
-			`[Worker] Download channel handles: dataDownload, metadataDownload`,
+			`[Worker] Prefetch count per consumer group: ${prefetchCount}`,
 		);
 		logger.info(
-			`[Worker] Upload channel handles: dataUpload, dataDeletion, metadataUpload`,
+			`[Worker] Download group handles: dataDownload, metadataDownload`,
+		);
+		logger.info(
+			`[Worker] Upload group handles: dataUpload, dataDeletion, metadataUpload`,
 		);
 		logger.info(
 			"================================================================",
@@ -328,4 +447,24 @@ const getAllConfigIds = async (): Promise<string[]> => {
 	}
 };
 
+// Helper function to notify when the failed queue of a config reaches its threshold
+const checkFailedQueue = async (configId: string) => {
+	try {
+		const failedQueue = getQueueNames(configId).failed;
+		const messageCount = await getBroker().countMessages(failedQueue);
+		await notifyFailedQueueThreshold({
+			configId,
+			queue: failedQueue,
+			messageCount,
+		});
+	} catch (error) {
+		logger.warn(
+			`Failed to check the failed queue of ${configId}: ${(error as Error).message}`,
+		);
+	}
+};
+
+if (env.DATA_SERVICE_WORKER_METRICS_PORT) {
+	startMetricsServer(parseInt(env.DATA_SERVICE_WORKER_METRICS_PORT));
+}
 await startWorker();
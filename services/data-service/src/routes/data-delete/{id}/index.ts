@@ -5,6 +5,7 @@ import { AxiosError } from 'axios';
 import { fromError } from 'zod-validation-error';
 import { deleteAndQueueData } from '@/services/data-migration/data-delete';
 import { dataDownloadBodySchema } from '@packages/shared/schemas';  
+import { DataServicePermission, requirePermission } from '@/services/auth';
 
 export const GET: Operation = async (
     req: Request,
@@ -23,7 +24,8 @@ export const GET: Operation = async (
         
         const parsedBody = dataDownloadBodySchema.parse({
             dataItemsConfigIds,
-            runtimeConfig
+            runtimeConfig,
+            dryRun: req.query.dryRun === 'true'
         });
         
         logger.info(`Starting data delete process for config: ${configId}`, {
@@ -31,17 +33,21 @@ export const GET: Operation = async (
             periodsCount: parsedBody.runtimeConfig.periods.length,
         });
 
-        await deleteAndQueueData({
+        const { runId, periods } = await deleteAndQueueData({
             mainConfigId: configId,
             dataItemsConfigIds: parsedBody.dataItemsConfigIds,
             runtimeConfig: parsedBody.runtimeConfig,
+            dryRun: parsedBody.dryRun,
         });
 
         logger.info(`Data delete jobs successfully queued for config: ${configId}`);
 
         res.json({
             status: "queued",
+            runId,
+            dryRun: parsedBody.dryRun ?? false,
             message: `Data delete process started for config ${configId}`,
+            periods,
         });
     } catch (e: any) {
         logger.error(`Error in data delete endpoint for config ${req.params.id}:`, e);
@@ -81,6 +87,7 @@ GET.apiDoc = {
     The dataItemsConfigIds and runtimeConfig parameters should be JSON stringified arrays/objects.`,
     operationId: "deleteDataQuery",
     tags: ["DATA"],
+    security: requirePermission(DataServicePermission.DELETE),
     parameters: [
         {
             in: "path",
@@ -110,12 +117,19 @@ GET.apiDoc = {
             },
             description: `JSON stringified runtime configuration object.
             Required fields:
-            - periods: array of period IDs (e.g., ["202301", "202302"])
+            - periods: array of period IDs or relative periods (e.g., ["202301", "202302"] or ["LAST_3_MONTHS"])
             
             Optional fields:
             - pageSize: number (default: 50) - Page size for pagination during deletion
             - paginateByData: boolean (default: false) - Whether to paginate by data elements
             - timeout: number (default: 30000) - Request timeout in milliseconds`
+        },
+        {
+            in: "query",
+            name: "dryRun",
+            required: false,
+            schema: { type: "boolean", default: false },
+            description: "Only validate the deletion against the destination (dryRun=true) without deleting any data"
         }
     ],
     responses: {
@@ -135,6 +149,22 @@ GET.apiDoc = {
                                 type: "string",
                                 example: "Data delete process started for config abc123",
                                 description: "Confirmation message" 
+                            },
+                            runId: {
+                                type: "string",
+                                description: "ID of the run in the run history"
+                            },
+                            dryRun: {
+                                type: "boolean",
+                                description: "Whether the run only validates the deletion"
+                            },
+                            periods: {
+                                type: "object",
+                                description: "Resolved period ids per data item configuration",
+                                additionalProperties: {
+                                    type: "array",
+                                    items: { type: "string" }
+                                }
                             }
                         }
                     }
@@ -188,17 +218,21 @@ export const POST: Operation = async (
             periodsCount: parsedBody.runtimeConfig.periods.length,
         });
 
-        await deleteAndQueueData({
+        const { runId, periods } = await deleteAndQueueData({
             mainConfigId: configId,
             dataItemsConfigIds: parsedBody.dataItemsConfigIds,
             runtimeConfig: parsedBody.runtimeConfig,
+            dryRun: parsedBody.dryRun,
         });
 
         logger.info(`Data delete jobs successfully queued for config: ${configId}`);
 
         res.json({
             status: "queued",
+            runId,
+            dryRun: parsedBody.dryRun ?? false,
             message: `Data delete process started for config ${configId}`,
+            periods,
         });
     } catch (e: any) {
         logger.error(`Error in data delete endpoint for config ${req.params.id}:`, e);
@@ -235,6 +269,7 @@ POST.apiDoc = {
     Note: For DHIS2 route compatibility, prefer using the GET method with query parameters instead.`,
     operationId: "deleteData",
     tags: ["DATA"],
+    security: requirePermission(DataServicePermission.DELETE),
     parameters: [
         {
             in: "path",
@@ -264,7 +299,7 @@ POST.apiDoc = {
                                 periods: {
                                     type: "array",
                                     items: { type: "string" },
-                                    description: "Array of period IDs for data deletion"
+                                    description: "Array of period IDs or relative periods (e.g. LAST_12_MONTHS) for data deletion"
                                 },
                                 pageSize: {
                                     type: "number",
@@ -282,6 +317,11 @@ POST.apiDoc = {
                                     default: 30000
                                 }
                             }
+                        },
+                        dryRun: {
+                            type: "boolean",
+                            description: "Only validate the deletion against the destination (dryRun=true) without deleting any data",
+                            default: false
                         }
                     }
                 }
@@ -305,6 +345,22 @@ POST.apiDoc = {
                                 type: "string",
                                 example: "Data delete process started for config abc123",
                                 description: "Confirmation message" 
+                            },
+                            runId: {
+                                type: "string",
+                                description: "ID of the run in the run history"
+                            },
+                            dryRun: {
+                                type: "boolean",
+                                description: "Whether the run only validates the deletion"
+                            },
+                            periods: {
+                                type: "object",
+                                description: "Resolved period ids per data item configuration",
+                                additionalProperties: {
+                                    type: "array",
+                                    items: { type: "string" }
+                                }
                             }
                         }
                     }
@@ -5,11 +5,13 @@ import { dataDownloadBodySchema } from '@packages/shared/schemas';
 import { AxiosError } from 'axios';
 import { fromError } from 'zod-validation-error';
 import { downloadAndQueueData } from '@/services/data-migration/data-download';
+import { DataServicePermission, requirePermission } from '@/services/auth';
 
 function parseDataDownloadRequestData(query: any) {
     const data: any = {
         dataItemsConfigIds: [],
         isDelete: false,
+        dryRun: false,
         runtimeConfig: {
             periods: [],
             pageSize: 1000,
@@ -31,6 +33,10 @@ function parseDataDownloadRequestData(query: any) {
             const decoded = decodeURIComponent(query.isDelete);
             data.isDelete = JSON.parse(decoded);
         }
+        if (query.dryRun) {
+            const decoded = decodeURIComponent(query.dryRun);
+            data.dryRun = JSON.parse(decoded);
+        }
     } catch (parseError) {
         logger.warn('Failed to parse JSON from query parameters:', parseError);
      }
@@ -51,18 +57,22 @@ export const GET: Operation = async (
         const requestData = parseDataDownloadRequestData(req.query);
         const parsedBody = dataDownloadBodySchema.parse(requestData);
         
-        await downloadAndQueueData({
+        const { runId, periods } = await downloadAndQueueData({
             mainConfigId: configId,
             dataItemsConfigIds: parsedBody.dataItemsConfigIds,
             runtimeConfig: parsedBody.runtimeConfig,
             isDelete: parsedBody.isDelete,
+            dryRun: parsedBody.dryRun,
         });
 
         logger.info(`Data download jobs successfully queued for config: ${configId}`);
 
         res.json({
             status: "queued",
+            runId,
+            dryRun: parsedBody.dryRun ?? false,
             message: `Data download process started for config ${configId}`,
+            periods,
         });
     } catch (e: any) {
         logger.error(`Error in data download GET endpoint for config ${req.params.id}:`, e);
@@ -100,18 +110,22 @@ export const POST: Operation = async (
         const { id: configId } = req.params;
         const parsedBody = dataDownloadBodySchema.parse(req.body);
        
-        await downloadAndQueueData({
+        const { runId, periods } = await downloadAndQueueData({
             mainConfigId: configId,
             dataItemsConfigIds: parsedBody.dataItemsConfigIds,
             runtimeConfig: parsedBody.runtimeConfig,
             isDelete: parsedBody.isDelete,
+            dryRun: parsedBody.dryRun,
         });
 
         logger.info(`Data download jobs successfully queued for config: ${configId}`);
 
         res.json({
             status: "queued",
+            runId,
+            dryRun: parsedBody.dryRun ?? false,
             message: `Data download process started for config ${configId}`,
+            periods,
         });
     } catch (e: any) {
         logger.error(`Error in data download endpoint for config ${req.params.id}:`, e);
@@ -145,6 +159,7 @@ POST.apiDoc = {
     description: "Initiates the data download process for a specific configuration. Downloads data from the source DHIS2 instance based on the specified data items configurations and runtime parameters. The process runs asynchronously using a job queue system.",
     operationId: "startDataDownload",
     tags: ["DATA MIGRATION"],
+    security: requirePermission(DataServicePermission.RUN),
     parameters: [
         {
             in: "path",
@@ -177,7 +192,7 @@ POST.apiDoc = {
                                     type: "array",
                                     items: { type: "string" },
                                     minItems: 1,
-                                    description: "Array of period identifiers to download data for",
+                                    description: "Array of period identifiers or relative periods (e.g. LAST_12_MONTHS) to download data for",
                                     example: ["202301", "202302", "202303"]
                                 },
                                 pageSize: {
@@ -199,6 +214,11 @@ POST.apiDoc = {
                                     description: "Whether to paginate by data elements instead of organisation units",
                                     example: false
                                 },
+                                incremental: {
+                                    type: "boolean",
+                                    description: "Only download values updated on the source since the last successful run of each data items configuration. Configurations without a successful run are fully downloaded",
+                                    example: false
+                                },
                                 overrides: {
                                     type: "object",
                                     description: "Configuration overrides for this specific download",
@@ -217,6 +237,11 @@ POST.apiDoc = {
                                     }
                                 }
                             }
+                        },
+                        dryRun: {
+                            type: "boolean",
+                            description: "Only validate the data against the destination (dryRun=true) without importing it",
+                            default: false
                         }
                     }
                 },
@@ -268,6 +293,22 @@ POST.apiDoc = {
                             message: {
                                 type: "string",
                                 example: "Data download process started for config config-123"
+                            },
+                            runId: {
+                                type: "string",
+                                description: "ID of the run in the run history"
+                            },
+                            dryRun: {
+                                type: "boolean",
+                                description: "Whether the run only validates the uploads"
+                            },
+                            periods: {
+                                type: "object",
+                                description: "Resolved period ids per data item configuration",
+                                additionalProperties: {
+                                    type: "array",
+                                    items: { type: "string" }
+                                }
                             }
                         }
                     }
@@ -361,6 +402,7 @@ GET.apiDoc = {
     description: "Initiates the data download process using query parameters. This method is preferred when using DHIS2 routes.",
     operationId: "startDataDownloadWithQueryParams",
     tags: ["DATA MIGRATION"],
+    security: requirePermission(DataServicePermission.RUN),
     parameters: [
         {
             in: "path",
@@ -382,6 +424,13 @@ GET.apiDoc = {
             required: true,
             schema: { type: "string" },
             description: "JSON string of runtime configuration object"
+        },
+        {
+            in: "query",
+            name: "dryRun",
+            required: false,
+            schema: { type: "boolean", default: false },
+            description: "Only validate the data against the destination (dryRun=true) without importing it"
         }
     ],
     responses: {
@@ -400,6 +449,22 @@ GET.apiDoc = {
                             message: {
                                 type: "string",
                                 example: "Data download process started for config config-123"
+                            },
+                            runId: {
+                                type: "string",
+                                description: "ID of the run in the run history"
+                            },
+                            dryRun: {
+                                type: "boolean",
+                                description: "Whether the run only validates the uploads"
+                            },
+                            periods: {
+                                type: "object",
+                                description: "Resolved period ids per data item configuration",
+                                additionalProperties: {
+                                    type: "array",
+                                    items: { type: "string" }
+                                }
                             }
                         }
                     }
@@ -1,8 +1,9 @@
 import { NextFunction, Request, Response } from 'express';
 import { Operation } from 'express-openapi';
-import { getChannel } from '@/rabbit/connection';
+import { getBroker } from '@/broker';
 import { getQueueNames } from '@/variables/queue-names';
-import axios from 'axios';
+import { DataServicePermission, requirePermission } from '@/services/auth';
+import { getAttempts } from '@/services/retries';
 
 export const GET: Operation = async (
     req: Request,
@@ -28,15 +29,7 @@ export const GET: Operation = async (
         const queueNames = getQueueNames(configId);
         const failedQueueName = queueNames.failed;
 
-        const rabbitMQConfig = {
-            baseURL: process.env.RABBITMQ_HOST || 'http://localhost:15672',
-            username: process.env.RABBITMQ_USER || 'guest',
-            password: process.env.RABBITMQ_PASS || 'guest',
-            vhost: process.env.RABBITMQ_VHOST || '%2F'
-        };
-
-        const baseURL = rabbitMQConfig.baseURL;
-        const auth = Buffer.from(`${rabbitMQConfig.username}:${rabbitMQConfig.password}`).toString('base64');
+        const broker = getBroker();
 
         let totalFailedMessages = 0;
         let messages: any[] = [];
@@ -44,53 +37,18 @@ export const GET: Operation = async (
         let sourceQueueCounts: Map<string, number> = new Map();
 
         try {
-            const queueInfoResponse = await axios.get(
-                `${baseURL}/api/queues/${rabbitMQConfig.vhost}/${failedQueueName}`,
-                {
-                    headers: {
-                        'Authorization': `Basic ${auth}`,
-                        'Content-Type': 'application/json'
-                    }
-                }
-            );
-
-            totalFailedMessages = queueInfoResponse.data.messages || 0;
+            totalFailedMessages = (await broker.getQueueStats(failedQueueName)).messages;
 
             if (totalFailedMessages > 0 && (includeMessages || onlyQueues)) {
                 const fetchCount = onlyQueues ?
                     totalFailedMessages :
                     Math.min(offset + limit * 2, totalFailedMessages);
 
-                const messagesResponse = await axios.post(
-                    `${baseURL}/api/queues/${rabbitMQConfig.vhost}/${failedQueueName}/get`,
-                    {
-                        count: fetchCount,
-                        ackmode: "ack_requeue_true",
-                        encoding: "auto",
-                        truncate: 50000
-                    },
-                    {
-                        headers: {
-                            'Authorization': `Basic ${auth}`,
-                            'Content-Type': 'application/json'
-                        }
-                    }
-                );
-
-                const rawMessages = messagesResponse.data;
-
-                for (let i = 0; i < rawMessages.length; i++) {
-                    const rawMsg = rawMessages[i];
-                    const headers = rawMsg.properties?.headers || {};
-
-                    const xDeath = headers['x-death'];
-                    let sourceQueue = null;
-
-                    if (xDeath && Array.isArray(xDeath) && xDeath.length > 0) {
-                        const deathInfo = xDeath[0];
-                        sourceQueue = deathInfo.queue;
-                    }
+                const failedMessages = await broker.peekMessages(failedQueueName, fetchCount);
 
+                for (const failedMessage of failedMessages) {
+                    const { headers, deadLetter } = failedMessage;
+                    const sourceQueue = deadLetter?.queue ?? null;
 
                     if (sourceQueue) {
                         sourceQueues.add(sourceQueue);
@@ -100,34 +58,23 @@ export const GET: Operation = async (
                     if (includeMessages || !onlyQueues) {
                         let payload;
                         try {
-                            payload = JSON.parse(rawMsg.payload);
+                            payload = JSON.parse(failedMessage.content);
                         } catch {
-                            payload = rawMsg.payload;
-                        }
-
-                        let deathTimestamp = null;
-                        let deathReason = null;
-                        let retryCount = null;
-
-                        if (xDeath && Array.isArray(xDeath) && xDeath.length > 0) {
-                            const deathInfo = xDeath[0];
-                            retryCount = deathInfo.count;
-                            deathReason = deathInfo.reason;
-                            if (deathInfo.time) {
-                                deathTimestamp = new Date(deathInfo.time * 1000).toISOString();
-                            }
+                            payload = failedMessage.content;
                         }
 
                         const messageDetails = {
-                            messageId: rawMsg.properties?.message_id || `msg-${i + 1}`,
+                            messageId: failedMessage.messageId,
                             sourceQueue,
-                            retryCount,
-                            deathReason,
-                            deathTimestamp,
+                            retryCount: deadLetter?.count ?? null,
+                            attempts: getAttempts(headers),
+                            deathReason: deadLetter?.reason ?? null,
+                            deathTimestamp: deadLetter?.time ?? null,
                             headers: {
                                 'x-axios-code': headers['x-axios-code'],
                                 'x-axios-status': headers['x-axios-status'],
                                 'x-axios-url': headers['x-axios-url'],
+                                'x-attempts': headers['x-attempts'],
                                 'x-death': headers['x-death'],
                                 'x-error-message': headers['x-error-message'],
                                 'x-failure-reason': headers['x-failure-reason'],
@@ -148,21 +95,16 @@ export const GET: Operation = async (
                 }
 
                 if (!onlyQueues && messages.length > 0) {
-                    const totalMessages = messages.length;
                     messages = messages.slice(offset, offset + limit);
                 }
             }
 
         } catch (apiError: any) {
-            console.warn(`RabbitMQ Management API error for config ${configId}:`, apiError.message);
-            const channel = getChannel();
-            if (channel) {
-                try {
-                    const queueInfo = await channel.checkQueue(failedQueueName);
-                    totalFailedMessages = queueInfo.messageCount;
-                } catch (queueError) {
-                    console.warn(`Failed queue does not exist or error checking queue:`, queueError);
-                }
+            console.warn(`Queue broker error for config ${configId}:`, apiError.message);
+            try {
+                totalFailedMessages = await broker.countMessages(failedQueueName);
+            } catch (queueError) {
+                console.warn(`Failed queue does not exist or error checking queue:`, queueError);
             }
         }
 
@@ -235,21 +177,15 @@ export const DELETE: Operation = async (
         }
 
         // Clear the failed queue
-        const channel = getChannel();
         let clearedMessages = 0;
 
-        if (channel) {
-            try {
-                const queueNames = getQueueNames(configId);
-                const failedQueueName = queueNames.failed;
+        try {
+            const queueNames = getQueueNames(configId);
+            const failedQueueName = queueNames.failed;
 
-                const result = await channel.purgeQueue(failedQueueName);
-                clearedMessages = result.messageCount;
-            } catch (queueError) {
-                console.warn(`Failed to clear queue for config ${configId}:`, queueError);
-            }
-        } else {
-            console.log('RabbitMQ channel not available - no messages to clear');
+            clearedMessages = await getBroker().purgeQueue(failedQueueName);
+        } catch (queueError) {
+            console.warn(`Failed to clear queue for config ${configId}:`, queueError);
         }
 
         res.json({
@@ -276,9 +212,10 @@ export const DELETE: Operation = async (
 
 GET.apiDoc = {
     summary: "Get failed queue messages and source queue information",
-    description: "Retrieves failed messages from the RabbitMQ dead letter queue for a specific configuration. Supports different modes: full message details, source queues only, or filtered by queue type. Provides pagination and detailed error information for troubleshooting.",
+    description: "Retrieves failed messages from the dead letter queue for a specific configuration. Supports different modes: full message details, source queues only, or filtered by queue type. Provides pagination and detailed error information for troubleshooting.",
     operationId: "getFailedQueueMessages",
     tags: ["FAILED QUEUE"],
+    security: requirePermission(DataServicePermission.READ),
     parameters: [
         {
             in: "path",
@@ -359,6 +296,20 @@ GET.apiDoc = {
                                                 messageId: { type: "string", example: "msg-1" },
                                                 sourceQueue: { type: "string", example: "config-123-data-download-queue" },
                                                 retryCount: { type: "integer", example: 3 },
+                                                attempts: {
+                                                    type: "array",
+                                                    description: "Attempts made by the worker before the message failed, oldest first",
+                                                    items: {
+                                                        type: "object",
+                                                        properties: {
+                                                            attempt: { type: "integer", example: 1 },
+                                                            timestamp: { type: "string", format: "date-time" },
+                                                            error: { type: "string", example: "Request failed with status code 503" },
+                                                            status: { type: "integer", example: 503 },
+                                                            delay: { type: "number", description: "Seconds waited before the next attempt", example: 10 }
+                                                        }
+                                                    }
+                                                },
                                                 deathReason: { type: "string", example: "rejected" },
                                                 deathTimestamp: { type: "string", format: "date-time" },
                                                 headers: {
@@ -436,9 +387,10 @@ GET.apiDoc = {
 
 DELETE.apiDoc = {
     summary: "Clear all failed messages from the queue",
-    description: "Purges all failed messages from the RabbitMQ dead letter queue for a specific configuration. This operation is irreversible and will permanently remove all failed messages.",
+    description: "Purges all failed messages from the dead letter queue for a specific configuration. This operation is irreversible and will permanently remove all failed messages.",
     operationId: "clearFailedQueue",
     tags: ["FAILED QUEUE"],
+    security: requirePermission(DataServicePermission.DELETE),
     parameters: [
         {
             in: "path",
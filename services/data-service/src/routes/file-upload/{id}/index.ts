@@ -0,0 +1,198 @@
+import { NextFunction, Request, Response } from 'express';
+import logger from '@/logging';
+import { Operation } from 'express-openapi';
+import { fileUploadBodySchema } from '@packages/shared/schemas';
+import { AxiosError } from 'axios';
+import { fromError } from 'zod-validation-error';
+import { queueFileData } from '@/services/data-migration/file-upload';
+import { DataServicePermission, requirePermission } from '@/services/auth';
+
+/*
+ * Only the first errors of an invalid file are returned
+ * */
+const MAX_RETURNED_ERRORS = 100;
+
+export const POST: Operation = async (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+) => {
+    try {
+        const { id: configId } = req.params;
+        const parsedBody = fileUploadBodySchema.parse(req.body);
+
+        const { runId, valueCount, errors } = await queueFileData({
+            mainConfigId: configId,
+            dataItemsConfigId: parsedBody.dataItemsConfigId,
+            content: parsedBody.content,
+            dryRun: parsedBody.dryRun,
+        });
+
+        if (errors.length > 0) {
+            res.status(400).json({
+                status: "failed",
+                message: `The file has ${errors.length} invalid rows`,
+                errorCount: errors.length,
+                errors: errors.slice(0, MAX_RETURNED_ERRORS),
+            });
+            return;
+        }
+
+        logger.info(`File data upload jobs successfully queued for config: ${configId}`);
+
+        res.json({
+            status: "queued",
+            runId,
+            dryRun: parsedBody.dryRun ?? false,
+            valueCount,
+            message: `${valueCount} data values queued for upload for config ${configId}`,
+        });
+    } catch (e: any) {
+        logger.error(`Error in file upload POST endpoint for config ${req.params.id}:`, e);
+
+        if (e instanceof AxiosError) {
+            res.status(e.status ?? 500).json({
+                status: "failed",
+                message: e.message,
+                details: e.response?.data,
+            });
+            return;
+        } else if (e.errors) {
+            logger.error(`Invalid request body: ${e.message}`);
+            res.status(400).json({
+                status: "failed",
+                message: fromError(e).toString(),
+                details: e.errors,
+            });
+            return;
+        } else {
+            res.status(500).json({
+                status: "failed",
+                message: e.message,
+            });
+        }
+    }
+};
+
+POST.apiDoc = {
+    summary: "Upload a data file",
+    description: "Validates a CSV or JSON file against the column mapping of a file data items configuration and queues its data values for upload to the destination. Nothing is queued when any row of the file is invalid.",
+    operationId: "uploadDataFile",
+    tags: ["DATA MIGRATION"],
+    security: requirePermission(DataServicePermission.RUN),
+    parameters: [
+        {
+            in: "path",
+            name: "id",
+            required: true,
+            schema: { type: "string" },
+            description: "Configuration ID"
+        }
+    ],
+    requestBody: {
+        required: true,
+        content: {
+            "application/json": {
+                schema: {
+                    type: "object",
+                    required: ["dataItemsConfigId", "content"],
+                    properties: {
+                        dataItemsConfigId: {
+                            type: "string",
+                            description: "ID of a data items configuration of type FILE_VALUES",
+                            example: "partner-reports"
+                        },
+                        content: {
+                            type: "string",
+                            description: "Text content of the CSV or JSON file, in the format of the data items configuration",
+                            example: "dataElement,period,orgUnit,value\nfbfJHSPpUQD,202401,DiszpKrYNg8,12"
+                        },
+                        dryRun: {
+                            type: "boolean",
+                            description: "Only validate the data against the destination (dryRun=true) without importing it",
+                            default: false
+                        }
+                    }
+                }
+            }
+        }
+    },
+    responses: {
+        "200": {
+            description: "Data values queued for upload",
+            content: {
+                "application/json": {
+                    schema: {
+                        type: "object",
+                        properties: {
+                            status: {
+                                type: "string",
+                                enum: ["queued"],
+                                example: "queued"
+                            },
+                            runId: {
+                                type: "string",
+                                description: "ID of the run in the run history"
+                            },
+                            dryRun: {
+                                type: "boolean",
+                                description: "Whether the run only validates the uploads"
+                            },
+                            valueCount: {
+                                type: "integer",
+                                description: "Number of data values in the file"
+                            },
+                            message: {
+                                type: "string"
+                            }
+                        }
+                    }
+                }
+            }
+        },
+        "400": {
+            description: "Invalid request body or invalid file",
+            content: {
+                "application/json": {
+                    schema: {
+                        type: "object",
+                        properties: {
+                            status: {
+                                type: "string",
+                                enum: ["failed"],
+                                example: "failed"
+                            },
+                            message: {
+                                type: "string",
+                                example: "The file has 2 invalid rows"
+                            },
+                            errorCount: {
+                                type: "integer"
+                            },
+                            errors: {
+                                type: "array",
+                                description: "The first 100 invalid rows",
+                                items: {
+                                    type: "object",
+                                    properties: {
+                                        row: {
+                                            type: "integer",
+                                            description: "Row of the CSV file counting the header row, or index of the JSON data value"
+                                        },
+                                        message: {
+                                            type: "string",
+                                            example: "Period 2024Q1 is not a MONTHLY period"
+                                        }
+                                    }
+                                }
+                            }
+                        }
+                    }
+                }
+            }
+        },
+        "500": {
+            description: "Failed to queue the file"
+        }
+    }
+};
@@ -10,6 +10,8 @@ export const GET: Operation = async (req) => {
 GET.apiDoc = {
 	description: "Get the version of the service",
 	tags: ["info"],
+	//Used to check that the service is reachable, so it is public
+	security: [],
 	responses: {
 		"200": {
 			description: "OK",
@@ -0,0 +1,128 @@
+import logger from "@/logging";
+import { NextFunction, Request, Response } from "express";
+import { Operation } from "express-openapi";
+import { getRecentLogs } from "@/services/logs";
+import { DataServicePermission, requirePermission } from "@/services/auth";
+
+export const GET: Operation = async (
+	req: Request,
+	res: Response,
+	next: NextFunction,
+) => {
+	try {
+		const configId = req.params.id;
+		const limit = Math.min(
+			parseInt(req.query.limit as string) || 200,
+			1000,
+		);
+
+		const logs = await getRecentLogs(configId, {
+			runId: req.query.runId as string | undefined,
+			correlationId: req.query.correlationId as string | undefined,
+			level: req.query.level as string | undefined,
+			limit,
+		});
+
+		res.json({
+			success: true,
+			configId,
+			logs,
+			timestamp: new Date().toISOString(),
+		});
+	} catch (error) {
+		const errorMessage =
+			error instanceof Error ? error.message : String(error);
+		logger.error(
+			`Failed to read logs for ${req.params.id}: ${errorMessage}`,
+		);
+
+		res.status(500).json({
+			success: false,
+			configId: req.params.id,
+			error: errorMessage,
+			timestamp: new Date().toISOString(),
+		});
+	}
+};
+
+GET.apiDoc = {
+	summary: "Get recent logs of a config",
+	description:
+		"Returns the most recent log entries of a configuration, oldest first, optionally of a single run or correlation id",
+	operationId: "getConfigLogs",
+	tags: ["LOGS"],
+	security: requirePermission(DataServicePermission.READ),
+	parameters: [
+		{
+			in: "path",
+			name: "id",
+			required: true,
+			schema: { type: "string" },
+			description: "Configuration ID",
+		},
+		{
+			in: "query",
+			name: "runId",
+			required: false,
+			schema: { type: "string" },
+			description:
+				"Only the entries of this run, including the ones logged while its jobs were queued",
+		},
+		{
+			in: "query",
+			name: "correlationId",
+			required: false,
+			schema: { type: "string" },
+			description:
+				"Only the entries of the messages queued from one download",
+		},
+		{
+			in: "query",
+			name: "level",
+			required: false,
+			schema: {
+				type: "string",
+				enum: ["error", "warn", "info", "debug"],
+			},
+			description: "Only the entries of this level",
+		},
+		{
+			in: "query",
+			name: "limit",
+			required: false,
+			schema: {
+				type: "integer",
+				minimum: 1,
+				maximum: 1000,
+				default: 200,
+			},
+			description: "Maximum number of entries to return",
+		},
+	],
+	responses: {
+		"200": {
+			description: "Logs retrieved successfully",
+			content: {
+				"application/json": {
+					schema: {
+						type: "object",
+						properties: {
+							success: { type: "boolean" },
+							configId: { type: "string" },
+							logs: {
+								type: "array",
+								items: {
+									$ref: "#/components/schemas/DataServiceLogEntry",
+								},
+							},
+							timestamp: { type: "string" },
+						},
+					},
+				},
+			},
+		},
+		"500": {
+			description: "Failed to read logs",
+		},
+	},
+};
@@ -1,14 +1,16 @@
 import { NextFunction, Request, Response } from 'express';
 import logger from '@/logging';
-import { pushToQueue } from '@/rabbit/publisher';
+import { queueMetadataDownload } from '@/services/metadata-migration/metadata-download';
 import { Operation } from 'express-openapi';
+import { DataServicePermission, requirePermission } from '@/services/auth';
 
  function parseMetadataRequestData(query: any) {
     const data: any = {
         metadataSource: query.metadataSource || 'flexiportal-config',
         selectedVisualizations: [],
         selectedMaps: [],
-        selectedDashboards: []
+        selectedDashboards: [],
+        dryRun: query.dryRun === 'true'
     };
 
     try {
@@ -45,7 +47,8 @@ export const GET: Operation = async (
             metadataSource,
             selectedVisualizations,
             selectedMaps,
-            selectedDashboards
+            selectedDashboards,
+            dryRun
         } = parseMetadataRequestData(req.query);
 
         if (!configId) {
@@ -56,19 +59,21 @@ export const GET: Operation = async (
         }
 
         const totalItems = selectedVisualizations.length + selectedMaps.length + selectedDashboards.length;
-        await pushToQueue(configId, 'metadataDownload', {
+        const runId = await queueMetadataDownload({
             configId,
             metadataSource,
             selectedVisualizations,
             selectedMaps,
             selectedDashboards,
             totalItems,
-            requestedAt: new Date().toISOString()
+            dryRun
         });
 
         res.status(202).json({
             message: 'Metadata download initiated successfully',
             configId,
+            runId,
+            dryRun,
             metadataSource: metadataSource,
             totalItems,
             status: 'processing',
@@ -93,7 +98,7 @@ export const POST: Operation = async (
 ) => {
     try {
         const { id: configId } = req.params;
-        const { metadataSource, selectedVisualizations, selectedMaps, selectedDashboards } = req.body;
+        const { metadataSource, selectedVisualizations, selectedMaps, selectedDashboards, dryRun } = req.body;
 
         if (!configId) {
             return res.status(400).json({
@@ -106,25 +111,28 @@ export const POST: Operation = async (
             metadataSource: metadataSource || 'flexiportal-config',
             selectedVisualizations: selectedVisualizations || [],
             selectedMaps: selectedMaps || [],
-            selectedDashboards: selectedDashboards || []
+            selectedDashboards: selectedDashboards || [],
+            dryRun: dryRun === true
         };
 
         logger.info(`Metadata download POST request for config: ${configId}`, { data });
 
         const totalItems = data.selectedVisualizations.length + data.selectedMaps.length + data.selectedDashboards.length;
-        await pushToQueue(configId, 'metadataDownload', {
+        const runId = await queueMetadataDownload({
             configId,
             metadataSource: data.metadataSource,
             selectedVisualizations: data.selectedVisualizations,
             selectedMaps: data.selectedMaps,
             selectedDashboards: data.selectedDashboards,
             totalItems,
-            requestedAt: new Date().toISOString()
+            dryRun: data.dryRun
         });
 
         res.status(202).json({
             message: 'Metadata download initiated successfully',
             configId,
+            runId,
+            dryRun: data.dryRun,
             metadataSource: data.metadataSource,
             totalItems,
             status: 'processing',
@@ -147,6 +155,7 @@ POST.apiDoc = {
     description: "Initiates metadata download from source DHIS2 instance and queues it for processing",
     operationId: "downloadMetadata",
     tags: ["METADATA"],
+    security: requirePermission(DataServicePermission.RUN),
     parameters: [
         {
             in: "path",
@@ -197,6 +206,10 @@ POST.apiDoc = {
                                     name: { type: "string" }
                                 }
                             }
+                        },
+                        dryRun: {
+                            type: "boolean",
+                            description: "Only validate the metadata against the destination (importMode=VALIDATE) without importing it"
                         }
                     }
                 }
@@ -213,6 +226,8 @@ POST.apiDoc = {
                         properties: {
                             message: { type: "string" },
                             configId: { type: "string" },
+                            runId: { type: "string" },
+                            dryRun: { type: "boolean" },
                             metadataSource: { type: "string" },
                             status: { type: "string" },
                             description: { type: "string" }
@@ -235,6 +250,7 @@ GET.apiDoc = {
     description: "Initiates metadata download from source DHIS2 instance using query parameters. This method is preferred when using DHIS2 routes.",
     operationId: "downloadMetadataWithQueryParams", 
     tags: ["METADATA"],
+    security: requirePermission(DataServicePermission.RUN),
     parameters: [
         {
             in: "path",
@@ -274,6 +290,13 @@ GET.apiDoc = {
             required: false, 
             schema: { type: "string" },
             description: "JSON string of selected dashboards array"
+        },
+        {
+            in: "query",
+            name: "dryRun",
+            required: false,
+            schema: { type: "boolean", default: false },
+            description: "Only validate the metadata against the destination (importMode=VALIDATE) without importing it"
         }
     ],
     responses: {
@@ -286,6 +309,8 @@ GET.apiDoc = {
                         properties: {
                             message: { type: "string" },
                             configId: { type: "string" }, 
+                            runId: { type: "string" },
+                            dryRun: { type: "boolean" },
                             metadataSource: { type: "string" },
                             totalItems: { type: "number" },
                             status: { type: "string" },
@@ -0,0 +1,111 @@
+import logger from "@/logging";
+import { NextFunction, Request, Response } from "express";
+import { Operation } from "express-openapi";
+import { dhis2Client, getSourceClientFromConfig } from "@/clients/dhis2";
+import { suggestOrgUnitMappings } from "@/utils/org-unit-mapping";
+import { DataServicePermission, requirePermission } from "@/services/auth";
+
+export const GET: Operation = async (
+	req: Request,
+	res: Response,
+	next: NextFunction,
+) => {
+	try {
+		const configId = req.params.id;
+		const level = parseInt(req.query.level as string) || undefined;
+
+		const sourceClient = await getSourceClientFromConfig(configId);
+		const { mappings, unmatched } = await suggestOrgUnitMappings({
+			sourceClient,
+			destinationClient: dhis2Client,
+			level,
+		});
+
+		res.json({
+			success: true,
+			configId,
+			mappings,
+			unmatched,
+			timestamp: new Date().toISOString(),
+		});
+	} catch (error) {
+		const errorMessage =
+			error instanceof Error ? error.message : String(error);
+		logger.error(
+			`Failed to suggest organisation unit mappings for ${req.params.id}: ${errorMessage}`,
+		);
+
+		res.status(500).json({
+			success: false,
+			configId: req.params.id,
+			error: errorMessage,
+			timestamp: new Date().toISOString(),
+		});
+	}
+};
+
+GET.apiDoc = {
+	summary: "Suggest organisation unit mappings",
+	description:
+		"Compares the organisation unit hierarchies of the source and the destination and matches their organisation units by ID, then by code, then by name and level. Codes and names only match when they identify a single organisation unit of the destination. The suggestions are not saved.",
+	operationId: "suggestOrgUnitMappings",
+	tags: ["DATA MIGRATION"],
+	security: requirePermission(DataServicePermission.READ),
+	parameters: [
+		{
+			in: "path",
+			name: "id",
+			required: true,
+			schema: { type: "string" },
+			description: "Configuration ID",
+		},
+		{
+			in: "query",
+			name: "level",
+			required: false,
+			schema: { type: "integer", minimum: 1 },
+			description:
+				"Only match organisation units of this level, e.g. the level data is migrated from",
+		},
+	],
+	responses: {
+		"200": {
+			description: "Suggested mappings",
+			content: {
+				"application/json": {
+					schema: {
+						type: "object",
+						properties: {
+							success: { type: "boolean" },
+							configId: { type: "string" },
+							mappings: {
+								type: "array",
+								items: {
+									$ref: "#/components/schemas/DataServiceOrgUnitMapping",
+								},
+							},
+							unmatched: {
+								type: "array",
+								description:
+									"Organisation units of the source without a match on the destination",
+								items: {
+									type: "object",
+									properties: {
+										id: { type: "string" },
+										name: { type: "string" },
+										code: { type: "string" },
+										level: { type: "integer" },
+									},
+								},
+							},
+							timestamp: { type: "string", format: "date-time" },
+						},
+					},
+				},
+			},
+		},
+		"500": {
+			description: "Failed to fetch the organisation units",
+		},
+	},
+};
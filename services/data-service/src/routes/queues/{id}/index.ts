@@ -5,6 +5,7 @@ import {
 	createQueuesForConfig,
 	deleteConfigQueues,
 } from "@/rabbit/queue-manager";
+import { DataServicePermission, requirePermission } from "@/services/auth";
 
 export const POST: Operation = async (
 	req: Request,
@@ -116,6 +117,7 @@ GET.apiDoc = {
 		"Returns message counts and consumer information for all queues of a specific config",
 	operationId: "getConfigQueueStats",
 	tags: ["QUEUE MANAGEMENT"],
+	security: requirePermission(DataServicePermission.READ),
 	parameters: [
 		{
 			in: "path",
@@ -153,6 +155,7 @@ POST.apiDoc = {
 	description: "Creates all necessary queues for a specific configuration",
 	operationId: "createConfigQueues",
 	tags: ["QUEUE MANAGEMENT"],
+	security: requirePermission(DataServicePermission.RUN),
 	parameters: [
 		{
 			in: "path",
@@ -197,6 +200,7 @@ DELETE.apiDoc = {
 	description: "Permanently deletes all queues of a specific config",
 	operationId: "deleteConfigQueues",
 	tags: ["QUEUE MANAGEMENT"],
+	security: requirePermission(DataServicePermission.DELETE),
 	parameters: [
 		{
 			in: "path",
@@ -2,81 +2,43 @@ import { NextFunction, Request, Response } from 'express';
 import logger from '@/logging';
 import { Operation } from 'express-openapi';
 import { getQueueNames } from '@/variables/queue-names';
-import { getChannel } from '@/rabbit/connection';
-import axios from 'axios';
+import { getBroker, QueuedMessage } from '@/broker';
+import { recordJobRetried } from '@/services/runs';
+import { DataServicePermission, requirePermission } from '@/services/auth';
 
-async function consumeFailedMessagesFromRabbitMQ(configId: string, limit: number = 50): Promise<any[]> {
+async function consumeFailedMessages(configId: string, limit: number = 50): Promise<QueuedMessage[]> {
     const queueNames = getQueueNames(configId);
     const failedQueueName = queueNames.failed;
-    
-    const rabbitMQConfig = {
-        baseURL: process.env.RABBITMQ_HOST || 'http://localhost:15672',
-        username: process.env.RABBITMQ_USER || 'guest',
-        password: process.env.RABBITMQ_PASS || 'guest',
-        vhost: process.env.RABBITMQ_VHOST || '%2F'
-    };
-
-    const baseURL = rabbitMQConfig.baseURL;
-    const auth = Buffer.from(`${rabbitMQConfig.username}:${rabbitMQConfig.password}`).toString('base64');
 
     try {
-        const response = await axios.post(
-            `${baseURL}/api/queues/${rabbitMQConfig.vhost}/${failedQueueName}/get`,
-            {
-                count: limit,
-                ackmode: "ack_requeue_false",  
-                encoding: "auto",
-                truncate: 50000
-            },
-            {
-                headers: {
-                    'Authorization': `Basic ${auth}`,
-                    'Content-Type': 'application/json'
-                }
-            }
-        );
-
-        return response.data || [];
+        return await getBroker().takeMessages(failedQueueName, limit);
     } catch (error: any) {
         logger.error(`Error consuming failed messages:`, error);
         throw new Error(`Failed to consume messages: ${error.message}`);
     }
 }
 
-async function retryMessage(message: any, configId: string): Promise<{ success: boolean; error?: string }> {
+async function retryMessage(message: QueuedMessage, configId: string): Promise<{ success: boolean; error?: string }> {
+    const broker = getBroker();
     try {
-        const channel = getChannel();
-        if (!channel) {
-            throw new Error('RabbitMQ channel not available');
-        }
-
         // Determine the source queue from the message headers
-        const headers = message.properties?.headers || {};
-        const xDeath = headers['x-death'];
-        let sourceQueue = null;
-        
-        if (xDeath && Array.isArray(xDeath) && xDeath.length > 0) {
-            sourceQueue = xDeath[0].queue;
-        }
+        const sourceQueue = message.deadLetter?.queue;
 
         if (!sourceQueue) {
             throw new Error('Cannot determine source queue for message');
         }
 
         // Republish the message to its original queue
-        const messageBuffer = Buffer.from(message.payload);
-        const success = channel.sendToQueue(sourceQueue, messageBuffer, {
-            persistent: true,
+        await broker.publish(sourceQueue, message.content, {
+            messageId: message.messageId,
             headers: {
-                ...headers,
+                ...message.headers,
                 'x-retry-attempt': true,
                 'x-retry-timestamp': new Date().toISOString()
             }
         });
 
-        if (!success) {
-            throw new Error('Failed to republish message');
-        }
+        recordJobRetried(message.content);
 
         logger.info(`Successfully retried message to queue: ${sourceQueue}`);
         return { success: true };
@@ -85,15 +47,14 @@ async function retryMessage(message: any, configId: string): Promise<{ success:
         
         // If retry fails, we need to put the message back in the failed queue
         try {
-            const channel = getChannel();
             const queueNames = getQueueNames(configId);
             const failedQueueName = queueNames.failed;
-            
-            if (channel) {
-                const messageBuffer = Buffer.from(message.payload);
-                channel.sendToQueue(failedQueueName, messageBuffer, message.properties);
-                logger.info(`Requeued failed retry message back to failed queue: ${failedQueueName}`);
-            }
+
+            await broker.publish(failedQueueName, message.content, {
+                messageId: message.messageId,
+                headers: message.headers
+            });
+            logger.info(`Requeued failed retry message back to failed queue: ${failedQueueName}`);
         } catch (requeueError: any) {
             logger.error(`Failed to requeue message to failed queue:`, requeueError);
         }
@@ -105,29 +66,10 @@ async function retryMessage(message: any, configId: string): Promise<{ success:
 async function getQueueDepth(configId: string): Promise<number> {
     const queueNames = getQueueNames(configId);
     const failedQueueName = queueNames.failed;
-    
-    const rabbitMQConfig = {
-        baseURL: process.env.RABBITMQ_HOST || 'http://localhost:15672',
-        username: process.env.RABBITMQ_USER || 'guest',
-        password: process.env.RABBITMQ_PASS || 'guest',
-        vhost: process.env.RABBITMQ_VHOST || '%2F'
-    };
-
-    const baseURL = rabbitMQConfig.baseURL;
-    const auth = Buffer.from(`${rabbitMQConfig.username}:${rabbitMQConfig.password}`).toString('base64');
 
     try {
-        const response = await axios.get(
-            `${baseURL}/api/queues/${rabbitMQConfig.vhost}/${failedQueueName}`,
-            {
-                headers: {
-                    'Authorization': `Basic ${auth}`,
-                    'Content-Type': 'application/json'
-                }
-            }
-        );
-
-        return response.data.messages || 0;
+        const { messages } = await getBroker().getQueueStats(failedQueueName);
+        return messages;
     } catch (error: any) {
         logger.error(`Error getting queue depth:`, error);
         return 0;
@@ -192,23 +134,18 @@ export const GET: Operation = async (
         }
 
         // Get and consume failed messages
-        const failedMessages = await consumeFailedMessagesFromRabbitMQ(configId, maxRetries);
+        const failedMessages = await consumeFailedMessages(configId, maxRetries);
         
         // Filter messages by process type if specified
         let messagesToRetry = failedMessages;
         if (retryType === 'process-type' && processType) {
             messagesToRetry = failedMessages.filter(message => {
-                const headers = message.properties?.headers || {};
-                const xDeath = headers['x-death'];
-                
-                if (xDeath && Array.isArray(xDeath) && xDeath.length > 0) {
-                    const sourceQueue = xDeath[0].queue;
-                    if (sourceQueue) {
-                        // Match process type to queue name pattern
-                        const queueLower = sourceQueue.toLowerCase();
-                        const processTypeLower = processType.toLowerCase();
-                        return queueLower.includes(processTypeLower.replace('-', '-'));
-                    }
+                const sourceQueue = message.deadLetter?.queue;
+                if (sourceQueue) {
+                    // Match process type to queue name pattern
+                    const queueLower = sourceQueue.toLowerCase();
+                    const processTypeLower = processType.toLowerCase();
+                    return queueLower.includes(processTypeLower.replace('-', '-'));
                 }
                 return false;
             });
@@ -301,7 +238,7 @@ export const POST: Operation = async (
         logger.info(`Retry request received for config: ${configId}`, { maxRetries });
 
         // Get and consume failed messages
-        const failedMessages = await consumeFailedMessagesFromRabbitMQ(configId, maxRetries);
+        const failedMessages = await consumeFailedMessages(configId, maxRetries);
         
         if (failedMessages.length === 0) {
             return res.json({
@@ -370,6 +307,7 @@ GET.apiDoc = {
     description: "Retry failed queue operations using query parameters (compatible with DHIS2 routes)",
     operationId: "retryFailedOperationsGet",
     tags: ["RETRY"],
+    security: requirePermission(DataServicePermission.RUN),
     parameters: [
         {
             in: "path",
@@ -446,6 +384,7 @@ POST.apiDoc = {
     description: "Retry failed queue operations based on different criteria",
     operationId: "retryFailedOperations",
     tags: ["RETRY"],
+    security: requirePermission(DataServicePermission.RUN),
     parameters: [
         {
             in: "path",
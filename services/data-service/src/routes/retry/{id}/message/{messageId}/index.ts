@@ -3,56 +3,22 @@ import { NextFunction, Request, Response } from 'express';
 import logger from '@/logging';
 import { Operation } from 'express-openapi';
 import { getQueueNames } from '@/variables/queue-names';
-import { getChannel } from '@/rabbit/connection';
-import axios from 'axios';
+import { getBroker, QueuedMessage } from '@/broker';
+import { recordJobRetried } from '@/services/runs';
+import { DataServicePermission, requirePermission } from '@/services/auth';
   
+/*
+ * Single messages are looked up among the first messages of the failed queue
+ * */
+const MESSAGE_LOOKUP_COUNT = 100;
+
 async function findAndRetrySpecificMessage(configId: string, targetMessageId: string): Promise<{ success: boolean; message: string; error?: string }> {
     const queueNames = getQueueNames(configId);
     const failedQueueName = queueNames.failed;
-    
-    const rabbitMQConfig = {
-        baseURL: process.env.RABBITMQ_HOST || 'http://localhost:15672',
-        username: process.env.RABBITMQ_USER || 'guest',
-        password: process.env.RABBITMQ_PASS || 'guest',
-        vhost: process.env.RABBITMQ_VHOST || '%2F'
-    };
-
-    const baseURL = rabbitMQConfig.baseURL;
-    const auth = Buffer.from(`${rabbitMQConfig.username}:${rabbitMQConfig.password}`).toString('base64');
+    const broker = getBroker();
 
     try {
-        // First, peek at messages to find the target message
-        const peekResponse = await axios.post(
-            `${baseURL}/api/queues/${rabbitMQConfig.vhost}/${failedQueueName}/get`,
-            {
-                count: 100, 
-                ackmode: "ack_requeue_true",  
-                encoding: "auto",
-                truncate: 50000
-            },
-            {
-                headers: {
-                    'Authorization': `Basic ${auth}`,
-                    'Content-Type': 'application/json'
-                }
-            }
-        );
-
-        const messages = peekResponse.data || [];
-        let targetMessageIndex = -1;
-        let targetMessage = null;
-
-        // Find the target message by ID
-        for (let i = 0; i < messages.length; i++) {
-            const msg = messages[i];
-            const msgId = msg.properties?.message_id || `msg-${i + 1}`;
-            
-            if (msgId === targetMessageId) {
-                targetMessageIndex = i;
-                targetMessage = msg;
-                break;
-            }
-        }
+        const targetMessage = await broker.takeMessage(failedQueueName, targetMessageId);
 
         if (!targetMessage) {
             return {
@@ -62,50 +28,8 @@ async function findAndRetrySpecificMessage(configId: string, targetMessageId: st
             };
         }
 
-        // Now consume messages up to and including the target message
-        const consumeResponse = await axios.post(
-            `${baseURL}/api/queues/${rabbitMQConfig.vhost}/${failedQueueName}/get`,
-            {
-                count: targetMessageIndex + 1, 
-                ackmode: "ack_requeue_false",  
-                encoding: "auto",
-                truncate: 50000
-            },
-            {
-                headers: {
-                    'Authorization': `Basic ${auth}`,
-                    'Content-Type': 'application/json'
-                }
-            }
-        );
-
-        const consumedMessages = consumeResponse.data || [];
-        
-        // The target message should be the last one consumed
-        const actualTargetMessage = consumedMessages[consumedMessages.length - 1];
-        
-        if (!actualTargetMessage) {
-            return {
-                success: false,
-                message: `Failed to consume target message '${targetMessageId}'`,
-                error: 'Message consumption failed'
-            };
-        }
-
-        // Requeue all messages except the target one
-        const channel = getChannel();
-        if (!channel) {
-            throw new Error('RabbitMQ channel not available');
-        }
-
-        for (let i = 0; i < consumedMessages.length - 1; i++) {
-            const msg = consumedMessages[i];
-            const messageBuffer = Buffer.from(msg.payload);
-            channel.sendToQueue(failedQueueName, messageBuffer, msg.properties);
-        }
-
         // Now retry the target message
-        const retryResult = await retryMessage(actualTargetMessage, configId);
+        const retryResult = await retryMessage(targetMessage);
         
         if (retryResult.success) {
             return {
@@ -114,8 +38,10 @@ async function findAndRetrySpecificMessage(configId: string, targetMessageId: st
             };
         } else {
             // Put the target message back in failed queue if retry failed
-            const messageBuffer = Buffer.from(actualTargetMessage.payload);
-            channel.sendToQueue(failedQueueName, messageBuffer, actualTargetMessage.properties);
+            await broker.publish(failedQueueName, targetMessage.content, {
+                messageId: targetMessage.messageId,
+                headers: targetMessage.headers
+            });
             
             return {
                 success: false,
@@ -137,121 +63,59 @@ async function findAndRetrySpecificMessage(configId: string, targetMessageId: st
 async function getFailedMessageById(configId: string, targetMessageId: string): Promise<any | null> {
     const queueNames = getQueueNames(configId);
     const failedQueueName = queueNames.failed;
-    
-    const rabbitMQConfig = {
-        baseURL: process.env.RABBITMQ_HOST || 'http://localhost:15672',
-        username: process.env.RABBITMQ_USER || 'guest',
-        password: process.env.RABBITMQ_PASS || 'guest',
-        vhost: process.env.RABBITMQ_VHOST || '%2F'
-    };
-
-    const baseURL = rabbitMQConfig.baseURL;
-    const auth = Buffer.from(`${rabbitMQConfig.username}:${rabbitMQConfig.password}`).toString('base64');
 
     try {
         // Peek at messages to find the target message
-        const response = await axios.post(
-            `${baseURL}/api/queues/${rabbitMQConfig.vhost}/${failedQueueName}/get`,
-            {
-                count: 100,  
-                ackmode: "ack_requeue_true",  
-                encoding: "auto",
-                truncate: 50000
-            },
-            {
-                headers: {
-                    'Authorization': `Basic ${auth}`,
-                    'Content-Type': 'application/json'
-                }
-            }
-        );
+        const messages = await getBroker().peekMessages(failedQueueName, MESSAGE_LOOKUP_COUNT);
+        const msg = messages.find(({ messageId }) => messageId === targetMessageId);
 
-        const messages = response.data || [];
-
-        // Find the target message by ID
-        for (let i = 0; i < messages.length; i++) {
-            const msg = messages[i];
-            const msgId = msg.properties?.message_id || `msg-${i + 1}`;
-            
-            if (msgId === targetMessageId) {
-                let payload;
-                try {
-                    payload = JSON.parse(msg.payload);
-                } catch {
-                    payload = msg.payload;
-                }
-
-                const headers = msg.properties?.headers || {};
-                const xDeath = headers['x-death'];
-                let sourceQueue = null;
-                let retryCount = null;
-                let deathReason = null;
-                let deathTimestamp = null;
-                
-                if (xDeath && Array.isArray(xDeath) && xDeath.length > 0) {
-                    const deathInfo = xDeath[0];
-                    sourceQueue = deathInfo.queue;
-                    retryCount = deathInfo.count;
-                    deathReason = deathInfo.reason;
-                    if (deathInfo.time) {
-                        deathTimestamp = new Date(deathInfo.time * 1000).toISOString();
-                    }
-                }
+        if (!msg) {
+            return null;
+        }
 
-                return {
-                    messageId: msgId,
-                    sourceQueue,
-                    retryCount,
-                    deathReason,
-                    deathTimestamp,
-                    headers,
-                    payload,
-                    retrievedAt: new Date().toISOString()
-                };
-            }
+        let payload;
+        try {
+            payload = JSON.parse(msg.content);
+        } catch {
+            payload = msg.content;
         }
 
-        return null;
+        return {
+            messageId: msg.messageId,
+            sourceQueue: msg.deadLetter?.queue ?? null,
+            retryCount: msg.deadLetter?.count ?? null,
+            deathReason: msg.deadLetter?.reason ?? null,
+            deathTimestamp: msg.deadLetter?.time ?? null,
+            headers: msg.headers,
+            payload,
+            retrievedAt: new Date().toISOString()
+        };
     } catch (error: any) {
         logger.error(`Error getting failed message by ID:`, error);
         throw new Error(`Failed to get message: ${error.message}`);
     }
 }
 
-async function retryMessage(message: any, configId: string): Promise<{ success: boolean; error?: string }> {
+async function retryMessage(message: QueuedMessage): Promise<{ success: boolean; error?: string }> {
     try {
-        const channel = getChannel();
-        if (!channel) {
-            throw new Error('RabbitMQ channel not available');
-        }
-
         // Determine the source queue from the message headers
-        const headers = message.properties?.headers || {};
-        const xDeath = headers['x-death'];
-        let sourceQueue = null;
-        
-        if (xDeath && Array.isArray(xDeath) && xDeath.length > 0) {
-            sourceQueue = xDeath[0].queue;
-        }
+        const sourceQueue = message.deadLetter?.queue;
 
         if (!sourceQueue) {
             throw new Error('Cannot determine source queue for message');
         }
 
         // Republish the message to its original queue
-        const messageBuffer = Buffer.from(message.payload);
-        const success = channel.sendToQueue(sourceQueue, messageBuffer, {
-            persistent: true,
+        await getBroker().publish(sourceQueue, message.content, {
+            messageId: message.messageId,
             headers: {
-                ...headers,
+                ...message.headers,
                 'x-retry-attempt': true,
                 'x-retry-timestamp': new Date().toISOString()
             }
         });
 
-        if (!success) {
-            throw new Error('Failed to republish message');
-        }
+        recordJobRetried(message.content);
 
         logger.info(`Successfully retried specific message to queue: ${sourceQueue}`);
         return { success: true };
@@ -370,6 +234,7 @@ POST.apiDoc = {
     description: "Retry a single failed message by its ID",
     operationId: "retrySpecificMessage",
     tags: ["RETRY"],
+    security: requirePermission(DataServicePermission.RUN),
     parameters: [
         {
             in: "path",
@@ -419,6 +284,7 @@ GET.apiDoc = {
     description: "Retrieve details of a specific failed message",
     operationId: "getFailedMessageDetails",
     tags: ["RETRY"],
+    security: requirePermission(DataServicePermission.READ),
     parameters: [
         {
             in: "path",
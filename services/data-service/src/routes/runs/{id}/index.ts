@@ -0,0 +1,112 @@
+import logger from "@/logging";
+import { NextFunction, Request, Response } from "express";
+import { Operation } from "express-openapi";
+import { listRuns } from "@/services/runs";
+import { DataServicePermission, requirePermission } from "@/services/auth";
+
+export const GET: Operation = async (
+	req: Request,
+	res: Response,
+	next: NextFunction,
+) => {
+	try {
+		const configId = req.params.id;
+		const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+		const offset = parseInt(req.query.offset as string) || 0;
+
+		const { runs, total } = listRuns(configId, { limit, offset });
+
+		res.json({
+			success: true,
+			configId,
+			runs,
+			pagination: {
+				limit,
+				offset,
+				total,
+				hasNextPage: offset + runs.length < total,
+			},
+			timestamp: new Date().toISOString(),
+		});
+	} catch (error) {
+		const errorMessage =
+			error instanceof Error ? error.message : String(error);
+		logger.error(
+			`Failed to list runs for ${req.params.id}: ${errorMessage}`,
+		);
+
+		res.status(500).json({
+			success: false,
+			configId: req.params.id,
+			error: errorMessage,
+			timestamp: new Date().toISOString(),
+		});
+	}
+};
+
+GET.apiDoc = {
+	summary: "List runs of a config",
+	description:
+		"Returns the run history of a configuration, most recent first, with per-stage job and import counts",
+	operationId: "listConfigRuns",
+	tags: ["RUNS"],
+	security: requirePermission(DataServicePermission.READ),
+	parameters: [
+		{
+			in: "path",
+			name: "id",
+			required: true,
+			schema: { type: "string" },
+			description: "Configuration ID",
+		},
+		{
+			in: "query",
+			name: "limit",
+			required: false,
+			schema: { type: "integer", minimum: 1, maximum: 100, default: 20 },
+			description: "Maximum number of runs to return",
+		},
+		{
+			in: "query",
+			name: "offset",
+			required: false,
+			schema: { type: "integer", minimum: 0, default: 0 },
+			description: "Number of runs to skip",
+		},
+	],
+	responses: {
+		"200": {
+			description: "Runs retrieved successfully",
+			content: {
+				"application/json": {
+					schema: {
+						type: "object",
+						properties: {
+							success: { type: "boolean" },
+							configId: { type: "string" },
+							runs: {
+								type: "array",
+								items: {
+									$ref: "#/components/schemas/DataServiceRun",
+								},
+							},
+							pagination: {
+								type: "object",
+								properties: {
+									limit: { type: "integer" },
+									offset: { type: "integer" },
+									total: { type: "integer" },
+									hasNextPage: { type: "boolean" },
+								},
+							},
+							timestamp: { type: "string" },
+						},
+					},
+				},
+			},
+		},
+		"500": {
+			description: "Failed to list runs",
+		},
+	},
+};
@@ -0,0 +1,96 @@
+import logger from "@/logging";
+import { NextFunction, Request, Response } from "express";
+import { Operation } from "express-openapi";
+import { getRun } from "@/services/runs";
+import { DataServicePermission, requirePermission } from "@/services/auth";
+
+export const GET: Operation = async (
+	req: Request,
+	res: Response,
+	next: NextFunction,
+) => {
+	try {
+		const { id: configId, runId } = req.params;
+		const run = getRun(runId);
+
+		if (!run || run.configId !== configId) {
+			return res.status(404).json({
+				success: false,
+				configId,
+				error: `Run ${runId} not found`,
+				timestamp: new Date().toISOString(),
+			});
+		}
+
+		res.json({
+			success: true,
+			configId,
+			run,
+			timestamp: new Date().toISOString(),
+		});
+	} catch (error) {
+		const errorMessage =
+			error instanceof Error ? error.message : String(error);
+		logger.error(
+			`Failed to get run ${req.params.runId} for ${req.params.id}: ${errorMessage}`,
+		);
+
+		res.status(500).json({
+			success: false,
+			configId: req.params.id,
+			error: errorMessage,
+			timestamp: new Date().toISOString(),
+		});
+	}
+};
+
+GET.apiDoc = {
+	summary: "Get a run",
+	description:
+		"Returns a single run of a configuration including the errors recorded for it",
+	operationId: "getConfigRun",
+	tags: ["RUNS"],
+	security: requirePermission(DataServicePermission.READ),
+	parameters: [
+		{
+			in: "path",
+			name: "id",
+			required: true,
+			schema: { type: "string" },
+			description: "Configuration ID",
+		},
+		{
+			in: "path",
+			name: "runId",
+			required: true,
+			schema: { type: "string" },
+			description: "Run ID",
+		},
+	],
+	responses: {
+		"200": {
+			description: "Run retrieved successfully",
+			content: {
+				"application/json": {
+					schema: {
+						type: "object",
+						properties: {
+							success: { type: "boolean" },
+							configId: { type: "string" },
+							run: {
+								$ref: "#/components/schemas/DataServiceRun",
+							},
+							timestamp: { type: "string" },
+						},
+					},
+				},
+			},
+		},
+		"404": {
+			description: "Run not found",
+		},
+		"500": {
+			description: "Failed to get run",
+		},
+	},
+};
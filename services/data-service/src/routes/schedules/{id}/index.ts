@@ -0,0 +1,191 @@
+import logger from "@/logging";
+import { NextFunction, Request, Response } from "express";
+import { Operation } from "express-openapi";
+import {
+	getConfigScheduleStatus,
+	reloadConfigSchedules,
+} from "@/services/scheduler";
+import { DataServicePermission, requirePermission } from "@/services/auth";
+
+export const GET: Operation = async (
+	req: Request,
+	res: Response,
+	next: NextFunction,
+) => {
+	try {
+		const configId = req.params.id;
+		const schedules = await getConfigScheduleStatus(configId);
+
+		res.json({
+			success: true,
+			configId,
+			schedules,
+			timestamp: new Date().toISOString(),
+		});
+	} catch (error: any) {
+		logger.error(`Failed to get schedules for ${req.params.id}:`, error);
+
+		const statusCode = error.response?.status === 404 ? 404 : 500;
+		const errorMessage =
+			error instanceof Error ? error.message : String(error);
+
+		res.status(statusCode).json({
+			success: false,
+			configId: req.params.id,
+			error: errorMessage,
+			timestamp: new Date().toISOString(),
+		});
+	}
+};
+
+export const POST: Operation = async (
+	req: Request,
+	res: Response,
+	next: NextFunction,
+) => {
+	try {
+		const configId = req.params.id;
+		logger.info(`Reloading schedules for configId: ${configId}`);
+		await reloadConfigSchedules(configId);
+		const schedules = await getConfigScheduleStatus(configId).catch(
+			() => [],
+		);
+
+		res.json({
+			success: true,
+			configId,
+			schedules,
+			message: "Schedules reloaded successfully",
+			timestamp: new Date().toISOString(),
+		});
+	} catch (error) {
+		const errorMessage =
+			error instanceof Error ? error.message : String(error);
+		logger.error(
+			`Failed to reload schedules for ${req.params.id}: ${errorMessage}`,
+		);
+
+		res.status(500).json({
+			success: false,
+			configId: req.params.id,
+			error: errorMessage,
+			timestamp: new Date().toISOString(),
+		});
+	}
+};
+
+const scheduleStatusSchema: any = {
+	type: "object",
+	properties: {
+		id: { type: "string" },
+		name: { type: "string" },
+		cron: { type: "string", example: "0 2 * * *" },
+		enabled: { type: "boolean" },
+		nextRun: { type: "string", format: "date-time", nullable: true },
+		lastRun: { type: "string", format: "date-time", nullable: true },
+		lastRunStatus: {
+			type: "string",
+			enum: ["SUCCESS", "FAILED"],
+			nullable: true,
+		},
+		lastRunPeriods: {
+			type: "array",
+			items: { type: "string" },
+			example: ["202607", "202608", "202609"],
+		},
+		lastRunId: {
+			type: "string",
+			nullable: true,
+			description: "ID of the last run in the run history",
+		},
+		lastRunError: { type: "string" },
+	},
+};
+
+GET.apiDoc = {
+	summary: "Get schedules of a config",
+	description:
+		"Returns the recurring run schedules defined on a configuration together with their next and last run times",
+	operationId: "getConfigSchedules",
+	tags: ["SCHEDULES"],
+	security: requirePermission(DataServicePermission.READ),
+	parameters: [
+		{
+			in: "path",
+			name: "id",
+			required: true,
+			schema: { type: "string" },
+			description: "Configuration ID",
+		},
+	],
+	responses: {
+		"200": {
+			description: "Schedules retrieved successfully",
+			content: {
+				"application/json": {
+					schema: {
+						type: "object",
+						properties: {
+							success: { type: "boolean" },
+							configId: { type: "string" },
+							schedules: {
+								type: "array",
+								items: scheduleStatusSchema,
+							},
+							timestamp: { type: "string" },
+						},
+					},
+				},
+			},
+		},
+		"404": {
+			description: "Configuration not found",
+		},
+		"500": {
+			description: "Failed to get schedules",
+		},
+	},
+};
+
+POST.apiDoc = {
+	summary: "Reload schedules of a config",
+	description:
+		"Re-reads the configuration from the datastore and replaces its running schedules. Call this after editing the schedules of a configuration.",
+	operationId: "reloadConfigSchedules",
+	tags: ["SCHEDULES"],
+	security: requirePermission(DataServicePermission.RUN),
+	parameters: [
+		{
+			in: "path",
+			name: "id",
+			required: true,
+			schema: { type: "string" },
+			description: "Configuration ID",
+		},
+	],
+	responses: {
+		"200": {
+			description: "Schedules reloaded successfully",
+			content: {
+				"application/json": {
+					schema: {
+						type: "object",
+						properties: {
+							success: { type: "boolean" },
+							configId: { type: "string" },
+							schedules: {
+								type: "array",
+								items: scheduleStatusSchema,
+							},
+							message: { type: "string" },
+							timestamp: { type: "string" },
+						},
+					},
+				},
+			},
+		},
+		"500": {
+			description: "Failed to reload schedules",
+		},
+	},
+};
@@ -3,6 +3,7 @@ import { Operation } from 'express-openapi';
 import logger from '@/logging';
 import { getMultipleQueueStatus, getSystemHealth } from '@/services/status';
 import { getQueueNames } from '@/variables/queue-names';
+import { DataServicePermission, requirePermission } from '@/services/auth';
 
 export const GET: Operation = async (
     req: Request,
@@ -85,6 +86,7 @@ GET.apiDoc = {
     description: "Returns detailed status information for all queues associated with a specific configuration",
     operationId: "getConfigStatus",
     tags: ["STATUS"],
+    security: requirePermission(DataServicePermission.READ),
     parameters: [
         {
             in: "path",
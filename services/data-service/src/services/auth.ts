@@ -0,0 +1,184 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+import { IncomingHttpHeaders } from "node:http";
+import { Request } from "express";
+import { ExpressOpenAPIArgs } from "express-openapi";
+import { compact, intersection } from "lodash";
+import { dhis2Client } from "@/clients/dhis2";
+import { env } from "@/env";
+import logger from "@/logging";
+
+/*
+ * Permissions of the routes, declared as the scopes of the `apiKey` security requirement of each route `apiDoc`
+ * */
+export enum DataServicePermission {
+	READ = "read",
+	RUN = "run",
+	DELETE = "delete",
+}
+
+export const API_KEY_HEADER = "X-API-Key";
+/*
+ * Set by DHIS2 to the username of the user running the `data-service` route
+ * */
+export const FORWARDED_USER_HEADER = "X-Forwarded-User";
+
+export class AuthError extends Error {
+	status: number;
+
+	constructor(message: string, status: number) {
+		super(message);
+		this.status = status;
+	}
+}
+
+export const securitySchemes = {
+	apiKey: {
+		type: "apiKey",
+		in: "header",
+		name: API_KEY_HEADER,
+		description:
+			"Shared secret of the data service, sent by the `data-service` route of DHIS2",
+	},
+};
+
+/**
+ * Security requirement of a route `apiDoc`, e.g. `security: requirePermission(DataServicePermission.RUN)`
+ */
+export function requirePermission(permission: DataServicePermission) {
+	return [{ apiKey: [permission] }];
+}
+
+function getList(value?: string) {
+	return compact(value?.split(",").map((item) => item.trim()));
+}
+
+const apiKeys = getList(env.DATA_SERVICE_API_KEYS);
+
+const requiredAuthorities: Record<DataServicePermission, string[]> = {
+	[DataServicePermission.READ]: getList(env.DATA_SERVICE_READ_AUTHORITIES),
+	[DataServicePermission.RUN]: getList(env.DATA_SERVICE_RUN_AUTHORITIES),
+	[DataServicePermission.DELETE]: getList(
+		env.DATA_SERVICE_DELETE_AUTHORITIES,
+	),
+};
+
+export function isAuthEnabled() {
+	return apiKeys.length > 0;
+}
+
+function hash(value: string) {
+	return createHash("sha256").update(value).digest();
+}
+
+function isValidApiKey(value?: string) {
+	if (!value) {
+		return false;
+	}
+	return apiKeys.some((apiKey) => timingSafeEqual(hash(apiKey), hash(value)));
+}
+
+/**
+ * Checks the API key of requests outside of the OpenAPI routes, e.g. Prometheus scrapes of `/metrics`, which can only
+ * send it as a bearer token
+ */
+export function hasValidApiKey(headers: IncomingHttpHeaders) {
+	const header = headers[API_KEY_HEADER.toLowerCase()];
+	const bearer = headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+	return (
+		isValidApiKey(Array.isArray(header) ? header[0] : header) ||
+		isValidApiKey(bearer)
+	);
+}
+
+/*
+ * Authorities of DHIS2 users are kept for a minute, so that the status polling of the manager does not query DHIS2 on every request
+ * */
+const AUTHORITIES_TTL = 60 * 1000;
+const userAuthorities = new Map<
+	string,
+	{ authorities: string[]; expiresAt: number }
+>();
+
+async function getUserAuthorities(username: string) {
+	const cached = userAuthorities.get(username);
+	if (cached && cached.expiresAt > Date.now()) {
+		return cached.authorities;
+	}
+	const { data } = await dhis2Client.get<{
+		users: { userRoles?: { authorities?: string[] }[] }[];
+	}>("users", {
+		params: {
+			filter: `username:eq:${username}`,
+			fields: "userRoles[authorities]",
+			paging: false,
+		},
+	});
+	if (data.users.length === 0) {
+		throw new AuthError(`The DHIS2 user ${username} does not exist`, 403);
+	}
+	const authorities =
+		data.users[0].userRoles?.flatMap(
+			({ authorities }) => authorities ?? [],
+		) ?? [];
+	userAuthorities.set(username, {
+		authorities,
+		expiresAt: Date.now() + AUTHORITIES_TTL,
+	});
+	return authorities;
+}
+
+async function verifyUser(req: Request, permissions: string[]) {
+	const username = req.get(FORWARDED_USER_HEADER);
+	if (!username) {
+		throw new AuthError(
+			`The DHIS2 user is required in the ${FORWARDED_USER_HEADER} header`,
+			401,
+		);
+	}
+	const required = permissions.flatMap(
+		(permission) =>
+			requiredAuthorities[permission as DataServicePermission] ?? [],
+	);
+	if (required.length === 0) {
+		return;
+	}
+	const authorities = await getUserAuthorities(username).catch((error) => {
+		if (error instanceof AuthError) {
+			throw error;
+		}
+		logger.error(`Could not get the authorities of ${username}`, error);
+		throw new AuthError("Could not verify the DHIS2 user", 502);
+	});
+	if (
+		!authorities.includes("ALL") &&
+		intersection(authorities, required).length === 0
+	) {
+		logger.warn(
+			`DHIS2 user ${username} is not allowed to ${permissions.join(", ")} on ${req.method} ${req.path}`,
+		);
+		throw new AuthError(
+			`The DHIS2 user ${username} does not have any of the authorities ${required.join(", ")}`,
+			403,
+		);
+	}
+}
+
+/**
+ * Security handlers of `express-openapi`. Every route requires a valid API key once `DATA_SERVICE_API_KEYS` is set,
+ * and a DHIS2 user with the authorities of the route permissions when `DATA_SERVICE_VERIFY_USER` is enabled.
+ */
+export const securityHandlers: ExpressOpenAPIArgs["securityHandlers"] = {
+	apiKey: async (req, permissions) => {
+		if (!isAuthEnabled()) {
+			return true;
+		}
+		const request = req as Request;
+		if (!isValidApiKey(request.get(API_KEY_HEADER))) {
+			throw new AuthError(`Invalid or missing ${API_KEY_HEADER}`, 401);
+		}
+		if (env.DATA_SERVICE_VERIFY_USER === "true") {
+			await verifyUser(request, permissions);
+		}
+		return true;
+	},
+};
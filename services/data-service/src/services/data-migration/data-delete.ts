@@ -4,44 +4,65 @@ import { DatastoreNamespaces } from "@packages/shared/constants";
 import {
     DataServiceAttributeValuesDataItemsSource,
     DataServiceConfig,
+    DataServiceImportSummary,
     DataServiceRuntimeConfig,
-    DataServiceDataSourceItemsConfig
+    DataServiceDataSourceItemsConfig,
+    DataServiceDataItemConfig
 } from "@packages/shared/schemas";
 import { AxiosError } from "axios";
 import { chunk, compact, head, isEmpty } from "lodash";
 import { pushToQueue } from "@/rabbit/publisher";
 import { getQueueNames } from "@/variables/queue-names";
-import { fetchPagedData, processAttributeComboData, processData } from "@/utils/data";
+import { DataResponse, fetchPagedData, processAttributeComboData, processData } from "@/utils/data";
 import pLimit from "p-limit";
 import { getDimensions } from "@/utils/dimensions";
+import { resolvePeriods } from "@/utils/periods";
+import { createRun, failRun, recordImportCounts, recordImportSummary, startRun } from "@/services/runs";
+import { getDataImportSummary } from "@/utils/import-summary";
+import { QueuedDataRun } from "@/services/data-migration/data-download";
+import { mapOrgUnitDimension } from "@/utils/org-unit-mapping";
+import { Dimensions } from "@/schemas/metadata";
+import { runWithCorrelationId } from "@/utils/job-context";
 
 export interface DataDeleteOptions {
     mainConfigId: string;
     dataItemsConfigIds: Array<string>;
     runtimeConfig: DataServiceRuntimeConfig;
+    dryRun?: boolean;
 }
 
 export interface DataDeleteJob {
+    runId?: string;
     mainConfigId: string;
     mainConfig: DataServiceConfig;
     periodId: string;
     config: DataServiceDataSourceItemsConfig;
     runtimeConfig: DataServiceRuntimeConfig;
     overrideDimensions?: any;
+    dryRun?: boolean;
 }
 
-export async function deleteAndQueueData(options: DataDeleteOptions): Promise<void> {
+export async function deleteAndQueueData(options: DataDeleteOptions): Promise<QueuedDataRun> {
     try {
-        const { mainConfigId, dataItemsConfigIds, runtimeConfig } = options;
+        const { mainConfigId, dataItemsConfigIds, runtimeConfig, dryRun } = options;
         logger.info(`Starting data delete and queue process for config: ${mainConfigId}`);
 
         const mainConfig = await fetchMainConfiguration(mainConfigId);
         const dataItemConfigs = compact(dataItemsConfigIds.map((id) => {
             return mainConfig.itemsConfig.find(({ id: configId }) => configId === id);
-        }));
-        await enqueueDataDeleteTasks(mainConfig, runtimeConfig, dataItemConfigs);
+        })).filter((config) => {
+            if (config.type === "FILE_VALUES") {
+                logger.warn(`Configuration ${config.id} holds uploaded file data and can not be deleted by period. Skipping...`);
+                return false;
+            }
+            return true;
+        });
+        const queuedRun = await runWithCorrelationId(mainConfigId, () =>
+            enqueueDataDeleteTasks(mainConfig, runtimeConfig, dataItemConfigs, dryRun)
+        );
 
         logger.info(`Data delete jobs successfully queued for config: ${mainConfigId}`);
+        return queuedRun;
     } catch (error) {
         logger.error(`Error during delete and queue process for config ${options.mainConfigId}:`, error);
         throw error;
@@ -69,31 +90,56 @@ async function fetchMainConfiguration(configId: string): Promise<DataServiceConf
 async function enqueueDataDeleteTasks(
     mainConfig: DataServiceConfig,
     runtimeConfig: DataServiceRuntimeConfig,
-    dataItemConfigs: DataServiceDataSourceItemsConfig[]
-): Promise<void> {
+    dataItemConfigs: DataServiceDataSourceItemsConfig[],
+    dryRun?: boolean
+): Promise<QueuedDataRun> {
     const configId = mainConfig.id;
     const queueNames = getQueueNames(configId);
 
     logger.info(`Using data delete queue: ${queueNames.dataDeletion}`);
 
-    const pushPromises: Promise<void>[] = [];
+    const resolvedPeriods: Record<string, string[]> = {};
+    for (const config of dataItemConfigs) {
+        resolvedPeriods[config.id] = resolvePeriods(runtimeConfig.periods, config.periodTypeId);
+        logger.info(`Configuration ${config.id} resolved to periods: ${resolvedPeriods[config.id].join(', ')}`);
+    }
 
-    for (const periodId of runtimeConfig.periods) {
+    const runId = createRun({
+        configId,
+        type: 'delete',
+        dataItemsConfigIds: dataItemConfigs.map(({ id }) => id),
+        requestedPeriods: runtimeConfig.periods,
+        periods: resolvedPeriods,
+        dryRun,
+    });
+
+    try {
         for (const config of dataItemConfigs) {
-            const message: DataDeleteJob = {
-                mainConfigId: configId,
-                mainConfig,
-                periodId,
-                config,
-                runtimeConfig,
-            };
-            await pushToQueue(configId, 'dataDeletion', message, {
-                queuedAt: new Date().toISOString(),
-                operation: 'delete'
-            })
+            const periods = resolvedPeriods[config.id];
+            for (const periodId of periods) {
+                const message: DataDeleteJob = {
+                    runId,
+                    mainConfigId: configId,
+                    mainConfig,
+                    periodId,
+                    config,
+                    runtimeConfig: { ...runtimeConfig, periods },
+                    dryRun: dryRun || false,
+                };
+                await pushToQueue(configId, 'dataDeletion', message, {
+                    queuedAt: new Date().toISOString(),
+                    operation: 'delete'
+                })
 
+            }
         }
+    } catch (error) {
+        failRun(runId, error as Error);
+        throw error;
     }
+    startRun(runId);
+
+    return { runId, periods: resolvedPeriods };
 }
 
 export async function deleteData(jobData: any): Promise<void> {
@@ -123,7 +169,7 @@ export async function deleteData(jobData: any): Promise<void> {
 }
 
 async function handleDeletePagination(jobData: any, client: any): Promise<boolean> {
-    const { mainConfigId, mainConfig, periodId, config, runtimeConfig, overrideDimensions } = jobData;
+    const { runId, mainConfigId, mainConfig, periodId, config, runtimeConfig, overrideDimensions, dryRun } = jobData;
 
     if (overrideDimensions) {
         return false;
@@ -161,11 +207,13 @@ async function handleDeletePagination(jobData: any, client: any): Promise<boolea
         };
 
         await pushToQueue(mainConfigId, 'dataDeletion', {
+            runId,
             mainConfigId,
             mainConfig,
             periodId,
             config,
             runtimeConfig,
+            dryRun,
             overrideDimensions: paginatedDimensions,
         }, {
             queuedAt: new Date().toISOString(),
@@ -179,13 +227,18 @@ async function handleDeletePagination(jobData: any, client: any): Promise<boolea
 }
 
 async function processDataDeletion(jobData: any, client: any): Promise<void> {
-    const { mainConfigId, mainConfig, periodId, config, runtimeConfig, overrideDimensions } = jobData;
+    const { runId, mainConfigId, mainConfig, periodId, config, runtimeConfig, overrideDimensions, dryRun } = jobData;
 
-    const dimensions = overrideDimensions || getDimensions({
+    const sourceDimensions = overrideDimensions || getDimensions({
         runtimeConfig,
         mappingConfig: config,
         periodId,
     });
+    // Values are fetched from the destination, so the organisation units are the mapped ones
+    const dimensions = {
+        ...sourceDimensions,
+        ou: mapOrgUnitDimension(sourceDimensions.ou, mainConfig.orgUnitMappings),
+    };
     const data = await fetchPagedData({
         dimensions,
         filters: config.filters,
@@ -213,18 +266,85 @@ async function processDataDeletion(jobData: any, client: any): Promise<void> {
     logger.info(`${processedData.dataValues.length} data values processed for deletion from destination`);
 
     if (!isEmpty(processedData.dataValues)) {
-        await deleteDataValues(processedData.dataValues, mainConfigId);
-        logger.info(`Successfully deleted ${processedData.dataValues.length} data values from destination`);
+        const importSummary = await deleteDataValues(processedData.dataValues, mainConfigId, dryRun);
+        recordDeletion(runId, importSummary);
+        logger.info(`Successfully ${dryRun ? 'validated deletion of' : 'deleted'} ${processedData.dataValues.length} data values from destination`);
     }
 }
 
+/*
+ * Deletes the destination values of the data items that are no longer in the given processed values,
+ * e.g. when all the source values they were aggregated from were deleted
+ * */
+export async function deleteStaleDataValues({ runId, mainConfig, config, dimensions, dataValues, timeout, dryRun }: {
+    runId?: string;
+    mainConfig: DataServiceConfig;
+    config: any;
+    dimensions: Dimensions;
+    dataValues: DataResponse['dataValues'];
+    timeout?: number;
+    dryRun?: boolean;
+}): Promise<void> {
+    if (config.type === "FILE_VALUES") {
+        return;
+    }
+    const destinationDimensions = {
+        ...dimensions,
+        dx: dimensions.dx?.map((dataItem) => config.dataItems.find(({ sourceId }: DataServiceDataItemConfig) => sourceId === dataItem)?.id ?? dataItem),
+        ou: mapOrgUnitDimension(dimensions.ou, mainConfig.orgUnitMappings),
+    };
+    const data = await fetchPagedData({
+        dimensions: destinationDimensions,
+        filters: config.filters,
+        client: dhis2Client,
+        timeout,
+    });
+    const destinationData = config.type === "ATTRIBUTE_VALUES"
+        ? await processAttributeComboData({
+            data,
+            dataItemsConfig: config,
+            categoryOptionId: head(
+                config.filters![(config as DataServiceAttributeValuesDataItemsSource).attributeId]
+            ) as string,
+        })
+        : data;
+
+    // Attribute option combos are only compared when they are set by the configuration, default ones differ between instances
+    const getKey = (value: DataResponse['dataValues'][number]) => [
+        value.dataElement,
+        value.categoryOptionCombo,
+        value.orgUnit,
+        value.period,
+        config.type === "ATTRIBUTE_VALUES" ? value.attributeOptionCombo : undefined,
+    ].join('|');
+    const keys = new Set(dataValues.map(getKey));
+    const staleValues = destinationData.dataValues.filter((value) => !keys.has(getKey(value)));
+    if (isEmpty(staleValues)) {
+        return;
+    }
+
+    logger.info(`Deleting ${staleValues.length} destination values of ${config.id} deleted from the source`);
+    const importSummary = await deleteDataValues(staleValues, mainConfig.id, dryRun);
+    recordDeletion(runId, importSummary);
+}
+
+function recordDeletion(runId: string | undefined, importSummary: DataServiceImportSummary) {
+    recordImportSummary(runId, importSummary);
+    recordImportCounts(runId, importSummary.stage, {
+        imported: importSummary.imported,
+        updated: importSummary.updated,
+        ignored: importSummary.ignored,
+        deleted: importSummary.deleted,
+    });
+}
+
 async function processDestinationDataForDeletion(data: any, dataItems: any[]): Promise<any> {
     return {
         dataValues: data.dataValues
     };
 }
 
-async function deleteDataValues(dataValues: any[], configId: string): Promise<{ deleted: number; ignored: number }> {
+async function deleteDataValues(dataValues: any[], configId: string, dryRun?: boolean): Promise<DataServiceImportSummary> {
     try {
         const deletionPayload = {
             dataValues: dataValues.map(dataValue => ({
@@ -241,6 +361,7 @@ async function deleteDataValues(dataValues: any[], configId: string): Promise<{
         const params = {
             importStrategy: "DELETE",
             async: false,
+            dryRun: dryRun ?? false,
         };
         const response = await dhis2Client.post(url, deletionPayload, { params });
         const importSummary = response.data?.response || response.data;
@@ -264,7 +385,7 @@ async function deleteDataValues(dataValues: any[], configId: string): Promise<{
             logger.warn(`Unexpected operation counts - updated: ${updated}, imported: ${imported} (should be 0 for DELETE strategy)`);
         }
 
-        return { deleted, ignored };
+        return getDataImportSummary({ stage: 'dataDeletion', response: importSummary });
     } catch (error: any) {
         logger.error(`Error during bulk data deletion for config ${configId}:`, error);
         throw error;
@@ -6,29 +6,50 @@ import {
 	DataServiceConfig,
 	DataServiceDataSourceItemsConfig,
 	DataServiceRuntimeConfig,
+	DataServiceSchedulePeriods,
 } from "@packages/shared/schemas";
-import { AxiosError } from "axios";
-import { chunk, compact, head, isEmpty } from "lodash";
+import { AxiosError, AxiosInstance } from "axios";
+import { chunk, compact, groupBy, head, isEmpty } from "lodash";
 import { pushToQueue } from "@/rabbit/publisher";
 import { checkOrCreateFolder } from "@/utils/files";
 import {
 	fetchPagedData,
+	fetchUpdatedDataItems,
 	processAttributeComboData,
 	processData,
 	processDataItems,
 	saveDataFile,
 } from "@/utils/data";
 import pLimit from "p-limit";
+import { runWithCorrelationId } from "@/utils/job-context";
 import { getDimensions } from "@/utils/dimensions";
+import { resolvePeriods, resolveSchedulePeriods } from "@/utils/periods";
+import {
+	createRun,
+	failRun,
+	recordSuppressions,
+	recordUnmappedOrgUnits,
+	startRun,
+} from "@/services/runs";
+import { applySuppressionPolicy } from "@/utils/suppression";
+import { deleteStaleDataValues } from "@/services/data-migration/data-delete";
+import { getWatermarks, stageWatermarks } from "@/services/watermarks";
+import { pagesFetched } from "@/services/metrics";
 
 export interface DataDownloadOptions {
 	mainConfigId: string;
 	dataItemsConfigIds: Array<string>;
 	runtimeConfig: DataServiceRuntimeConfig;
 	isDelete?: boolean;
+	dryRun?: boolean;
+	/*
+	 * Periods of a schedule, resolved in the period type of each data items configuration instead of the runtime config periods
+	 * */
+	schedulePeriods?: DataServiceSchedulePeriods;
 }
 
 export interface DataProcessingJob {
+	runId?: string;
 	mainConfigId: string;
 	mainConfig: DataServiceConfig;
 	periodId: string;
@@ -36,14 +57,33 @@ export interface DataProcessingJob {
 	runtimeConfig: DataServiceRuntimeConfig;
 	overrideDimensions?: any;
 	isDelete?: boolean;
+	dryRun?: boolean;
+	/*
+	 * Set on incremental runs to only migrate values changed on the source since then
+	 * */
+	lastUpdated?: string;
+}
+
+export interface QueuedDataRun {
+	runId: string;
+	/*
+	 * Resolved period ids per data items configuration
+	 * */
+	periods: Record<string, string[]>;
 }
 
 export async function downloadAndQueueData(
 	options: DataDownloadOptions,
-): Promise<void> {
+): Promise<QueuedDataRun> {
 	try {
-		const { mainConfigId, dataItemsConfigIds, runtimeConfig, isDelete } =
-			options;
+		const {
+			mainConfigId,
+			dataItemsConfigIds,
+			runtimeConfig,
+			isDelete,
+			dryRun,
+			schedulePeriods,
+		} = options;
 		logger.info(
 			`Starting data download and queue process for config: ${mainConfigId}`,
 		);
@@ -55,16 +95,28 @@ export async function downloadAndQueueData(
 					({ id: configId }) => configId === id,
 				);
 			}),
-		);
+		).filter((config) => {
+			if (config.type === "FILE_VALUES") {
+				logger.warn(
+					`Configuration ${config.id} holds uploaded file data and can not be downloaded. Skipping...`,
+				);
+				return false;
+			}
+			return true;
+		});
 
 		checkOrCreateFolder(`outputs/${mainConfigId}`);
 
-		await enqueueDownloadTasks({
-			mainConfig,
-			runtimeConfig,
-			configs: dataItemConfigs,
-			isDelete,
-		});
+		return await runWithCorrelationId(mainConfigId, () =>
+			enqueueDownloadTasks({
+				mainConfig,
+				runtimeConfig,
+				configs: dataItemConfigs,
+				isDelete,
+				dryRun,
+				schedulePeriods,
+			}),
+		);
 	} catch (error) {
 		logger.error(
 			`Error during download and queue process for config ${options.mainConfigId}:`,
@@ -74,7 +126,30 @@ export async function downloadAndQueueData(
 	}
 }
 
-async function fetchMainConfiguration(
+/*
+ * Analytics only reflects values changed before its tables were last generated on the source,
+ * so that time, in the source server's clock, is used as the watermark of a run.
+ * */
+async function getSourceWatermark(client: AxiosInstance): Promise<string> {
+	try {
+		const { data } = await client.get<{
+			lastAnalyticsTableGeneration?: string;
+		}>("system/info");
+		if (data.lastAnalyticsTableGeneration) {
+			return data.lastAnalyticsTableGeneration;
+		}
+		logger.warn(
+			`Source has never generated analytics tables, using the current time as watermark`,
+		);
+	} catch (error) {
+		logger.warn(
+			`Could not get the last analytics generation time from source, using the current time as watermark: ${(error as Error).message}`,
+		);
+	}
+	return new Date().toISOString();
+}
+
+export async function fetchMainConfiguration(
 	configId: string,
 ): Promise<DataServiceConfig> {
 	try {
@@ -101,11 +176,15 @@ export async function enqueueDownloadTasks({
 	runtimeConfig,
 	configs,
 	isDelete,
+	dryRun,
+	schedulePeriods,
 }: {
 	mainConfig: DataServiceConfig;
 	runtimeConfig: DataServiceRuntimeConfig;
 	configs: DataServiceDataSourceItemsConfig[];
 	isDelete?: boolean;
+	dryRun?: boolean;
+	schedulePeriods?: DataServiceSchedulePeriods;
 }) {
 	const configId = mainConfig.id;
 
@@ -142,26 +221,79 @@ export async function enqueueDownloadTasks({
 		sanitezedConfigs.push(sanitezedConfig);
 	}
 
-	for (const periodId of runtimeConfig.periods) {
-		for (const config of sanitezedConfigs) {
-			const message: DataProcessingJob = {
-				mainConfigId: configId,
-				mainConfig,
-				periodId,
-				config,
-				runtimeConfig,
-				isDelete: isDelete || false,
-			};
+	const resolvedPeriods: Record<string, string[]> = {};
+	for (const config of sanitezedConfigs) {
+		resolvedPeriods[config.id] = schedulePeriods
+			? resolveSchedulePeriods(schedulePeriods, config.periodTypeId)
+			: resolvePeriods(runtimeConfig.periods, config.periodTypeId);
+		logger.info(
+			`Configuration ${config.id} resolved to periods: ${resolvedPeriods[config.id].join(", ")}`,
+		);
+	}
 
-			pushPromises.push(
-				pushToQueue(configId, "dataDownload", message, {
-					queuedAt: new Date().toISOString(),
-				}),
+	const dataItemsConfigIds = configs.map(({ id }) => id);
+	const watermarks =
+		runtimeConfig.incremental && !isDelete
+			? getWatermarks(configId, resolvedPeriods)
+			: {};
+	for (const [dataItemsConfigId, periodWatermarks] of Object.entries(
+		watermarks,
+	)) {
+		for (const [periodId, watermark] of Object.entries(periodWatermarks)) {
+			logger.info(
+				watermark
+					? `Configuration ${dataItemsConfigId} will only migrate values updated since ${watermark} in period ${periodId}`
+					: `Configuration ${dataItemsConfigId} has no watermark yet in period ${periodId}. Running a full migration...`,
 			);
 		}
 	}
+	const sourceWatermark =
+		isDelete || dryRun ? undefined : await getSourceWatermark(sourceClient);
+
+	const runId = createRun({
+		configId,
+		type: isDelete ? "delete" : "download",
+		dataItemsConfigIds,
+		requestedPeriods: runtimeConfig.periods,
+		periods: resolvedPeriods,
+		dryRun,
+	});
 
-	await Promise.all(pushPromises);
+	try {
+		if (sourceWatermark) {
+			stageWatermarks(runId, configId, resolvedPeriods, sourceWatermark);
+		}
+		for (const config of sanitezedConfigs) {
+			const periods = resolvedPeriods[config.id];
+			for (const periodId of periods) {
+				const message: DataProcessingJob = {
+					runId,
+					mainConfigId: configId,
+					mainConfig,
+					periodId,
+					config,
+					runtimeConfig: { ...runtimeConfig, periods },
+					isDelete: isDelete || false,
+					dryRun: dryRun || false,
+					lastUpdated: watermarks[config.id]?.[periodId],
+				};
+
+				pushPromises.push(
+					pushToQueue(configId, "dataDownload", message, {
+						queuedAt: new Date().toISOString(),
+					}),
+				);
+			}
+		}
+
+		await Promise.all(pushPromises);
+	} catch (error) {
+		failRun(runId, error as Error);
+		throw error;
+	}
+	startRun(runId);
+
+	return { runId, periods: resolvedPeriods };
 }
 
 export async function downloadData(jobData: any): Promise<void> {
@@ -190,8 +322,30 @@ export async function downloadData(jobData: any): Promise<void> {
 	}
 }
 
+/*
+ * Complementary suppression needs all the category option combos of a data element in the same job
+ * */
+function chunkByDataElement(dataItems: string[], pageSize: number) {
+	const chunks: string[][] = [];
+	for (const dataElementItems of Object.values(
+		groupBy(dataItems, (dataItem) => dataItem.split(".")[0]),
+	)) {
+		const currentChunk = chunks[chunks.length - 1];
+		if (
+			currentChunk &&
+			currentChunk.length + dataElementItems.length <= pageSize
+		) {
+			currentChunk.push(...dataElementItems);
+		} else {
+			chunks.push([...dataElementItems]);
+		}
+	}
+	return chunks;
+}
+
 async function handlePagination(jobData: any): Promise<boolean> {
 	const {
+		runId,
 		mainConfigId,
 		mainConfig,
 		periodId,
@@ -199,6 +353,8 @@ async function handlePagination(jobData: any): Promise<boolean> {
 		runtimeConfig,
 		overrideDimensions,
 		isDelete,
+		dryRun,
+		lastUpdated,
 	} = jobData;
 
 	const baseDimensions: any = getDimensions({
@@ -225,7 +381,10 @@ async function handlePagination(jobData: any): Promise<boolean> {
 		return false;
 	}
 
-	const chunks = chunk(baseDimensions[heavyDimension], pageSize);
+	const chunks =
+		heavyDimension === "dx" && config.suppression
+			? chunkByDataElement(baseDimensions.dx, pageSize)
+			: chunk(baseDimensions[heavyDimension], pageSize);
 	const limit = pLimit(10);
 
 	await Promise.all(
@@ -240,12 +399,15 @@ async function handlePagination(jobData: any): Promise<boolean> {
 					mainConfigId,
 					"dataDownload",
 					{
+						runId,
 						mainConfigId,
 						mainConfig,
 						periodId,
 						config,
 						runtimeConfig,
 						isDelete: isDelete || false,
+						dryRun: dryRun || false,
+						lastUpdated,
 						overrideDimensions: paginatedDimensions,
 					},
 					{
@@ -264,6 +426,7 @@ async function handlePagination(jobData: any): Promise<boolean> {
 async function processDataDownload(jobData: any, client: any): Promise<void> {
 	try {
 		const {
+			runId,
 			mainConfigId,
 			mainConfig,
 			periodId,
@@ -271,9 +434,11 @@ async function processDataDownload(jobData: any, client: any): Promise<void> {
 			runtimeConfig,
 			overrideDimensions,
 			isDelete,
+			dryRun,
+			lastUpdated,
 		} = jobData;
 
-		const dimensions =
+		let dimensions =
 			overrideDimensions ||
 			getDimensions({
 				runtimeConfig,
@@ -281,17 +446,62 @@ async function processDataDownload(jobData: any, client: any): Promise<void> {
 				periodId,
 			});
 
+		let deletedDataItems: string[] = [];
+		if (lastUpdated) {
+			const { updated: updatedDataItems, deleted } =
+				await fetchUpdatedDataItems({
+					dimensions,
+					client,
+					lastUpdated,
+					timeout: runtimeConfig.timeout,
+				});
+			deletedDataItems = deleted;
+			if (isEmpty(updatedDataItems)) {
+				logger.info(
+					`No data updated since ${lastUpdated} for ${config.id} in period ${periodId}`,
+				);
+				return;
+			}
+			logger.info(
+				`${updatedDataItems.length} of ${dimensions.dx.length} data items updated since ${lastUpdated} for ${config.id} in period ${periodId}`,
+			);
+			const updatedDataElements = new Set(
+				updatedDataItems.map((dataItem) => dataItem.split(".")[0]),
+			);
+			dimensions = {
+				...dimensions,
+				// Suppression is applied to all the category option combos of a data element together
+				dx: config.suppression
+					? dimensions.dx.filter((dataItem: string) =>
+							updatedDataElements.has(dataItem.split(".")[0]),
+						)
+					: updatedDataItems,
+			};
+		}
+
 		const data = await fetchPagedData({
 			dimensions,
 			filters: config.filters,
 			client,
 			timeout: runtimeConfig.timeout,
 		});
+		pagesFetched.inc({ config_id: mainConfigId });
 
 		if (isEmpty(data.dataValues)) {
 			logger.info(
 				`No data found for ${config.id}: ${JSON.stringify(dimensions.dx?.slice(0, 5) || "no dx")}`,
 			);
+			if (!isEmpty(deletedDataItems)) {
+				await deleteStaleDataValues({
+					runId,
+					mainConfig,
+					config,
+					dimensions: { ...dimensions, dx: deletedDataItems },
+					dataValues: [],
+					timeout: runtimeConfig.timeout,
+					dryRun,
+				});
+			}
 			return;
 		}
 
@@ -307,14 +517,55 @@ async function processDataDownload(jobData: any, client: any): Promise<void> {
 								).attributeId
 							],
 						) as string,
+						orgUnitMappings: mainConfig.orgUnitMappings,
+						applyTransforms: true,
 					})
 				: await processData({
 						data,
 						dataItems: config.dataItems,
+						orgUnitMappings: mainConfig.orgUnitMappings,
 					});
 
+		if (!isEmpty(processedData.unmappedOrgUnits)) {
+			logger.warn(
+				`Values of ${Object.keys(processedData.unmappedOrgUnits).length} organisation units without a mapping were not uploaded for ${config.id} in period ${periodId}`,
+			);
+			recordUnmappedOrgUnits(
+				runId,
+				config.id,
+				processedData.unmappedOrgUnits,
+			);
+		}
+
+		if (!isDelete && config.suppression) {
+			const { dataValues, suppressions } = applySuppressionPolicy({
+				dataValues: processedData.dataValues,
+				policy: config.suppression,
+				dataItemsConfigId: config.id,
+			});
+			if (!isEmpty(suppressions)) {
+				logger.info(
+					`${suppressions.length} data values suppressed for ${config.id} in period ${periodId}`,
+				);
+				recordSuppressions(runId, suppressions);
+			}
+			processedData.dataValues = dataValues;
+		}
+
 		logger.info(`${processedData.dataValues.length} data values processed`);
 
+		if (!isEmpty(deletedDataItems)) {
+			await deleteStaleDataValues({
+				runId,
+				mainConfig,
+				config,
+				dimensions: { ...dimensions, dx: deletedDataItems },
+				dataValues: processedData.dataValues,
+				timeout: runtimeConfig.timeout,
+				dryRun,
+			});
+		}
+
 		if (!isEmpty(processedData.dataValues)) {
 			const filename = await saveDataFile({
 				data: processedData.dataValues,
@@ -322,19 +573,21 @@ async function processDataDownload(jobData: any, client: any): Promise<void> {
 				itemsConfig: config,
 			});
 			const jobData = {
+				runId,
 				mainConfigId,
 				filename,
 				isDelete: isDelete ? true : false,
-				payload: processedData,
+				dryRun: dryRun ? true : false,
+				payload: { dataValues: processedData.dataValues },
 			};
 
 			if (isDelete) {
-				pushToQueue(mainConfigId, "dataDeletion", jobData, {
+				await pushToQueue(mainConfigId, "dataDeletion", jobData, {
 					queuedAt: new Date().toISOString(),
 					downloadedFrom: config.id,
 				});
 			} else {
-				pushToQueue(mainConfigId, "dataUpload", jobData, {
+				await pushToQueue(mainConfigId, "dataUpload", jobData, {
 					queuedAt: new Date().toISOString(),
 					downloadedFrom: config.id,
 				});
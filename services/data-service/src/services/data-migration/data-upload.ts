@@ -3,6 +3,10 @@ import { dhis2Client } from "@/clients/dhis2";
 import { AxiosError } from "axios";
 import * as fs from "node:fs";
 import { existsSync } from "node:fs";
+import { recordImportCounts, recordImportSummary } from "@/services/runs";
+import { DataServiceImportSummary } from "@packages/shared/schemas";
+import { getDataImportSummary } from "@/utils/import-summary";
+import { dataValues } from "@/services/metrics";
 
 export interface DataUploadJob {
     mainConfigId: string;
@@ -14,7 +18,7 @@ export interface DataUploadJob {
 
 export async function dataFromQueue(jobData: any): Promise<void> {
     try {
-        const { mainConfigId, filename, payload, isDelete } = jobData;
+        const { runId, mainConfigId, filename, payload, isDelete, dryRun } = jobData;
 
         if (!validateUploadJobData(jobData)) {
             throw new Error(`Invalid job data for config: ${mainConfigId}`);
@@ -22,13 +26,28 @@ export async function dataFromQueue(jobData: any): Promise<void> {
 
         const fileLocation = `outputs/${mainConfigId}/${filename}.json`;
 
+        let importSummary: DataServiceImportSummary | undefined;
         if (existsSync(fileLocation)) {
-            await dataFromFile({ filename, configId: mainConfigId, isDelete })
+            importSummary = await dataFromFile({ filename, configId: mainConfigId, isDelete, dryRun })
         } else if (payload) {
-            await dataFromPayload({ payload, configId: mainConfigId, filename, isDelete });
+            importSummary = await dataFromPayload({ payload, configId: mainConfigId, filename, isDelete, dryRun });
         } else {
             throw new Error(`No payload and file does not exist for data upload job: ${mainConfigId}`);
         }
+        if (importSummary) {
+            recordImportSummary(runId, importSummary);
+            recordImportCounts(runId, importSummary.stage, {
+                imported: importSummary.imported,
+                updated: importSummary.updated,
+                ignored: importSummary.ignored,
+                deleted: importSummary.deleted,
+            });
+            if (!dryRun) {
+                for (const status of ["imported", "updated", "ignored", "deleted"] as const) {
+                    dataValues.inc({ config_id: mainConfigId, status }, importSummary[status]);
+                }
+            }
+        }
     } catch (error: any) {
         logger.error(`Error processing data job:`, {
             error: {
@@ -66,11 +85,13 @@ export async function dataFromFile({
     filename,
     configId,
     isDelete,
+    dryRun,
 }: {
     filename: string;
     configId: string;
     isDelete?: boolean;
-}): Promise<void> {
+    dryRun?: boolean;
+}): Promise<DataServiceImportSummary | undefined> {
     try {
 
         if (!await fs.promises.access(filename).then(() => true).catch(() => false)) {
@@ -85,10 +106,10 @@ export async function dataFromFile({
         }
         if (isDelete) {
             logger.info(`Starting data deletion from file: ${filename} for config: ${configId}`);
-            await deleteDataValues(payload, filename);
+            return await deleteDataValues(payload, filename, dryRun);
         } else {
             logger.info(`Starting data upload from file: ${filename} for config: ${configId}`);
-            await uploadDataValues(payload, filename);
+            return await uploadDataValues(payload, filename, dryRun);
         }
 
 
@@ -110,13 +131,15 @@ export async function dataFromPayload({
     payload,
     configId,
     filename,
-    isDelete
+    isDelete,
+    dryRun
 }: {
     payload: any;
     configId: string;
     filename: string;
     isDelete?: boolean;
-}): Promise<void> {
+    dryRun?: boolean;
+}): Promise<DataServiceImportSummary | undefined> {
     try {
 
         if (!payload || !payload.dataValues || !Array.isArray(payload.dataValues)) {
@@ -124,10 +147,10 @@ export async function dataFromPayload({
         }
         if (isDelete) {
             logger.info(`Starting data deletion from payload for config: ${configId}`);
-            await deleteDataValues(payload, filename);
+            return await deleteDataValues(payload, filename, dryRun);
         } else {
             logger.info(`Starting data upload from payload for config: ${configId}`);
-            await uploadDataValues(payload, filename);
+            return await uploadDataValues(payload, filename, dryRun);
         }
 
 
@@ -145,15 +168,16 @@ export async function dataFromPayload({
     }
 }
 
-async function uploadDataValues(payload: any, filename: string) {
+async function uploadDataValues(payload: any, filename: string, dryRun?: boolean): Promise<DataServiceImportSummary> {
     try {
         const client = dhis2Client;
         const url = `dataValueSets`;
         const params = {
             importStrategy: "CREATE_AND_UPDATE",
             async: false,
+            dryRun: dryRun ?? false,
         };
-        logger.info(`Uploading ${payload.dataValues.length} data values`);
+        logger.info(`${dryRun ? "Validating" : "Uploading"} ${payload.dataValues.length} data values`);
         const response = await client.post(url, payload, {
             params,
         });
@@ -167,7 +191,7 @@ async function uploadDataValues(payload: any, filename: string) {
         logger.info(`Deleting ${filename} file`);
         await cleanupDataFile(filename);
 
-        return;
+        return getDataImportSummary({ stage: "dataUpload", reference: filename, response: importSummary });
     } catch (e: any) {
         if (e instanceof AxiosError) {
             if (e.response?.status === 409) {
@@ -188,6 +212,9 @@ async function uploadDataValues(payload: any, filename: string) {
                     logger.warn(`${importCount} data values ignored`);
                 }
                 await cleanupDataFile(filename);
+                if (dryRun) {
+                    return getDataImportSummary({ stage: "dataUpload", reference: filename, response: importSummary });
+                }
 
                 throw e;
             } else {
@@ -208,15 +235,16 @@ async function uploadDataValues(payload: any, filename: string) {
 }
 
 
-async function deleteDataValues(payload: any, filename: string) {
+async function deleteDataValues(payload: any, filename: string, dryRun?: boolean): Promise<DataServiceImportSummary> {
     try {
         const client = dhis2Client;
         const url = `dataValueSets`;
         const params = {
             importStrategy: "DELETE",
             async: false,
+            dryRun: dryRun ?? false,
         };
-        logger.info(`Uploading ${payload.dataValues.length} data values`);
+        logger.info(`${dryRun ? "Validating deletion of" : "Uploading"} ${payload.dataValues.length} data values`);
         const response = await client.post(url, payload, {
             params,
         });
@@ -230,7 +258,7 @@ async function deleteDataValues(payload: any, filename: string) {
         logger.info(`Deleting ${filename} file`);
         await cleanupDataFile(filename);
 
-        return;
+        return getDataImportSummary({ stage: "dataDeletion", reference: filename, response: importSummary });
     } catch (e: any) {
         if (e instanceof AxiosError) {
             if (e.response?.status === 409) {
@@ -251,6 +279,9 @@ async function deleteDataValues(payload: any, filename: string) {
                     logger.warn(`${importCount} data values ignored`);
                 }
                 await cleanupDataFile(filename);
+                if (dryRun) {
+                    return getDataImportSummary({ stage: "dataDeletion", reference: filename, response: importSummary });
+                }
                 throw e;
             } else {
                 const response = e.response;
@@ -0,0 +1,132 @@
+import logger from "@/logging";
+import { chunk, isEmpty, uniq } from "lodash";
+import { pushToQueue } from "@/rabbit/publisher";
+import { checkOrCreateFolder } from "@/utils/files";
+import { processData, saveDataFile } from "@/utils/data";
+import { FileDataError, parseFileDataValues } from "@/utils/file-data";
+import { applySuppressionPolicy } from "@/utils/suppression";
+import {
+	createRun,
+	failRun,
+	recordSuppressions,
+	startRun,
+} from "@/services/runs";
+import { fetchMainConfiguration } from "./data-download";
+
+/*
+ * Number of data values uploaded by each job
+ * */
+const UPLOAD_PAGE_SIZE = 1000;
+
+export interface FileUploadOptions {
+	mainConfigId: string;
+	dataItemsConfigId: string;
+	content: string;
+	dryRun?: boolean;
+}
+
+export interface QueuedFileRun {
+	runId?: string;
+	/*
+	 * Number of valid data values in the file
+	 * */
+	valueCount: number;
+	errors: FileDataError[];
+}
+
+/**
+ * Validates an uploaded file of a file data items configuration and queues its data values on the data upload queue.
+ * Nothing is queued when any row of the file is invalid.
+ */
+export async function queueFileData({
+	mainConfigId,
+	dataItemsConfigId,
+	content,
+	dryRun,
+}: FileUploadOptions): Promise<QueuedFileRun> {
+	const mainConfig = await fetchMainConfiguration(mainConfigId);
+	const config = mainConfig.itemsConfig.find(
+		({ id }) => id === dataItemsConfigId,
+	);
+	if (!config) {
+		throw new Error(
+			`Data items configuration ${dataItemsConfigId} not found in ${mainConfigId}`,
+		);
+	}
+	if (config.type !== "FILE_VALUES") {
+		throw new Error(
+			`Data items configuration ${dataItemsConfigId} does not accept uploaded files`,
+		);
+	}
+
+	const { dataValues, errors } = parseFileDataValues({
+		content,
+		format: config.format,
+		columnMapping: config.columnMapping,
+		periodTypeId: config.periodTypeId,
+	});
+	if (!isEmpty(errors)) {
+		logger.warn(
+			`Uploaded file for ${dataItemsConfigId} has ${errors.length} invalid rows. Nothing was queued`,
+		);
+		return { valueCount: dataValues.length, errors };
+	}
+
+	const periods = uniq(dataValues.map(({ period }) => period)).sort();
+	const runId = createRun({
+		configId: mainConfigId,
+		type: "file",
+		dataItemsConfigIds: [dataItemsConfigId],
+		requestedPeriods: periods,
+		periods: { [dataItemsConfigId]: periods },
+		dryRun,
+	});
+
+	try {
+		const processedData = await processData({
+			data: { dataValues },
+			dataItems: config.dataItems,
+		});
+		const { dataValues: uploadDataValues, suppressions } =
+			applySuppressionPolicy({
+				dataValues: processedData.dataValues,
+				policy: config.suppression,
+				dataItemsConfigId,
+			});
+		recordSuppressions(runId, suppressions);
+
+		checkOrCreateFolder(`outputs/${mainConfigId}`);
+		for (const page of chunk(uploadDataValues, UPLOAD_PAGE_SIZE)) {
+			const filename = await saveDataFile({
+				data: page,
+				config: mainConfig,
+				itemsConfig: config,
+			});
+			await pushToQueue(
+				mainConfigId,
+				"dataUpload",
+				{
+					runId,
+					mainConfigId,
+					filename,
+					isDelete: false,
+					dryRun: dryRun ? true : false,
+					payload: { dataValues: page },
+				},
+				{
+					queuedAt: new Date().toISOString(),
+					uploadedTo: dataItemsConfigId,
+				},
+			);
+		}
+	} catch (error) {
+		failRun(runId, error as Error);
+		throw error;
+	}
+	startRun(runId);
+
+	logger.info(
+		`Queued ${dataValues.length} data values uploaded for ${dataItemsConfigId} in run ${runId}`,
+	);
+	return { runId, valueCount: dataValues.length, errors };
+}
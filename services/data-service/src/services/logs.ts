@@ -0,0 +1,89 @@
+import * as fs from "node:fs";
+import { DataServiceLogEntry } from "@packages/shared/schemas";
+import { sortBy } from "lodash";
+import { JSON_LOG_FILES } from "@/logging";
+
+/*
+ * Only the end of each log file is searched, older entries are in the rotated files
+ * */
+const MAX_READ_SIZE = 5 * 1024 * 1024;
+
+export interface LogFilters {
+	runId?: string;
+	correlationId?: string;
+	level?: string;
+	limit: number;
+}
+
+async function readLogTail(filename: string): Promise<string> {
+	let file: fs.promises.FileHandle;
+	try {
+		file = await fs.promises.open(filename, "r");
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+			return "";
+		}
+		throw error;
+	}
+	try {
+		const { size } = await file.stat();
+		const length = Math.min(size, MAX_READ_SIZE);
+		const buffer = Buffer.alloc(length);
+		await file.read(buffer, 0, length, size - length);
+		return buffer.toString("utf-8");
+	} finally {
+		await file.close();
+	}
+}
+
+function parseEntry(line: string): DataServiceLogEntry | undefined {
+	try {
+		return JSON.parse(line);
+	} catch {
+		// The first line is cut when the file is read from the middle
+		return undefined;
+	}
+}
+
+/*
+ * Entries logged while the jobs of a download were queued have its correlation id but not always the run id
+ * */
+function filterRun(entries: DataServiceLogEntry[], runId: string) {
+	const correlationIds = new Set(
+		entries
+			.filter((entry) => entry.runId === runId && entry.correlationId)
+			.map(({ correlationId }) => correlationId),
+	);
+	return entries.filter(
+		(entry) =>
+			entry.runId === runId ||
+			(!entry.runId && correlationIds.has(entry.correlationId)),
+	);
+}
+
+/**
+ * Most recent log entries of a config, oldest first, written by the data service and its worker while processing
+ * its jobs
+ */
+export async function getRecentLogs(
+	configId: string,
+	{ runId, correlationId, level, limit }: LogFilters,
+): Promise<DataServiceLogEntry[]> {
+	const tails = await Promise.all(
+		Object.values(JSON_LOG_FILES).map(readLogTail),
+	);
+	const entries = sortBy(
+		tails
+			.flatMap((tail) => tail.split("\n"))
+			.filter(Boolean)
+			.map(parseEntry)
+			.filter(
+				(entry): entry is DataServiceLogEntry =>
+					entry?.configId === configId &&
+					(!correlationId || entry.correlationId === correlationId) &&
+					(!level || entry.level === level),
+			),
+		"timestamp",
+	);
+	return (runId ? filterRun(entries, runId) : entries).slice(-limit);
+}
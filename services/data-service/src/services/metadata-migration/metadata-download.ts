@@ -23,10 +23,12 @@ import { pushToQueue } from "../../rabbit/publisher";
 import { exportConfiguration } from "./utils/configuration-export";
 import { getMetadataFromDashboards } from "../../utils/dashboard";
 import { DatastoreNamespaces } from "@packages/shared/constants";
+import { runWithCorrelationId } from "@/utils/job-context";
 import { dhis2Client } from "@/clients/dhis2";
 import {
     DataItemMapping
 } from "../../utils/data-item-mapping";
+import { createRun, failRun, startRun } from "@/services/runs";
 
 export interface ProcessedMetadata {
     legendSets: any;
@@ -60,29 +62,66 @@ export interface MetadataDownloadOptions {
     selectedMaps?: Array<{ id: string; name: string }>;
     selectedDashboards?: Array<{ id: string; name: string }>;
     totalItems?: number;
+    runId?: string;
+    dryRun?: boolean;
+}
+
+/**
+ * Registers a metadata run and queues its download job
+ */
+export async function queueMetadataDownload(options: MetadataDownloadOptions): Promise<string> {
+    const { configId, dryRun } = options;
+    const runId = createRun({
+        configId,
+        type: 'metadata',
+        dataItemsConfigIds: [],
+        requestedPeriods: [],
+        periods: {},
+        dryRun,
+    });
+
+    try {
+        await pushToQueue(configId, 'metadataDownload', {
+            ...options,
+            runId,
+            requestedAt: new Date().toISOString()
+        });
+    } catch (error) {
+        failRun(runId, error as Error);
+        throw error;
+    }
+    startRun(runId);
+
+    return runId;
 }
 
 export async function downloadAndQueueMetadata(options: MetadataDownloadOptions): Promise<void> {
     try {
-        const { configId, metadataSource } = options;
+        const { configId, metadataSource, runId, dryRun } = options;
         logger.info(`Starting metadata download and queue process for config: ${configId}`);
         const metadata = await downloadMetadata(options);
- 
-        await pushToQueue(configId, 'metadataUpload', {
-            metadata,
-            configId,
-            downloadedAt: new Date().toISOString()
-        });
-
-        if (metadataSource === 'flexiportal-config') {
-            const configuration = await exportConfiguration(configId);
 
+        await runWithCorrelationId(configId, async () => {
             await pushToQueue(configId, 'metadataUpload', {
-                type: 'configuration',
-                configuration,
-                timestamp: new Date().toISOString()
+                runId,
+                dryRun,
+                metadata,
+                configId,
+                downloadedAt: new Date().toISOString()
             });
-        }
+
+            if (metadataSource === 'flexiportal-config') {
+                const configuration = await exportConfiguration(configId);
+
+                await pushToQueue(configId, 'metadataUpload', {
+                    runId,
+                    dryRun,
+                    type: 'configuration',
+                    configuration,
+                    timestamp: new Date().toISOString()
+                });
+            }
+        });
         logger.info(`Metadata successfully downloaded and queued for upload (config: ${configId})`);
     } catch (error) {
         logger.error(`Error during download and queue process for config ${options.configId}:`, error);
@@ -4,16 +4,28 @@ import { ProcessedMetadata } from "./metadata-download";
 import { processConfigurationFromQueue } from "./utils/configuration-import";
 import * as fs from "node:fs";
 import { generateAndSaveDataItemMappings } from "@/utils/data-item-mapping";
+import * as path from "node:path";
+import { getMetadataImportSummary } from "@/utils/import-summary";
+import { recordImportCounts, recordImportSummary } from "@/services/runs";
+
+export interface MetadataUploadOptions {
+  runId?: string;
+  dryRun?: boolean;
+}
 
 export async function uploadMetadataFromQueue(jobData: any): Promise<void> {
   try {
-    const { metadata, configId, type} = jobData;
+    const { metadata, configId, type, runId, dryRun } = jobData;
 
     if (!configId) {
       throw new Error(`No configId provided in job data. Job data keys: ${Object.keys(jobData || {}).join(', ')}`);
     }
 
     if (type === 'configuration') {
+      if (dryRun) {
+        logger.info(`Skipping configuration upload for config: ${configId} on a dry run`);
+        return;
+      }
       logger.info(`Processing configuration upload for config: ${configId}`);
 
       await processConfigurationFromQueue(configId, jobData);
@@ -30,7 +42,7 @@ export async function uploadMetadataFromQueue(jobData: any): Promise<void> {
       throw new Error(`Invalid metadata structure for config: ${configId}`);
     }
 
-    await uploadMetadata(metadata, configId);
+    await uploadMetadata(metadata, configId, { runId, dryRun });
 
     // await generateAndSaveDataItemMappings(metadata, configId);
     logger.info(`Metadata upload job completed successfully for config: ${configId}`);
@@ -48,7 +60,26 @@ export async function uploadMetadataFromQueue(jobData: any): Promise<void> {
 }
 
 
-async function uploadCategoriesMetadata(categories: any, tempDir: string): Promise<void> {
+/*
+ * Uploads a metadata file and records its import report in the run
+ * */
+async function uploadRunMetadataFile(filePath: string, { runId, dryRun }: MetadataUploadOptions): Promise<void> {
+  const response = await uploadMetadataFile(filePath, { dryRun });
+  const importSummary = getMetadataImportSummary({
+    stage: 'metadataUpload',
+    reference: path.basename(filePath),
+    response,
+  });
+  recordImportSummary(runId, importSummary);
+  recordImportCounts(runId, 'metadataUpload', {
+    imported: importSummary.imported,
+    updated: importSummary.updated,
+    ignored: importSummary.ignored,
+    deleted: importSummary.deleted,
+  });
+}
+
+async function uploadCategoriesMetadata(categories: any, tempDir: string, options: MetadataUploadOptions): Promise<void> {
   const maxItemsPerUpload = 500;
 
   const totalCategories = categories.categories?.length || 0;
@@ -65,7 +96,7 @@ async function uploadCategoriesMetadata(categories: any, tempDir: string): Promi
       JSON.stringify(categories, null, 2),
       'utf8'
     );
-    await uploadMetadataFile(categoriesPath);
+    await uploadRunMetadataFile(categoriesPath, options);
   } else {
     if (categories.categories?.length > 0) {
       const categoriesPath = `${tempDir}/categories-only.json`;
@@ -74,7 +105,7 @@ async function uploadCategoriesMetadata(categories: any, tempDir: string): Promi
         JSON.stringify({ categories: categories.categories }, null, 2),
         'utf8'
       );
-      await uploadMetadataFile(categoriesPath);
+      await uploadRunMetadataFile(categoriesPath, options);
     }
 
     // Upload category options
@@ -85,7 +116,7 @@ async function uploadCategoriesMetadata(categories: any, tempDir: string): Promi
         JSON.stringify({ categoryOptions: categories.categoryOptions }, null, 2),
         'utf8'
       );
-      await uploadMetadataFile(categoryOptionsPath);
+      await uploadRunMetadataFile(categoryOptionsPath, options);
     }
 
     // Upload category combos
@@ -96,7 +127,7 @@ async function uploadCategoriesMetadata(categories: any, tempDir: string): Promi
         JSON.stringify({ categoryCombos: categories.categoryCombos }, null, 2),
         'utf8'
       );
-      await uploadMetadataFile(categoryCombosPath);
+      await uploadRunMetadataFile(categoryCombosPath, options);
     }
 
     // Upload category option combos
@@ -107,16 +138,16 @@ async function uploadCategoriesMetadata(categories: any, tempDir: string): Promi
         JSON.stringify({ categoryOptionCombos: categories.categoryOptionCombos }, null, 2),
         'utf8'
       );
-      await uploadMetadataFile(categoryOptionCombosPath);
+      await uploadRunMetadataFile(categoryOptionCombosPath, options);
     }
   }
 }
 
-export async function uploadMetadata(metadata: ProcessedMetadata, configId: string): Promise<void> {
+export async function uploadMetadata(metadata: ProcessedMetadata, configId: string, options: MetadataUploadOptions = {}): Promise<void> {
   let tempDir: string | undefined;
 
   try {
-    logger.info(`Starting metadata upload${configId ? ` for config ${configId}` : ''}...`);
+    logger.info(`Starting metadata ${options.dryRun ? 'validation' : 'upload'}${configId ? ` for config ${configId}` : ''}...`);
 
     // Create temporary files for upload
     const timestamp = Date.now();
@@ -161,22 +192,24 @@ export async function uploadMetadata(metadata: ProcessedMetadata, configId: stri
 
     // Upload files in the correct order (dependencies first)
     logger.info("Starting upload of metadata files...");
-    await uploadMetadataFile(legendSetsPath);
+    await uploadRunMetadataFile(legendSetsPath, options);
 
     // Upload indicator types (needed for indicators)
-    await uploadMetadataFile(indicatorTypesPath);
+    await uploadRunMetadataFile(indicatorTypesPath, options);
 
     // Upload categories (needed for data elements) - split if too large
-    await uploadCategoriesMetadata(metadata.categories, tempDir);
+    await uploadCategoriesMetadata(metadata.categories, tempDir, options);
 
     // Upload data items (indicators and data elements)
-    await uploadMetadataFile(dataItemsPath);
+    await uploadRunMetadataFile(dataItemsPath, options);
 
     // Generate and save data item mappings
-    await generateAndSaveDataItemMappings(metadata, configId!);
+    if (!options.dryRun) {
+      await generateAndSaveDataItemMappings(metadata, configId!);
+    }
 
     // Upload visualizations last (they depend on data items)
-    await uploadMetadataFile(visualizationsPath);
+    await uploadRunMetadataFile(visualizationsPath, options);
 
     logger.info("Cleaning up temporary files...");
     try {
@@ -0,0 +1,252 @@
+import { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from "axios";
+import { getJobContext } from "@/utils/job-context";
+
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+type Labels<Name extends string> = Record<Name, string | number | undefined>;
+
+interface Metric {
+	collect(): string[];
+}
+
+const registry: Metric[] = [];
+
+function escapeLabelValue(value: string) {
+	return value
+		.replace(/\\/g, "\\\\")
+		.replace(/"/g, '\\"')
+		.replace(/\n/g, "\\n");
+}
+
+function formatLabels(entries: [string, string][]) {
+	if (entries.length === 0) {
+		return "";
+	}
+	return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(",")}}`;
+}
+
+function getLabelEntries<Name extends string>(
+	labelNames: Name[],
+	labels: Labels<Name>,
+): [string, string][] {
+	return labelNames.map((name) => [name, String(labels[name] ?? "")]);
+}
+
+function getHeader(name: string, help: string, type: string) {
+	return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+}
+
+/*
+ * Counters and histograms keep one series per combination of label values, in the order they were first seen
+ * */
+function createCounter<Name extends string>({
+	name,
+	help,
+	labelNames,
+}: {
+	name: string;
+	help: string;
+	labelNames: Name[];
+}) {
+	const series = new Map<
+		string,
+		{ labels: [string, string][]; value: number }
+	>();
+	registry.push({
+		collect: () => [
+			...getHeader(name, help, "counter"),
+			...Array.from(series.values()).map(
+				({ labels, value }) =>
+					`${name}${formatLabels(labels)} ${value}`,
+			),
+		],
+	});
+	return {
+		inc(labels: Labels<Name>, value = 1) {
+			if (value <= 0) {
+				return;
+			}
+			const entries = getLabelEntries(labelNames, labels);
+			const key = JSON.stringify(entries);
+			const current = series.get(key) ?? { labels: entries, value: 0 };
+			current.value += value;
+			series.set(key, current);
+		},
+	};
+}
+
+function createHistogram<Name extends string>({
+	name,
+	help,
+	labelNames,
+	buckets,
+}: {
+	name: string;
+	help: string;
+	labelNames: Name[];
+	buckets: number[];
+}) {
+	const series = new Map<
+		string,
+		{
+			labels: [string, string][];
+			counts: number[];
+			sum: number;
+			count: number;
+		}
+	>();
+	registry.push({
+		collect: () => [
+			...getHeader(name, help, "histogram"),
+			...Array.from(series.values()).flatMap(
+				({ labels, counts, sum, count }) => [
+					...buckets.map(
+						(bucket, index) =>
+							`${name}_bucket${formatLabels([...labels, ["le", String(bucket)]])} ${counts[index]}`,
+					),
+					`${name}_bucket${formatLabels([...labels, ["le", "+Inf"]])} ${count}`,
+					`${name}_sum${formatLabels(labels)} ${sum}`,
+					`${name}_count${formatLabels(labels)} ${count}`,
+				],
+			),
+		],
+	});
+	return {
+		observe(labels: Labels<Name>, value: number) {
+			const entries = getLabelEntries(labelNames, labels);
+			const key = JSON.stringify(entries);
+			const current = series.get(key) ?? {
+				labels: entries,
+				counts: buckets.map(() => 0),
+				sum: 0,
+				count: 0,
+			};
+			buckets.forEach((bucket, index) => {
+				if (value <= bucket) {
+					current.counts[index]++;
+				}
+			});
+			current.sum += value;
+			current.count++;
+			series.set(key, current);
+		},
+	};
+}
+
+export const messagesPublished = createCounter({
+	name: "data_service_messages_published_total",
+	help: "Messages published to the queues",
+	labelNames: ["config_id", "queue_type"],
+});
+
+export const messagesConsumed = createCounter({
+	name: "data_service_messages_consumed_total",
+	help: "Messages delivered to the worker",
+	labelNames: ["config_id", "queue_type"],
+});
+
+export const messagesAcked = createCounter({
+	name: "data_service_messages_acked_total",
+	help: "Messages processed and acknowledged by the worker",
+	labelNames: ["config_id", "queue_type"],
+});
+
+export const messagesRetried = createCounter({
+	name: "data_service_messages_retried_total",
+	help: "Failed messages requeued by the worker for another attempt",
+	labelNames: ["config_id", "queue_type"],
+});
+
+export const messagesDeadLettered = createCounter({
+	name: "data_service_messages_dead_lettered_total",
+	help: "Messages moved to the failed queue after their last attempt",
+	labelNames: ["config_id", "queue_type"],
+});
+
+export const messageDuration = createHistogram({
+	name: "data_service_message_duration_seconds",
+	help: "Time spent by the worker on a message",
+	labelNames: ["config_id", "queue_type", "outcome"],
+	buckets: [0.1, 0.5, 1, 5, 10, 30, 60, 120, 300, 600],
+});
+
+export const dhis2RequestDuration = createHistogram({
+	name: "data_service_dhis2_request_duration_seconds",
+	help: "Latency of the requests to the source and destination DHIS2 instances",
+	labelNames: ["config_id", "target", "method", "endpoint", "status"],
+	buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120],
+});
+
+export const dataValues = createCounter({
+	name: "data_service_data_values_total",
+	help: "Data values imported, updated, ignored or deleted in the destination instance",
+	labelNames: ["config_id", "status"],
+});
+
+export const pagesFetched = createCounter({
+	name: "data_service_pages_fetched_total",
+	help: "Pages of analytics data fetched from the source instance",
+	labelNames: ["config_id"],
+});
+
+/**
+ * Metrics of the current process in the Prometheus text format
+ */
+export function getMetrics() {
+	return `${registry.flatMap((metric) => metric.collect()).join("\n")}\n`;
+}
+
+/*
+ * e.g. `analytics/dataValueSet.json?dimension=...` is counted as `analytics`
+ * */
+function getEndpoint(url?: string) {
+	return url?.replace(/^\/+/, "").split(/[/?.]/)[0] || "unknown";
+}
+
+/**
+ * Records the latency and status code of the requests of a DHIS2 client, `source` for the routes to the source
+ * instance and `destination` for the instance of the data service.
+ */
+export function instrumentClient(
+	client: AxiosInstance,
+	target: "source" | "destination",
+) {
+	const startTimes = new WeakMap<InternalAxiosRequestConfig, number>();
+	const record = (
+		config: InternalAxiosRequestConfig | undefined,
+		status: string | number,
+	) => {
+		const startTime = config && startTimes.get(config);
+		if (!config || startTime === undefined) {
+			return;
+		}
+		dhis2RequestDuration.observe(
+			{
+				config_id: getJobContext()?.configId,
+				target,
+				method: config.method?.toUpperCase(),
+				endpoint: getEndpoint(config.url),
+				status,
+			},
+			(performance.now() - startTime) / 1000,
+		);
+	};
+	client.interceptors.request.use((config) => {
+		startTimes.set(config, performance.now());
+		return config;
+	});
+	client.interceptors.response.use(
+		(response) => {
+			record(response.config, response.status);
+			return response;
+		},
+		(error: AxiosError) => {
+			record(
+				error.config,
+				error.response?.status ?? error.code ?? "error",
+			);
+			return Promise.reject(error);
+		},
+	);
+	return client;
+}
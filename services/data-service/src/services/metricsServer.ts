@@ -0,0 +1,39 @@
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import logger from "@/logging";
+import { hasValidApiKey, isAuthEnabled } from "@/services/auth";
+import { getMetrics, METRICS_CONTENT_TYPE } from "@/services/metrics";
+
+/**
+ * Serves `/metrics`, with one of the API keys of the data service once they are set, either in the `X-API-Key`
+ * header or as a bearer token
+ */
+export function handleMetricsRequest(
+	req: IncomingMessage,
+	res: ServerResponse,
+) {
+	if (isAuthEnabled() && !hasValidApiKey(req.headers)) {
+		res.writeHead(401, { "Content-Type": "text/plain" });
+		res.end("Unauthorized");
+		return;
+	}
+	res.writeHead(200, { "Content-Type": METRICS_CONTENT_TYPE });
+	res.end(getMetrics());
+}
+
+/**
+ * The worker runs in its own process, its metrics are served on a separate port
+ */
+export function startMetricsServer(port: number) {
+	createServer((req, res) => {
+		if (req.method !== "GET" || req.url?.split("?")[0] !== "/metrics") {
+			res.writeHead(404, { "Content-Type": "text/plain" });
+			res.end("Not found");
+			return;
+		}
+		handleMetricsRequest(req, res);
+	}).listen(port, () => {
+		logger.info(
+			`Worker metrics are served on http://localhost:${port}/metrics`,
+		);
+	});
+}
@@ -0,0 +1,273 @@
+import { createHmac } from "node:crypto";
+import axios from "axios";
+import { omit } from "lodash";
+import logger from "@/logging";
+import { dhis2Client } from "@/clients/dhis2";
+import { DatastoreNamespaces } from "@packages/shared/constants";
+import {
+	DataServiceConfig,
+	DataServiceNotificationEvent,
+	DataServiceNotificationTarget,
+	DataServiceNotificationTargetType,
+	DataServiceRun,
+	DataServiceRunHistoryStatus,
+} from "@packages/shared/schemas";
+
+/*
+ * Only the first errors of a run are sent, the rest are available in the run history
+ * */
+const MAX_NOTIFIED_ERRORS = 10;
+
+const WEBHOOK_TIMEOUT = 10 * 1000;
+
+export interface FailedQueueSummary {
+	queue: string;
+	messageCount: number;
+	threshold: number;
+}
+
+export interface NotificationPayload {
+	event: DataServiceNotificationEvent;
+	configId: string;
+	run?: Omit<
+		DataServiceRun,
+		"importSummaries" | "suppressions" | "unmappedOrgUnits"
+	>;
+	failedQueue?: FailedQueueSummary;
+	timestamp: string;
+}
+
+async function getNotificationTargets(
+	configId: string,
+	event: DataServiceNotificationEvent,
+): Promise<{
+	targets: DataServiceNotificationTarget[];
+	config: DataServiceConfig;
+}> {
+	const { data: config } = await dhis2Client.get<DataServiceConfig>(
+		`dataStore/${DatastoreNamespaces.DATA_SERVICE_CONFIG}/${configId}`,
+	);
+	const targets = (config.notifications?.targets ?? []).filter(
+		(target) => target.enabled !== false && target.events.includes(event),
+	);
+	return { targets, config };
+}
+
+function getSubject(payload: NotificationPayload) {
+	switch (payload.event) {
+		case DataServiceNotificationEvent.RUN_COMPLETED:
+			return `[Data service] Run ${payload.run?.id} of ${payload.configId} completed`;
+		case DataServiceNotificationEvent.RUN_FAILED:
+			return `[Data service] Run ${payload.run?.id} of ${payload.configId} ${payload.run?.status === DataServiceRunHistoryStatus.FAILED ? "failed" : "completed with errors"}`;
+		case DataServiceNotificationEvent.FAILED_QUEUE_THRESHOLD:
+			return `[Data service] ${payload.failedQueue?.messageCount} failed jobs for ${payload.configId}`;
+	}
+}
+
+/*
+ * Plain text summary for emails and DHIS2 messages
+ * */
+function getText(payload: NotificationPayload) {
+	const lines = [getSubject(payload), ""];
+	if (payload.run) {
+		const { run } = payload;
+		lines.push(
+			`Type: ${run.type}${run.dryRun ? " (dry run)" : ""}`,
+			`Status: ${run.status}`,
+			`Configurations: ${run.dataItemsConfigIds.join(", ") || "-"}`,
+			`Periods: ${run.requestedPeriods.join(", ") || "-"}`,
+			`Started: ${run.startedAt}`,
+			`Finished: ${run.finishedAt ?? "-"}`,
+			"",
+			...run.stages.map(
+				(stage) =>
+					`${stage.stage}: ${stage.processed}/${stage.queued} jobs processed, ${stage.failed} failed, ${stage.imported} imported, ${stage.updated} updated, ${stage.ignored} ignored, ${stage.deleted} deleted`,
+			),
+		);
+		if (run.errorCount > 0) {
+			lines.push(
+				"",
+				`${run.errorCount} errors:`,
+				...(run.errors ?? []).map(
+					(error) => `- ${error.stage}: ${error.message}`,
+				),
+			);
+		}
+	}
+	if (payload.failedQueue) {
+		lines.push(
+			`The failed queue ${payload.failedQueue.queue} holds ${payload.failedQueue.messageCount} messages, the threshold is ${payload.failedQueue.threshold}.`,
+			"Retry or clear them from the data service configuration in the manager.",
+		);
+	}
+	return lines.join("\n");
+}
+
+async function sendWebhook(
+	target: Extract<
+		DataServiceNotificationTarget,
+		{ type: DataServiceNotificationTargetType.WEBHOOK }
+	>,
+	payload: NotificationPayload,
+) {
+	const body = JSON.stringify(payload);
+	const headers: Record<string, string> = {
+		"Content-Type": "application/json",
+		"X-Data-Service-Event": payload.event,
+	};
+	if (target.secret) {
+		headers["X-Data-Service-Signature"] =
+			`sha256=${createHmac("sha256", target.secret).update(body).digest("hex")}`;
+	}
+	await axios.post(target.url, body, {
+		headers,
+		timeout: WEBHOOK_TIMEOUT,
+	});
+}
+
+async function sendEmail(
+	target: Extract<
+		DataServiceNotificationTarget,
+		{ type: DataServiceNotificationTargetType.EMAIL }
+	>,
+	payload: NotificationPayload,
+) {
+	const params = new URLSearchParams({
+		subject: getSubject(payload),
+		message: getText(payload),
+	});
+	for (const recipient of target.recipients) {
+		params.append("recipients", recipient);
+	}
+	await dhis2Client.post(`email/notification?${params.toString()}`);
+}
+
+async function sendMessageConversation(
+	target: Extract<
+		DataServiceNotificationTarget,
+		{ type: DataServiceNotificationTargetType.MESSAGE_CONVERSATION }
+	>,
+	payload: NotificationPayload,
+) {
+	await dhis2Client.post("messageConversations", {
+		subject: getSubject(payload),
+		text: getText(payload),
+		userGroups: target.userGroups.map((id) => ({ id })),
+	});
+}
+
+function sendToTarget(
+	target: DataServiceNotificationTarget,
+	payload: NotificationPayload,
+) {
+	switch (target.type) {
+		case DataServiceNotificationTargetType.WEBHOOK:
+			return sendWebhook(target, payload);
+		case DataServiceNotificationTargetType.EMAIL:
+			return sendEmail(target, payload);
+		case DataServiceNotificationTargetType.MESSAGE_CONVERSATION:
+			return sendMessageConversation(target, payload);
+	}
+}
+
+/**
+ * Sends a notification to every enabled target of a configuration subscribed to its event.
+ * Notifications must never break a run, so failures are logged instead of thrown.
+ */
+export async function sendNotification(
+	payload: Omit<NotificationPayload, "timestamp">,
+) {
+	try {
+		const { targets } = await getNotificationTargets(
+			payload.configId,
+			payload.event,
+		);
+		const notification = {
+			...payload,
+			timestamp: new Date().toISOString(),
+		};
+		await Promise.all(
+			targets.map(async (target) => {
+				try {
+					await sendToTarget(target, notification);
+					logger.info(
+						`Sent ${payload.event} notification for ${payload.configId} to ${target.name}`,
+					);
+				} catch (error) {
+					logger.warn(
+						`Could not send ${payload.event} notification for ${payload.configId} to ${target.name}: ${(error as Error).message}`,
+					);
+				}
+			}),
+		);
+	} catch (error) {
+		logger.warn(
+			`Could not send ${payload.event} notifications for ${payload.configId}: ${(error as Error).message}`,
+		);
+	}
+}
+
+/**
+ * Notifies the targets of a configuration that one of its runs has finished
+ */
+export async function notifyRunFinished(run: DataServiceRun) {
+	const event =
+		run.status === DataServiceRunHistoryStatus.COMPLETED
+			? DataServiceNotificationEvent.RUN_COMPLETED
+			: DataServiceNotificationEvent.RUN_FAILED;
+	await sendNotification({
+		event,
+		configId: run.configId,
+		run: {
+			...omit(run, [
+				"importSummaries",
+				"suppressions",
+				"unmappedOrgUnits",
+			]),
+			errors: run.errors?.slice(0, MAX_NOTIFIED_ERRORS),
+		},
+	});
+}
+
+/*
+ * The failed queue is only notified once it reaches the threshold, and again after it went below it
+ * */
+const failedQueuesOverThreshold = new Set<string>();
+
+/**
+ * Notifies the targets of a configuration when its failed queue holds at least `failedQueueThreshold` messages
+ */
+export async function notifyFailedQueueThreshold({
+	configId,
+	queue,
+	messageCount,
+}: {
+	configId: string;
+	queue: string;
+	messageCount: number;
+}) {
+	try {
+		const { config } = await getNotificationTargets(
+			configId,
+			DataServiceNotificationEvent.FAILED_QUEUE_THRESHOLD,
+		);
+		const threshold = config.notifications?.failedQueueThreshold;
+		if (!threshold || messageCount < threshold) {
+			failedQueuesOverThreshold.delete(queue);
+			return;
+		}
+		if (failedQueuesOverThreshold.has(queue)) {
+			return;
+		}
+		failedQueuesOverThreshold.add(queue);
+		await sendNotification({
+			event: DataServiceNotificationEvent.FAILED_QUEUE_THRESHOLD,
+			configId,
+			failedQueue: { queue, messageCount, threshold },
+		});
+	} catch (error) {
+		logger.warn(
+			`Could not check the failed queue threshold of ${configId}: ${(error as Error).message}`,
+		);
+	}
+}
@@ -0,0 +1,53 @@
+import axios from "axios";
+import logger from "@/logging";
+import { dhis2Client } from "@/clients/dhis2";
+import {
+	PORTAL_CACHE_NAMESPACE,
+	PORTAL_CACHE_PURGE_KEY,
+} from "@packages/shared/constants";
+import {
+	DataServiceRun,
+	DataServiceRunHistoryStatus,
+	PortalCachePurge,
+	PortalCachePurgeSource,
+} from "@packages/shared/schemas";
+
+/*
+ * Runs of these types change the data values of the destination instance
+ * */
+const dataRunTypes: DataServiceRun["type"][] = ["download", "delete", "file"];
+
+/**
+ * Makes the portal clear its cached DHIS2 responses once a run has changed the data of the destination instance.
+ * Failing to purge must never break a run, so failures are logged instead of thrown.
+ */
+export async function purgePortalCache(run: DataServiceRun) {
+	if (
+		run.dryRun ||
+		!dataRunTypes.includes(run.type) ||
+		run.status === DataServiceRunHistoryStatus.FAILED
+	) {
+		return;
+	}
+	const purge: PortalCachePurge = {
+		purgedAt: new Date().toISOString(),
+		source: PortalCachePurgeSource.DATA_SERVICE,
+		purgedBy: run.id,
+	};
+	const url = `dataStore/${PORTAL_CACHE_NAMESPACE}/${PORTAL_CACHE_PURGE_KEY}`;
+	try {
+		try {
+			await dhis2Client.put(url, purge);
+		} catch (error) {
+			if (!axios.isAxiosError(error) || error.response?.status !== 404) {
+				throw error;
+			}
+			await dhis2Client.post(url, purge);
+		}
+		logger.info(`Purged the portal cache after run ${run.id}`);
+	} catch (error) {
+		logger.warn(
+			`Could not purge the portal cache after run ${run.id}: ${(error as Error).message}`,
+		);
+	}
+}
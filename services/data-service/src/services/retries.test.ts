@@ -0,0 +1,91 @@
+import { describe, expect, test } from "bun:test";
+import { AxiosError, AxiosResponse } from "axios";
+
+Object.assign(process.env, {
+	DHIS2_BASE_URL: "http://dhis2.test",
+	DHIS2_PAT: "test",
+	DATA_SERVICE_PORT: "3000",
+});
+
+const {
+	ATTEMPTS_HEADER,
+	countAttempts,
+	DEFAULT_RETRY_POLICY,
+	getBackoffDelay,
+	isRetryable,
+	MANUAL_RETRY_HEADER,
+} = await import("@/services/retries");
+
+function getHttpError(status: number) {
+	return new AxiosError(
+		`Request failed with status code ${status}`,
+		undefined,
+		undefined,
+		undefined,
+		{ status } as AxiosResponse,
+	);
+}
+
+describe("isRetryable", () => {
+	test("retries failures without a response", () => {
+		expect(isRetryable(new Error("timeout"), DEFAULT_RETRY_POLICY)).toBe(
+			true,
+		);
+	});
+
+	test("retries the retryable status codes only", () => {
+		expect(isRetryable(getHttpError(503), DEFAULT_RETRY_POLICY)).toBe(true);
+		expect(isRetryable(getHttpError(501), DEFAULT_RETRY_POLICY)).toBe(
+			false,
+		);
+		expect(isRetryable(getHttpError(418), DEFAULT_RETRY_POLICY)).toBe(
+			false,
+		);
+	});
+
+	test("does not retry server errors left out of the retryable status codes", () => {
+		const policy = { ...DEFAULT_RETRY_POLICY, retryableStatusCodes: [429] };
+		expect(isRetryable(getHttpError(500), policy)).toBe(false);
+		expect(isRetryable(getHttpError(429), policy)).toBe(true);
+	});
+
+	test("does not retry the permanent status codes, even when retryable", () => {
+		const policy = {
+			...DEFAULT_RETRY_POLICY,
+			retryableStatusCodes: [409],
+			permanentStatusCodes: [409],
+		};
+		expect(isRetryable(getHttpError(409), policy)).toBe(false);
+	});
+});
+
+describe("getBackoffDelay", () => {
+	test("doubles the delay after every attempt up to the cap", () => {
+		expect(
+			[1, 2, 3, 5, 6].map((attempt) =>
+				getBackoffDelay(DEFAULT_RETRY_POLICY, attempt),
+			),
+		).toEqual([10000, 20000, 40000, 160000, 300000]);
+	});
+});
+
+describe("countAttempts", () => {
+	test("only counts the attempts after a retry from the failed queue", () => {
+		const attempts = [
+			"2024-01-01T00:00:00.000Z",
+			"2024-01-01T00:01:00.000Z",
+			"2024-01-02T00:00:00.000Z",
+		].map((timestamp, index) => ({
+			attempt: index + 1,
+			timestamp,
+			error: "Request failed",
+		}));
+		expect(countAttempts({ [ATTEMPTS_HEADER]: attempts })).toBe(3);
+		expect(
+			countAttempts({
+				[ATTEMPTS_HEADER]: attempts,
+				[MANUAL_RETRY_HEADER]: "2024-01-01T12:00:00.000Z",
+			}),
+		).toBe(1);
+	});
+});
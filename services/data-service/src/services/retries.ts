@@ -0,0 +1,111 @@
+import axios from "axios";
+import { isNil, omitBy } from "lodash";
+import logger from "@/logging";
+import { dhis2Client } from "@/clients/dhis2";
+import { QueueHeaders } from "@/broker";
+import { DatastoreNamespaces } from "@packages/shared/constants";
+import { DataServiceConfig } from "@packages/shared/schemas";
+
+/*
+ * Attempts of a job, kept in its headers so that they survive restarts and show in the failed queue
+ * */
+export const ATTEMPTS_HEADER = "x-attempts";
+
+/*
+ * Set on jobs retried from the failed queue, only the attempts made after it count towards the maximum
+ * */
+export const MANUAL_RETRY_HEADER = "x-retry-timestamp";
+
+export interface RetryPolicy {
+	maxAttempts: number;
+	backoffBaseSeconds: number;
+	backoffCapSeconds: number;
+	retryableStatusCodes: number[];
+	permanentStatusCodes: number[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+	maxAttempts: 3,
+	backoffBaseSeconds: 10,
+	backoffCapSeconds: 300,
+	retryableStatusCodes: [408, 429, 500, 502, 503, 504],
+	permanentStatusCodes: [400, 401, 403, 404, 409, 422],
+};
+
+export interface Attempt {
+	attempt: number;
+	timestamp: string;
+	error: string;
+	/*
+	 * HTTP status of the failed request, if the job failed on one
+	 * */
+	status?: number;
+	/*
+	 * Seconds waited before the next attempt, missing on the last attempt
+	 * */
+	delay?: number;
+}
+
+/**
+ * Retry policy of a config, with the defaults for the settings it does not have
+ */
+export async function getRetryPolicy(configId: string): Promise<RetryPolicy> {
+	try {
+		const { data: config } = await dhis2Client.get<DataServiceConfig>(
+			`dataStore/${DatastoreNamespaces.DATA_SERVICE_CONFIG}/${configId}`,
+		);
+		return {
+			...DEFAULT_RETRY_POLICY,
+			...omitBy(config.retryPolicy ?? {}, isNil),
+		};
+	} catch (error) {
+		logger.warn(
+			`Could not get the retry policy of ${configId}, using the default one: ${(error as Error).message}`,
+		);
+		return DEFAULT_RETRY_POLICY;
+	}
+}
+
+export function getErrorStatus(error: unknown): number | undefined {
+	return axios.isAxiosError(error) ? error.response?.status : undefined;
+}
+
+/**
+ * Failures without a response are retried, the others only when their status code is one of the retryable ones
+ */
+export function isRetryable(error: unknown, policy: RetryPolicy) {
+	const status = getErrorStatus(error);
+	if (status === undefined) {
+		return true;
+	}
+	if (policy.permanentStatusCodes.includes(status)) {
+		return false;
+	}
+	return policy.retryableStatusCodes.includes(status);
+}
+
+/**
+ * Milliseconds to wait before the attempt after `attempt`, doubling from the base delay up to the cap
+ */
+export function getBackoffDelay(policy: RetryPolicy, attempt: number) {
+	const seconds = Math.min(
+		policy.backoffBaseSeconds * 2 ** (attempt - 1),
+		policy.backoffCapSeconds,
+	);
+	return seconds * 1000;
+}
+
+export function getAttempts(headers: QueueHeaders): Attempt[] {
+	const attempts = headers[ATTEMPTS_HEADER];
+	return Array.isArray(attempts) ? attempts : [];
+}
+
+/**
+ * Number of attempts counting towards the maximum, the ones before a retry from the failed queue do not
+ */
+export function countAttempts(headers: QueueHeaders) {
+	const retriedAt = headers[MANUAL_RETRY_HEADER];
+	return getAttempts(headers).filter(
+		({ timestamp }) => !retriedAt || timestamp > retriedAt,
+	).length;
+}
@@ -0,0 +1,217 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import axios, { AxiosResponse, InternalAxiosRequestConfig } from "axios";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+	DataServiceConfig,
+	DataServiceRunHistoryStatus,
+} from "@packages/shared/schemas";
+
+// The run, queue and output files are created relative to the working directory
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "data-service-runs-"));
+process.chdir(workDir);
+Object.assign(process.env, {
+	DHIS2_BASE_URL: "http://dhis2.test",
+	DHIS2_PAT: "test",
+	DATA_SERVICE_PORT: "3000",
+	QUEUE_BROKER: "sqlite",
+});
+
+const configId = "runs-test";
+const config = {
+	id: configId,
+	source: { routeId: "source", name: "Source" },
+	visualizations: [],
+	itemsConfig: [
+		{
+			id: "items",
+			name: "Items",
+			type: "DX_VALUES",
+			dataItems: [{ sourceId: "sourceDe", id: "destinationDe" }],
+			periodTypeId: "MONTHLY",
+			parentOrgUnitId: "root",
+			orgUnitLevel: 1,
+		},
+	],
+} as DataServiceConfig;
+
+/*
+ * Answers the requests to DHIS2, both the source routes and the destination
+ * */
+axios.defaults.adapter = async (
+	request: InternalAxiosRequestConfig,
+): Promise<AxiosResponse> => {
+	const url = request.url ?? "";
+	const respond = (data: unknown) => ({
+		data,
+		status: 200,
+		statusText: "OK",
+		headers: {},
+		config: request,
+	});
+	if (url.startsWith("dataStore/")) {
+		return respond(config);
+	}
+	if (url.startsWith("analytics/dataValueSet.json")) {
+		return respond({
+			dataValues: [
+				{
+					dataElement: "sourceDe",
+					categoryOptionCombo: "coc",
+					attributeOptionCombo: "aoc",
+					orgUnit: "root",
+					period: "202401",
+					value: "4",
+				},
+			],
+		});
+	}
+	if (url.startsWith("dataValueSets")) {
+		return respond({
+			response: {
+				status: "SUCCESS",
+				importCount: {
+					imported: 1,
+					updated: 0,
+					ignored: 0,
+					deleted: 0,
+				},
+				conflicts: [],
+			},
+		});
+	}
+	return respond({});
+};
+
+const { getBroker } = await import("@/broker");
+const { pushToQueue } = await import("@/rabbit/publisher");
+const { getQueueNames } = await import("@/variables/queue-names");
+const { downloadData } =
+	await import("@/services/data-migration/data-download");
+const { dataFromQueue } = await import("@/services/data-migration/data-upload");
+const { createRun, getRun, recordJobProcessed, startRun } =
+	await import("@/services/runs");
+
+const broker = getBroker();
+const queues = getQueueNames(configId);
+
+/*
+ * Processes the jobs of a queue the way the worker does
+ * */
+function consumeJobs(
+	queueType: "dataDownload" | "dataUpload",
+	handler: (job: any) => Promise<void>,
+) {
+	return broker.consume(
+		queues[queueType],
+		async (message) => {
+			const job = JSON.parse(message.content);
+			await handler(job);
+			message.ack();
+			recordJobProcessed(job.runId, queueType);
+		},
+		{ group: queueType, prefetch: 1 },
+	);
+}
+
+async function waitForRun(runId: string, timeout = 15000) {
+	const start = Date.now();
+	while (Date.now() - start < timeout) {
+		const run = getRun(runId);
+		if (run?.status !== DataServiceRunHistoryStatus.RUNNING) {
+			return run;
+		}
+		await Bun.sleep(200);
+	}
+	throw new Error(`Run ${runId} did not finish in ${timeout}ms`);
+}
+
+describe("run completion", () => {
+	beforeAll(async () => {
+		await broker.assertQueues(
+			[queues.dataDownload, queues.dataUpload],
+			queues.failed,
+		);
+	});
+
+	afterAll(() => {
+		fs.rmSync(workDir, { recursive: true, force: true });
+	});
+
+	test(
+		"a download run completes once its uploads are processed",
+		async () => {
+			const statusesBeforeUpload: (string | undefined)[] = [];
+			await consumeJobs("dataDownload", downloadData);
+			await consumeJobs("dataUpload", async (job) => {
+				statusesBeforeUpload.push(getRun(job.runId)?.status);
+				await dataFromQueue(job);
+			});
+
+			const runtimeConfig = { periods: ["202401"] };
+			const runId = createRun({
+				configId,
+				type: "download",
+				dataItemsConfigIds: ["items"],
+				requestedPeriods: runtimeConfig.periods,
+				periods: { items: runtimeConfig.periods },
+			});
+			await pushToQueue(configId, "dataDownload", {
+				runId,
+				mainConfigId: configId,
+				mainConfig: config,
+				periodId: "202401",
+				config: config.itemsConfig[0],
+				runtimeConfig,
+				isDelete: false,
+				dryRun: false,
+			});
+			startRun(runId);
+
+			const run = await waitForRun(runId);
+
+			expect(statusesBeforeUpload).toEqual([
+				DataServiceRunHistoryStatus.RUNNING,
+			]);
+			expect(run?.status).toBe(DataServiceRunHistoryStatus.COMPLETED);
+			expect(run?.stages).toContainEqual(
+				expect.objectContaining({
+					stage: "dataUpload",
+					queued: 1,
+					processed: 1,
+					imported: 1,
+				}),
+			);
+		},
+		{ timeout: 20000 },
+	);
+
+	test("a job is not counted as queued when it can not be published", async () => {
+		const runId = createRun({
+			configId,
+			type: "download",
+			dataItemsConfigIds: ["items"],
+			requestedPeriods: ["202402"],
+			periods: { items: ["202402"] },
+		});
+		const publish = broker.publish;
+		broker.publish = async () => {
+			throw new Error("Broker unavailable");
+		};
+		try {
+			await expect(
+				pushToQueue(configId, "dataUpload", {
+					runId,
+					mainConfigId: configId,
+				}),
+			).rejects.toThrow("Broker unavailable");
+		} finally {
+			broker.publish = publish;
+		}
+
+		expect(getRun(runId)?.stages).toContainEqual(
+			expect.objectContaining({ stage: "dataUpload", queued: 0 }),
+		);
+	});
+});
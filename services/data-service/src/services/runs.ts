@@ -0,0 +1,619 @@
+import { Database } from "bun:sqlite";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { v4 } from "uuid";
+import logger from "@/logging";
+import {
+	DataServiceRun,
+	DataServiceImportSummary,
+	DataServiceRunError,
+	DataServiceRunHistoryStatus,
+	DataServiceRunStage,
+	DataServiceSuppression,
+	DataServiceUnmappedOrgUnit,
+} from "@packages/shared/schemas";
+import { commitWatermarks, discardWatermarks } from "@/services/watermarks";
+import { notifyRunFinished } from "@/services/notifications";
+import { purgePortalCache } from "@/services/portalCache";
+
+const runsPath = `runs`;
+const databaseFile = path.join(runsPath, "runs.sqlite");
+
+const stageCounters = [
+	"queued",
+	"processed",
+	"failed",
+	"imported",
+	"updated",
+	"ignored",
+	"deleted",
+] as const;
+
+/*
+ * Large runs can suppress many values, only the first ones are returned with a run
+ * */
+const MAX_RETURNED_SUPPRESSIONS = 1000;
+
+/*
+ * Only the organisation units with the most unmapped values are returned with a run
+ * */
+const MAX_RETURNED_UNMAPPED_ORG_UNITS = 1000;
+
+export type RunStageCounts = Partial<
+	Record<(typeof stageCounters)[number], number>
+>;
+
+interface RunRow {
+	id: string;
+	config_id: string;
+	type: DataServiceRun["type"];
+	status: DataServiceRunHistoryStatus;
+	dry_run: number;
+	data_items_config_ids: string;
+	requested_periods: string;
+	periods: string;
+	started_at: string;
+	finished_at: string | null;
+	error_count: number;
+	suppression_count: number;
+	unmapped_org_unit_count: number;
+}
+
+interface RunSuppressionRow {
+	data_items_config_id: string;
+	data_element: string;
+	category_option_combo: string | null;
+	attribute_option_combo: string | null;
+	org_unit: string;
+	period: string;
+	type: DataServiceSuppression["type"];
+	replacement: string | null;
+}
+
+interface RunUnmappedOrgUnitRow {
+	data_items_config_id: string;
+	org_unit: string;
+	value_count: number;
+}
+
+interface RunErrorRow {
+	stage: string;
+	message: string;
+	details: string | null;
+	timestamp: string;
+}
+
+let database: Database | null = null;
+
+/*
+ * The API and the worker run as separate processes, so the database is opened in WAL mode to allow them to write to it concurrently.
+ * */
+function getDatabase(): Database {
+	if (database) {
+		return database;
+	}
+	fs.mkdirSync(runsPath, { recursive: true });
+	database = new Database(databaseFile, { create: true });
+	database.exec("PRAGMA journal_mode = WAL;");
+	database.exec("PRAGMA busy_timeout = 5000;");
+	database.exec(`
+		CREATE TABLE IF NOT EXISTS runs (
+			id TEXT PRIMARY KEY,
+			config_id TEXT NOT NULL,
+			type TEXT NOT NULL,
+			status TEXT NOT NULL,
+			dry_run INTEGER NOT NULL DEFAULT 0,
+			data_items_config_ids TEXT NOT NULL,
+			requested_periods TEXT NOT NULL,
+			periods TEXT NOT NULL,
+			started_at TEXT NOT NULL,
+			finished_at TEXT
+		);
+		CREATE INDEX IF NOT EXISTS runs_config_id ON runs (config_id, started_at);
+		CREATE TABLE IF NOT EXISTS run_stages (
+			run_id TEXT NOT NULL REFERENCES runs (id) ON DELETE CASCADE,
+			stage TEXT NOT NULL,
+			${stageCounters.map((counter) => `${counter} INTEGER NOT NULL DEFAULT 0`).join(",\n")},
+			PRIMARY KEY (run_id, stage)
+		);
+		CREATE TABLE IF NOT EXISTS run_errors (
+			id INTEGER PRIMARY KEY AUTOINCREMENT,
+			run_id TEXT NOT NULL REFERENCES runs (id) ON DELETE CASCADE,
+			stage TEXT NOT NULL,
+			message TEXT NOT NULL,
+			details TEXT,
+			timestamp TEXT NOT NULL
+		);
+		CREATE INDEX IF NOT EXISTS run_errors_run_id ON run_errors (run_id);
+		CREATE TABLE IF NOT EXISTS run_import_summaries (
+			id INTEGER PRIMARY KEY AUTOINCREMENT,
+			run_id TEXT NOT NULL REFERENCES runs (id) ON DELETE CASCADE,
+			summary TEXT NOT NULL
+		);
+		CREATE INDEX IF NOT EXISTS run_import_summaries_run_id ON run_import_summaries (run_id);
+		CREATE TABLE IF NOT EXISTS run_suppressions (
+			id INTEGER PRIMARY KEY AUTOINCREMENT,
+			run_id TEXT NOT NULL REFERENCES runs (id) ON DELETE CASCADE,
+			data_items_config_id TEXT NOT NULL,
+			data_element TEXT NOT NULL,
+			category_option_combo TEXT,
+			attribute_option_combo TEXT,
+			org_unit TEXT NOT NULL,
+			period TEXT NOT NULL,
+			type TEXT NOT NULL,
+			replacement TEXT
+		);
+		CREATE INDEX IF NOT EXISTS run_suppressions_run_id ON run_suppressions (run_id);
+		CREATE TABLE IF NOT EXISTS run_unmapped_org_units (
+			run_id TEXT NOT NULL REFERENCES runs (id) ON DELETE CASCADE,
+			data_items_config_id TEXT NOT NULL,
+			org_unit TEXT NOT NULL,
+			value_count INTEGER NOT NULL DEFAULT 0,
+			PRIMARY KEY (run_id, data_items_config_id, org_unit)
+		);
+	`);
+	migrateDatabase(database);
+	return database;
+}
+
+/*
+ * Adds the columns introduced after the tables were first created to existing databases
+ * */
+function migrateDatabase(db: Database) {
+	const columns = db
+		.query<{ name: string }, []>(`PRAGMA table_info(runs)`)
+		.all()
+		.map(({ name }) => name);
+	if (!columns.includes("dry_run")) {
+		db.exec(
+			`ALTER TABLE runs ADD COLUMN dry_run INTEGER NOT NULL DEFAULT 0;`,
+		);
+	}
+}
+
+function getRunStages(runId: string): DataServiceRunStage[] {
+	return getDatabase()
+		.query<DataServiceRunStage & { run_id: string }, [string]>(
+			`SELECT * FROM run_stages WHERE run_id = ? ORDER BY rowid`,
+		)
+		.all(runId)
+		.map(({ run_id, ...stage }) => stage);
+}
+
+function toRun(row: RunRow): DataServiceRun {
+	return {
+		id: row.id,
+		configId: row.config_id,
+		type: row.type,
+		status: row.status,
+		dryRun: Boolean(row.dry_run),
+		dataItemsConfigIds: JSON.parse(row.data_items_config_ids),
+		requestedPeriods: JSON.parse(row.requested_periods),
+		periods: JSON.parse(row.periods),
+		startedAt: row.started_at,
+		finishedAt: row.finished_at,
+		stages: getRunStages(row.id),
+		errorCount: row.error_count,
+		suppressionCount: row.suppression_count,
+		unmappedOrgUnitCount: row.unmapped_org_unit_count,
+	};
+}
+
+const runSelect = `
+	SELECT runs.*,
+		(SELECT COUNT(*) FROM run_errors WHERE run_errors.run_id = runs.id) AS error_count,
+		(SELECT COUNT(*) FROM run_suppressions WHERE run_suppressions.run_id = runs.id) AS suppression_count,
+		(SELECT COUNT(DISTINCT org_unit) FROM run_unmapped_org_units WHERE run_unmapped_org_units.run_id = runs.id) AS unmapped_org_unit_count
+	FROM runs
+`;
+
+/*
+ * A run is finished once every job queued for it has either been processed or has failed.
+ * Runs that are still being queued are never finished here, see `startRun`.
+ * */
+function updateRunCompletion(runId: string) {
+	const db = getDatabase();
+	const run = db
+		.query<Pick<RunRow, "status">, [string]>(
+			`SELECT status FROM runs WHERE id = ?`,
+		)
+		.get(runId);
+	if (run?.status !== DataServiceRunHistoryStatus.RUNNING) {
+		return;
+	}
+	const { pending, failed } = db
+		.query<{ pending: number | null; failed: number | null }, [string]>(
+			`SELECT SUM(queued - processed - failed) AS pending, SUM(failed) AS failed FROM run_stages WHERE run_id = ?`,
+		)
+		.get(runId)!;
+	if ((pending ?? 0) > 0) {
+		return;
+	}
+	const status =
+		(failed ?? 0) > 0
+			? DataServiceRunHistoryStatus.COMPLETED_WITH_ERRORS
+			: DataServiceRunHistoryStatus.COMPLETED;
+	const { changes } = db
+		.query(
+			`UPDATE runs SET status = ?, finished_at = ? WHERE id = ? AND status = ?`,
+		)
+		.run(
+			status,
+			new Date().toISOString(),
+			runId,
+			DataServiceRunHistoryStatus.RUNNING,
+		);
+	if (changes === 0) {
+		return;
+	}
+	if (status === DataServiceRunHistoryStatus.COMPLETED) {
+		commitWatermarks(runId);
+	}
+	notifyFinishedRun(runId);
+}
+
+/*
+ * Notifications are sent and the portal cache is purged in the background so that they never delay the queue processing
+ * */
+function notifyFinishedRun(runId: string) {
+	const run = getRun(runId);
+	if (run) {
+		void notifyRunFinished(run);
+		void purgePortalCache(run);
+	}
+}
+
+/**
+ * Registers a new run before its jobs are queued
+ */
+export function createRun({
+	configId,
+	type,
+	dataItemsConfigIds,
+	requestedPeriods,
+	periods,
+	dryRun,
+}: Pick<
+	DataServiceRun,
+	"configId" | "type" | "dataItemsConfigIds" | "requestedPeriods" | "periods"
+> & { dryRun?: boolean }): string {
+	const id = v4();
+	getDatabase()
+		.query(
+			`INSERT INTO runs (id, config_id, type, status, dry_run, data_items_config_ids, requested_periods, periods, started_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+		)
+		.run(
+			id,
+			configId,
+			type,
+			DataServiceRunHistoryStatus.QUEUED,
+			dryRun ? 1 : 0,
+			JSON.stringify(dataItemsConfigIds),
+			JSON.stringify(requestedPeriods),
+			JSON.stringify(periods),
+			new Date().toISOString(),
+		);
+	logger.info(
+		`Registered ${dryRun ? "dry " : ""}${type} run ${id} for config ${configId}`,
+	);
+	return id;
+}
+
+/**
+ * Marks a run as running once all its initial jobs are queued
+ */
+export function startRun(runId: string) {
+	getDatabase()
+		.query(`UPDATE runs SET status = ? WHERE id = ? AND status = ?`)
+		.run(
+			DataServiceRunHistoryStatus.RUNNING,
+			runId,
+			DataServiceRunHistoryStatus.QUEUED,
+		);
+	updateRunCompletion(runId);
+}
+
+/**
+ * Marks a run as failed when its jobs could not be queued
+ */
+export function failRun(runId: string, error: Error) {
+	recordRunError(runId, "enqueue", error.message);
+	getDatabase()
+		.query(`UPDATE runs SET status = ?, finished_at = ? WHERE id = ?`)
+		.run(
+			DataServiceRunHistoryStatus.FAILED,
+			new Date().toISOString(),
+			runId,
+		);
+	discardWatermarks(runId);
+	notifyFinishedRun(runId);
+}
+
+export function incrementRunStage(
+	runId: string,
+	stage: string,
+	counts: RunStageCounts,
+) {
+	const values = stageCounters.map((counter) => counts[counter] ?? 0);
+	getDatabase()
+		.query(
+			`INSERT INTO run_stages (run_id, stage, ${stageCounters.join(", ")})
+			VALUES (?, ?, ${stageCounters.map(() => "?").join(", ")})
+			ON CONFLICT (run_id, stage) DO UPDATE SET ${stageCounters
+				.map(
+					(counter) =>
+						`${counter} = ${counter} + excluded.${counter}`,
+				)
+				.join(", ")}`,
+		)
+		.run(runId, stage, ...values);
+	updateRunCompletion(runId);
+}
+
+export function recordRunError(
+	runId: string,
+	stage: string,
+	message: string,
+	details?: unknown,
+) {
+	getDatabase()
+		.query(
+			`INSERT INTO run_errors (run_id, stage, message, details, timestamp) VALUES (?, ?, ?, ?, ?)`,
+		)
+		.run(
+			runId,
+			stage,
+			message,
+			details === undefined ? null : JSON.stringify(details),
+			new Date().toISOString(),
+		);
+}
+
+export function recordRunImportSummary(
+	runId: string,
+	summary: DataServiceImportSummary,
+) {
+	getDatabase()
+		.query(
+			`INSERT INTO run_import_summaries (run_id, summary) VALUES (?, ?)`,
+		)
+		.run(runId, JSON.stringify(summary));
+}
+
+export function recordRunSuppressions(
+	runId: string,
+	suppressions: DataServiceSuppression[],
+) {
+	const db = getDatabase();
+	const query = db.query(
+		`INSERT INTO run_suppressions (run_id, data_items_config_id, data_element, category_option_combo, attribute_option_combo, org_unit, period, type, replacement) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+	);
+	db.transaction(() => {
+		for (const suppression of suppressions) {
+			query.run(
+				runId,
+				suppression.dataItemsConfigId,
+				suppression.dataElement,
+				suppression.categoryOptionCombo ?? null,
+				suppression.attributeOptionCombo ?? null,
+				suppression.orgUnit,
+				suppression.period,
+				suppression.type,
+				suppression.replacement,
+			);
+		}
+	})();
+}
+
+/*
+ * Values of the same organisation unit are dropped by many jobs of a run, so their counts are added up
+ * */
+export function recordRunUnmappedOrgUnits(
+	runId: string,
+	dataItemsConfigId: string,
+	unmappedOrgUnits: Record<string, number>,
+) {
+	const db = getDatabase();
+	const query = db.query(
+		`INSERT INTO run_unmapped_org_units (run_id, data_items_config_id, org_unit, value_count) VALUES (?, ?, ?, ?)
+		ON CONFLICT (run_id, data_items_config_id, org_unit) DO UPDATE SET value_count = value_count + excluded.value_count`,
+	);
+	db.transaction(() => {
+		for (const [orgUnit, valueCount] of Object.entries(unmappedOrgUnits)) {
+			query.run(runId, dataItemsConfigId, orgUnit, valueCount);
+		}
+	})();
+}
+
+/*
+ * Run bookkeeping must never break queue processing, so these helpers log failures instead of throwing.
+ * */
+function safely(action: string, callback: () => void) {
+	try {
+		callback();
+	} catch (error) {
+		logger.warn(
+			`Could not ${action} in run history: ${(error as Error).message}`,
+		);
+	}
+}
+
+export function recordJobQueued(runId: string | undefined, stage: string) {
+	if (!runId) return;
+	safely("record queued job", () =>
+		incrementRunStage(runId, stage, { queued: 1 }),
+	);
+}
+
+/*
+ * Takes back a job recorded as queued whose message could not be published
+ * */
+export function recordJobUnqueued(runId: string | undefined, stage: string) {
+	if (!runId) return;
+	safely("take back queued job", () =>
+		incrementRunStage(runId, stage, { queued: -1 }),
+	);
+}
+
+export function recordJobProcessed(runId: string | undefined, stage: string) {
+	if (!runId) return;
+	safely("record processed job", () =>
+		incrementRunStage(runId, stage, { processed: 1 }),
+	);
+}
+
+export function recordJobFailed(
+	runId: string | undefined,
+	stage: string,
+	message: string,
+	details?: unknown,
+) {
+	if (!runId) return;
+	safely("record failed job", () => {
+		recordRunError(runId, stage, message, details);
+		incrementRunStage(runId, stage, { failed: 1 });
+	});
+}
+
+export function recordImportCounts(
+	runId: string | undefined,
+	stage: string,
+	counts: RunStageCounts,
+) {
+	if (!runId) return;
+	safely("record import counts", () =>
+		incrementRunStage(runId, stage, counts),
+	);
+}
+
+export function recordImportSummary(
+	runId: string | undefined,
+	summary: DataServiceImportSummary,
+) {
+	if (!runId) return;
+	safely("record import summary", () =>
+		recordRunImportSummary(runId, summary),
+	);
+}
+
+export function recordSuppressions(
+	runId: string | undefined,
+	suppressions: DataServiceSuppression[],
+) {
+	if (!runId || suppressions.length === 0) return;
+	safely("record suppressions", () =>
+		recordRunSuppressions(runId, suppressions),
+	);
+}
+
+export function recordUnmappedOrgUnits(
+	runId: string | undefined,
+	dataItemsConfigId: string,
+	unmappedOrgUnits: Record<string, number>,
+) {
+	if (!runId) return;
+	safely("record unmapped organisation units", () =>
+		recordRunUnmappedOrgUnits(runId, dataItemsConfigId, unmappedOrgUnits),
+	);
+}
+
+/**
+ * Moves a failed job of a run back in flight when it is retried from the failed queue
+ */
+export function recordJobRetried(messagePayload: Buffer | string) {
+	safely("record retried job", () => {
+		const { runId, queueType } = JSON.parse(messagePayload.toString());
+		if (!runId || !queueType) return;
+		const db = getDatabase();
+		db.query(
+			`UPDATE run_stages SET failed = MAX(failed - 1, 0) WHERE run_id = ? AND stage = ?`,
+		).run(runId, queueType);
+		db.query(
+			`UPDATE runs SET status = ?, finished_at = NULL WHERE id = ? AND status IN (?, ?)`,
+		).run(
+			DataServiceRunHistoryStatus.RUNNING,
+			runId,
+			DataServiceRunHistoryStatus.COMPLETED,
+			DataServiceRunHistoryStatus.COMPLETED_WITH_ERRORS,
+		);
+	});
+}
+
+export function listRuns(
+	configId: string,
+	{ limit = 20, offset = 0 }: { limit?: number; offset?: number } = {},
+): { runs: DataServiceRun[]; total: number } {
+	const db = getDatabase();
+	const rows = db
+		.query<RunRow, [string, number, number]>(
+			`${runSelect} WHERE config_id = ? ORDER BY started_at DESC LIMIT ? OFFSET ?`,
+		)
+		.all(configId, limit, offset);
+	const { total } = db
+		.query<{ total: number }, [string]>(
+			`SELECT COUNT(*) AS total FROM runs WHERE config_id = ?`,
+		)
+		.get(configId)!;
+
+	return { runs: rows.map(toRun), total };
+}
+
+export function getRun(runId: string): DataServiceRun | null {
+	const db = getDatabase();
+	const row = db
+		.query<RunRow, [string]>(`${runSelect} WHERE id = ?`)
+		.get(runId);
+	if (!row) {
+		return null;
+	}
+	const errors: DataServiceRunError[] = db
+		.query<RunErrorRow, [string]>(
+			`SELECT stage, message, details, timestamp FROM run_errors WHERE run_id = ? ORDER BY id`,
+		)
+		.all(runId)
+		.map(({ details, ...error }) => ({
+			...error,
+			details: details ? JSON.parse(details) : undefined,
+		}));
+	const importSummaries: DataServiceImportSummary[] = db
+		.query<{ summary: string }, [string]>(
+			`SELECT summary FROM run_import_summaries WHERE run_id = ? ORDER BY id`,
+		)
+		.all(runId)
+		.map(({ summary }) => JSON.parse(summary));
+	const suppressions: DataServiceSuppression[] = db
+		.query<RunSuppressionRow, [string, number]>(
+			`SELECT * FROM run_suppressions WHERE run_id = ? ORDER BY id LIMIT ?`,
+		)
+		.all(runId, MAX_RETURNED_SUPPRESSIONS)
+		.map((suppression) => ({
+			dataItemsConfigId: suppression.data_items_config_id,
+			dataElement: suppression.data_element,
+			categoryOptionCombo: suppression.category_option_combo ?? undefined,
+			attributeOptionCombo:
+				suppression.attribute_option_combo ?? undefined,
+			orgUnit: suppression.org_unit,
+			period: suppression.period,
+			type: suppression.type,
+			replacement: suppression.replacement,
+		}));
+
+	const unmappedOrgUnits: DataServiceUnmappedOrgUnit[] = db
+		.query<RunUnmappedOrgUnitRow, [string, number]>(
+			`SELECT * FROM run_unmapped_org_units WHERE run_id = ? ORDER BY value_count DESC LIMIT ?`,
+		)
+		.all(runId, MAX_RETURNED_UNMAPPED_ORG_UNITS)
+		.map((unmappedOrgUnit) => ({
+			dataItemsConfigId: unmappedOrgUnit.data_items_config_id,
+			orgUnit: unmappedOrgUnit.org_unit,
+			valueCount: unmappedOrgUnit.value_count,
+		}));
+
+	return {
+		...toRun(row),
+		errors,
+		importSummaries,
+		suppressions,
+		unmappedOrgUnits,
+	};
+}
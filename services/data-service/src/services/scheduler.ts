@@ -0,0 +1,253 @@
+import { Cron } from "croner";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import logger from "@/logging";
+import { dhis2Client } from "@/clients/dhis2";
+import { DatastoreNamespaces } from "@packages/shared/constants";
+import {
+	DataServiceConfig,
+	DataServiceSchedule,
+	DataServiceScheduleStatus,
+} from "@packages/shared/schemas";
+import { downloadAndQueueData } from "@/services/data-migration/data-download";
+import { resolveSchedulePeriods } from "@/utils/periods";
+
+const schedulesPath = `schedules`;
+const SCHEDULE_SYNC_INTERVAL = 10 * 60 * 1000;
+
+interface ScheduleRunState {
+	lastRun: string | null;
+	lastRunStatus: "SUCCESS" | "FAILED" | null;
+	lastRunPeriods: string[];
+	lastRunId?: string;
+	lastRunError?: string;
+}
+
+const scheduledJobs: Map<string, Map<string, Cron>> = new Map();
+const stateWrites: Map<string, Promise<void>> = new Map();
+let syncTimer: ReturnType<typeof setInterval> | null = null;
+
+function getStateFile(configId: string) {
+	return path.join(schedulesPath, `${configId}.json`);
+}
+
+async function readScheduleState(
+	configId: string,
+): Promise<Record<string, ScheduleRunState>> {
+	try {
+		const content = await fs.promises.readFile(
+			getStateFile(configId),
+			"utf8",
+		);
+		return JSON.parse(content);
+	} catch (e) {
+		return {};
+	}
+}
+
+/*
+ * Writes of the state of a config are chained, schedules of the same config finishing together would otherwise
+ * overwrite each other's state. The file is replaced at once so that it is never read half written.
+ * */
+function writeScheduleState(
+	configId: string,
+	scheduleId: string,
+	state: ScheduleRunState,
+): Promise<void> {
+	const write = (stateWrites.get(configId) ?? Promise.resolve()).then(
+		async () => {
+			const existingState = await readScheduleState(configId);
+			const stateFile = getStateFile(configId);
+			await fs.promises.mkdir(schedulesPath, { recursive: true });
+			await fs.promises.writeFile(
+				`${stateFile}.tmp`,
+				JSON.stringify(
+					{ ...existingState, [scheduleId]: state },
+					null,
+					2,
+				),
+				"utf8",
+			);
+			await fs.promises.rename(`${stateFile}.tmp`, stateFile);
+		},
+	);
+	// A failed write is reported to its caller and does not block the next ones
+	const chain = write.catch(() => undefined);
+	stateWrites.set(configId, chain);
+	chain.then(() => {
+		if (stateWrites.get(configId) === chain) {
+			stateWrites.delete(configId);
+		}
+	});
+	return write;
+}
+
+/**
+ * Resolves the periods of a schedule and queues a data download run for them
+ */
+export async function runSchedule(
+	configId: string,
+	schedule: DataServiceSchedule,
+) {
+	let periods: string[] = [];
+	try {
+		periods = resolveSchedulePeriods(schedule.periods);
+		logger.info(
+			`Running schedule ${schedule.id} for config ${configId} with periods ${periods.join(", ")}`,
+		);
+		const { runId } = await downloadAndQueueData({
+			mainConfigId: configId,
+			dataItemsConfigIds: schedule.dataItemsConfigIds,
+			runtimeConfig: {
+				...schedule.runtimeConfig,
+				periods,
+			},
+			schedulePeriods: schedule.periods,
+		});
+		await writeScheduleState(configId, schedule.id, {
+			lastRun: new Date().toISOString(),
+			lastRunStatus: "SUCCESS",
+			lastRunPeriods: periods,
+			lastRunId: runId,
+		});
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		logger.error(
+			`Scheduled run ${schedule.id} for config ${configId} failed: ${message}`,
+		);
+		await writeScheduleState(configId, schedule.id, {
+			lastRun: new Date().toISOString(),
+			lastRunStatus: "FAILED",
+			lastRunPeriods: periods,
+			lastRunError: message,
+		});
+	}
+}
+
+function stopConfigSchedules(configId: string) {
+	const jobs = scheduledJobs.get(configId);
+	if (!jobs) {
+		return;
+	}
+	for (const job of jobs.values()) {
+		job.stop();
+	}
+	scheduledJobs.delete(configId);
+}
+
+/**
+ * Replaces the running cron jobs of a config with the schedules it currently defines
+ */
+export function registerConfigSchedules(config: DataServiceConfig) {
+	stopConfigSchedules(config.id);
+	const jobs = new Map<string, Cron>();
+	for (const schedule of config.schedules ?? []) {
+		if (!schedule.enabled) {
+			continue;
+		}
+		try {
+			const job = new Cron(
+				schedule.cron,
+				{ name: `${config.id}-${schedule.id}`, protect: true },
+				async () => {
+					await runSchedule(config.id, schedule);
+				},
+			);
+			jobs.set(schedule.id, job);
+			logger.info(
+				`Scheduled ${schedule.id} for config ${config.id}, next run at ${job.nextRun()?.toISOString()}`,
+			);
+		} catch (error) {
+			logger.error(
+				`Invalid schedule ${schedule.id} for config ${config.id}: ${(error as Error).message}`,
+			);
+		}
+	}
+	scheduledJobs.set(config.id, jobs);
+	return jobs;
+}
+
+/**
+ * Fetches a config from the datastore and re-registers its schedules
+ */
+export async function reloadConfigSchedules(configId: string) {
+	try {
+		const url = `dataStore/${DatastoreNamespaces.DATA_SERVICE_CONFIG}/${configId}`;
+		const { data: config } = await dhis2Client.get<DataServiceConfig>(url);
+		return registerConfigSchedules(config);
+	} catch (error: any) {
+		if (error.response?.status === 404) {
+			logger.info(
+				`Configuration ${configId} no longer exists, removing its schedules`,
+			);
+			stopConfigSchedules(configId);
+			return new Map<string, Cron>();
+		}
+		throw error;
+	}
+}
+
+async function syncAllSchedules() {
+	try {
+		const keysUrl = `dataStore/${DatastoreNamespaces.DATA_SERVICE_CONFIG}`;
+		const { data: configIds } = await dhis2Client.get<string[]>(keysUrl);
+		for (const configId of scheduledJobs.keys()) {
+			if (!configIds.includes(configId)) {
+				stopConfigSchedules(configId);
+			}
+		}
+		const results = await Promise.allSettled(
+			configIds.map((configId) => reloadConfigSchedules(configId)),
+		);
+		const failed = results.filter((r) => r.status === "rejected").length;
+		logger.info(
+			`Schedules synced for ${configIds.length - failed} configurations, ${failed} failed`,
+		);
+	} catch (error) {
+		logger.error(
+			`Failed to sync schedules from datastore: ${(error as Error).message || String(error)}`,
+		);
+	}
+}
+
+/**
+ * Loads schedules of all configs and keeps them in sync with the datastore
+ */
+export async function startScheduler() {
+	logger.info("Starting data service scheduler...");
+	await syncAllSchedules();
+	if (!syncTimer) {
+		syncTimer = setInterval(syncAllSchedules, SCHEDULE_SYNC_INTERVAL);
+	}
+}
+
+/**
+ * Get next/last run information for every schedule of a config
+ */
+export async function getConfigScheduleStatus(
+	configId: string,
+): Promise<DataServiceScheduleStatus[]> {
+	const url = `dataStore/${DatastoreNamespaces.DATA_SERVICE_CONFIG}/${configId}`;
+	const { data: config } = await dhis2Client.get<DataServiceConfig>(url);
+	const jobs = scheduledJobs.get(configId);
+	const state = await readScheduleState(configId);
+
+	return (config.schedules ?? []).map((schedule) => {
+		const scheduleState = state[schedule.id];
+		const nextRun = schedule.enabled
+			? jobs?.get(schedule.id)?.nextRun()
+			: null;
+		return {
+			id: schedule.id,
+			name: schedule.name,
+			cron: schedule.cron,
+			enabled: schedule.enabled,
+			nextRun: nextRun?.toISOString() ?? null,
+			lastRun: scheduleState?.lastRun ?? null,
+			lastRunStatus: scheduleState?.lastRunStatus ?? null,
+			lastRunPeriods: scheduleState?.lastRunPeriods ?? [],
+			lastRunId: scheduleState?.lastRunId ?? null,
+			lastRunError: scheduleState?.lastRunError,
+		};
+	});
+}
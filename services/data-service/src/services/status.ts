@@ -1,8 +1,7 @@
-import axios from "axios";
 import { DataServiceRunStatus } from "@packages/shared/schemas";
 import logger from "@/logging";
 import { getQueueNames } from "@/variables/queue-names";
-import { config } from "dotenv";
+import { getBroker } from "@/broker";
 
 
 
@@ -23,37 +22,24 @@ const queueActivityMap: Map<string, {
 }> = new Map();
 
 export const getQueueStatus = async (queueName: string, configId: string): Promise<QueueStatusResult | null> => {
-	const host = process.env.RABBITMQ_HOST;
-	const username = process.env.RABBITMQ_USER;
-	const password = process.env.RABBITMQ_PASS;
-	const vhost = encodeURIComponent(process.env.RABBITMQ_VHOST || "/");
-
-	if (!host || !username || !password) return null;
-
-	const url = `${host}/api/queues/${vhost}/${queueName}`;
-
+	const broker = getBroker();
 	const dlqName = getQueueNames(configId).failed;
-	const dlqUrl = `${host}/api/queues/${vhost}/${dlqName}`;
 
 	try {
-		const { data } = await axios.get(url, {
-			auth: { username, password },
-		});
+		const {
+			messages,
+			messagesReady: messages_ready,
+			messagesUnacknowledged: messages_unacknowledged,
+		} = await broker.getQueueStats(queueName);
 
 		let dlqMessages = 0;
 
 		try {
-			const { data: dlqData } = await axios.get(dlqUrl, {
-				auth: { username, password },
-			});
-			dlqMessages = dlqData.messages || 0;
+			dlqMessages = (await broker.getQueueStats(dlqName)).messages;
 		} catch (dlqError: any) {
 			logger.warn(`No DLQ found for queue "${queueName}"`);
 		}
 
-
-		const { messages, messages_ready, messages_unacknowledged } = data;
-
 		let status: DataServiceRunStatus = DataServiceRunStatus.UNKNOWN;
 
 		const now = new Date();
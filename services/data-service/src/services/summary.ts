@@ -51,8 +51,11 @@ export async function updateSummaryFile({
 		`./${summaryPath}/${configId}/${type === "download" ? downloadFilename : uploadFilename}.json`,
 		{ type: "application/json" },
 	);
-	const summary = await file.json();
-	await file.write(
+	const summary = (await file.exists())
+		? await file.json()
+		: { summaries: [] };
+	await Bun.write(
+		file,
 		JSON.stringify({
 			...summary,
 			summaries: [
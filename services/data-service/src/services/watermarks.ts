@@ -0,0 +1,131 @@
+import { Database } from "bun:sqlite";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import logger from "@/logging";
+import { isEmpty, mapValues } from "lodash";
+
+const watermarksPath = `runs`;
+const databaseFile = path.join(watermarksPath, "watermarks.sqlite");
+
+let database: Database | null = null;
+
+/*
+ * A watermark is staged when a download run is queued and only committed once that run completes without errors,
+ * so values of a failed run are pulled again by the next incremental run.
+ * Watermarks are kept per period, a period that was not part of the last successful run has no watermark and is fully migrated.
+ * */
+function getDatabase(): Database {
+	if (database) {
+		return database;
+	}
+	fs.mkdirSync(watermarksPath, { recursive: true });
+	database = new Database(databaseFile, { create: true });
+	database.exec("PRAGMA journal_mode = WAL;");
+	database.exec("PRAGMA busy_timeout = 5000;");
+	migrateDatabase(database);
+	database.exec(`
+		CREATE TABLE IF NOT EXISTS watermarks (
+			config_id TEXT NOT NULL,
+			data_items_config_id TEXT NOT NULL,
+			period_id TEXT NOT NULL,
+			last_updated TEXT NOT NULL,
+			run_id TEXT NOT NULL,
+			committed_at TEXT NOT NULL,
+			PRIMARY KEY (config_id, data_items_config_id, period_id)
+		);
+		CREATE TABLE IF NOT EXISTS staged_watermarks (
+			run_id TEXT NOT NULL,
+			config_id TEXT NOT NULL,
+			data_items_config_id TEXT NOT NULL,
+			period_id TEXT NOT NULL,
+			last_updated TEXT NOT NULL,
+			PRIMARY KEY (run_id, data_items_config_id, period_id)
+		);
+	`);
+	return database;
+}
+
+/*
+ * Drops the watermarks kept per data items configuration only, their periods are unknown so the next runs are full migrations
+ * */
+function migrateDatabase(db: Database) {
+	const columns = db
+		.query<{ name: string }, []>(`PRAGMA table_info(watermarks)`)
+		.all()
+		.map(({ name }) => name);
+	if (!isEmpty(columns) && !columns.includes("period_id")) {
+		db.exec(`
+			DROP TABLE watermarks;
+			DROP TABLE IF EXISTS staged_watermarks;
+		`);
+	}
+}
+
+/**
+ * Returns the committed watermark of each period of the given data items configurations
+ */
+export function getWatermarks(
+	configId: string,
+	periods: Record<string, string[]>,
+): Record<string, Record<string, string | undefined>> {
+	const query = getDatabase().query<
+		{ last_updated: string },
+		[string, string, string]
+	>(
+		`SELECT last_updated FROM watermarks WHERE config_id = ? AND data_items_config_id = ? AND period_id = ?`,
+	);
+	return mapValues(periods, (periodIds, dataItemsConfigId) =>
+		Object.fromEntries(
+			periodIds.map((periodId) => [
+				periodId,
+				query.get(configId, dataItemsConfigId, periodId)?.last_updated,
+			]),
+		),
+	);
+}
+
+export function stageWatermarks(
+	runId: string,
+	configId: string,
+	periods: Record<string, string[]>,
+	lastUpdated: string,
+) {
+	const query = getDatabase().query(
+		`INSERT OR REPLACE INTO staged_watermarks (run_id, config_id, data_items_config_id, period_id, last_updated) VALUES (?, ?, ?, ?, ?)`,
+	);
+	for (const [dataItemsConfigId, periodIds] of Object.entries(periods)) {
+		for (const periodId of periodIds) {
+			query.run(
+				runId,
+				configId,
+				dataItemsConfigId,
+				periodId,
+				lastUpdated,
+			);
+		}
+	}
+}
+
+export function commitWatermarks(runId: string) {
+	const db = getDatabase();
+	const { changes } = db
+		.query(
+			`INSERT INTO watermarks (config_id, data_items_config_id, period_id, last_updated, run_id, committed_at)
+			SELECT config_id, data_items_config_id, period_id, last_updated, run_id, ? FROM staged_watermarks WHERE run_id = ?
+			ON CONFLICT (config_id, data_items_config_id, period_id) DO UPDATE SET
+				last_updated = excluded.last_updated,
+				run_id = excluded.run_id,
+				committed_at = excluded.committed_at`,
+		)
+		.run(new Date().toISOString(), runId);
+	discardWatermarks(runId);
+	if (changes > 0) {
+		logger.info(`Committed ${changes} watermark(s) of run ${runId}`);
+	}
+}
+
+export function discardWatermarks(runId: string) {
+	getDatabase()
+		.query(`DELETE FROM staged_watermarks WHERE run_id = ?`)
+		.run(runId);
+}
@@ -5,10 +5,12 @@ import { fetchItemsInParallel } from "./parallel-fetch";
 import { DatastoreNamespaces } from "@packages/shared/constants";
 import { uniq, compact } from "lodash";
 import { ProcessedMetadata } from "@/services/metadata-migration/metadata-download";
+import { DataServiceDataItemTransform } from "@packages/shared/schemas";
 
 export interface DataItemMapping {
     id: string;
     sourceId: string;
+    transform?: DataServiceDataItemTransform;
 }
 
 export interface DataItemMappings {
@@ -0,0 +1,34 @@
+import { describe, expect, test } from "bun:test";
+import { transformValue } from "@/utils/data-item-transform";
+
+describe("transformValue", () => {
+	test("keeps the value without a transform", () => {
+		expect(transformValue("12.5")).toBe("12.5");
+	});
+
+	test("keeps empty and non numeric values", () => {
+		expect(transformValue("", { scaleFactor: 2 })).toBe("");
+		expect(transformValue("true", { scaleFactor: 2 })).toBe("true");
+	});
+
+	test("suppresses values below the minimum", () => {
+		expect(transformValue("4", { minimumValue: 5 })).toBeNull();
+		expect(transformValue("5", { minimumValue: 5 })).toBe("5");
+	});
+
+	test("scales, converts and rounds the value in that order", () => {
+		expect(
+			transformValue("10", {
+				scaleFactor: 0.5,
+				unitConversion: { factor: 1.8, offset: 32 },
+				decimals: 1,
+			}),
+		).toBe("41");
+		expect(
+			transformValue("1", {
+				scaleFactor: 1 / 3,
+				decimals: 2,
+			}),
+		).toBe("0.33");
+	});
+});
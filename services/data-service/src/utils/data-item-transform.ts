@@ -0,0 +1,41 @@
+import { DataServiceDataItemTransform } from "@packages/shared/schemas";
+import { isNil, round } from "lodash";
+
+/**
+ * Applies the value transformations of a data item mapping to a single value.
+ * Returns `null` when the value is suppressed. Non numeric values are returned unchanged.
+ */
+export function transformValue(
+	value: string,
+	transform?: DataServiceDataItemTransform,
+): string | null {
+	if (!transform || value === undefined || value === null || value === "") {
+		return value;
+	}
+	const numericValue = Number(value);
+	if (!Number.isFinite(numericValue)) {
+		return value;
+	}
+
+	if (
+		!isNil(transform.minimumValue) &&
+		numericValue < transform.minimumValue
+	) {
+		return null;
+	}
+
+	let transformedValue = numericValue;
+	if (!isNil(transform.scaleFactor)) {
+		transformedValue = transformedValue * transform.scaleFactor;
+	}
+	if (transform.unitConversion) {
+		transformedValue =
+			transformedValue * transform.unitConversion.factor +
+			(transform.unitConversion.offset ?? 0);
+	}
+	if (!isNil(transform.decimals)) {
+		transformedValue = round(transformedValue, transform.decimals);
+	}
+
+	return transformedValue.toString();
+}
@@ -5,26 +5,33 @@ import {
 	DataServiceConfig,
 	DataServiceDataItemConfig,
 	DataServiceDataSourceItemsConfig,
+	DataServiceOrgUnitMapping,
 } from "@packages/shared/schemas";
+import { transformValue } from "./data-item-transform";
+import { applyOrgUnitMappings } from "./org-unit-mapping";
 import { v4 } from "uuid";
 import { Dimensions } from "@/schemas/metadata";
-import { isEmpty, isEqual, uniqWith } from "lodash";
+import { isEmpty, isEqual, maxBy, minBy, uniq, uniqWith } from "lodash";
 import { categoriesMeta } from "@/variables/meta";
 import * as fs from "node:fs";
 import * as path from "node:path";
 import { seq } from "async";
+import { createFixedPeriodFromPeriodId } from "@dhis2/multi-calendar-dates";
+import "react"; //For the multi-calendar-dates package
 
 export interface DataResponse {
 	dataValues: Array<{
 		comment: string;
 		created: string;
 		categoryOptionCombo?: string;
+		attributeOptionCombo?: string;
 		dataElement: string;
 		lastUpdated: string;
 		orgUnit: string;
 		period: string;
 		storedBy: string;
 		value: string;
+		deleted?: boolean;
 	}>;
 }
 
@@ -97,7 +104,131 @@ export async function fetchPagedData({
 	}
 }
 
-type Mapping = { id: string; sourceId: string };
+export interface UpdatedDataItems {
+	/*
+	 * Data items with values added, changed or deleted since the watermark, and the data items whose updates can not be detected
+	 * */
+	updated: string[];
+	/*
+	 * Data items with values deleted since the watermark
+	 * */
+	deleted: string[];
+}
+
+/*
+ * Returns the data items of the dimensions with values updated on the source since `lastUpdated`.
+ * Analytics does not expose when values changed, so they are looked up in the raw data values of the same org units and periods.
+ * Raw data values only exist for data elements, indicators, program indicators and other data items are always considered updated.
+ * */
+export async function fetchUpdatedDataItems({
+	dimensions,
+	client,
+	lastUpdated,
+	timeout,
+}: {
+	dimensions: Dimensions;
+	client: AxiosInstance;
+	lastUpdated: string;
+	timeout?: number;
+}): Promise<UpdatedDataItems> {
+	const dataItems = dimensions.dx ?? [];
+	const periods = (dimensions.pe ?? []).map((periodId) =>
+		createFixedPeriodFromPeriodId({ periodId, calendar: "iso8601" }),
+	);
+	const orgUnits = (dimensions.ou ?? []).filter(
+		(orgUnit) => !orgUnit.startsWith("LEVEL-"),
+	);
+	if (isEmpty(dataItems) || isEmpty(periods) || isEmpty(orgUnits)) {
+		return { updated: dataItems, deleted: [] };
+	}
+
+	try {
+		const dataElements = await fetchDataElementIds({
+			ids: uniq(dataItems.map((dataItem) => dataItem.split(".")[0])),
+			client,
+			timeout,
+		});
+		if (isEmpty(dataElements)) {
+			return { updated: dataItems, deleted: [] };
+		}
+		const isDataElement = (dataItem: string) =>
+			dataElements.includes(dataItem.split(".")[0]);
+
+		const params = new URLSearchParams({
+			startDate: minBy(periods, "startDate")!.startDate,
+			endDate: maxBy(periods, "endDate")!.endDate,
+			lastUpdated,
+			children: "true",
+			includeDeleted: "true",
+		});
+		dataElements.forEach((dataElement) =>
+			params.append("dataElement", dataElement),
+		);
+		orgUnits.forEach((orgUnit) => params.append("orgUnit", orgUnit));
+
+		const response = await client.get<Partial<DataResponse>>(
+			`dataValueSets.json?${params.toString()}`,
+			{
+				timeout,
+				timeoutErrorMessage: `Updated data fetch timed out after ${timeout}ms for data items: ${dataItems.join(",")}`,
+			},
+		);
+		const updated = new Set<string>();
+		const deleted = new Set<string>();
+		for (const value of response.data.dataValues ?? []) {
+			const keys = [
+				value.dataElement,
+				`${value.dataElement}.${value.categoryOptionCombo}`,
+			];
+			keys.forEach((key) => updated.add(key));
+			if (value.deleted) {
+				keys.forEach((key) => deleted.add(key));
+			}
+		}
+		return {
+			updated: dataItems.filter(
+				(dataItem) => !isDataElement(dataItem) || updated.has(dataItem),
+			),
+			deleted: dataItems.filter((dataItem) => deleted.has(dataItem)),
+		};
+	} catch (e) {
+		if (e instanceof AxiosError) {
+			logger.error(`Axios Error fetching updated data: ${e.message}`);
+			logger.error(
+				`Axios Status code: ${e.response?.status} - ${e.response?.data?.message}`,
+			);
+		}
+		throw e;
+	}
+}
+
+/*
+ * Returns which of the given ids are data elements on the server
+ * */
+async function fetchDataElementIds({
+	ids,
+	client,
+	timeout,
+}: {
+	ids: string[];
+	client: AxiosInstance;
+	timeout?: number;
+}): Promise<string[]> {
+	const response = await client.get<{ dataElements?: Array<{ id: string }> }>(
+		`dataElements.json`,
+		{
+			params: {
+				filter: `id:in:[${ids.join(",")}]`,
+				fields: "id",
+				paging: false,
+			},
+			timeout,
+		},
+	);
+	return (response.data.dataElements ?? []).map(({ id }) => id);
+}
+
+type Mapping = DataServiceDataItemConfig;
 type Expanded = { combo: string; id: string; name: string };
 
 
@@ -189,13 +320,13 @@ export async function processDataItems({
 	try {
 		const results: Mapping[] = [];
 
-		for (const { id, sourceId } of mappings) {
+		for (const { id, sourceId, transform } of mappings) {
 			const idExpanded = id.includes(".");
 			const sourceExpanded = sourceId.includes(".");
 
 			// Case 1: both already expanded -> keep as-is
 			if (idExpanded && sourceExpanded) {
-				results.push({ id, sourceId });
+				results.push({ id, sourceId, transform });
 				continue;
 			}
 
@@ -203,26 +334,47 @@ export async function processDataItems({
 			// Case 2: expand whichever is not expanded
 			const idCombos = await expandDataElement(destinationClient, id, timeout);
 			const sourceCombos = await expandDataElement(sourceClient, sourceId, timeout);
+			const remappedCombos = transform?.categoryOptionCombos ?? [];
+			// Source combos that are explicitly remapped are not matched implicitly
+			const unmappedSourceCombos = sourceCombos.filter(
+				(s) => !remappedCombos.some(({ sourceId }) => sourceId === s.id),
+			);
 
 			for (const idCoc of idCombos) {
-				// Priority 1: match by ID
-				const matchById = sourceCombos.find((s) => s.id === idCoc.id);
+				// Priority 1: explicit category option combo remapping
+				const remappedCombo = remappedCombos.find(({ id }) => id === idCoc.id);
+				const matchByRemap =
+					remappedCombo &&
+					sourceCombos.find((s) => s.id === remappedCombo.sourceId);
+				if (matchByRemap) {
+					results.push({
+						id: idCoc.combo,
+						sourceId: matchByRemap.combo,
+						transform,
+					});
+					continue;
+				}
+
+				// Priority 2: match by ID
+				const matchById = unmappedSourceCombos.find((s) => s.id === idCoc.id);
 				if (matchById) {
 					results.push({
 						id: idCoc.combo,
 						sourceId: matchById.combo,
+						transform,
 					});
 					continue; // skip name check
 				}
 
-				// Priority 2: match by name
-				const matchByName = sourceCombos.find(
+				// Priority 3: match by name
+				const matchByName = unmappedSourceCombos.find(
 					(s) => s.name && s.name === idCoc.name,
 				);
 				if (matchByName) {
 					results.push({
 						id: idCoc.combo,
 						sourceId: matchByName.combo,
+						transform,
 					});
 				}
 			}
@@ -250,20 +402,62 @@ export async function processDataItems({
 }
 
 
+export interface ProcessedData<T> {
+	dataValues: T[];
+	/*
+	 * Number of values per source organisation unit that were dropped because the organisation unit is not mapped
+	 * */
+	unmappedOrgUnits: Record<string, number>;
+}
+
+/*
+ * Returns the data item mapping of a value, matching either its data element or its data element and category option combo
+ * */
+function findDataItemConfig(
+	dataItems: Array<DataServiceDataItemConfig>,
+	value: Pick<
+		DataResponse["dataValues"][number],
+		"dataElement" | "categoryOptionCombo"
+	>,
+): DataServiceDataItemConfig | undefined {
+	return dataItems.find(({ sourceId }) => {
+		if (sourceId === value.dataElement) return true;
+
+		if (sourceId.includes(".")) {
+			const [de, coc] = sourceId.split(".");
+			return de === value.dataElement && coc === value.categoryOptionCombo;
+		}
+
+		return false;
+	});
+}
+
+function logDroppedValues(droppedValues: number) {
+	if (droppedValues > 0) {
+		logger.info(
+			`${droppedValues} data values below their minimum value were dropped`,
+		);
+	}
+}
+
 /*
  * Processes data into values that include attributeOptionCombo
  *
- *
+ * Values fetched from the destination are already transformed, `applyTransforms` is only set for values downloaded from the source
  * */
 export async function processAttributeComboData({
 	data,
 	dataItemsConfig,
 	categoryOptionId,
+	orgUnitMappings,
+	applyTransforms,
 }: {
 	data: DataResponse;
 	dataItemsConfig: DataServiceAttributeValuesDataItemsSource;
 	categoryOptionId: string;
-}): Promise<DataResponse> {
+	orgUnitMappings?: DataServiceOrgUnitMapping[];
+	applyTransforms?: boolean;
+}): Promise<ProcessedData<DataResponse["dataValues"][number]>> {
 	const categoryMeta = categoriesMeta[dataItemsConfig.attributeId];
 
 	const categoryOptionConfig = categoryMeta.categoryOptions.find(
@@ -275,59 +469,77 @@ export async function processAttributeComboData({
 			`Category option ${categoryOptionId} not found or is not a part of the category ${categoryMeta.id}`,
 		);
 	}
-	const dataValues = data.dataValues
-		.map((value) => {
-			return categoryOptionConfig.categoryOptionCombos.map(
-				(categoryOptionCombo) => {
-					return {
-						...value,
-						attributeOptionCombo: categoryOptionCombo.id,
-					};
-				},
-			);
-		})
-		.flat();
+	let droppedValues = 0;
+	const dataValues = data.dataValues.flatMap((value) => {
+		const transformedValue = applyTransforms
+			? transformValue(
+					value.value,
+					findDataItemConfig(dataItemsConfig.dataItems, value)?.transform,
+				)
+			: value.value;
+		if (transformedValue === null) {
+			droppedValues++;
+			return [];
+		}
+		return categoryOptionConfig.categoryOptionCombos.map(
+			(categoryOptionCombo) => {
+				return {
+					...value,
+					value: transformedValue,
+					attributeOptionCombo: categoryOptionCombo.id,
+				};
+			},
+		);
+	});
 
-	return {
-		dataValues,
-	};
+	logDroppedValues(droppedValues);
+
+	return applyOrgUnitMappings({ dataValues, orgUnitMappings });
 }
 
-export async function processData({
+export async function processData<
+	T extends Pick<
+		DataResponse["dataValues"][number],
+		"dataElement" | "categoryOptionCombo" | "orgUnit" | "value"
+	>,
+>({
 	data,
 	dataItems,
+	orgUnitMappings,
 }: {
-	data: DataResponse;
+	data: { dataValues: T[] };
 	dataItems: Array<DataServiceDataItemConfig>;
-}) {
-	return {
-		dataValues: data.dataValues.map((value) => {
-			const config = dataItems.find(({ sourceId }) => {
-				if (sourceId === value.dataElement) return true;
-
-				if (sourceId.includes(".")) {
-					const [de, coc] = sourceId.split(".");
-					return de === value.dataElement && coc === value.categoryOptionCombo;
-				}
+	orgUnitMappings?: DataServiceOrgUnitMapping[];
+}): Promise<ProcessedData<T>> {
+	let droppedValues = 0;
+	const dataValues = data.dataValues.flatMap((value) => {
+		const config = findDataItemConfig(dataItems, value);
+
+		let newValue = { ...value };
+
+		if (config) {
+			if (config.id.includes(".")) {
+				const [newDe, newCoc] = config.id.split(".");
+				newValue.dataElement = newDe;
+				newValue.categoryOptionCombo = newCoc;
+			} else {
+				newValue.dataElement = config.id;
+			}
 
-				return false;
-			});
+			const transformedValue = transformValue(value.value, config.transform);
+			if (transformedValue === null) {
+				droppedValues++;
+				return [];
+			}
+			newValue.value = transformedValue;
+		}
 
-			let newValue = { ...value };
+		return [newValue];
+	});
 
-			if (config) {
-				if (config.id.includes(".")) {
-					const [newDe, newCoc] = config.id.split(".");
-					newValue.dataElement = newDe;
-					newValue.categoryOptionCombo = newCoc;
-				} else {
-					newValue.dataElement = config.id;
-				}
-			}
+	logDroppedValues(droppedValues);
 
-			return newValue;
-		}),
-	};
+	return applyOrgUnitMappings({ dataValues, orgUnitMappings });
 }
 
 export async function saveDataFile({
@@ -24,6 +24,11 @@ export function getDimensions({
 	periodId: string;
 }): Dimensions {
 	try {
+		if (config.type === "FILE_VALUES") {
+			throw new Error(
+				`Configuration ${config.id} holds uploaded file data and can not be downloaded`,
+			);
+		}
 		const periodType = config.periodTypeId as PeriodType;
 		const orgUnitLevel =
 			runtimeConfig.overrides?.orgUnitLevelId ?? config.orgUnitLevel;
@@ -0,0 +1,72 @@
+import { describe, expect, test } from "bun:test";
+import { DataServiceFileFormat } from "@packages/shared/schemas";
+import { parseFileDataValues } from "@/utils/file-data";
+
+const columnMapping = {
+	dataElement: "de",
+	period: "pe",
+	orgUnit: "ou",
+	value: "value",
+};
+
+function parseJson(json: unknown) {
+	return parseFileDataValues({
+		content: JSON.stringify(json),
+		format: DataServiceFileFormat.JSON,
+		columnMapping,
+		periodTypeId: "MONTHLY",
+	});
+}
+
+describe("parseFileDataValues", () => {
+	test("parses the mapped columns of a CSV file", () => {
+		expect(
+			parseFileDataValues({
+				content:
+					'de,pe,ou,value\nde1,202401,ou1,"1,5"\nde1,2024,ou1,2\n',
+				format: DataServiceFileFormat.CSV,
+				columnMapping,
+				periodTypeId: "MONTHLY",
+			}),
+		).toEqual({
+			dataValues: [
+				{
+					dataElement: "de1",
+					period: "202401",
+					orgUnit: "ou1",
+					value: "1,5",
+					categoryOptionCombo: undefined,
+					attributeOptionCombo: undefined,
+				},
+			],
+			errors: [
+				{ row: 3, message: "Period 2024 is not a MONTHLY period" },
+			],
+		});
+	});
+
+	test("reports the JSON data values that are not objects", () => {
+		const dataValue = { de: "de1", pe: "202401", ou: "ou1", value: 4 };
+		for (const json of [
+			[null, dataValue, "de1"],
+			{ dataValues: [null, dataValue, "de1"] },
+		]) {
+			const { dataValues, errors } = parseJson(json);
+			expect(dataValues).toHaveLength(1);
+			expect(errors).toEqual([
+				{ row: 0, message: "Data value must be an object" },
+				{ row: 2, message: "Data value must be an object" },
+			]);
+		}
+	});
+
+	test("reports JSON files without data values", () => {
+		expect(parseJson({ values: [] }).errors).toEqual([
+			{
+				row: 0,
+				message:
+					"Could not parse JSON file: JSON files must contain an array of data values or an object with a dataValues array",
+			},
+		]);
+	});
+});
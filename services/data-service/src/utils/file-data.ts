@@ -0,0 +1,212 @@
+import {
+	DataServiceFileColumnMapping,
+	DataServiceFileFormat,
+} from "@packages/shared/schemas";
+import { createFixedPeriodFromPeriodId } from "@dhis2/multi-calendar-dates";
+import "react"; //For the multi-calendar-dates package
+import { isEmpty, isPlainObject } from "lodash";
+
+export interface FileDataValue {
+	dataElement: string;
+	period: string;
+	orgUnit: string;
+	value: string;
+	categoryOptionCombo?: string;
+	attributeOptionCombo?: string;
+}
+
+export interface FileDataError {
+	/*
+	 * 1-based row of the CSV file, including the header row, or index of the JSON data value
+	 * */
+	row: number;
+	message: string;
+}
+
+/**
+ * Parses RFC 4180 CSV content, supporting quoted fields with commas, quotes and line breaks
+ */
+export function parseCsv(content: string): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let field = "";
+	let quoted = false;
+
+	for (let index = 0; index < content.length; index++) {
+		const char = content[index];
+		if (quoted) {
+			if (char === '"' && content[index + 1] === '"') {
+				field += '"';
+				index++;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				field += char;
+			}
+			continue;
+		}
+		if (char === '"') {
+			quoted = true;
+		} else if (char === ",") {
+			row.push(field);
+			field = "";
+		} else if (char === "\n" || char === "\r") {
+			if (char === "\r" && content[index + 1] === "\n") {
+				index++;
+			}
+			row.push(field);
+			rows.push(row);
+			row = [];
+			field = "";
+		} else {
+			field += char;
+		}
+	}
+	if (field !== "" || row.length > 0) {
+		row.push(field);
+		rows.push(row);
+	}
+
+	return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+}
+
+function getCsvRecords(content: string): Record<string, string>[] {
+	const [header, ...rows] = parseCsv(content.replace(/^\uFEFF/, ""));
+	if (!header) {
+		return [];
+	}
+	const columns = header.map((column) => column.trim());
+	return rows.map((cells) =>
+		Object.fromEntries(
+			columns.map((column, index) => [column, cells[index]?.trim() ?? ""]),
+		),
+	);
+}
+
+/*
+ * Entries are returned as they are, the ones that are not objects are reported per row
+ * */
+function getJsonRecords(content: string): unknown[] {
+	const json = JSON.parse(content);
+	const records = Array.isArray(json) ? json : json?.dataValues;
+	if (!Array.isArray(records)) {
+		throw new Error(
+			"JSON files must contain an array of data values or an object with a dataValues array",
+		);
+	}
+	return records;
+}
+
+function getField(record: Record<string, unknown>, column?: string) {
+	if (!column) {
+		return undefined;
+	}
+	const value = record[column];
+	if (value === undefined || value === null) {
+		return undefined;
+	}
+	return String(value).trim() || undefined;
+}
+
+function validatePeriod(periodId: string, periodTypeId: string) {
+	let periodType: string;
+	try {
+		periodType = createFixedPeriodFromPeriodId({
+			periodId,
+			calendar: "iso8601",
+		}).periodType;
+	} catch (error) {
+		return `Invalid period ${periodId}`;
+	}
+	if (periodType !== periodTypeId) {
+		return `Period ${periodId} is not a ${periodTypeId} period`;
+	}
+}
+
+/**
+ * Parses an uploaded CSV or JSON file into data values using the column mapping of its data items configuration.
+ * Rows with missing fields or with periods of another period type are reported as errors.
+ */
+export function parseFileDataValues({
+	content,
+	format,
+	columnMapping,
+	periodTypeId,
+}: {
+	content: string;
+	format: DataServiceFileFormat;
+	columnMapping: DataServiceFileColumnMapping;
+	periodTypeId: string;
+}): { dataValues: FileDataValue[]; errors: FileDataError[] } {
+	let records: unknown[];
+	try {
+		records =
+			format === DataServiceFileFormat.CSV
+				? getCsvRecords(content)
+				: getJsonRecords(content);
+	} catch (error) {
+		return {
+			dataValues: [],
+			errors: [
+				{
+					row: 0,
+					message: `Could not parse ${format} file: ${(error as Error).message}`,
+				},
+			],
+		};
+	}
+
+	if (isEmpty(records)) {
+		return {
+			dataValues: [],
+			errors: [{ row: 0, message: "The file has no data values" }],
+		};
+	}
+
+	const dataValues: FileDataValue[] = [];
+	const errors: FileDataError[] = [];
+	records.forEach((entry, index) => {
+		// CSV rows are counted from the header row, like in a spreadsheet
+		const row = format === DataServiceFileFormat.CSV ? index + 2 : index;
+		if (!isPlainObject(entry)) {
+			errors.push({ row, message: "Data value must be an object" });
+			return;
+		}
+		const record = entry as Record<string, unknown>;
+		const dataValue = {
+			dataElement: getField(record, columnMapping.dataElement),
+			period: getField(record, columnMapping.period),
+			orgUnit: getField(record, columnMapping.orgUnit),
+			value: getField(record, columnMapping.value),
+			categoryOptionCombo: getField(
+				record,
+				columnMapping.categoryOptionCombo,
+			),
+			attributeOptionCombo: getField(
+				record,
+				columnMapping.attributeOptionCombo,
+			),
+		};
+
+		const missingFields = (
+			["dataElement", "period", "orgUnit", "value"] as const
+		).filter((field) => !dataValue[field]);
+		if (!isEmpty(missingFields)) {
+			errors.push({
+				row,
+				message: `Missing ${missingFields
+					.map((field) => `${field} (${columnMapping[field]})`)
+					.join(", ")}`,
+			});
+			return;
+		}
+		const periodError = validatePeriod(dataValue.period!, periodTypeId);
+		if (periodError) {
+			errors.push({ row, message: periodError });
+			return;
+		}
+		dataValues.push(dataValue as FileDataValue);
+	});
+
+	return { dataValues, errors };
+}
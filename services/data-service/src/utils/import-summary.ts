@@ -0,0 +1,105 @@
+import {
+	DataServiceImportConflict,
+	DataServiceImportSummary,
+} from "@packages/shared/schemas";
+
+/*
+ * A single upload can report thousands of conflicts, only the first ones are kept in the run history
+ * */
+const MAX_STORED_CONFLICTS = 100;
+
+function buildImportSummary({
+	stage,
+	reference,
+	status,
+	counts,
+	conflicts,
+}: {
+	stage: string;
+	reference?: string;
+	status?: string;
+	counts: Partial<
+		Pick<
+			DataServiceImportSummary,
+			"imported" | "updated" | "ignored" | "deleted"
+		>
+	>;
+	conflicts: DataServiceImportConflict[];
+}): DataServiceImportSummary {
+	return {
+		stage,
+		reference,
+		status: status ?? "UNKNOWN",
+		imported: counts.imported ?? 0,
+		updated: counts.updated ?? 0,
+		ignored: counts.ignored ?? 0,
+		deleted: counts.deleted ?? 0,
+		conflicts: conflicts.slice(0, MAX_STORED_CONFLICTS),
+		totalConflicts: conflicts.length,
+		timestamp: new Date().toISOString(),
+	};
+}
+
+/**
+ * Converts the import summary of a `dataValueSets` import
+ */
+export function getDataImportSummary({
+	stage,
+	reference,
+	response,
+}: {
+	stage: string;
+	reference?: string;
+	response: any;
+}): DataServiceImportSummary {
+	const importSummary = response?.response ?? response;
+	return buildImportSummary({
+		stage,
+		reference,
+		status: importSummary?.status,
+		counts: importSummary?.importCount ?? {},
+		conflicts: (importSummary?.conflicts ?? []).map((conflict: any) => ({
+			object: conflict.object,
+			value: conflict.value,
+			errorCode: conflict.errorCode,
+		})),
+	});
+}
+
+/**
+ * Converts the import report of a `metadata` import
+ */
+export function getMetadataImportSummary({
+	stage,
+	reference,
+	response,
+}: {
+	stage: string;
+	reference?: string;
+	response: any;
+}): DataServiceImportSummary {
+	const importReport = response?.response ?? response;
+	const conflicts: DataServiceImportConflict[] = (
+		importReport?.typeReports ?? []
+	).flatMap((typeReport: any) =>
+		(typeReport.objectReports ?? []).flatMap((objectReport: any) =>
+			(objectReport.errorReports ?? []).map((errorReport: any) => ({
+				object: objectReport.uid ?? typeReport.klass,
+				value: errorReport.message,
+				errorCode: errorReport.errorCode,
+			})),
+		),
+	);
+	return buildImportSummary({
+		stage,
+		reference,
+		status: importReport?.status,
+		counts: {
+			imported: importReport?.stats?.created,
+			updated: importReport?.stats?.updated,
+			ignored: importReport?.stats?.ignored,
+			deleted: importReport?.stats?.deleted,
+		},
+		conflicts,
+	});
+}
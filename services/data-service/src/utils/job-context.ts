@@ -0,0 +1,47 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { v4 } from "uuid";
+
+export const CORRELATION_ID_HEADER = "x-correlation-id";
+
+/*
+ * Queue message processed by the worker, or jobs being queued, available to everything called from there and added to
+ * the log entries
+ * */
+export interface JobContext {
+	configId: string;
+	queueType?: string;
+	runId?: string;
+	/*
+	 * Shared by the messages queued from one download, from the download request to the last upload
+	 * */
+	correlationId?: string;
+	messageId?: string;
+}
+
+const storage = new AsyncLocalStorage<JobContext>();
+
+export function runInJobContext<T>(context: JobContext, callback: () => T): T {
+	return storage.run(context, callback);
+}
+
+export function getJobContext(): JobContext | undefined {
+	return storage.getStore();
+}
+
+/**
+ * Runs the queueing of the jobs of a config with the correlation id of the current job, or a new one
+ */
+export function runWithCorrelationId<T>(
+	configId: string,
+	callback: () => T,
+): T {
+	const context = getJobContext();
+	return runInJobContext(
+		{
+			...context,
+			configId,
+			correlationId: context?.correlationId ?? v4(),
+		},
+		callback,
+	);
+}
@@ -0,0 +1,187 @@
+import {
+	DataServiceOrgUnitMapping,
+	DataServiceOrgUnitMatchType,
+} from "@packages/shared/schemas";
+import { AxiosInstance } from "axios";
+import { groupBy, isEmpty } from "lodash";
+import logger from "@/logging";
+
+export interface OrgUnit {
+	id: string;
+	name: string;
+	code?: string;
+	level: number;
+}
+
+export interface OrgUnitMappingSuggestions {
+	mappings: DataServiceOrgUnitMapping[];
+	/*
+	 * Organisation units of the source without a match on the destination
+	 * */
+	unmatched: OrgUnit[];
+}
+
+function normalize(value?: string) {
+	return value?.trim().toLowerCase().replace(/\s+/g, " ") ?? "";
+}
+
+async function fetchOrgUnits(
+	client: AxiosInstance,
+	level?: number,
+): Promise<OrgUnit[]> {
+	const params = new URLSearchParams({
+		fields: "id,name,code,level",
+		paging: "false",
+	});
+	if (level) {
+		params.set("filter", `level:eq:${level}`);
+	}
+	const { data } = await client.get<{ organisationUnits: OrgUnit[] }>(
+		`organisationUnits.json?${params.toString()}`,
+	);
+	return data.organisationUnits ?? [];
+}
+
+/*
+ * Codes and names are only used for a match when they identify a single organisation unit of the destination
+ * */
+function getUniqueIndex(
+	orgUnits: OrgUnit[],
+	getKey: (orgUnit: OrgUnit) => string | undefined,
+) {
+	const index = new Map<string, OrgUnit>();
+	const groups = groupBy(
+		orgUnits.filter((orgUnit) => !isEmpty(getKey(orgUnit))),
+		getKey,
+	);
+	for (const [key, group] of Object.entries(groups)) {
+		if (group.length === 1) {
+			index.set(key, group[0]);
+		}
+	}
+	return index;
+}
+
+/**
+ * Matches organisation units of the source hierarchy to the destination hierarchy by ID, then by code, then by name
+ * and level.
+ */
+export function matchOrgUnits({
+	sourceOrgUnits,
+	destinationOrgUnits,
+}: {
+	sourceOrgUnits: OrgUnit[];
+	destinationOrgUnits: OrgUnit[];
+}): OrgUnitMappingSuggestions {
+	const byId = new Map(
+		destinationOrgUnits.map((orgUnit) => [orgUnit.id, orgUnit]),
+	);
+	const byCode = getUniqueIndex(destinationOrgUnits, ({ code }) =>
+		normalize(code),
+	);
+	const byNameAndLevel = getUniqueIndex(
+		destinationOrgUnits,
+		({ name, level }) => `${normalize(name)}|${level}`,
+	);
+
+	const mappings: DataServiceOrgUnitMapping[] = [];
+	const unmatched: OrgUnit[] = [];
+	for (const orgUnit of sourceOrgUnits) {
+		const matches: Array<[DataServiceOrgUnitMatchType, OrgUnit?]> = [
+			[DataServiceOrgUnitMatchType.ID, byId.get(orgUnit.id)],
+			[
+				DataServiceOrgUnitMatchType.CODE,
+				orgUnit.code ? byCode.get(normalize(orgUnit.code)) : undefined,
+			],
+			[
+				DataServiceOrgUnitMatchType.NAME,
+				byNameAndLevel.get(
+					`${normalize(orgUnit.name)}|${orgUnit.level}`,
+				),
+			],
+		];
+		const [matchType, destinationOrgUnit] =
+			matches.find(([, match]) => !!match) ?? [];
+		if (!destinationOrgUnit) {
+			unmatched.push(orgUnit);
+			continue;
+		}
+		mappings.push({
+			sourceId: orgUnit.id,
+			id: destinationOrgUnit.id,
+			matchType,
+			sourceName: orgUnit.name,
+		});
+	}
+
+	return { mappings, unmatched };
+}
+
+/**
+ * Suggests an organisation unit mapping by comparing the hierarchies of the source and the destination
+ */
+export async function suggestOrgUnitMappings({
+	sourceClient,
+	destinationClient,
+	level,
+}: {
+	sourceClient: AxiosInstance;
+	destinationClient: AxiosInstance;
+	level?: number;
+}): Promise<OrgUnitMappingSuggestions> {
+	const [sourceOrgUnits, destinationOrgUnits] = await Promise.all([
+		fetchOrgUnits(sourceClient, level),
+		fetchOrgUnits(destinationClient, level),
+	]);
+	logger.info(
+		`Matching ${sourceOrgUnits.length} source organisation units to ${destinationOrgUnits.length} destination organisation units`,
+	);
+	return matchOrgUnits({ sourceOrgUnits, destinationOrgUnits });
+}
+
+/**
+ * Replaces the source organisation units of data values with the mapped destination organisation units.
+ * Without a mapping the data values are returned as they are. With a mapping, values of organisation units that are
+ * not mapped are dropped and counted per organisation unit.
+ */
+export function applyOrgUnitMappings<T extends { orgUnit: string }>({
+	dataValues,
+	orgUnitMappings,
+}: {
+	dataValues: T[];
+	orgUnitMappings?: DataServiceOrgUnitMapping[];
+}): { dataValues: T[]; unmappedOrgUnits: Record<string, number> } {
+	if (isEmpty(orgUnitMappings)) {
+		return { dataValues, unmappedOrgUnits: {} };
+	}
+	const destinationIds = new Map(
+		orgUnitMappings!.map(({ sourceId, id }) => [sourceId, id]),
+	);
+	const unmappedOrgUnits: Record<string, number> = {};
+	const mappedDataValues = dataValues.flatMap((dataValue) => {
+		const orgUnit = destinationIds.get(dataValue.orgUnit);
+		if (!orgUnit) {
+			unmappedOrgUnits[dataValue.orgUnit] =
+				(unmappedOrgUnits[dataValue.orgUnit] ?? 0) + 1;
+			return [];
+		}
+		return [{ ...dataValue, orgUnit }];
+	});
+
+	return { dataValues: mappedDataValues, unmappedOrgUnits };
+}
+
+/**
+ * Replaces the mapped source organisation units of an `ou` dimension with their destination organisation units, e.g.
+ * to query the destination with the dimensions of a data items configuration. Levels and groups are kept as they are.
+ */
+export function mapOrgUnitDimension(
+	ou: string[] | undefined,
+	orgUnitMappings?: DataServiceOrgUnitMapping[],
+): string[] | undefined {
+	return ou?.map(
+		(orgUnit) =>
+			orgUnitMappings?.find(({ sourceId }) => sourceId === orgUnit)?.id ??
+			orgUnit,
+	);
+}
@@ -0,0 +1,113 @@
+import { describe, expect, test } from "bun:test";
+import { DataServiceRelativePeriod } from "@packages/shared/schemas";
+import {
+	resolvePeriods,
+	resolveRelativePeriod,
+	resolveSchedulePeriods,
+} from "@/utils/periods";
+
+const date = new Date("2024-05-15T12:00:00Z");
+
+describe("resolveSchedulePeriods", () => {
+	test("returns the periods before the current one, oldest first", () => {
+		expect(
+			resolveSchedulePeriods(
+				{ periodType: "MONTHLY", count: 3 },
+				undefined,
+				date,
+			),
+		).toEqual(["202402", "202403", "202404"]);
+	});
+
+	test("includes the current period when asked to", () => {
+		expect(
+			resolveSchedulePeriods(
+				{ periodType: "MONTHLY", count: 3, includeCurrent: true },
+				"MONTHLY",
+				date,
+			),
+		).toEqual(["202403", "202404", "202405"]);
+	});
+
+	test("returns the periods of another period type overlapping the range", () => {
+		expect(
+			resolveSchedulePeriods(
+				{ periodType: "MONTHLY", count: 3 },
+				"QUARTERLY",
+				date,
+			),
+		).toEqual(["2024Q1", "2024Q2"]);
+	});
+
+	test("rejects unknown period types", () => {
+		expect(() =>
+			resolveSchedulePeriods({ periodType: "DECADE", count: 1 }),
+		).toThrow("Unsupported period type DECADE");
+	});
+});
+
+describe("resolveRelativePeriod", () => {
+	test("resolves a keyword in its own period type", () => {
+		expect(
+			resolveRelativePeriod(
+				DataServiceRelativePeriod.LAST_4_WEEKS,
+				"WEEKLY",
+				date,
+			),
+		).toEqual(["2024W16", "2024W17", "2024W18", "2024W19"]);
+	});
+
+	test("resolves a keyword into shorter periods", () => {
+		expect(
+			resolveRelativePeriod(
+				DataServiceRelativePeriod.LAST_QUARTER,
+				"MONTHLY",
+				date,
+			),
+		).toEqual(["202401", "202402", "202403"]);
+	});
+
+	test("leaves out the periods starting after the date", () => {
+		expect(
+			resolveRelativePeriod(
+				DataServiceRelativePeriod.THIS_YEAR,
+				"QUARTERLY",
+				date,
+			),
+		).toEqual(["2024Q1", "2024Q2"]);
+	});
+
+	test("resolves financial years in the financial year type of the data items", () => {
+		expect(
+			resolveRelativePeriod(
+				DataServiceRelativePeriod.LAST_FINANCIAL_YEAR,
+				"FYJUL",
+				date,
+			),
+		).toEqual(["2022July"]);
+	});
+
+	test("resolves financial years starting in October for other period types", () => {
+		expect(
+			resolveRelativePeriod(
+				DataServiceRelativePeriod.LAST_FINANCIAL_YEAR,
+				"YEARLY",
+				date,
+			),
+		).toEqual(["2022", "2023"]);
+	});
+});
+
+describe("resolvePeriods", () => {
+	test("keeps fixed periods and removes duplicates", () => {
+		expect(
+			resolvePeriods(["LAST_MONTH", "202404", "2024Q1"], "MONTHLY", date),
+		).toEqual(["202404", "2024Q1"]);
+	});
+
+	test("rejects unsupported relative periods", () => {
+		expect(() =>
+			resolvePeriods(["LAST_2_MONTHS"], "MONTHLY", date),
+		).toThrow("Unsupported relative period LAST_2_MONTHS");
+	});
+});
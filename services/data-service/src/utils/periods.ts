@@ -0,0 +1,231 @@
+import { getFixedPeriodByDate, periodTypes } from "@dhis2/multi-calendar-dates";
+import "react"; //For the multi-calendar-dates package
+import { DateTime } from "luxon";
+import { uniq } from "lodash";
+import {
+	DataServiceRelativePeriod,
+	DataServiceSchedulePeriods,
+} from "@packages/shared/schemas";
+
+type PeriodType = (typeof periodTypes)[number];
+type FixedPeriod = ReturnType<typeof getFixedPeriodByDate>;
+
+const FINANCIAL_YEAR = "FINANCIAL_YEAR";
+/*
+ * Same default as the DHIS2 analytics financial year start system setting
+ * */
+const DEFAULT_FINANCIAL_YEAR: PeriodType = "FYOCT";
+
+type RelativePeriodSpec = Omit<DataServiceSchedulePeriods, "periodType"> & {
+	periodType: PeriodType | typeof FINANCIAL_YEAR;
+};
+
+const relativePeriodSpecs: Record<
+	DataServiceRelativePeriod,
+	RelativePeriodSpec
+> = {
+	TODAY: { periodType: "DAILY", count: 1, includeCurrent: true },
+	YESTERDAY: { periodType: "DAILY", count: 1 },
+	LAST_3_DAYS: { periodType: "DAILY", count: 3 },
+	LAST_7_DAYS: { periodType: "DAILY", count: 7 },
+	LAST_14_DAYS: { periodType: "DAILY", count: 14 },
+	LAST_30_DAYS: { periodType: "DAILY", count: 30 },
+	LAST_60_DAYS: { periodType: "DAILY", count: 60 },
+	LAST_90_DAYS: { periodType: "DAILY", count: 90 },
+	LAST_180_DAYS: { periodType: "DAILY", count: 180 },
+	THIS_WEEK: { periodType: "WEEKLY", count: 1, includeCurrent: true },
+	LAST_WEEK: { periodType: "WEEKLY", count: 1 },
+	LAST_4_WEEKS: { periodType: "WEEKLY", count: 4 },
+	LAST_12_WEEKS: { periodType: "WEEKLY", count: 12 },
+	LAST_52_WEEKS: { periodType: "WEEKLY", count: 52 },
+	THIS_BIWEEK: { periodType: "BIWEEKLY", count: 1, includeCurrent: true },
+	LAST_BIWEEK: { periodType: "BIWEEKLY", count: 1 },
+	LAST_4_BIWEEKS: { periodType: "BIWEEKLY", count: 4 },
+	THIS_MONTH: { periodType: "MONTHLY", count: 1, includeCurrent: true },
+	LAST_MONTH: { periodType: "MONTHLY", count: 1 },
+	LAST_3_MONTHS: { periodType: "MONTHLY", count: 3 },
+	LAST_6_MONTHS: { periodType: "MONTHLY", count: 6 },
+	LAST_12_MONTHS: { periodType: "MONTHLY", count: 12 },
+	THIS_BIMONTH: { periodType: "BIMONTHLY", count: 1, includeCurrent: true },
+	LAST_BIMONTH: { periodType: "BIMONTHLY", count: 1 },
+	LAST_6_BIMONTHS: { periodType: "BIMONTHLY", count: 6 },
+	THIS_QUARTER: { periodType: "QUARTERLY", count: 1, includeCurrent: true },
+	LAST_QUARTER: { periodType: "QUARTERLY", count: 1 },
+	LAST_4_QUARTERS: { periodType: "QUARTERLY", count: 4 },
+	THIS_SIX_MONTH: {
+		periodType: "SIXMONTHLY",
+		count: 1,
+		includeCurrent: true,
+	},
+	LAST_SIX_MONTH: { periodType: "SIXMONTHLY", count: 1 },
+	LAST_2_SIXMONTHS: { periodType: "SIXMONTHLY", count: 2 },
+	THIS_YEAR: { periodType: "YEARLY", count: 1, includeCurrent: true },
+	WEEKS_THIS_YEAR: { periodType: "YEARLY", count: 1, includeCurrent: true },
+	MONTHS_THIS_YEAR: { periodType: "YEARLY", count: 1, includeCurrent: true },
+	BIMONTHS_THIS_YEAR: {
+		periodType: "YEARLY",
+		count: 1,
+		includeCurrent: true,
+	},
+	QUARTERS_THIS_YEAR: {
+		periodType: "YEARLY",
+		count: 1,
+		includeCurrent: true,
+	},
+	LAST_YEAR: { periodType: "YEARLY", count: 1 },
+	MONTHS_LAST_YEAR: { periodType: "YEARLY", count: 1 },
+	QUARTERS_LAST_YEAR: { periodType: "YEARLY", count: 1 },
+	LAST_5_YEARS: { periodType: "YEARLY", count: 5 },
+	LAST_10_YEARS: { periodType: "YEARLY", count: 10 },
+	THIS_FINANCIAL_YEAR: {
+		periodType: FINANCIAL_YEAR,
+		count: 1,
+		includeCurrent: true,
+	},
+	LAST_FINANCIAL_YEAR: { periodType: FINANCIAL_YEAR, count: 1 },
+	LAST_5_FINANCIAL_YEARS: { periodType: FINANCIAL_YEAR, count: 5 },
+	LAST_10_FINANCIAL_YEARS: { periodType: FINANCIAL_YEAR, count: 10 },
+};
+
+function validatePeriodType(periodType: string): PeriodType {
+	if (!periodTypes.includes(periodType as PeriodType)) {
+		throw new Error(`Unsupported period type ${periodType}`);
+	}
+	return periodType as PeriodType;
+}
+
+function getPeriodByDate(periodType: PeriodType, date: DateTime) {
+	return getFixedPeriodByDate({
+		periodType,
+		date: date.toISODate()!,
+		calendar: "iso8601",
+	});
+}
+
+function getPreviousPeriod(periodType: PeriodType, period: FixedPeriod) {
+	return getPeriodByDate(
+		periodType,
+		DateTime.fromISO(period.startDate).minus({ days: 1 }),
+	);
+}
+
+function getRecentPeriods(
+	{ periodType, count, includeCurrent }: DataServiceSchedulePeriods,
+	date: Date,
+): FixedPeriod[] {
+	const type = validatePeriodType(periodType);
+	const periods: FixedPeriod[] = [];
+	let period = getPeriodByDate(type, DateTime.fromJSDate(date));
+	if (includeCurrent) {
+		periods.push(period);
+	}
+	while (periods.length < count) {
+		period = getPreviousPeriod(type, period);
+		periods.push(period);
+	}
+
+	return periods.reverse();
+}
+
+/*
+ * Returns every period of `periodType` overlapping the range of `periods`, and not starting after `date`, oldest first
+ * */
+function getOverlappingPeriods(
+	periods: FixedPeriod[],
+	periodType: PeriodType,
+	date: Date,
+): string[] {
+	const rangeStart = periods[0].startDate;
+	const rangeEnd = DateTime.min(
+		DateTime.fromISO(periods[periods.length - 1].endDate),
+		DateTime.fromJSDate(date),
+	);
+	const overlappingPeriods: string[] = [];
+	let period = getPeriodByDate(periodType, rangeEnd);
+	while (period.endDate >= rangeStart) {
+		overlappingPeriods.push(period.id);
+		period = getPreviousPeriod(periodType, period);
+	}
+
+	return overlappingPeriods.reverse();
+}
+
+/*
+ * Resolves a relative period spec such as "last 3 months" into fixed period ids of `periodTypeId`, oldest first.
+ * The period containing `date` is only included when `includeCurrent` is set.
+ * When `periodTypeId` differs from the period type of the spec, the periods of `periodTypeId` overlapping the resolved range are returned.
+ * */
+export function resolveSchedulePeriods(
+	spec: DataServiceSchedulePeriods,
+	periodTypeId: string = spec.periodType,
+	date: Date = new Date(),
+): string[] {
+	const periods = getRecentPeriods(spec, date);
+	if (periodTypeId === spec.periodType) {
+		return periods.map(({ id }) => id);
+	}
+	return getOverlappingPeriods(
+		periods,
+		validatePeriodType(periodTypeId),
+		date,
+	);
+}
+
+export function isRelativePeriod(
+	periodId: string,
+): periodId is DataServiceRelativePeriod {
+	return Object.values(DataServiceRelativePeriod).includes(
+		periodId as DataServiceRelativePeriod,
+	);
+}
+
+/*
+ * Resolves a DHIS2 relative period keyword into fixed periods of `periodTypeId`, oldest first.
+ * The keyword is first resolved in its own period type, then every period of `periodTypeId` overlapping that range,
+ * and not starting after `date`, is returned.
+ * */
+export function resolveRelativePeriod(
+	keyword: DataServiceRelativePeriod,
+	periodTypeId: string,
+	date: Date = new Date(),
+): string[] {
+	const targetType = validatePeriodType(periodTypeId);
+	const spec = relativePeriodSpecs[keyword];
+	const keywordType =
+		spec.periodType === FINANCIAL_YEAR
+			? targetType.startsWith("FY")
+				? targetType
+				: DEFAULT_FINANCIAL_YEAR
+			: spec.periodType;
+
+	const keywordPeriods = getRecentPeriods(
+		{ ...spec, periodType: keywordType },
+		date,
+	);
+	if (keywordType === targetType) {
+		return keywordPeriods.map(({ id }) => id);
+	}
+
+	return getOverlappingPeriods(keywordPeriods, targetType, date);
+}
+
+/*
+ * Expands relative period keywords in a runtime config period list, literal period ids are kept as they are.
+ * */
+export function resolvePeriods(
+	periods: string[],
+	periodTypeId: string,
+	date: Date = new Date(),
+): string[] {
+	return uniq(
+		periods.flatMap((periodId) => {
+			if (isRelativePeriod(periodId)) {
+				return resolveRelativePeriod(periodId, periodTypeId, date);
+			}
+			if (/^[A-Z]+(_[A-Z0-9]+)+$/.test(periodId)) {
+				throw new Error(`Unsupported relative period ${periodId}`);
+			}
+			return [periodId];
+		}),
+	);
+}
@@ -0,0 +1,112 @@
+import { describe, expect, test } from "bun:test";
+import {
+	DataServiceSuppressionPolicy,
+	DataServiceSuppressionReplacement,
+} from "@packages/shared/schemas";
+import { applySuppressionPolicy } from "@/utils/suppression";
+
+function getDataValue(categoryOptionCombo: string, value: string) {
+	return {
+		dataElement: "de",
+		categoryOptionCombo,
+		attributeOptionCombo: "aoc",
+		orgUnit: "ou",
+		period: "202401",
+		value,
+	};
+}
+
+const dropPolicy: DataServiceSuppressionPolicy = {
+	threshold: 5,
+	replacement: DataServiceSuppressionReplacement.DROP,
+};
+
+describe("applySuppressionPolicy", () => {
+	test("keeps the values when there is no policy", () => {
+		const dataValues = [getDataValue("male", "2")];
+		expect(
+			applySuppressionPolicy({ dataValues, dataItemsConfigId: "items" }),
+		).toEqual({ dataValues, suppressions: [] });
+	});
+
+	test("suppresses the smallest other value of a total with a single small value", () => {
+		const { dataValues, suppressions } = applySuppressionPolicy({
+			dataValues: [
+				getDataValue("male", "2"),
+				getDataValue("female", "10"),
+				getDataValue("other", "7"),
+				getDataValue("unknown", "0"),
+			],
+			policy: dropPolicy,
+			dataItemsConfigId: "items",
+		});
+
+		expect(dataValues).toEqual([
+			getDataValue("female", "10"),
+			getDataValue("unknown", "0"),
+		]);
+		expect(suppressions).toEqual([
+			expect.objectContaining({
+				categoryOptionCombo: "male",
+				type: "PRIMARY",
+				replacement: null,
+			}),
+			expect.objectContaining({
+				categoryOptionCombo: "other",
+				type: "COMPLEMENTARY",
+				replacement: null,
+			}),
+		]);
+	});
+
+	test("does not suppress other values when several values of a total are small", () => {
+		const { dataValues, suppressions } = applySuppressionPolicy({
+			dataValues: [
+				getDataValue("male", "2"),
+				getDataValue("female", "3"),
+				getDataValue("other", "7"),
+			],
+			policy: dropPolicy,
+			dataItemsConfigId: "items",
+		});
+
+		expect(dataValues).toEqual([getDataValue("other", "7")]);
+		expect(suppressions.map(({ type }) => type)).toEqual([
+			"PRIMARY",
+			"PRIMARY",
+		]);
+	});
+
+	test("replaces suppressed values with a label", () => {
+		const { dataValues } = applySuppressionPolicy({
+			dataValues: [
+				getDataValue("male", "2"),
+				getDataValue("female", "3"),
+			],
+			policy: {
+				threshold: 5,
+				replacement: DataServiceSuppressionReplacement.LABEL,
+			},
+			dataItemsConfigId: "items",
+		});
+
+		expect(dataValues.map(({ value }) => value)).toEqual(["<5", "<5"]);
+	});
+
+	test("rounds suppressed values to the rounding base", () => {
+		const { dataValues } = applySuppressionPolicy({
+			dataValues: [
+				getDataValue("male", "3"),
+				getDataValue("female", "12"),
+			],
+			policy: {
+				threshold: 5,
+				replacement: DataServiceSuppressionReplacement.ROUND,
+				roundingBase: 10,
+			},
+			dataItemsConfigId: "items",
+		});
+
+		expect(dataValues.map(({ value }) => value)).toEqual(["0", "10"]);
+	});
+});
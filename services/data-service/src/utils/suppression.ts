@@ -0,0 +1,125 @@
+import {
+	DataServiceSuppression,
+	DataServiceSuppressionPolicy,
+	DataServiceSuppressionReplacement,
+} from "@packages/shared/schemas";
+import { groupBy, minBy } from "lodash";
+
+type SuppressibleDataValue = {
+	dataElement: string;
+	period: string;
+	orgUnit: string;
+	value: string;
+	categoryOptionCombo?: string;
+	attributeOptionCombo?: string;
+};
+
+function getNumericValue(value: string): number | undefined {
+	if (value === undefined || value === null || value === "") {
+		return;
+	}
+	const numericValue = Number(value);
+	return Number.isFinite(numericValue) ? numericValue : undefined;
+}
+
+function getReplacement(
+	value: number,
+	policy: DataServiceSuppressionPolicy,
+): string | null {
+	switch (policy.replacement) {
+		case DataServiceSuppressionReplacement.LABEL:
+			return policy.label || `<${policy.threshold}`;
+		case DataServiceSuppressionReplacement.ROUND: {
+			const base = policy.roundingBase ?? policy.threshold;
+			return (Math.round(value / base) * base).toString();
+		}
+		default:
+			return null;
+	}
+}
+
+/**
+ * Applies the suppression policy of a data items configuration to its processed data values.
+ *
+ * Non zero values below the threshold are suppressed. Values of the same data element, organisation unit, period and
+ * attribute option combo add up to a total, so when only one of them is suppressed the smallest remaining non zero value
+ * is suppressed too.
+ */
+export function applySuppressionPolicy<T extends SuppressibleDataValue>({
+	dataValues,
+	policy,
+	dataItemsConfigId,
+}: {
+	dataValues: T[];
+	policy?: DataServiceSuppressionPolicy;
+	dataItemsConfigId: string;
+}): { dataValues: T[]; suppressions: DataServiceSuppression[] } {
+	if (!policy) {
+		return { dataValues, suppressions: [] };
+	}
+
+	const suppressed = new Map<T, DataServiceSuppression["type"]>();
+	for (const dataValue of dataValues) {
+		const value = getNumericValue(dataValue.value);
+		if (value !== undefined && value > 0 && value < policy.threshold) {
+			suppressed.set(dataValue, "PRIMARY");
+		}
+	}
+
+	const totals = groupBy(dataValues, (dataValue) =>
+		[
+			dataValue.dataElement,
+			dataValue.orgUnit,
+			dataValue.period,
+			dataValue.attributeOptionCombo ?? "",
+		].join("|"),
+	);
+	for (const totalValues of Object.values(totals)) {
+		const primaryValues = totalValues.filter((dataValue) =>
+			suppressed.has(dataValue),
+		);
+		if (primaryValues.length !== 1) {
+			continue;
+		}
+		const complementaryValue = minBy(
+			totalValues.filter((dataValue) => {
+				const value = getNumericValue(dataValue.value);
+				return (
+					!suppressed.has(dataValue) &&
+					value !== undefined &&
+					value > 0
+				);
+			}),
+			(dataValue) => Number(dataValue.value),
+		);
+		if (complementaryValue) {
+			suppressed.set(complementaryValue, "COMPLEMENTARY");
+		}
+	}
+
+	const suppressions: DataServiceSuppression[] = [];
+	const suppressedDataValues: T[] = [];
+	for (const dataValue of dataValues) {
+		const type = suppressed.get(dataValue);
+		if (!type) {
+			suppressedDataValues.push(dataValue);
+			continue;
+		}
+		const replacement = getReplacement(Number(dataValue.value), policy);
+		suppressions.push({
+			dataItemsConfigId,
+			dataElement: dataValue.dataElement,
+			categoryOptionCombo: dataValue.categoryOptionCombo,
+			attributeOptionCombo: dataValue.attributeOptionCombo,
+			orgUnit: dataValue.orgUnit,
+			period: dataValue.period,
+			type,
+			replacement,
+		});
+		if (replacement !== null) {
+			suppressedDataValues.push({ ...dataValue, value: replacement });
+		}
+	}
+
+	return { dataValues: suppressedDataValues, suppressions };
+}
@@ -36,6 +36,7 @@ export default defineConfig({
 	target: "esnext",
 	skipNodeModulesBundle: true,
 	noExternal: ["@packages/shared"],
+	external: ["bun:sqlite"],
 	onSuccess: async () => {
 		await copyFile("package.prod.json", `${outDir}/package.json`);
 		await bundleApp();